@@ -0,0 +1,52 @@
+/**
+ * Dataset loading shared by the command-line scripts
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { join, dirname, basename, extname } from 'path';
+import { fileURLToPath } from 'url';
+import type { OHLCV } from '../../src/engine/BacktestEngine';
+import type { DatasetsManifest } from '../../src/types';
+import { findDataset, getDatasetEntries } from '../../src/engine/datasetRegistry';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+export const ROOT_DIR = join(__dirname, '..', '..');
+export const ASSETS_DIR = join(ROOT_DIR, 'assets', 'market');
+
+export interface MarketDataFile {
+  symbol: string;
+  name: string;
+  data: OHLCV[];
+}
+
+export function readDatasets(): DatasetsManifest {
+  return JSON.parse(readFileSync(join(ASSETS_DIR, 'datasets.json'), 'utf-8'));
+}
+
+/**
+ * Resolve a dataset key (or a path to a data file) to its key and file path
+ */
+export function resolveDataset(keyOrPath: string): { key: string; path: string } {
+  if (existsSync(keyOrPath)) {
+    return { key: basename(keyOrPath, extname(keyOrPath)), path: keyOrPath };
+  }
+
+  const entry = findDataset(getDatasetEntries(readDatasets()), keyOrPath);
+  if (!entry) {
+    throw new Error(`Unknown dataset: ${keyOrPath} (see --list)`);
+  }
+  return { key: entry.key, path: join(ROOT_DIR, entry.path) };
+}
+
+export function readMarketData(path: string): MarketDataFile {
+  return JSON.parse(readFileSync(path, 'utf-8'));
+}
+
+/**
+ * An option given inline as JSON or as the path of a JSON file
+ */
+export function parseJsonOption<T>(value: string | undefined, fallback: T): T {
+  if (!value) return fallback;
+  return JSON.parse(existsSync(value) ? readFileSync(value, 'utf-8') : value);
+}
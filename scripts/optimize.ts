@@ -0,0 +1,278 @@
+/**
+ * Sweep a reference strategy's parameters over a dataset
+ *
+ * Runs every combination of the given parameter values (or a random sample
+ * of them) through BacktestEngine, spread across worker threads, and prints
+ * the ranking together with the stability of the winning region and the
+ * in-sample vs out-of-sample comparison. With --walk-forward, parameters are
+ * instead re-chosen on each rolling train window and traded on the test
+ * window after it.
+ *
+ * Run with: npx tsx scripts/optimize.ts [options]
+ *
+ *   --dataset <key|file>     Dataset key from datasets.json or a JSON file (default: sp500)
+ *   --strategy <kind>        Reference strategy (default: sma_crossover)
+ *   --param <name=values>    Candidate values, as a list (fast=5,10,20) or a range
+ *                            (leverage=1:3:0.5); repeat for each parameter
+ *   --objective <name>       sharpe, cagr or calmar (default: sharpe)
+ *   --search <grid|random>   Full grid or a random sample (default: grid)
+ *   --samples <n>            Sets to draw with --search random (default: 50)
+ *   --seed <n>               Seed for the --search random sample (default: 1)
+ *   --split <ratio>          Share of bars used in sample (default: 0.7)
+ *   --walk-forward           Walk forward instead of a single split
+ *   --train <bars>           Train window with --walk-forward (default: 120)
+ *   --test <bars>            Test window with --walk-forward (default: 40)
+ *   --anchored               Grow train windows from the first bar instead of rolling them
+ *   --workers <n>            Worker threads (default: CPU count, 1 = no workers)
+ *   --top <n>                Rows of the ranking to print (default: 10)
+ *   --config <json|file>     Engine config overrides
+ *   --json <file>            Also write the full report as JSON
+ *
+ * Example:
+ *   npx tsx scripts/optimize.ts --dataset bitcoin --param fast=5,10,20 --param slow=50:200:50 --param leverage=1,2
+ */
+
+import { writeFileSync } from 'fs';
+import { createRequire } from 'module';
+import { availableParallelism } from 'os';
+import { pathToFileURL } from 'url';
+import { parseArgs } from 'util';
+import { Worker, isMainThread, parentPort, workerData } from 'worker_threads';
+import type { OHLCV } from '../src/engine/BacktestEngine';
+import {
+  createReferenceRule,
+  enumerateGrid,
+  evaluateParameters,
+  getInSampleConfig,
+  sampleParameters,
+  summarizeRuns,
+} from '../src/engine/optimizer';
+import type {
+  OptimizationObjective,
+  OptimizationReport,
+  OptimizationRun,
+  OptimizerOptions,
+  ParameterSet,
+  ParameterSpace,
+} from '../src/engine/optimizer';
+import type { ReferenceStrategyKind } from '../src/engine/strategies';
+import { getPeriodsPerYear } from '../src/engine/analytics';
+import { createSeededRandom, DEFAULT_SEED } from '../src/engine/ids';
+import { createWalkForwardSplits, evaluateWindow, summarizeWalkForward } from '../src/engine/walkForward';
+import type { WalkForwardReport, WalkForwardSplit, WalkForwardWindow } from '../src/engine/walkForward';
+import { parseJsonOption, readMarketData, resolveDataset } from './lib/datasets';
+
+interface WorkerJob {
+  path: string;
+  strategy: ReferenceStrategyKind;
+  sets: ParameterSet[];
+  splits?: WalkForwardSplit[];     // Walk-forward windows to evaluate instead of single runs
+  options: OptimizerOptions;
+}
+
+// ============================================
+// WORKER
+// ============================================
+
+function runJob(job: WorkerJob, data: OHLCV[] = readMarketData(job.path).data): (OptimizationRun | WalkForwardWindow)[] {
+  const rule = createReferenceRule(job.strategy);
+  if (job.splits) {
+    return job.splits.map(split => evaluateWindow(data, rule, job.sets, split, job.options));
+  }
+  return job.sets.map(params => evaluateParameters(data, rule, params, job.options));
+}
+
+/**
+ * Run a job on a worker thread. Workers load this file again, through the
+ * tsx this script was installed with (not whatever the working directory has).
+ */
+function runInWorker<T>(job: WorkerJob): Promise<T[]> {
+  const tsx = pathToFileURL(createRequire(import.meta.url).resolve('tsx/esm/api')).href;
+  const code = `import(${JSON.stringify(tsx)}).then(({ register }) => { register(); return import(${JSON.stringify(import.meta.url)}); });`;
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(code, { eval: true, workerData: job });
+    worker.once('message', (results: T[]) => {
+      resolve(results);
+      worker.terminate();
+    });
+    worker.once('error', reject);
+    // Ignored once the results are in; otherwise the worker died without sending any
+    worker.once('exit', code => reject(new Error(`Worker exited with code ${code} before sending results`)));
+  });
+}
+
+// ============================================
+// OPTIONS
+// ============================================
+
+/**
+ * Parse "name=1,2,3" or "name=start:end:step"
+ */
+function parseParameter(spec: string): [string, number[]] {
+  const [name, values] = spec.split('=');
+  if (!name || !values) {
+    throw new Error(`Invalid --param ${spec} (expected name=1,2,3 or name=start:end:step)`);
+  }
+
+  if (values.includes(':')) {
+    const [start, end, step = 1] = values.split(':').map(Number);
+    const range: number[] = [];
+    for (let value = start; value <= end + 1e-9; value += step) {
+      range.push(Math.round(value * 1e6) / 1e6);
+    }
+    return [name, range];
+  }
+
+  return [name, values.split(',').map(Number)];
+}
+
+// ============================================
+// REPORT
+// ============================================
+
+function formatParams(params: ParameterSet): string {
+  return Object.entries(params).map(([name, value]) => `${name}=${value}`).join(' ');
+}
+
+function printReport(report: OptimizationReport, top: number): void {
+  const { objective, stability, overfitting } = report;
+  const f = (value: number) => value.toFixed(2).padStart(8);
+  // Neighbours give up more than half of the best objective's size
+  const isolated = stability.drop > Math.abs(report.best.inSample[objective]) / 2;
+
+  console.log(`\nTop ${Math.min(top, report.runs.length)} of ${report.runs.length} by in-sample ${objective}:\n`);
+  console.log(`  ${'IS'.padStart(8)} ${'OOS'.padStart(8)} ${'Trades'.padStart(7)}  Parameters`);
+  for (const run of report.runs.slice(0, top)) {
+    console.log(`  ${f(run.inSample[objective])} ${f(run.outOfSample[objective])} ${String(run.trades).padStart(7)}  ${formatParams(run.params)}`);
+  }
+
+  console.log(`\nBest: ${formatParams(report.best.params)}`);
+  console.log('\nStability of the winning region:');
+  console.log(`  Neighbours run       ${stability.neighbors}`);
+  console.log(`  Neighbour mean       ${stability.meanObjective.toFixed(2)}`);
+  console.log(`  Neighbour worst      ${stability.worstObjective.toFixed(2)}`);
+  console.log(`  Best - mean          ${stability.drop.toFixed(2)}${isolated ? '  <- isolated peak' : ''}`);
+
+  console.log(`\nIn sample vs out of sample (split at bar ${report.splitIndex}):`);
+  console.log(`  In-sample ${objective.padEnd(10)} ${overfitting.inSampleObjective.toFixed(2)}`);
+  console.log(`  Out-of-sample        ${overfitting.outOfSampleObjective.toFixed(2)}`);
+  console.log(`  Degradation          ${overfitting.degradation.toFixed(2)}`);
+  console.log(`  OOS rank of winner   ${overfitting.outOfSampleRank} of ${report.runs.length}`);
+  console.log(`  IS/OOS rank corr.    ${overfitting.rankCorrelation.toFixed(2)}${overfitting.rankCorrelation < 0.2 ? '  <- in-sample ranking does not carry over' : ''}`);
+}
+
+function printWalkForward(report: WalkForwardReport): void {
+  const f = (value: number) => value.toFixed(2).padStart(8);
+
+  console.log(`\n${report.windows.length} walk-forward windows (objective: ${report.objective}):\n`);
+  console.log(`  ${'Test from'.padEnd(10)} ${'to'.padEnd(10)} ${'IS CAGR'.padStart(8)} ${'OOS CAGR'.padStart(8)} ${'WFE'.padStart(8)}  Parameters`);
+  for (const w of report.windows) {
+    console.log(`  ${w.testStartDate} ${w.testEndDate} ${f(w.inSample.cagr)} ${f(w.outOfSample.cagr)} ${f(w.efficiency)}  ${formatParams(w.params)}`);
+  }
+
+  const { outOfSample } = report;
+  console.log('\nStitched out-of-sample curve:');
+  console.log(`  Total return         ${outOfSample.totalReturn.toFixed(2)}%`);
+  console.log(`  CAGR                 ${outOfSample.cagr.toFixed(2)}%`);
+  console.log(`  Sharpe               ${outOfSample.sharpe.toFixed(2)}`);
+  console.log(`  Max drawdown         ${outOfSample.maxDrawdown.toFixed(2)}%`);
+  console.log(`  Walk-forward eff.    ${report.efficiency.toFixed(2)}${report.efficiency < 0.5 ? '  <- the fitted edge does not carry forward' : ''}`);
+  console.log(`  Parameter changes    ${report.parameterChanges} of ${Math.max(0, report.windows.length - 1)}`);
+}
+
+// ============================================
+// MAIN
+// ============================================
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      dataset: { type: 'string', default: 'sp500' },
+      strategy: { type: 'string', default: 'sma_crossover' },
+      param: { type: 'string', multiple: true, default: [] },
+      objective: { type: 'string', default: 'sharpe' },
+      search: { type: 'string', default: 'grid' },
+      samples: { type: 'string', default: '50' },
+      seed: { type: 'string', default: String(DEFAULT_SEED) },
+      split: { type: 'string', default: '0.7' },
+      'walk-forward': { type: 'boolean', default: false },
+      train: { type: 'string', default: '120' },
+      test: { type: 'string', default: '40' },
+      anchored: { type: 'boolean', default: false },
+      workers: { type: 'string', default: String(availableParallelism()) },
+      top: { type: 'string', default: '10' },
+      config: { type: 'string' },
+      json: { type: 'string' },
+    },
+  });
+
+  const space: ParameterSpace = Object.fromEntries(values.param.map(parseParameter));
+  if (Object.keys(space).length === 0) {
+    throw new Error('Give at least one --param, e.g. --param fast=5,10,20');
+  }
+  if (!['sharpe', 'cagr', 'calmar'].includes(values.objective)) {
+    throw new Error(`Unknown objective: ${values.objective} (sharpe, cagr or calmar)`);
+  }
+
+  const { key, path } = resolveDataset(values.dataset);
+  const data = readMarketData(path).data;
+  const options: OptimizerOptions = {
+    objective: values.objective as OptimizationObjective,
+    inSampleRatio: Number(values.split),
+    config: parseJsonOption(values.config, {}),
+    periodsPerYear: getPeriodsPerYear(data.map(bar => bar.date)),
+  };
+
+  const sets = values.search === 'random'
+    ? sampleParameters(space, Number(values.samples), createSeededRandom(Number(values.seed)))
+    : enumerateGrid(space);
+  const strategy = values.strategy as ReferenceStrategyKind;
+  const splits = values['walk-forward']
+    ? createWalkForwardSplits(data.length, Number(values.train), Number(values.test), values.anchored)
+    : undefined;
+  if (splits && splits.length === 0) {
+    throw new Error(`${key} has ${data.length} bars, too few for a ${values.train}-bar train window`);
+  }
+
+  // Fit the in-sample regime model once, not once per set in every worker;
+  // walk-forward windows each fit their own on their train bars
+  const jobOptions = splits ? options : { ...options, config: getInSampleConfig(data, options) };
+
+  // Workers split the parameter sets, or the windows when walking forward
+  const workers = Math.max(1, Math.min(Number(values.workers), (splits ?? sets).length));
+  const chunk = <T>(list: T[], i: number) => list.filter((_, j) => j % workers === i);
+  const job = (i: number): WorkerJob => splits
+    ? { path, strategy, sets, splits: chunk(splits, i), options: jobOptions }
+    : { path, strategy, sets: chunk(sets, i), options: jobOptions };
+
+  const mode = splits ? `${splits.length} walk-forward windows of ${sets.length} sets` : `${sets.length} parameter sets`;
+  console.log(`Optimizing ${strategy} on ${key}: ${mode}, ${workers} worker(s)`);
+
+  const results = workers === 1
+    ? runJob(job(0), data)
+    : (await Promise.all(Array.from({ length: workers }, (_, i) => runInWorker<OptimizationRun | WalkForwardWindow>(job(i))))).flat();
+
+  let report: OptimizationReport | WalkForwardReport;
+  if (splits) {
+    const windows = (results as WalkForwardWindow[]).sort((a, b) => a.testStart - b.testStart);
+    report = summarizeWalkForward(data, windows, options);
+    printWalkForward(report);
+  } else {
+    report = summarizeRuns(results as OptimizationRun[], space, data.length, options);
+    printReport(report, Number(values.top));
+  }
+
+  if (values.json) {
+    writeFileSync(values.json, JSON.stringify(report, null, 2));
+    console.log(`\nSaved report to ${values.json}`);
+  }
+}
+
+if (isMainThread) {
+  main().catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+} else {
+  parentPort!.postMessage(runJob(workerData as WorkerJob));
+}
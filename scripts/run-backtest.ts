@@ -0,0 +1,232 @@
+/**
+ * Run backtests from the command line, without a browser
+ *
+ * Loads datasets from assets/market, drives BacktestEngine with one of the
+ * reference strategies sized by a strategy preset, and prints the engine's
+ * statistics, performance analytics and metrics relative to buy-and-hold.
+ * Optionally writes those metrics, the equity curve, trades and orders to
+ * CSV or JSON.
+ *
+ * Run with: npx tsx scripts/run-backtest.ts [options]
+ *
+ *   --dataset <key|file>   Dataset key from datasets.json or a JSON file (default: sp500)
+ *   --all                  Run every dataset in datasets.json
+ *   --scenarios            With --all, include the historical scenarios
+ *   --strategy <kind>      Reference strategy (default: buy_and_hold)
+ *   --preset <name>        Strategy preset that sizes it (default: Balanced)
+ *   --config <json|file>   Engine config overrides, e.g. '{"commission":1}'
+ *   --benchmark <key>      Compare with holding this dataset instead of the traded one
+ *   --out <dir>            Write results to this directory
+ *   --format <csv|json>    Output format with --out (default: csv)
+ *   --list                 List datasets, strategies and presets
+ *
+ * Exits with code 1 if any run fails, so batch runs can gate CI.
+ */
+
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { parseArgs } from 'util';
+import { BacktestEngine } from '../src/engine/BacktestEngine';
+import type { EngineConfig } from '../src/engine/BacktestEngine';
+import { createReferenceStrategies } from '../src/engine/strategies';
+import type { ReferenceStrategyKind } from '../src/engine/strategies';
+import { STRATEGY_PRESETS } from '../src/types';
+import { parseJsonOption, readDatasets, readMarketData, resolveDataset } from './lib/datasets';
+
+interface RunOptions {
+  strategy: ReferenceStrategyKind;
+  preset: string;
+  config: Partial<EngineConfig>;
+  benchmark?: string;
+  out?: string;
+  format: 'csv' | 'json';
+}
+
+// Metrics of one run, kept apart by source: their key sets overlap
+// (totalReturn, maxDrawdown, winRate) and mean different things
+type RunMetrics = Record<'statistics' | 'analytics' | 'relative', Record<string, number | null>>;
+
+// ============================================
+// OUTPUT
+// ============================================
+
+function toCsv(rows: object[]): string {
+  if (rows.length === 0) return '';
+
+  const columns = Object.keys(rows[0]);
+  const escape = (value: unknown): string => {
+    if (value === undefined || value === null) return '';
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  const lines = rows.map(row => columns.map(c => escape((row as Record<string, unknown>)[c])).join(','));
+  return [columns.join(','), ...lines].join('\n') + '\n';
+}
+
+function writeResults(engine: BacktestEngine, name: string, metrics: RunMetrics, options: RunOptions): void {
+  const outDir = options.out!;
+  mkdirSync(outDir, { recursive: true });
+
+  const equity = engine.getTickHistory().map(tick => ({
+    index: tick.index,
+    date: tick.timestamp,
+    price: tick.price,
+    equity: tick.portfolioValue,
+    benchmark: tick.benchmarkValue,
+    returnPercent: tick.accumulatedReturn,
+  }));
+  const trades = engine.getClosedPositions();
+  const orders = engine.getOrderHistory();
+
+  if (options.format === 'json') {
+    const result = {
+      ...metrics,
+      equity,
+      trades,
+      orders,
+    };
+    writeFileSync(join(outDir, `${name}.json`), JSON.stringify(result, null, 2));
+  } else {
+    const metricRows = Object.entries(metrics).flatMap(([group, values]) =>
+      Object.entries(values).map(([metric, value]) => ({ group, metric, value }))
+    );
+    writeFileSync(join(outDir, `${name}-metrics.csv`), toCsv(metricRows));
+    writeFileSync(join(outDir, `${name}-equity.csv`), toCsv(equity));
+    writeFileSync(join(outDir, `${name}-trades.csv`), toCsv(trades));
+    writeFileSync(join(outDir, `${name}-orders.csv`), toCsv(orders));
+  }
+  console.log(`  Saved ${name} results to ${outDir}`);
+}
+
+function formatValue(value: number | null): string {
+  if (value === null) return '-';
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+}
+
+// ============================================
+// RUNNING
+// ============================================
+
+function runBacktest(datasetKey: string, options: RunOptions): RunMetrics {
+  const { key, path } = resolveDataset(datasetKey);
+  const file = readMarketData(path);
+
+  const preset = STRATEGY_PRESETS.find(p => p.name.toLowerCase() === options.preset.toLowerCase());
+  if (!preset) {
+    throw new Error(`Unknown preset: ${options.preset} (see --list)`);
+  }
+
+  const strategy = createReferenceStrategies(preset)[options.strategy];
+  if (!strategy) {
+    throw new Error(`Unknown strategy: ${options.strategy} (see --list)`);
+  }
+
+  const errors: string[] = [];
+  const engine = new BacktestEngine({
+    ...options.config,
+    ...(options.benchmark && { benchmarkSource: 'index' as const }),
+  });
+  engine.setEvents({ onError: (error) => errors.push(error) });
+  engine.loadData(file.data);
+  if (options.benchmark) {
+    engine.loadBenchmark(readMarketData(resolveDataset(options.benchmark).path).data);
+  }
+  engine.runStrategy(strategy);
+
+  if (errors.length > 0) {
+    console.warn(`  ${errors.length} engine error(s), first: ${errors[0]}`);
+  }
+  const metrics: RunMetrics = {
+    statistics: { ...engine.getStatistics() },
+    analytics: { ...engine.getAnalytics() },
+    relative: { ...engine.getRelativeMetrics() },
+  };
+  if (options.out) {
+    writeResults(engine, `${key}-${options.strategy}`, metrics, options);
+  }
+  return metrics;
+}
+
+function printList(): void {
+  const { datasets, scenarios } = readDatasets();
+  console.log('Datasets:');
+  datasets.forEach(d => console.log(`  ${d.key.padEnd(16)} ${d.symbol.padEnd(8)} ${d.name}`));
+  console.log('Scenarios:');
+  scenarios.forEach(d => console.log(`  ${d.key.padEnd(16)} ${d.symbol.padEnd(8)} ${d.name}`));
+  console.log('Strategies:');
+  Object.entries(createReferenceStrategies(STRATEGY_PRESETS[0])).forEach(([kind, s]) =>
+    console.log(`  ${kind.padEnd(18)} ${s.name}`)
+  );
+  console.log('Presets:');
+  STRATEGY_PRESETS.forEach(p => console.log(`  ${p.name.padEnd(13)} ${p.leverage}x, ${p.cashBuffer * 100}% cash`));
+}
+
+function main(): void {
+  const { values } = parseArgs({
+    options: {
+      dataset: { type: 'string', default: 'sp500' },
+      all: { type: 'boolean', default: false },
+      scenarios: { type: 'boolean', default: false },
+      strategy: { type: 'string', default: 'buy_and_hold' },
+      preset: { type: 'string', default: 'Balanced' },
+      config: { type: 'string' },
+      benchmark: { type: 'string' },
+      out: { type: 'string' },
+      format: { type: 'string', default: 'csv' },
+      list: { type: 'boolean', default: false },
+    },
+  });
+
+  if (values.list) {
+    printList();
+    return;
+  }
+
+  if (values.format !== 'csv' && values.format !== 'json') {
+    console.error(`Unknown format: ${values.format} (csv or json)`);
+    process.exit(1);
+  }
+
+  const options: RunOptions = {
+    strategy: values.strategy as ReferenceStrategyKind,
+    preset: values.preset,
+    config: parseJsonOption(values.config, {}),
+    benchmark: values.benchmark,
+    out: values.out,
+    format: values.format,
+  };
+
+  let keys = [values.dataset];
+  if (values.all) {
+    const { datasets, scenarios } = readDatasets();
+    keys = [...datasets, ...(values.scenarios ? scenarios : [])].map(d => d.key);
+  }
+
+  console.log(`Strategy: ${options.strategy} | Preset: ${options.preset}\n`);
+
+  let failures = 0;
+  for (const key of keys) {
+    console.log(`=== ${key} ===`);
+    try {
+      const metrics = runBacktest(key, options);
+      for (const [group, values] of Object.entries(metrics)) {
+        console.log(`  ${group}:`);
+        for (const [name, value] of Object.entries(values)) {
+          console.log(`    ${name.padEnd(20)} ${formatValue(value)}`);
+        }
+      }
+    } catch (error) {
+      failures++;
+      console.error(`  Failed: ${error instanceof Error ? error.message : error}`);
+    }
+    console.log('');
+  }
+
+  if (failures > 0) {
+    console.error(`${failures} of ${keys.length} run(s) failed`);
+    process.exit(1);
+  }
+}
+
+main();
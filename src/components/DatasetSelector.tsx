@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { useAppState } from '../context/AppStateProvider';
+import {
+  DATASET_CATEGORIES,
+  DATASET_DIFFICULTIES,
+  filterDatasets,
+  type DatasetFilter,
+} from '../engine/datasetRegistry';
+import type { DatasetDifficulty, DatasetEntry } from '../types';
+
+const DIFFICULTY_COLORS: Record<DatasetDifficulty, string> = {
+  easy: '#10b981',
+  medium: '#66b3ff',
+  hard: '#f59e0b',
+  extreme: '#ef4444',
+};
+
+interface DatasetSelectorProps {
+  buttonStyle: React.CSSProperties;
+}
+
+const DatasetSelector: React.FC<DatasetSelectorProps> = ({ buttonStyle }) => {
+  const { datasets, datasetKey, loadDataset } = useAppState();
+  const [isOpen, setIsOpen] = useState(false);
+  const [filter, setFilter] = useState<DatasetFilter>({});
+
+  // Only offer filters that match something
+  const difficulties = DATASET_DIFFICULTIES.filter(d => datasets.some(entry => entry.difficulty === d));
+  const categories = DATASET_CATEGORIES.filter(c => datasets.some(entry => entry.category === c));
+  const shown = filterDatasets(datasets, filter);
+
+  const handleSelect = (entry: DatasetEntry) => {
+    setIsOpen(false);
+    if (entry.key !== datasetKey) {
+      loadDataset(entry.key);
+    }
+  };
+
+  const chipStyle = (active: boolean): React.CSSProperties => ({
+    padding: '2px 8px',
+    border: `1px solid ${active ? '#66b3ff' : '#333'}`,
+    borderRadius: 10,
+    backgroundColor: active ? 'rgba(102, 179, 255, 0.2)' : 'transparent',
+    color: active ? '#fff' : '#888',
+    cursor: 'pointer',
+    fontSize: 11,
+    fontFamily: 'monospace',
+    textTransform: 'capitalize',
+  });
+
+  return (
+    <>
+      <button onClick={() => setIsOpen(open => !open)} style={{ ...buttonStyle, color: '#fbbf24' }}>
+        Datasets
+      </button>
+
+      {isOpen && (
+        <div
+          style={{
+            position: 'fixed',
+            top: '50%',
+            left: '50%',
+            transform: 'translate(-50%, -50%)',
+            width: 640,
+            maxWidth: '92vw',
+            maxHeight: '85vh',
+            overflowY: 'auto',
+            padding: 16,
+            backgroundColor: 'rgba(0, 0, 0, 0.92)',
+            border: '1px solid #333',
+            borderRadius: 8,
+            color: '#fff',
+            fontFamily: 'monospace',
+            fontSize: 12,
+            textAlign: 'left',
+            zIndex: 110,
+          }}
+        >
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 10 }}>
+            <span style={{ fontSize: 14, fontWeight: 'bold' }}>Choose a market</span>
+            <button onClick={() => setIsOpen(false)} style={{ ...buttonStyle, backgroundColor: '#333', color: '#fff' }}>
+              Close
+            </button>
+          </div>
+
+          {/* Filters */}
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6, marginBottom: 6 }}>
+            <button onClick={() => setFilter({ ...filter, difficulty: undefined })} style={chipStyle(!filter.difficulty)}>
+              Any difficulty
+            </button>
+            {difficulties.map(difficulty => (
+              <button
+                key={difficulty}
+                onClick={() => setFilter({ ...filter, difficulty })}
+                style={chipStyle(filter.difficulty === difficulty)}
+              >
+                {difficulty}
+              </button>
+            ))}
+          </div>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6, marginBottom: 12 }}>
+            <button onClick={() => setFilter({ ...filter, category: undefined })} style={chipStyle(!filter.category)}>
+              Any category
+            </button>
+            {categories.map(category => (
+              <button
+                key={category}
+                onClick={() => setFilter({ ...filter, category })}
+                style={chipStyle(filter.category === category)}
+              >
+                {category}
+              </button>
+            ))}
+          </div>
+
+          {/* Datasets */}
+          {shown.length === 0 && <div style={{ color: '#666' }}>No dataset matches these filters.</div>}
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(190px, 1fr))', gap: 8 }}>
+            {shown.map(entry => (
+              <button
+                key={entry.key}
+                onClick={() => handleSelect(entry)}
+                style={{
+                  padding: 10,
+                  border: `1px solid ${entry.key === datasetKey ? '#fbbf24' : '#333'}`,
+                  borderRadius: 6,
+                  backgroundColor: 'rgba(255, 255, 255, 0.04)',
+                  color: '#fff',
+                  cursor: 'pointer',
+                  textAlign: 'left',
+                  fontFamily: 'monospace',
+                  fontSize: 11,
+                  lineHeight: 1.5,
+                }}
+              >
+                <div style={{ display: 'flex', justifyContent: 'space-between', gap: 6 }}>
+                  <span style={{ fontWeight: 'bold', fontSize: 12 }}>{entry.name}</span>
+                  <span style={{ color: DIFFICULTY_COLORS[entry.difficulty], textTransform: 'uppercase' }}>
+                    {entry.difficulty}
+                  </span>
+                </div>
+                <div style={{ color: '#888' }}>
+                  {entry.symbol} | {entry.category}
+                </div>
+                {entry.historicalEvent && <div style={{ color: '#fbbf24' }}>{entry.historicalEvent}</div>}
+                {entry.dateRange && <div style={{ color: '#888' }}>{entry.dateRange}</div>}
+                <div style={{ color: '#aaa', marginTop: 4 }}>{entry.description}</div>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default DatasetSelector;
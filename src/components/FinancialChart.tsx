@@ -7,15 +7,22 @@ import { CandlestickSeries, BarSeries, LineSeries } from '@react-financial-chart
 import { CrossHairCursor, MouseCoordinateX, MouseCoordinateY } from '@react-financial-charts/coordinates';
 import { OHLCTooltip, MovingAverageTooltip } from '@react-financial-charts/tooltip';
 import { discontinuousTimeScaleProvider } from '@react-financial-charts/scales';
-import { ema, sma } from '@react-financial-charts/indicators';
 import { useAppState } from '../context/AppStateProvider';
+import { DEFAULT_INDICATOR_SETTINGS } from '../engine/technicalIndicators';
 import type { ChartCandle } from '../types';
 
+// Portfolio and benchmark equity on the price axis, merged into each candle
+interface BenchmarkPoint {
+  equityLine?: number;
+  benchmarkLine?: number;
+}
+
 interface FinancialChartProps {
   width: number;
   height: number;
   showVolume?: boolean;
   showMA?: boolean;
+  showBenchmark?: boolean;
 }
 
 const FinancialChart: React.FC<FinancialChartProps> = ({
@@ -23,61 +30,40 @@ const FinancialChart: React.FC<FinancialChartProps> = ({
   height,
   showVolume = true,
   showMA = true,
+  showBenchmark = true,
 }) => {
   // Get state from unified provider - single source of truth
-  const { market, timeline, playback } = useAppState();
+  const { market, timeline, backtest, playback } = useAppState();
 
   // Use visible candles from state (already computed up to current index)
   const data = market.visibleCandles;
   const activeIndex = timeline.currentIndex;
 
-  // Calculate moving averages
-  const ema12 = useMemo(
-    () =>
-      ema()
-        .id(1)
-        .options({ windowSize: 12 })
-        .merge((d: any, c: any) => {
-          d.ema12 = c;
-        })
-        .accessor((d: any) => d.ema12),
-    []
-  );
-
-  const ema26 = useMemo(
-    () =>
-      ema()
-        .id(2)
-        .options({ windowSize: 26 })
-        .merge((d: any, c: any) => {
-          d.ema26 = c;
-        })
-        .accessor((d: any) => d.ema26),
-    []
-  );
-
-  const sma20 = useMemo(
-    () =>
-      sma()
-        .id(3)
-        .options({ windowSize: 20 })
-        .merge((d: any, c: any) => {
-          d.sma20 = c;
-        })
-        .accessor((d: any) => d.sma20),
-    []
-  );
+  // Moving averages from the shared indicator pipeline (the numbers the road uses)
+  const smaAccessor = (d: ChartCandle) => d.indicators?.sma ?? NaN;
+  const emaFastAccessor = (d: ChartCandle) => d.indicators?.emaFast ?? NaN;
+  const emaSlowAccessor = (d: ChartCandle) => d.indicators?.emaSlow ?? NaN;
 
-  // Process data with indicators
+  // Merge in the portfolio and benchmark lines
   const calculatedData = useMemo(() => {
     if (!data || data.length === 0) return [];
 
     let processedData = [...data];
-    if (showMA) {
-      processedData = ema12(sma20(ema26(processedData)));
+    if (showBenchmark) {
+      // Portfolio and buy-and-hold benchmark, rebased onto the price axis at the first close
+      const ticks = new Map(backtest.tickHistory.map(tick => [tick.index, tick]));
+      const scale = data[0].close / backtest.portfolio.initialCapital;
+      processedData = processedData.map((d, i) => {
+        const tick = ticks.get(i);
+        return {
+          ...d,
+          equityLine: tick ? tick.portfolioValue * scale : undefined,
+          benchmarkLine: tick?.benchmarkValue !== undefined ? tick.benchmarkValue * scale : undefined,
+        };
+      });
     }
     return processedData;
-  }, [data, showMA, ema12, ema26, sma20]);
+  }, [data, showBenchmark, backtest.tickHistory, backtest.portfolio.initialCapital]);
 
   // Create scale provider
   const xScaleProvider = useMemo(
@@ -103,6 +89,13 @@ const FinancialChart: React.FC<FinancialChartProps> = ({
     return [xAccessor(chartData[startIdx]), xAccessor(chartData[endIdx])];
   }, [chartData, xAccessor]);
 
+  // Portfolio return minus the benchmark's, at the last tick
+  const vsBenchmark = useMemo(() => {
+    const tick = backtest.tickHistory[backtest.tickHistory.length - 1];
+    if (!tick || tick.benchmarkValue === undefined) return null;
+    return ((tick.portfolioValue - tick.benchmarkValue) / backtest.portfolio.initialCapital) * 100;
+  }, [backtest.tickHistory, backtest.portfolio.initialCapital]);
+
   // Get regime color
   const regimeColor = useMemo(() => {
     switch (market.regime) {
@@ -180,6 +173,15 @@ const FinancialChart: React.FC<FinancialChartProps> = ({
             {market.currentReturn >= 0 ? '+' : ''}
             {market.currentReturn.toFixed(2)}%
           </span>
+          {showBenchmark && vsBenchmark !== null && (
+            <>
+              <span style={{ color: '#888' }}> | vs Hold: </span>
+              <span style={{ color: vsBenchmark >= 0 ? '#fbbf24' : '#ef4444', fontWeight: 'bold' }}>
+                {vsBenchmark >= 0 ? '+' : ''}
+                {vsBenchmark.toFixed(2)}%
+              </span>
+            </>
+          )}
         </div>
 
         {/* Right: Regime indicator */}
@@ -210,7 +212,11 @@ const FinancialChart: React.FC<FinancialChartProps> = ({
         seriesName="Financial Drive"
       >
         {/* Main price chart */}
-        <Chart id={1} yExtents={(d: any) => [d.high, d.low]} height={chartHeight}>
+        <Chart
+          id={1}
+          yExtents={(d: any) => [d.high, d.low, d.equityLine ?? d.high, d.benchmarkLine ?? d.low]}
+          height={chartHeight}
+        >
           <XAxis axisAt="bottom" orient="bottom" ticks={6} strokeStyle="#444" />
           <YAxis axisAt="right" orient="right" ticks={5} strokeStyle="#444" />
 
@@ -222,9 +228,22 @@ const FinancialChart: React.FC<FinancialChartProps> = ({
 
           {showMA && (
             <>
-              <LineSeries yAccessor={sma20.accessor()} strokeStyle="#ff7f0e" strokeWidth={1} />
-              <LineSeries yAccessor={ema12.accessor()} strokeStyle="#2196f3" strokeWidth={1} />
-              <LineSeries yAccessor={ema26.accessor()} strokeStyle="#e91e63" strokeWidth={1} />
+              <LineSeries yAccessor={smaAccessor} strokeStyle="#ff7f0e" strokeWidth={1} />
+              <LineSeries yAccessor={emaFastAccessor} strokeStyle="#2196f3" strokeWidth={1} />
+              <LineSeries yAccessor={emaSlowAccessor} strokeStyle="#e91e63" strokeWidth={1} />
+            </>
+          )}
+
+          {showBenchmark && (
+            <>
+              {/* Ghost line: what holding the benchmark would have done */}
+              <LineSeries
+                yAccessor={(d: BenchmarkPoint) => d.benchmarkLine}
+                strokeStyle="rgba(255, 255, 255, 0.35)"
+                strokeDasharray="ShortDash"
+                strokeWidth={2}
+              />
+              <LineSeries yAccessor={(d: BenchmarkPoint) => d.equityLine} strokeStyle="#fbbf24" strokeWidth={2} />
             </>
           )}
 
@@ -236,9 +255,9 @@ const FinancialChart: React.FC<FinancialChartProps> = ({
             <MovingAverageTooltip
               origin={[-38, 15]}
               options={[
-                { yAccessor: sma20.accessor(), type: 'SMA', stroke: '#ff7f0e', windowSize: 20 },
-                { yAccessor: ema12.accessor(), type: 'EMA', stroke: '#2196f3', windowSize: 12 },
-                { yAccessor: ema26.accessor(), type: 'EMA', stroke: '#e91e63', windowSize: 26 },
+                { yAccessor: smaAccessor, type: 'SMA', stroke: '#ff7f0e', windowSize: DEFAULT_INDICATOR_SETTINGS.smaPeriod },
+                { yAccessor: emaFastAccessor, type: 'EMA', stroke: '#2196f3', windowSize: DEFAULT_INDICATOR_SETTINGS.emaFastPeriod },
+                { yAccessor: emaSlowAccessor, type: 'EMA', stroke: '#e91e63', windowSize: DEFAULT_INDICATOR_SETTINGS.emaSlowPeriod },
               ]}
             />
           )}
@@ -1,6 +1,9 @@
-import React, { useRef, useEffect, useState } from 'react';
+import React, { useRef, useEffect, useState, useMemo } from 'react';
 import { useAppState } from '../context/AppStateProvider';
+import { calculateRelativeMetrics, getPeriodsPerYear } from '../engine/analytics';
 import PhaserGame, { type PhaserGameHandle } from './PhaserGame';
+import MarketImporter from './MarketImporter';
+import DatasetSelector from './DatasetSelector';
 
 const GameLayout: React.FC = () => {
   const gameRef = useRef<PhaserGameHandle>(null);
@@ -10,6 +13,7 @@ const GameLayout: React.FC = () => {
   const {
     wealth,
     gamePlayState,
+    backtest,
     isLoading,
     setLeverage,
     setCashBuffer,
@@ -73,6 +77,22 @@ const GameLayout: React.FC = () => {
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [setLeverage, setCashBuffer, wealth.leverage, wealth.cashBuffer, playback]);
 
+  // End-of-run comparison with holding the asset
+  const isRunOver = gamePlayState !== 'playing' && gamePlayState !== 'menu';
+  const benchmarkSummary = useMemo(() => {
+    const ticks = backtest.tickHistory;
+    if (!isRunOver || ticks.length === 0) return null;
+
+    const initialCapital = backtest.portfolio.initialCapital;
+    const equity = [initialCapital, ...ticks.map(tick => tick.portfolioValue)];
+    const relative = calculateRelativeMetrics(
+      equity,
+      [initialCapital, ...ticks.map(tick => tick.benchmarkValue ?? initialCapital)],
+      getPeriodsPerYear(ticks.map(tick => tick.timestamp))
+    );
+    return { totalReturn: (equity[equity.length - 1] / initialCapital - 1) * 100, ...relative };
+  }, [isRunOver, backtest.tickHistory, backtest.portfolio.initialCapital]);
+
   // Show loading screen
   if (isLoading) {
     return (
@@ -108,8 +128,14 @@ const GameLayout: React.FC = () => {
       {/* Full-screen Game Canvas */}
       <PhaserGame ref={gameRef} width={dimensions.width} height={dimensions.height} />
 
+      {/* Dataset selection and the player's own price history */}
+      <div style={{ position: 'absolute', top: 12, right: 12, display: 'flex', gap: 8, zIndex: 90 }}>
+        <DatasetSelector buttonStyle={toolbarButtonStyle} />
+        <MarketImporter buttonStyle={toolbarButtonStyle} />
+      </div>
+
       {/* Game status overlay (victory/bankrupt) - rendered via HTML for accessibility */}
-      {gamePlayState !== 'playing' && gamePlayState !== 'menu' && (
+      {isRunOver && (
         <div
           style={{
             position: 'absolute',
@@ -129,10 +155,39 @@ const GameLayout: React.FC = () => {
           }}
         >
           {gamePlayState === 'victory' ? 'VICTORY!' : 'BANKRUPT'}
+          {benchmarkSummary && (
+            <div style={{ marginTop: 12, fontSize: 14, fontWeight: 'normal', lineHeight: 1.6 }}>
+              <div>
+                You {formatPercent(benchmarkSummary.totalReturn)} vs Buy &amp; Hold {formatPercent(benchmarkSummary.benchmarkReturn)}
+              </div>
+              <div>
+                Alpha {formatPercent(benchmarkSummary.alpha)} | Beta {benchmarkSummary.beta.toFixed(2)} | Info ratio{' '}
+                {benchmarkSummary.informationRatio.toFixed(2)}
+              </div>
+              <div>
+                Up capture {benchmarkSummary.upCapture.toFixed(0)}% | Down capture {benchmarkSummary.downCapture.toFixed(0)}%
+              </div>
+            </div>
+          )}
         </div>
       )}
     </div>
   );
 };
 
+const toolbarButtonStyle: React.CSSProperties = {
+  padding: '6px 12px',
+  border: 'none',
+  borderRadius: 4,
+  backgroundColor: 'rgba(0, 0, 0, 0.7)',
+  cursor: 'pointer',
+  fontWeight: 'bold',
+  fontSize: 12,
+  fontFamily: 'monospace',
+};
+
+function formatPercent(value: number): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(1)}%`;
+}
+
 export default GameLayout;
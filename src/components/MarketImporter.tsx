@@ -0,0 +1,170 @@
+import React, { useRef, useState } from 'react';
+import { useAppState } from '../context/AppStateProvider';
+import { parseMarketFile, type MarketImport, type ImportIssue } from '../engine/marketImport';
+import type { OHLCVCandle } from '../types';
+
+const PREVIEW_BARS = 5;
+const MAX_LISTED_ISSUES = 8;
+
+const LAYOUT_LABELS: Record<MarketImport['layout'], string> = {
+  yahoo: 'Yahoo CSV',
+  stooq: 'Stooq CSV',
+  generic: 'CSV',
+  json: 'JSON',
+};
+
+interface MarketImporterProps {
+  buttonStyle: React.CSSProperties;
+}
+
+const MarketImporter: React.FC<MarketImporterProps> = ({ buttonStyle }) => {
+  const { importMarketData } = useAppState();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState('');
+  const [result, setResult] = useState<MarketImport | null>(null);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';  // Picking the same file again still fires
+    if (!file) return;
+
+    setFileName(file.name);
+    setResult(parseMarketFile(await file.text(), file.name));
+  };
+
+  const handlePlay = () => {
+    if (!result?.data) return;
+    importMarketData(result.data);
+    setResult(null);
+  };
+
+  const data = result?.data?.data ?? [];
+  const previewBars = data.length > PREVIEW_BARS * 2
+    ? [...data.slice(0, PREVIEW_BARS), null, ...data.slice(-PREVIEW_BARS)]
+    : data;
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".csv,.txt,.json,text/csv,application/json"
+        style={{ display: 'none' }}
+        onChange={handleFile}
+      />
+      <button onClick={() => inputRef.current?.click()} style={{ ...buttonStyle, color: '#66b3ff' }}>
+        Import data
+      </button>
+
+      {/* Preview of the picked file */}
+      {result && (
+        <div
+          style={{
+            position: 'fixed',
+            top: '50%',
+            left: '50%',
+            transform: 'translate(-50%, -50%)',
+            width: 560,
+            maxWidth: '90vw',
+            maxHeight: '85vh',
+            overflowY: 'auto',
+            padding: 16,
+            backgroundColor: 'rgba(0, 0, 0, 0.92)',
+            border: '1px solid #333',
+            borderRadius: 8,
+            color: '#fff',
+            fontFamily: 'monospace',
+            fontSize: 12,
+            textAlign: 'left',
+            zIndex: 110,
+          }}
+        >
+          <div style={{ fontSize: 14, fontWeight: 'bold', marginBottom: 8 }}>{fileName}</div>
+
+          <div style={{ color: '#888', lineHeight: 1.6 }}>
+            <div>
+              {LAYOUT_LABELS[result.layout]} | {result.rowCount} rows
+              {result.dateFormat && ` | dates ${result.dateFormat}`}
+            </div>
+            <div>
+              Columns:{' '}
+              {Object.entries(result.columns).map(([field, column]) => `${field}=${column}`).join(', ') || 'none'}
+            </div>
+            {result.data && (
+              <div style={{ color: '#fff' }}>
+                {result.data.symbol}: {data.length} bars, {data[0].date} to {data[data.length - 1].date}
+              </div>
+            )}
+          </div>
+
+          <IssueList issues={result.errors} color="#ef4444" />
+          <IssueList issues={result.warnings} color="#f59e0b" />
+
+          {previewBars.length > 0 && (
+            <table style={{ width: '100%', marginTop: 10, borderCollapse: 'collapse', textAlign: 'right' }}>
+              <thead>
+                <tr style={{ color: '#888' }}>
+                  {['Date', 'Open', 'High', 'Low', 'Close', 'Volume'].map(label => (
+                    <th key={label} style={{ fontWeight: 'normal', padding: '2px 4px' }}>{label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {previewBars.map((bar, i) => (bar ? <PreviewRow key={bar.date} bar={bar} /> : (
+                  <tr key={`gap-${i}`}>
+                    <td colSpan={6} style={{ textAlign: 'center', color: '#666' }}>...</td>
+                  </tr>
+                )))}
+              </tbody>
+            </table>
+          )}
+
+          <div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end', marginTop: 12 }}>
+            <button onClick={() => setResult(null)} style={{ ...buttonStyle, backgroundColor: '#333', color: '#fff' }}>
+              Cancel
+            </button>
+            <button
+              onClick={handlePlay}
+              disabled={!result.data}
+              style={{
+                ...buttonStyle,
+                backgroundColor: result.data ? '#10b981' : '#1f2937',
+                color: result.data ? '#fff' : '#666',
+                cursor: result.data ? 'pointer' : 'not-allowed',
+              }}
+            >
+              Play
+            </button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+const IssueList: React.FC<{ issues: ImportIssue[]; color: string }> = ({ issues, color }) => {
+  if (issues.length === 0) return null;
+
+  return (
+    <div style={{ marginTop: 8, color }}>
+      {issues.slice(0, MAX_LISTED_ISSUES).map((issue, i) => (
+        <div key={i}>
+          {issue.row !== null ? `Row ${issue.row}: ` : ''}{issue.message}
+        </div>
+      ))}
+      {issues.length > MAX_LISTED_ISSUES && <div>...and {issues.length - MAX_LISTED_ISSUES} more</div>}
+    </div>
+  );
+};
+
+const PreviewRow: React.FC<{ bar: OHLCVCandle }> = ({ bar }) => (
+  <tr>
+    <td style={{ padding: '2px 4px', textAlign: 'left' }}>{bar.date}</td>
+    {[bar.open, bar.high, bar.low, bar.close].map((price, i) => (
+      <td key={i} style={{ padding: '2px 4px' }}>{price.toFixed(2)}</td>
+    ))}
+    <td style={{ padding: '2px 4px', color: '#888' }}>{bar.volume.toLocaleString()}</td>
+  </tr>
+);
+
+export default MarketImporter;
@@ -4,6 +4,7 @@ import { useAppState } from '../context/AppStateProvider';
 import { createGameConfig, type VehicleUpdateData } from '../game/config';
 import { VSelectScene } from '../game/scenes/VSelectScene';
 import { GameScene } from '../game/scenes/GameScene';
+import { INITIAL_ROAD_CONDITIONS } from '../types';
 
 export interface PhaserGameHandle {
   game: Phaser.Game | null;
@@ -166,6 +167,7 @@ const PhaserGame = forwardRef<PhaserGameHandle, PhaserGameProps>(
           currentReturn: market.currentReturn,
           currentDate: market.currentCandle?.date || '',
           indicators: market.indicators,
+          roadConditions: backtest.tickHistory[backtest.tickHistory.length - 1]?.roadConditions ?? INITIAL_ROAD_CONDITIONS,
           // Portfolio data for overlay
           equity: backtest.portfolio.equity,
           cash: backtest.portfolio.cash,
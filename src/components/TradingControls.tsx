@@ -1,6 +1,8 @@
 import React from 'react';
 import { useAppState } from '../context/AppStateProvider';
-import type { Position } from '../types';
+import type { MarginEvent, Position, TrailingStopConfig } from '../types';
+
+const TRAILING_STOP: TrailingStopConfig = { mode: 'percent', distance: 5 };  // Trail set from a position row
 
 interface TradingControlsProps {
   compact?: boolean;
@@ -14,9 +16,10 @@ const TradingControls: React.FC<TradingControlsProps> = ({ compact = false }) =>
     openShort,
     closePositionById,
     closeAllPositions,
+    setTrailingStop,
   } = useAppState();
 
-  const { portfolio } = backtest;
+  const { portfolio, marginEvent } = backtest;
   const positions = portfolio.positions;
   const hasPositions = positions.length > 0;
 
@@ -53,6 +56,12 @@ const TradingControls: React.FC<TradingControlsProps> = ({ compact = false }) =>
     return `${sign}${pct.toFixed(2)}%`;
   };
 
+  const formatMarginEvent = (event: MarginEvent) => {
+    if (event.type === 'margin_warning') return `Call, ${event.barsRemaining} bars left`;
+    if (event.type === 'full_liquidation') return 'Liquidated';
+    return `Liquidated ${event.liquidatedPositionIds.length} position(s)`;
+  };
+
   return (
     <div
       style={{
@@ -99,6 +108,18 @@ const TradingControls: React.FC<TradingControlsProps> = ({ compact = false }) =>
         <span style={{ color: '#888' }}>Cash:</span>
         <span style={{ color: '#66b3ff' }}>${portfolio.cash.toFixed(2)}</span>
       </div>
+      {portfolio.totalCarry > 0 && (
+        <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: 10 }}>
+          <span style={{ color: '#888' }}>Carry:</span>
+          <span style={{ color: '#f59e0b' }}>-${portfolio.totalCarry.toFixed(2)}</span>
+        </div>
+      )}
+      {marginEvent && (
+        <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: 10 }}>
+          <span style={{ color: '#888' }}>Margin:</span>
+          <span style={{ color: '#ef4444' }}>{formatMarginEvent(marginEvent)}</span>
+        </div>
+      )}
 
       {/* Open Positions */}
       {positions.length > 0 && (
@@ -119,6 +140,7 @@ const TradingControls: React.FC<TradingControlsProps> = ({ compact = false }) =>
                 position={pos}
                 compact={compact}
                 onClose={() => closePositionById(pos.id)}
+                onTrail={() => setTrailingStop(pos.id, TRAILING_STOP)}
               />
             ))}
           </div>
@@ -195,9 +217,10 @@ interface PositionRowProps {
   position: Position;
   compact: boolean;
   onClose: () => void;
+  onTrail: () => void;
 }
 
-const PositionRow: React.FC<PositionRowProps> = ({ position, compact, onClose }) => {
+const PositionRow: React.FC<PositionRowProps> = ({ position, compact, onClose, onTrail }) => {
   const isLong = position.direction === 'long';
   const pnlColor = position.unrealizedPnL >= 0 ? '#10b981' : '#ef4444';
 
@@ -223,14 +246,41 @@ const PositionRow: React.FC<PositionRowProps> = ({ position, compact, onClose })
         >
           {isLong ? '▲' : '▼'}
         </span>
+        {position.symbol && (
+          <span style={{ color: '#888' }}>{position.symbol}</span>
+        )}
         <span style={{ color: '#aaa' }}>
           {(position.size * 100).toFixed(0)}%
         </span>
+        {(position.accruedCarry ?? 0) > 0 && (
+          <span style={{ color: '#f59e0b' }} title="Margin interest and borrow fees">
+            -${position.accruedCarry!.toFixed(2)}
+          </span>
+        )}
       </div>
       <span style={{ color: pnlColor, fontWeight: 'bold' }}>
         {position.unrealizedPnL >= 0 ? '+' : ''}
         {position.unrealizedPnLPercent.toFixed(1)}%
       </span>
+      {!position.isHedge && (
+        <button
+          onClick={onTrail}
+          style={{
+            padding: '1px 4px',
+            fontSize: 8,
+            backgroundColor: position.trailingStop ? '#8b5cf6' : '#444',
+            color: '#fff',
+            border: 'none',
+            borderRadius: 2,
+            cursor: 'pointer',
+          }}
+          title={position.trailingStop
+            ? `Trailing stop at $${position.trailingStop.level.toFixed(2)} (click to reset)`
+            : `Set a ${TRAILING_STOP.distance}% trailing stop`}
+        >
+          T
+        </button>
+      )}
       <button
         onClick={onClose}
         style={{
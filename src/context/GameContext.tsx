@@ -8,8 +8,8 @@ import type {
   GameSettings,
   ChartCandle,
   MarketIndicators,
-  MarketRegime,
 } from '../types';
+import { INITIAL_MARKET_STATE } from '../types';
 
 // Game Context State
 interface GameContextState {
@@ -79,14 +79,7 @@ const initialState: GameContextState = {
   },
   chartData: [],
   currentCandleIndex: 0,
-  indicators: {
-    rsi: 50,
-    atr: 0,
-    volatility: 0,
-    trend: 0,
-    drawdown: 0,
-    regime: 'CHOP' as MarketRegime,
-  },
+  indicators: INITIAL_MARKET_STATE.indicators,
 };
 
 // Reducer
@@ -0,0 +1,231 @@
+/**
+ * App Reducer Tests
+ *
+ * Tests for the game's state reducer: ticks through a loaded dataset with
+ * positions opened from the trading controls, their trailing stops, the
+ * margin calls that follow, the financing carry they pay and books that
+ * hold several datasets at once.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { appReducer, initialReducerState, type AppAction, type ReducerState } from './appReducer';
+import { processMarketData } from '../engine/marketData';
+import { createMultiAssetFeed } from '../engine/multiAssetFeed';
+import type { AssetSeries } from '../engine/multiAssetFeed';
+
+// ============================================
+// TEST FIXTURES
+// ============================================
+
+function processCloses(closes: number[]) {
+  const bars = closes.map((close, i) => ({
+    date: `2024-01-${String(i + 1).padStart(2, '0')}`,
+    open: close,
+    high: close + 1,
+    low: close - 1,
+    close,
+    volume: 1000000,
+  }));
+  return processMarketData(bars);
+}
+
+function loadCloses(closes: number[]): ReducerState {
+  const { candles, indicators } = processCloses(closes);
+
+  return appReducer(initialReducerState, {
+    type: 'LOAD_DATASET_SUCCESS',
+    payload: { key: 'test', name: 'Test', data: candles, indicators, indexData: [] },
+  });
+}
+
+function run(state: ReducerState, actions: AppAction[]): ReducerState {
+  return actions.reduce(appReducer, state);
+}
+
+const backtestTicks = (count: number): AppAction[] => Array.from({ length: count }, () => ({ type: 'BACKTEST_TICK' }));
+
+// ============================================
+// TRAILING STOPS
+// ============================================
+
+describe('Trailing Stops', () => {
+  const closes = [100, 110, 103, 103];
+
+  function openTrailedLong(): ReducerState {
+    const state = run(loadCloses(closes), [{ type: 'OPEN_LONG', payload: { size: 0.5 } }]);
+    const positionId = state.backtest.portfolio.positions[0].id;
+    return run(state, [{ type: 'SET_TRAILING_STOP', payload: { positionId, config: { mode: 'percent', distance: 5 } } }]);
+  }
+
+  it('should attach a trailing stop to a position', () => {
+    const position = openTrailedLong().backtest.portfolio.positions[0];
+    expect(position.trailingStop?.level).toBeCloseTo(95);
+  });
+
+  it('should ratchet the stop and close the position on backtest ticks', () => {
+    let state = run(openTrailedLong(), backtestTicks(1));
+    expect(state.backtest.portfolio.positions[0].trailingStop?.level).toBeCloseTo(104.5);
+
+    state = run(state, backtestTicks(1));
+    expect(state.backtest.portfolio.positions).toHaveLength(0);
+    expect(state.backtest.portfolio.closedPositions[0].exitReason).toBe('trailing_stop');
+  });
+
+  it('should close triggered stops on playback ticks', () => {
+    const state = run(openTrailedLong(), [
+      { type: 'SET_PLAYBACK_SPEED', payload: 1 },
+      { type: 'SET_PLAYBACK_MODE', payload: 'playing' },
+      { type: 'TICK', payload: { deltaTime: 1 } },
+      { type: 'TICK', payload: { deltaTime: 1 } },
+    ]);
+
+    expect(state.timeline.currentIndex).toBe(2);
+    expect(state.backtest.portfolio.closedPositions[0].exitReason).toBe('trailing_stop');
+  });
+
+  it('should ratchet on every bar a playback tick passes over', () => {
+    const state = run(openTrailedLong(), [
+      { type: 'SET_PLAYBACK_SPEED', payload: 2 },
+      { type: 'SET_PLAYBACK_MODE', payload: 'playing' },
+      { type: 'TICK', payload: { deltaTime: 1 } },
+    ]);
+
+    // Ratcheted to 104.5 at the 110 close, then gapped through by the 103 open
+    expect(state.timeline.currentIndex).toBe(2);
+    expect(state.backtest.portfolio.positions).toHaveLength(0);
+    expect(state.backtest.portfolio.closedPositions[0].exitPrice).toBe(103);
+  });
+});
+
+// ============================================
+// MARGIN CALLS
+// ============================================
+
+describe('Margin Calls', () => {
+  const closes = [100, 75, 75, 75, 75, 75];
+
+  it('should warn on backtest ticks below maintenance, then liquidate', () => {
+    let state = run(loadCloses(closes), [{ type: 'OPEN_LONG', payload: { size: 1, leverage: 3 } }]);
+
+    state = run(state, backtestTicks(1));
+    expect(state.backtest.marginEvent?.type).toBe('margin_warning');
+    expect(state.backtest.marginEvent?.barsRemaining).toBe(2);
+    expect(state.backtest.isMarginCalled).toBe(true);
+
+    state = run(state, backtestTicks(3));
+    expect(state.backtest.marginEvent?.type).toBe('full_liquidation');
+    expect(state.backtest.isMarginCalled).toBe(false);
+    expect(state.backtest.portfolio.positions).toHaveLength(0);
+    expect(state.backtest.portfolio.closedPositions[0].exitReason).toBe('margin_call');
+  });
+
+  it('should enforce margin on playback ticks', () => {
+    let state = run(loadCloses(closes), [
+      { type: 'OPEN_LONG', payload: { size: 1, leverage: 3 } },
+      { type: 'SET_PLAYBACK_SPEED', payload: 1 },
+      { type: 'SET_PLAYBACK_MODE', payload: 'playing' },
+    ]);
+
+    state = run(state, [{ type: 'TICK', payload: { deltaTime: 1 } }]);
+    expect(state.timeline.currentIndex).toBe(1);
+    expect(state.backtest.marginEvent?.type).toBe('margin_warning');
+  });
+
+  it('should clear the event once the portfolio is healthy', () => {
+    const state = run(loadCloses([100, 101, 102]), [
+      { type: 'OPEN_LONG', payload: { size: 0.5, leverage: 1 } },
+      ...backtestTicks(2),
+    ]);
+
+    expect(state.backtest.marginEvent).toBeNull();
+    expect(state.backtest.isMarginCalled).toBe(false);
+  });
+});
+
+// ============================================
+// CARRY
+// ============================================
+
+describe('Carry', () => {
+  it('should charge carry on positions opened from the trading controls', () => {
+    const state = run(loadCloses([100, 100, 100]), [
+      { type: 'OPEN_SHORT', payload: { size: 0.5, leverage: 2 } },
+      ...backtestTicks(2),
+    ]);
+    const { portfolio } = state.backtest;
+
+    // $5,000 borrowed at 8% and $10,000 short at 3%, for two days
+    const expected = 2 * (5000 * 0.08 + 10000 * 0.03) / 365;
+    expect(portfolio.totalCarry).toBeCloseTo(expected);
+    expect(portfolio.positions[0].accruedCarry).toBeCloseTo(expected);
+    expect(Number.isFinite(portfolio.cash)).toBe(true);
+    expect(Number.isFinite(portfolio.equity)).toBe(true);
+  });
+});
+
+// ============================================
+// MULTI-ASSET BOOK
+// ============================================
+
+describe('Multi-Asset Book', () => {
+  function createSeries(key: string, symbol: string, closes: number[]): AssetSeries {
+    const { candles, indicators } = processCloses(closes);
+    return { key, symbol, name: symbol, candles, indicators };
+  }
+
+  function loadBook(closes: number[], otherCloses: number[]): ReducerState {
+    const feed = createMultiAssetFeed([createSeries('test', 'TEST', closes), createSeries('other', 'OTHER', otherCloses)]);
+    return run(loadCloses(closes), [{ type: 'LOAD_BOOK_SUCCESS', payload: { feed } }]);
+  }
+
+  it('should mark each instrument at its own price and measure the whole book', () => {
+    const state = run(loadBook([100, 100, 100], [50, 40, 40]), [
+      { type: 'OPEN_LONG', payload: { size: 0.5 } },
+      { type: 'OPEN_LONG', payload: { size: 1, symbol: 'OTHER' } },
+      ...backtestTicks(1),
+    ]);
+    const { portfolio } = state.backtest;
+
+    expect(portfolio.positions.map(p => p.symbol)).toEqual(['TEST', 'OTHER']);
+    expect(portfolio.positions[1].currentPrice).toBe(40);
+    expect(portfolio.positions[1].unrealizedPnL).toBeCloseTo(-1000);
+    expect(portfolio.totalExposure).toBeCloseTo(1.5);
+    expect(portfolio.equity).toBeCloseTo(9000);
+    expect(portfolio.drawdown).toBeCloseTo(0.1);
+  });
+
+  it('should close a book position on its own trailing stop', () => {
+    let state = run(loadBook([100, 100, 100], [50, 60, 50]), [
+      { type: 'OPEN_LONG', payload: { size: 0.5, symbol: 'OTHER' } },
+    ]);
+    const positionId = state.backtest.portfolio.positions[0].id;
+    state = run(state, [
+      { type: 'SET_TRAILING_STOP', payload: { positionId, config: { mode: 'percent', distance: 5 } } },
+      ...backtestTicks(1),
+    ]);
+    expect(state.backtest.portfolio.positions[0].trailingStop?.level).toBeCloseTo(57);
+
+    state = run(state, backtestTicks(1));
+    const [closed] = state.backtest.portfolio.closedPositions;
+    expect(closed.symbol).toBe('OTHER');
+    expect(closed.exitReason).toBe('trailing_stop');
+    expect(closed.exitPrice).toBe(50);
+  });
+
+  it('should not open a symbol the book does not price', () => {
+    const state = run(loadBook([100, 100], [50, 50]), [{ type: 'OPEN_LONG', payload: { size: 0.5, symbol: 'NONE' } }]);
+    expect(state.backtest.portfolio.positions).toHaveLength(0);
+  });
+
+  it('should drop the book when another dataset loads', () => {
+    const book = loadBook([100, 100], [50, 50]);
+    const { candles, indicators } = processCloses([100, 100]);
+    const state = appReducer(book, {
+      type: 'LOAD_DATASET_SUCCESS',
+      payload: { key: 'next', name: 'Next', data: candles, indicators, indexData: [] },
+    });
+
+    expect(book.book?.symbols).toEqual(['TEST', 'OTHER']);
+    expect(state.book).toBeNull();
+  });
+});
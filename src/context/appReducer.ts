@@ -0,0 +1,1252 @@
+import type {
+  UnifiedAppState,
+  CurrentMarketState,
+  TerrainState,
+  PhysicsModifiers,
+  PlaybackMode,
+  ProcessedCandle,
+  ChartCandle,
+  MarketRegime,
+  WealthState,
+  VehicleState,
+  PositionState,
+  ViewMode,
+  GameState,
+  MarketIndicators,
+  PortfolioState,
+  Position,
+  BacktestTick,
+  RoadConditions,
+  RoadSegment,
+  CandlePattern,
+  TrailingStopConfig,
+} from '../types';
+import { activateHedge, processHedges, estimateRollingHedge, getDailyReturns } from '../skills';
+import type { HedgeEstimate } from '../skills';
+import { accrueCarry } from '../engine/carry';
+import {
+  updatePosition,
+  updatePortfolio,
+  updateMultiAssetPortfolio,
+  openPosition,
+  closePositionById,
+  closeAllPositions,
+  resizePosition,
+  setTrailingStop,
+  closeTriggeredTrailingStops,
+  enforceMargin,
+  getWeatherMix,
+  REGIME_WEATHER,
+} from '../engine/backtestEngine';
+import { getMarkPrice } from '../engine/benchmark';
+import { toChartCandle } from '../engine/marketData';
+import { alignFeed, getFeedIndicators } from '../engine/multiAssetFeed';
+import type { MultiAssetFeed } from '../engine/multiAssetFeed';
+import {
+  INITIAL_APP_STATE,
+  INITIAL_TIMELINE_STATE,
+  INITIAL_MARKET_STATE,
+  INITIAL_WEALTH_STATE,
+  INITIAL_VEHICLE_STATE,
+  INITIAL_POSITION_STATE,
+  INITIAL_PORTFOLIO_STATE,
+  INITIAL_BACKTEST_STATE,
+} from '../types/state';
+
+// ============================================
+// ACTION TYPES
+// ============================================
+
+export type AppAction =
+  // Data loading
+  | { type: 'LOAD_DATASET_START'; payload: { key: string } }
+  | { type: 'LOAD_DATASET_SUCCESS'; payload: { key: string; name: string; data: ProcessedCandle[]; indicators: MarketIndicators[]; indexData: (number | null)[] } }
+  | { type: 'LOAD_DATASET_ERROR'; payload: { error: string } }
+  | { type: 'LOAD_BOOK_SUCCESS'; payload: { feed: MultiAssetFeed } }
+  // Timeline control
+  | { type: 'SET_TIMELINE_INDEX'; payload: number }
+  | { type: 'SET_PLAYBACK_MODE'; payload: PlaybackMode }
+  | { type: 'SET_PLAYBACK_SPEED'; payload: number }
+  | { type: 'TICK'; payload: { deltaTime: number } }
+  // Backtest engine actions
+  | { type: 'BACKTEST_TICK' }  // Advance one tick
+  | { type: 'OPEN_LONG'; payload: { size: number; leverage?: number; symbol?: string } }
+  | { type: 'OPEN_SHORT'; payload: { size: number; leverage?: number; symbol?: string } }
+  | { type: 'CLOSE_POSITION_BY_ID'; payload: { positionId: string } }
+  | { type: 'CLOSE_ALL_POSITIONS' }
+  | { type: 'SET_TRAILING_STOP'; payload: { positionId: string; config: TrailingStopConfig } }
+  // Wealth updates
+  | { type: 'UPDATE_WEALTH'; payload: Partial<WealthState> }
+  | { type: 'SET_LEVERAGE'; payload: number }
+  | { type: 'SET_CASH_BUFFER'; payload: number }
+  // Vehicle updates (from game)
+  | { type: 'UPDATE_VEHICLE'; payload: Partial<VehicleState> }
+  // Position updates (legacy single position)
+  | { type: 'UPDATE_POSITION'; payload: Partial<PositionState> }
+  // Trading actions (legacy)
+  | { type: 'OPEN_POSITION'; payload: { size: number } }
+  | { type: 'CLOSE_POSITION' }
+  // UI updates
+  | { type: 'SET_VIEW_MODE'; payload: ViewMode }
+  | { type: 'SET_GAME_STATE'; payload: GameState }
+  // Reset
+  | { type: 'RESET_GAME' }
+  | { type: 'RESET_ALL' }
+  // Skills
+  | { type: 'ACTIVATE_HEDGE'; payload: { hedgeType?: 'basic' | 'tight' | 'tail' | 'dynamic' } };
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+// Calculate terrain state from portfolio accumulated return
+function calculateTerrainState(
+  portfolio: PortfolioState,
+  market: CurrentMarketState,
+  prevRoadHeight: number = 0
+): TerrainState {
+  // Road height is based on portfolio's accumulated return
+  // Scale: 1% return = 10 pixels of height
+  const RETURN_TO_HEIGHT_SCALE = 10;
+  const roadHeight = portfolio.accumulatedReturn * RETURN_TO_HEIGHT_SCALE;
+  const roadHeightDelta = roadHeight - prevRoadHeight;
+
+  // Convert height delta to slope (-32 to +32 range)
+  // Larger delta = steeper slope
+  const maxDelta = 5; // 5 pixels per tick max change
+  const normalizedDelta = Math.max(-1, Math.min(1, roadHeightDelta / maxDelta));
+  const currentSlope = Math.round(normalizedDelta * 32);
+
+  // Roughness based on market volatility
+  const currentRoughness = Math.min(1, market.roadRoughness);
+
+  // Exposure multiplier - terrain is flat when no positions
+  const exposureMultiplier = portfolio.totalExposure;
+
+  // When no exposure, terrain is flat
+  const effectiveSlope = currentSlope * Math.min(1, exposureMultiplier);
+
+  return {
+    roadHeight,
+    roadHeightDelta,
+    currentSlope: effectiveSlope,
+    currentRoughness: currentRoughness * exposureMultiplier,
+    leverageAmplification: exposureMultiplier,
+    exposureMultiplier,
+  };
+}
+
+// Legacy terrain calculation for backwards compatibility
+function calculateTerrainStateLegacy(
+  market: CurrentMarketState,
+  leverage: number,
+  exposure: number = 0
+): TerrainState {
+  const currentSlope = market.terrainSlope * leverage * exposure;
+  const currentRoughness = market.roadRoughness * exposure;
+  return {
+    roadHeight: 0,
+    roadHeightDelta: 0,
+    currentSlope,
+    currentRoughness,
+    leverageAmplification: leverage * exposure,
+    exposureMultiplier: exposure,
+  };
+}
+
+// ============================================
+// FINANCIAL DRIVE CONCEPTS HELPERS
+// ============================================
+
+// Detect candle pattern from a candle and previous candle
+function detectCandlePattern(
+  candle: ProcessedCandle,
+  prevCandle: ProcessedCandle | null
+): CandlePattern {
+  const body = candle.close - candle.open;
+  const bodySize = Math.abs(body);
+  const range = candle.high - candle.low;
+  const upperWick = candle.high - Math.max(candle.open, candle.close);
+  const lowerWick = Math.min(candle.open, candle.close) - candle.low;
+
+  // Avoid division by zero
+  if (range === 0) return 'neutral';
+
+  const bodyRatio = bodySize / range;
+  const upperWickRatio = upperWick / range;
+  const lowerWickRatio = lowerWick / range;
+
+  // Doji: very small body
+  if (bodyRatio < 0.1) return 'doji';
+
+  // Marubozu: no or very small wicks
+  if (upperWickRatio < 0.05 && lowerWickRatio < 0.05) {
+    return body > 0 ? 'marubozu_bull' : 'marubozu_bear';
+  }
+
+  // Hammer: small body at top, long lower wick
+  if (lowerWickRatio > 0.6 && upperWickRatio < 0.1 && bodyRatio < 0.3) {
+    return 'hammer';
+  }
+
+  // Shooting star: small body at bottom, long upper wick
+  if (upperWickRatio > 0.6 && lowerWickRatio < 0.1 && bodyRatio < 0.3) {
+    return 'shooting_star';
+  }
+
+  // Engulfing patterns require previous candle
+  if (prevCandle) {
+    const prevBody = prevCandle.close - prevCandle.open;
+    // Bullish engulfing
+    if (prevBody < 0 && body > 0 && candle.open < prevCandle.close && candle.close > prevCandle.open) {
+      return 'bullish_engulfing';
+    }
+    // Bearish engulfing
+    if (prevBody > 0 && body < 0 && candle.open > prevCandle.close && candle.close < prevCandle.open) {
+      return 'bearish_engulfing';
+    }
+  }
+
+  return 'neutral';
+}
+
+// Calculate road conditions from market indicators
+// Based on Market Physics in CONCEPTS.md
+function calculateRoadConditions(
+  indicators: MarketIndicators,
+  candle: ProcessedCandle | null,
+  regime: MarketRegime
+): RoadConditions {
+  // ATR → Road roughness (normalized 0-1)
+  // Higher ATR = rougher road
+  const atrNormalized = Math.min(1, indicators.atr / 5); // Assuming ATR of 5 is very rough
+  const roughness = atrNormalized;
+
+  // Volatility → Visibility (inverted)
+  // Higher volatility = less visibility (more fog)
+  const visibility = Math.max(0.2, 1 - indicators.volatility * 0.5);
+
+  // Trend → Slope
+  // Already calculated elsewhere, but affects road slope
+  const slope = indicators.trend;
+
+  // RSI → Grip level
+  // Extreme RSI (< 30 or > 70) = slippery edges
+  const rsiDeviation = Math.abs(indicators.rsi - 50);
+  const grip = rsiDeviation > 20 ? 1 - (rsiDeviation - 20) / 30 : 1;
+
+  // Volume → Road width (would need volume data)
+  // For now, use a constant or derive from volatility
+  const width = candle ? Math.min(2, Math.max(0.5, candle.volume / 1000000)) : 1;
+
+  // Weather from regime, blended by the regime probabilities
+  const weather = REGIME_WEATHER[regime];
+  const weatherMix = getWeatherMix(indicators.regimeProbabilities);
+
+  return { roughness, visibility, slope, grip, width, weather, weatherMix };
+}
+
+// Generate a road segment from a candle
+function generateRoadSegment(
+  candle: ProcessedCandle,
+  prevCandle: ProcessedCandle | null,
+  indicators: MarketIndicators
+): RoadSegment {
+  const pattern = detectCandlePattern(candle, prevCandle);
+
+  // Slope from daily return (-32 to +32)
+  const maxReturn = 4;
+  const normalized = Math.max(-1, Math.min(1, candle.dailyReturn / maxReturn));
+  const slope = Math.round(normalized * 32);
+
+  // Roughness from intraday volatility
+  const roughness = Math.min(1, candle.intradayVolatility / 5);
+
+  // Width from volume (normalized)
+  const width = Math.min(2, Math.max(0.5, candle.volume / 1000000));
+
+  // Wick analysis for obstacles
+  const range = candle.high - candle.low;
+  const upperWick = candle.high - Math.max(candle.open, candle.close);
+  const lowerWick = Math.min(candle.open, candle.close) - candle.low;
+
+  // Long wicks create obstacles
+  const hasObstacle = range > 0 && (upperWick / range > 0.4 || lowerWick / range > 0.4);
+  const hasBump = range > 0 && upperWick / range > 0.4; // Upper wick = bump then drop
+  const hasPothole = range > 0 && lowerWick / range > 0.4; // Lower wick = dip then recovery
+
+  return { pattern, slope, roughness, width, hasObstacle, hasBump, hasPothole };
+}
+
+function calculatePhysicsModifiers(
+  wealth: WealthState,
+  market: CurrentMarketState
+): PhysicsModifiers {
+  // Torque based on leverage (higher leverage = more power but more risk)
+  const torqueMultiplier = 0.8 + wealth.leverage * 0.4;
+
+  // Brake based on cash buffer (more cash = better braking)
+  const brakeMultiplier = 0.5 + wealth.cashBuffer * 2.0;
+
+  // Traction based on volatility and RSI
+  const volatilityPenalty = market.indicators.volatility * 0.5;
+  const rsiPenalty =
+    Math.abs(market.indicators.rsi - 50) > 30
+      ? (Math.abs(market.indicators.rsi - 50) - 30) * 0.01
+      : 0;
+  const tractionMultiplier = Math.max(0.3, 1 - volatilityPenalty - rsiPenalty);
+
+  // Recovery drag when in drawdown
+  const recoveryDrag = wealth.isInRecovery ? 1 + wealth.drawdown * 2 : 1;
+
+  return { torqueMultiplier, brakeMultiplier, tractionMultiplier, recoveryDrag };
+}
+
+// ============================================
+// BACKTESTING ENGINE HELPERS
+// ============================================
+
+// Create a backtest tick record with road segment and conditions
+function createBacktestTick(
+  index: number,
+  timestamp: string,
+  price: number,
+  portfolio: PortfolioState,
+  candle: ProcessedCandle | null,
+  prevCandle: ProcessedCandle | null,
+  indicators: MarketIndicators,
+  regime: MarketRegime,
+  benchmarkValue?: number
+): BacktestTick {
+  // Road height based on accumulated return (1% = 10 pixels)
+  const RETURN_TO_HEIGHT_SCALE = 10;
+
+  // Generate road segment from candle
+  const roadSegment: RoadSegment = candle
+    ? generateRoadSegment(candle, prevCandle, indicators)
+    : { pattern: 'neutral', slope: 0, roughness: 0, width: 1, hasObstacle: false, hasBump: false, hasPothole: false };
+
+  // Calculate road conditions from indicators
+  const roadConditions = calculateRoadConditions(indicators, candle, regime);
+
+  return {
+    index,
+    timestamp,
+    price,
+    portfolioValue: portfolio.equity,
+    benchmarkValue,
+    accumulatedReturn: portfolio.accumulatedReturn,
+    roadHeight: portfolio.accumulatedReturn * RETURN_TO_HEIGHT_SCALE,
+    roadSegment,
+    roadConditions,
+  };
+}
+
+function returnToSlope(dailyReturn: number): number {
+  const maxReturn = 4;
+  const normalized = Math.max(-1, Math.min(1, dailyReturn / maxReturn));
+  const slope = Math.round(normalized * 32);
+  const validSlopes = [-32, -16, 0, 16, 32];
+  let closest = validSlopes[0];
+  for (const s of validSlopes) {
+    if (Math.abs(slope - s) < Math.abs(slope - closest)) {
+      closest = s;
+    }
+  }
+  return closest;
+}
+
+// Market state at a bar, from the candles, indicators and chart candles computed on load
+function deriveMarketState(
+  { rawData: data, indicatorData, chartData, indexData }: MarketSeries,
+  currentIndex: number
+): CurrentMarketState {
+  if (data.length === 0 || currentIndex < 0) {
+    return INITIAL_MARKET_STATE;
+  }
+
+  const safeIndex = Math.min(currentIndex, data.length - 1);
+  const currentCandle = data[safeIndex];
+  const startPrice = data[0].open;
+  const currentPrice = currentCandle.close;
+  const currentReturn = ((currentPrice - startPrice) / startPrice) * 100;
+
+  const visibleCandles = chartData.slice(0, safeIndex + 1);
+  const indicators = indicatorData[safeIndex] ?? INITIAL_MARKET_STATE.indicators;
+  const terrainSlope = returnToSlope(currentCandle.dailyReturn);
+  const roadRoughness = Math.min(1, currentCandle.intradayVolatility / 5);
+  const tractionMultiplier = Math.max(0.5, 1 - roadRoughness * 0.5);
+
+  return {
+    currentCandle,
+    currentPrice,
+    currentReturn,
+    indexPrice: indexData[safeIndex] ?? null,
+    visibleCandles,
+    indicators,
+    regime: indicators.regime,
+    terrainSlope,
+    roadRoughness,
+    tractionMultiplier,
+  };
+}
+
+// ============================================
+// REDUCER
+// ============================================
+
+interface MarketSeries {
+  rawData: ProcessedCandle[];
+  indicatorData: MarketIndicators[];  // Indicators at each bar of rawData
+  chartData: ChartCandle[];  // rawData as chart candles, with their indicators
+  indexData: (number | null)[];  // Benchmark closes aligned to rawData (empty if not loaded)
+}
+
+export interface ReducerState extends UnifiedAppState, MarketSeries {
+  assetReturns: number[];           // % daily returns of rawData
+  indexReturns: (number | null)[];  // % daily returns of indexData
+  book: MultiAssetFeed | null;      // Instruments held alongside the loaded dataset, which is one of them
+  bookIndex: number[];              // Feed bar at or before each bar of rawData (-1 before the feed starts)
+}
+
+export const initialReducerState: ReducerState = {
+  ...INITIAL_APP_STATE,
+  rawData: [],
+  indicatorData: [],
+  chartData: [],
+  indexData: [],
+  assetReturns: [],
+  indexReturns: [],
+  book: null,
+  bookIndex: [],
+};
+
+// Rolling beta, correlation and R² of the asset against the benchmark at a bar
+function getHedgeEstimate(state: ReducerState, index: number): HedgeEstimate | null {
+  return estimateRollingHedge(state.assetReturns, state.indexReturns, index);
+}
+
+// Value of holding the loaded asset from the first bar's close: the run's benchmark
+function getBenchmarkValue(state: ReducerState, index: number): number {
+  return state.backtest.portfolio.initialCapital * (state.rawData[index].close / state.rawData[0].close);
+}
+
+// Leveraged value of the long asset positions that hedges protect
+function getHedgedValue(portfolio: PortfolioState): number {
+  return portfolio.positions
+    .filter(p => !p.isHedge && p.direction === 'long')
+    .reduce((sum, p) => sum + p.sizeInDollars * p.leverage, 0);
+}
+
+// Ratchet trailing stops to a bar passed over on the way to the tick's last bar
+function ratchetTrailingStops(state: ReducerState, portfolio: PortfolioState, index: number): PortfolioState {
+  const { close } = state.rawData[index];
+  const { atr } = state.indicatorData[index];
+  return {
+    ...portfolio,
+    positions: portfolio.positions.map(pos =>
+      pos.trailingStop && pos.symbol === undefined && pos.instrument !== 'index' ? updatePosition(pos, close, atr) : pos
+    ),
+  };
+}
+
+// ============================================
+// MULTI-ASSET BOOK
+// ============================================
+
+// Symbol of the loaded dataset in the book (undefined without a book)
+function getLoadedSymbol(state: ReducerState): string | undefined {
+  const { book } = state;
+  return book?.symbols.find(symbol => book.series[symbol].key === state.datasetKey);
+}
+
+// Prices and indicators of the book's instruments at a bar of rawData
+function getBookMarks(
+  state: ReducerState,
+  index: number
+): { prices: Record<string, number>; indicators: Record<string, MarketIndicators> } | null {
+  const feedIndex = state.bookIndex[index] ?? -1;
+  if (!state.book || feedIndex < 0) return null;
+  return { prices: state.book.bars[feedIndex].prices, indicators: getFeedIndicators(state.book, feedIndex) };
+}
+
+// Price a new position opens at, and the book symbol it is tagged with
+function getEntry(state: ReducerState, symbol?: string): { price: number; symbol?: string } | null {
+  const loadedSymbol = getLoadedSymbol(state);
+  if (symbol === undefined || symbol === loadedSymbol) {
+    return { price: state.market.currentPrice, symbol: loadedSymbol };
+  }
+  const price = getBookMarks(state, state.timeline.currentIndex)?.prices[symbol];
+  return price === undefined ? null : { price, symbol };
+}
+
+// Mark the portfolio at a bar. With a book, each instrument is marked at its own
+// price and car physics reads the book's indicators; hedges stay on the index.
+function markPortfolio(
+  state: ReducerState,
+  portfolio: PortfolioState,
+  index: number,
+  market: CurrentMarketState
+): PortfolioState {
+  const { leverage } = state.wealth;
+  const { marginRules } = state.backtest;
+  const marks = getBookMarks(state, index);
+  if (!marks || !portfolio.positions.some(p => p.symbol !== undefined)) {
+    const currentDate = market.currentCandle?.date || '';
+    return updatePortfolio(
+      portfolio, market.currentPrice, index, currentDate, market, leverage, marginRules, market.indexPrice
+    );
+  }
+
+  const positions = portfolio.positions.map(p =>
+    p.symbol === undefined ? updatePosition(p, getMarkPrice(p, market.currentPrice, market.indexPrice)) : p
+  );
+  return updateMultiAssetPortfolio({ ...portfolio, positions }, marks.prices, marks.indicators, leverage, marginRules);
+}
+
+// Check and ratchet the trailing stops of book positions on every bar their
+// instruments traded between the previous bar of rawData and this one
+function advanceBookTrailingStops(state: ReducerState, portfolio: PortfolioState, index: number): PortfolioState {
+  const { book } = state;
+  if (!book || !portfolio.positions.some(p => p.trailingStop && p.symbol !== undefined)) return portfolio;
+
+  let updated = portfolio;
+  for (let f = (state.bookIndex[index - 1] ?? -1) + 1; f <= state.bookIndex[index]; f++) {
+    const bar = book.bars[f];
+    const indicators = getFeedIndicators(book, f);
+    for (const symbol of bar.traded) {
+      const candle = book.series[symbol].candles[bar.candleIndex[symbol]];
+      updated = closeTriggeredTrailingStops(updated, candle, index, symbol);
+      updated = {
+        ...updated,
+        positions: updated.positions.map(pos =>
+          pos.trailingStop && pos.symbol === symbol ? updatePosition(pos, candle.close, indicators[symbol].atr) : pos
+        ),
+      };
+    }
+  }
+  return updated;
+}
+
+// Count down hedges for one bar: close expired ones and re-size dynamic hedges at the index price
+function advanceHedges(state: ReducerState, portfolio: PortfolioState, index: number): PortfolioState {
+  const { skillState } = portfolio;
+  if (skillState.activeHedges.length === 0 && skillState.hedgeCooldown === 0) return portfolio;
+
+  const hedgePrice = state.indexData[index] ?? state.rawData[index].close;
+  const result = processHedges({
+    currentPrice: state.rawData[index].close,
+    currentTick: index,
+    skillState,
+    getPositionPnL: (positionId) => {
+      const position = portfolio.positions.find(p => p.id === positionId);
+      return position ? updatePosition(position, hedgePrice).unrealizedPnL : 0;
+    },
+    estimate: getHedgeEstimate(state, index) ?? undefined,
+    positionValue: getHedgedValue(portfolio),
+  });
+
+  let updated: PortfolioState = { ...portfolio, skillState: { ...skillState, ...result.newState } };
+  for (const positionId of result.hedgesToClose) {
+    updated = closePositionById(updated, positionId, hedgePrice, index);
+  }
+  for (const resize of result.hedgesToResize) {
+    updated = resizePosition(updated, resize.positionId, resize.hedgeSize, hedgePrice, index);
+    updated = { ...updated, cash: updated.cash - resize.costPaid };
+  }
+  return updated;
+}
+
+export function appReducer(state: ReducerState, action: AppAction): ReducerState {
+  switch (action.type) {
+    case 'LOAD_DATASET_START':
+      return {
+        ...state,
+        isLoading: true,
+        error: null,
+        datasetKey: action.payload.key,
+      };
+
+    case 'LOAD_DATASET_SUCCESS': {
+      const { data, indicators, indexData } = action.payload;
+      const series: MarketSeries = {
+        rawData: data,
+        indicatorData: indicators,
+        chartData: data.map((candle, i) => toChartCandle(candle, indicators[i])),
+        indexData,
+      };
+      const market = deriveMarketState(series, 0);
+      // Use new portfolio-based terrain calculation
+      const terrain = calculateTerrainState(state.backtest.portfolio, market, 0);
+      const physics = calculatePhysicsModifiers(state.wealth, market);
+
+      return {
+        ...state,
+        isLoading: false,
+        isInitialized: true,
+        datasetKey: action.payload.key,
+        datasetName: action.payload.name,
+        ...series,
+        assetReturns: data.map(candle => candle.dailyReturn),
+        indexReturns: getDailyReturns(indexData),
+        book: null,
+        bookIndex: [],
+        timeline: {
+          ...INITIAL_TIMELINE_STATE,
+          totalBars: data.length,
+          canGoForward: data.length > 1,
+        },
+        market,
+        terrain,
+        physics,
+        backtest: {
+          ...state.backtest,
+          totalTicks: data.length,
+        },
+      };
+    }
+
+    case 'LOAD_DATASET_ERROR':
+      return {
+        ...state,
+        isLoading: false,
+        error: action.payload.error,
+      };
+
+    case 'LOAD_BOOK_SUCCESS': {
+      const { feed } = action.payload;
+      const withBook = { ...state, book: feed };
+      const loadedSymbol = getLoadedSymbol(withBook);
+      if (loadedSymbol === undefined) {
+        return { ...state, error: `The book does not hold the loaded dataset (${state.datasetKey})` };
+      }
+
+      // Positions already open in the loaded dataset join the book
+      const portfolio = state.backtest.portfolio;
+      const positions = portfolio.positions.map(p =>
+        p.symbol === undefined && p.instrument !== 'index' ? { ...p, symbol: loadedSymbol } : p
+      );
+
+      return {
+        ...withBook,
+        bookIndex: alignFeed(feed, state.rawData.map(candle => candle.date)),
+        backtest: {
+          ...state.backtest,
+          portfolio: { ...portfolio, positions },
+        },
+      };
+    }
+
+    case 'SET_TIMELINE_INDEX': {
+      const newIndex = Math.max(0, Math.min(action.payload, state.rawData.length - 1));
+      const market = deriveMarketState(state, newIndex);
+
+      // Update portfolio with new price and market data for car physics
+      const updatedPortfolio = markPortfolio(state, state.backtest.portfolio, newIndex, market);
+
+      const terrain = calculateTerrainState(updatedPortfolio, market, state.terrain.roadHeight);
+      const physics = calculatePhysicsModifiers(state.wealth, market);
+
+      return {
+        ...state,
+        timeline: {
+          ...state.timeline,
+          currentIndex: newIndex,
+          canGoBack: newIndex > 0,
+          canGoForward: newIndex < state.rawData.length - 1,
+        },
+        market,
+        terrain,
+        physics,
+        backtest: {
+          ...state.backtest,
+          currentTick: newIndex,
+          portfolio: updatedPortfolio,
+        },
+      };
+    }
+
+    case 'SET_PLAYBACK_MODE':
+      return {
+        ...state,
+        timeline: {
+          ...state.timeline,
+          mode: action.payload,
+          lastUpdateTime: action.payload === 'playing' ? Date.now() : state.timeline.lastUpdateTime,
+        },
+      };
+
+    case 'SET_PLAYBACK_SPEED':
+      return {
+        ...state,
+        timeline: {
+          ...state.timeline,
+          playbackSpeed: action.payload,
+        },
+      };
+
+    case 'TICK': {
+      if (state.timeline.mode !== 'playing') return state;
+
+      const elapsed = state.timeline.elapsedTime + action.payload.deltaTime;
+      const barsToAdvance = Math.floor(elapsed * state.timeline.playbackSpeed);
+
+      if (barsToAdvance === 0) {
+        return {
+          ...state,
+          timeline: {
+            ...state.timeline,
+            elapsedTime: elapsed,
+          },
+        };
+      }
+
+      const newIndex = Math.min(
+        state.timeline.currentIndex + barsToAdvance,
+        state.rawData.length - 1
+      );
+      const market = deriveMarketState(state, newIndex);
+      const currentDate = market.currentCandle?.date || '';
+      const prevCandle = newIndex > 0 ? state.rawData[newIndex - 1] : null;
+
+      // Charge financing for the bars held, close positions whose trailing stop a bar hit
+      // and ratchet the rest bar by bar, then update portfolio with new prices (new system)
+      let financedPortfolio = accrueCarry(
+        state.backtest.portfolio,
+        state.backtest.carryRates,
+        state.backtest.tickDuration,
+        newIndex - state.timeline.currentIndex
+      );
+      for (let i = state.timeline.currentIndex + 1; i <= newIndex; i++) {
+        financedPortfolio = closeTriggeredTrailingStops(financedPortfolio, state.rawData[i], i);
+        if (i < newIndex) financedPortfolio = ratchetTrailingStops(state, financedPortfolio, i);
+        financedPortfolio = advanceBookTrailingStops(state, financedPortfolio, i);
+        financedPortfolio = advanceHedges(state, financedPortfolio, i);
+      }
+      const markedPortfolio = markPortfolio(state, financedPortfolio, newIndex, market);
+      // Margin is checked once per tick, at the prices of the bar reached
+      const margin = enforceMargin(
+        markedPortfolio,
+        market.currentPrice,
+        newIndex,
+        currentDate,
+        state.backtest.marginRules,
+        market.indexPrice
+      );
+      const updatedPortfolio = margin.portfolio;
+
+      // Create tick record with road segment and conditions
+      const tick = createBacktestTick(
+        newIndex,
+        currentDate,
+        market.currentPrice,
+        updatedPortfolio,
+        market.currentCandle,
+        prevCandle,
+        market.indicators,
+        market.regime,
+        getBenchmarkValue(state, newIndex)
+      );
+      const newTickHistory = [...state.backtest.tickHistory, tick];
+
+      // Legacy: Calculate position P&L if position is open (for backward compatibility)
+      let newPosition = state.position;
+      let newWealth = state.wealth;
+
+      if (state.position.isOpen && state.position.exposure > 0) {
+        const currentPrice = market.currentPrice;
+        const entryPrice = state.position.entryPrice;
+        const pnlPercent = ((currentPrice - entryPrice) / entryPrice) * 100;
+        const pnlAmount = state.wealth.currentWealth * state.position.exposure * (pnlPercent / 100);
+
+        newPosition = {
+          ...state.position,
+          currentPrice,
+          unrealizedPnL: pnlAmount,
+          unrealizedPnLPercent: pnlPercent * state.position.exposure,
+        };
+
+        // Update wealth with unrealized P&L
+        const newWealthValue = state.wealth.startingWealth + state.position.realizedPnL + pnlAmount;
+        const allTimeHigh = Math.max(state.wealth.allTimeHigh, newWealthValue);
+        const drawdown = allTimeHigh > 0 ? (allTimeHigh - newWealthValue) / allTimeHigh : 0;
+
+        newWealth = {
+          ...state.wealth,
+          currentWealth: newWealthValue,
+          allTimeHigh,
+          drawdown,
+          isInRecovery: drawdown > 0.05,
+          stressLevel: Math.min(1, drawdown * 2),
+        };
+      }
+
+      // Use portfolio-based terrain calculation
+      const terrain = calculateTerrainState(updatedPortfolio, market, state.terrain.roadHeight);
+      const physics = calculatePhysicsModifiers(newWealth, market);
+
+      const shouldPause = newIndex >= state.rawData.length - 1;
+
+      return {
+        ...state,
+        timeline: {
+          ...state.timeline,
+          currentIndex: newIndex,
+          elapsedTime: elapsed - barsToAdvance / state.timeline.playbackSpeed,
+          canGoBack: newIndex > 0,
+          canGoForward: !shouldPause,
+          mode: shouldPause ? 'paused' : state.timeline.mode,
+        },
+        market,
+        terrain,
+        physics,
+        position: newPosition,
+        wealth: newWealth,
+        backtest: {
+          ...state.backtest,
+          currentTick: newIndex,
+          portfolio: updatedPortfolio,
+          tickHistory: newTickHistory,
+          isMarginCalled: updatedPortfolio.marginCallBars > 0,
+          marginEvent: margin.event,
+        },
+      };
+    }
+
+    case 'UPDATE_WEALTH': {
+      const newWealth = { ...state.wealth, ...action.payload };
+      const physics = calculatePhysicsModifiers(newWealth, state.market);
+      const terrain = calculateTerrainState(state.backtest.portfolio, state.market, state.terrain.roadHeight);
+
+      return {
+        ...state,
+        wealth: newWealth,
+        physics,
+        terrain,
+      };
+    }
+
+    case 'SET_LEVERAGE': {
+      const leverage = Math.max(0.5, Math.min(3.0, action.payload));
+      const newWealth = { ...state.wealth, leverage };
+      // Use portfolio-based terrain calculation
+      const terrain = calculateTerrainState(state.backtest.portfolio, state.market, state.terrain.roadHeight);
+      const physics = calculatePhysicsModifiers(newWealth, state.market);
+
+      return {
+        ...state,
+        wealth: newWealth,
+        terrain,
+        physics,
+      };
+    }
+
+    case 'SET_CASH_BUFFER': {
+      const cashBuffer = Math.max(0, Math.min(1, action.payload));
+      const newWealth = { ...state.wealth, cashBuffer };
+      const physics = calculatePhysicsModifiers(newWealth, state.market);
+
+      return {
+        ...state,
+        wealth: newWealth,
+        physics,
+      };
+    }
+
+    case 'UPDATE_VEHICLE':
+      return {
+        ...state,
+        vehicle: { ...state.vehicle, ...action.payload },
+      };
+
+    case 'UPDATE_POSITION':
+      return {
+        ...state,
+        position: { ...state.position, ...action.payload },
+      };
+
+    case 'OPEN_POSITION': {
+      const size = Math.max(0, Math.min(1, action.payload.size));
+      if (size === 0) return state;
+
+      const entryPrice = state.market.currentPrice;
+      const newPosition: PositionState = {
+        isOpen: true,
+        entryPrice,
+        entryIndex: state.timeline.currentIndex,
+        currentPrice: entryPrice,
+        unrealizedPnL: 0,
+        unrealizedPnLPercent: 0,
+        realizedPnL: state.position.realizedPnL,
+        size,
+        exposure: size,
+      };
+
+      // Use legacy terrain calculation for backward compatibility
+      const terrain = calculateTerrainStateLegacy(state.market, state.wealth.leverage, size);
+
+      return {
+        ...state,
+        position: newPosition,
+        terrain,
+      };
+    }
+
+    case 'CLOSE_POSITION': {
+      if (!state.position.isOpen) return state;
+
+      // Realize the P&L
+      const realizedPnL = state.position.realizedPnL + state.position.unrealizedPnL;
+
+      const newPosition: PositionState = {
+        isOpen: false,
+        entryPrice: 0,
+        entryIndex: 0,
+        currentPrice: 0,
+        unrealizedPnL: 0,
+        unrealizedPnLPercent: 0,
+        realizedPnL,
+        size: 0,
+        exposure: 0,
+      };
+
+      // Terrain goes flat when closing position (exposure = 0)
+      const terrain = calculateTerrainStateLegacy(state.market, state.wealth.leverage, 0);
+
+      // Update wealth to reflect realized P&L
+      const newWealth: WealthState = {
+        ...state.wealth,
+        currentWealth: state.wealth.startingWealth + realizedPnL,
+      };
+
+      return {
+        ...state,
+        position: newPosition,
+        terrain,
+        wealth: newWealth,
+      };
+    }
+
+    // ============================================
+    // NEW MULTI-POSITION TRADING ACTIONS
+    // ============================================
+
+    case 'OPEN_LONG': {
+      const { size, leverage = 1, symbol } = action.payload;
+      const entry = getEntry(state, symbol);
+      if (!entry) return state;
+
+      const currentDate = state.market.currentCandle?.date || '';
+      const newPortfolio = openPosition(
+        state.backtest.portfolio,
+        'long',
+        size,
+        entry.price,
+        state.timeline.currentIndex,
+        currentDate,
+        leverage,
+        { symbol: entry.symbol }
+      );
+
+      const terrain = calculateTerrainState(newPortfolio, state.market, state.terrain.roadHeight);
+
+      return {
+        ...state,
+        backtest: {
+          ...state.backtest,
+          portfolio: newPortfolio,
+        },
+        terrain,
+      };
+    }
+
+    case 'OPEN_SHORT': {
+      const { size, leverage = 1, symbol } = action.payload;
+      const entry = getEntry(state, symbol);
+      if (!entry) return state;
+
+      const currentDate = state.market.currentCandle?.date || '';
+      const newPortfolio = openPosition(
+        state.backtest.portfolio,
+        'short',
+        size,
+        entry.price,
+        state.timeline.currentIndex,
+        currentDate,
+        leverage,
+        { symbol: entry.symbol }
+      );
+
+      const terrain = calculateTerrainState(newPortfolio, state.market, state.terrain.roadHeight);
+
+      return {
+        ...state,
+        backtest: {
+          ...state.backtest,
+          portfolio: newPortfolio,
+        },
+        terrain,
+      };
+    }
+
+    case 'CLOSE_POSITION_BY_ID': {
+      const position = state.backtest.portfolio.positions.find(p => p.id === action.payload.positionId);
+      if (!position) return state;
+
+      const newPortfolio = closePositionById(
+        state.backtest.portfolio,
+        position.id,
+        getMarkPrice(position, state.market.currentPrice, state.market.indexPrice),
+        state.timeline.currentIndex
+      );
+
+      const terrain = calculateTerrainState(newPortfolio, state.market, state.terrain.roadHeight);
+
+      return {
+        ...state,
+        backtest: {
+          ...state.backtest,
+          portfolio: newPortfolio,
+        },
+        terrain,
+      };
+    }
+
+    case 'CLOSE_ALL_POSITIONS': {
+      const newPortfolio = closeAllPositions(
+        state.backtest.portfolio,
+        state.market.currentPrice,
+        state.timeline.currentIndex,
+        'manual',
+        state.market.indexPrice
+      );
+
+      const terrain = calculateTerrainState(newPortfolio, state.market, state.terrain.roadHeight);
+
+      return {
+        ...state,
+        backtest: {
+          ...state.backtest,
+          portfolio: newPortfolio,
+        },
+        terrain,
+      };
+    }
+
+    case 'SET_TRAILING_STOP': {
+      // Hedges are marked at the index, so their exits stay with the hedge skill
+      const position = state.backtest.portfolio.positions.find(p => p.id === action.payload.positionId);
+      if (!position || position.isHedge) return state;
+
+      return {
+        ...state,
+        backtest: {
+          ...state.backtest,
+          portfolio: setTrailingStop(
+            state.backtest.portfolio,
+            position.id,
+            action.payload.config,
+            position.symbol !== undefined
+              ? getBookMarks(state, state.timeline.currentIndex)?.indicators[position.symbol]?.atr
+              : state.market.indicators.atr
+          ),
+        },
+      };
+    }
+
+    case 'BACKTEST_TICK': {
+      // Advance one tick and update portfolio
+      const newIndex = Math.min(state.timeline.currentIndex + 1, state.rawData.length - 1);
+      if (newIndex === state.timeline.currentIndex) return state;
+
+      const market = deriveMarketState(state, newIndex);
+      const currentDate = market.currentCandle?.date || '';
+      const prevCandle = newIndex > 0 ? state.rawData[newIndex - 1] : null;
+
+      // Charge financing for the bar and close positions whose trailing stop it hit,
+      // then update portfolio with new prices and market data for car physics
+      const stoppedPortfolio = advanceBookTrailingStops(
+        state,
+        closeTriggeredTrailingStops(
+          accrueCarry(state.backtest.portfolio, state.backtest.carryRates, state.backtest.tickDuration),
+          state.rawData[newIndex],
+          newIndex
+        ),
+        newIndex
+      );
+      const financedPortfolio = advanceHedges(state, stoppedPortfolio, newIndex);
+      const markedPortfolio = markPortfolio(state, financedPortfolio, newIndex, market);
+      const margin = enforceMargin(
+        markedPortfolio,
+        market.currentPrice,
+        newIndex,
+        currentDate,
+        state.backtest.marginRules,
+        market.indexPrice
+      );
+      const newPortfolio = margin.portfolio;
+
+      // Create tick record with road segment and conditions
+      const tick = createBacktestTick(
+        newIndex,
+        currentDate,
+        market.currentPrice,
+        newPortfolio,
+        market.currentCandle,
+        prevCandle,
+        market.indicators,
+        market.regime,
+        getBenchmarkValue(state, newIndex)
+      );
+      const newTickHistory = [...state.backtest.tickHistory, tick];
+
+      // Calculate terrain from portfolio accumulated return
+      const terrain = calculateTerrainState(newPortfolio, market, state.terrain.roadHeight);
+      const physics = calculatePhysicsModifiers(state.wealth, market);
+
+      const shouldPause = newIndex >= state.rawData.length - 1;
+
+      return {
+        ...state,
+        timeline: {
+          ...state.timeline,
+          currentIndex: newIndex,
+          canGoBack: newIndex > 0,
+          canGoForward: !shouldPause,
+          mode: shouldPause ? 'paused' : state.timeline.mode,
+        },
+        market,
+        terrain,
+        physics,
+        backtest: {
+          ...state.backtest,
+          currentTick: newIndex,
+          portfolio: newPortfolio,
+          tickHistory: newTickHistory,
+          isMarginCalled: newPortfolio.marginCallBars > 0,
+          marginEvent: margin.event,
+        },
+      };
+    }
+
+    case 'SET_VIEW_MODE':
+      return {
+        ...state,
+        viewMode: action.payload,
+      };
+
+    case 'SET_GAME_STATE':
+      return {
+        ...state,
+        gamePlayState: action.payload,
+      };
+
+    case 'RESET_GAME': {
+      const market = deriveMarketState(state, 0);
+      // Reset backtest portfolio
+      const resetPortfolio = { ...INITIAL_PORTFOLIO_STATE };
+      // Start with no exposure (flat terrain) until user opens a position
+      const terrain = calculateTerrainState(resetPortfolio, market, 0);
+      const physics = calculatePhysicsModifiers(INITIAL_WEALTH_STATE, market);
+
+      return {
+        ...state,
+        timeline: {
+          ...INITIAL_TIMELINE_STATE,
+          totalBars: state.rawData.length,
+          canGoForward: state.rawData.length > 1,
+        },
+        market,
+        terrain,
+        physics,
+        wealth: INITIAL_WEALTH_STATE,
+        vehicle: INITIAL_VEHICLE_STATE,
+        position: INITIAL_POSITION_STATE,
+        backtest: {
+          ...INITIAL_BACKTEST_STATE,
+          totalTicks: state.rawData.length,
+          portfolio: resetPortfolio,
+        },
+        gamePlayState: 'playing',
+      };
+    }
+
+    case 'RESET_ALL':
+      return initialReducerState;
+
+    case 'ACTIVATE_HEDGE': {
+      const hedgeType = action.payload.hedgeType || 'basic';
+      const portfolio = state.backtest.portfolio;
+      const currentIndex = state.timeline.currentIndex;
+      const indexPrice = state.market.indexPrice;
+
+      // Hedge the long asset positions; measure their beta against the index when it is loaded
+      const estimate = indexPrice !== null ? getHedgeEstimate(state, currentIndex) : null;
+
+      const result = activateHedge({
+        hedgeType,
+        currentPrice: state.market.currentPrice,
+        positionValue: getHedgedValue(portfolio),
+        portfolioValue: portfolio.equity,
+        currentTick: currentIndex,
+        skillState: portfolio.skillState,
+        indexPrice: indexPrice ?? undefined,
+        assetBeta: estimate?.beta,
+        estimate: estimate ?? undefined,
+      });
+
+      if (!result.success || !result.newPosition) {
+        // Hedge activation failed - update message but no state change
+        return {
+          ...state,
+          backtest: {
+            ...state.backtest,
+            portfolio: {
+              ...portfolio,
+              skillState: {
+                ...portfolio.skillState,
+                lastSkillMessage: result.event.message,
+                lastSkillMessageTime: Date.now(),
+              },
+            },
+          },
+        };
+      }
+
+      // Hedge activated successfully: open the index short and pay its cost
+      const { newPosition } = result;
+      const hedgeCost = result.event.type === 'hedge_activated' ? result.event.costPaid : 0;
+      const hedgePosition: Position = {
+        ...newPosition,
+        entryIndex: currentIndex,
+        entryTime: state.market.currentCandle?.date || '',
+        currentPrice: newPosition.entryPrice,
+        unrealizedPnL: 0,
+        unrealizedPnLPercent: 0,
+        leverage: 1,
+      };
+
+      const newPortfolio: PortfolioState = {
+        ...portfolio,
+        positions: [...portfolio.positions, hedgePosition],
+        cash: portfolio.cash - newPosition.sizeInDollars - hedgeCost,
+        totalExposure: portfolio.totalExposure + newPosition.size,
+        skillState: {
+          ...portfolio.skillState,
+          ...result.newState,
+        },
+      };
+
+      return {
+        ...state,
+        backtest: {
+          ...state.backtest,
+          portfolio: newPortfolio,
+        },
+      };
+    }
+
+    default:
+      return state;
+  }
+}
@@ -14,12 +14,42 @@ import type {
   Position,
   ClosedPosition,
   PortfolioState,
-  PositionDirection,
+  ExitReason,
+  TrailingStopConfig,
+  CarryRates,
+  MarginRules,
+  MarginEvent,
   BacktestTick,
+  BacktestSummary,
   CarPhysics,
   RoadConditions,
   RoadSegment,
+  MarketIndicators,
+  ProcessedCandle,
 } from '../types';
+import { INITIAL_SKILL_STATE } from '../skills/types';
+import type { HedgeType } from '../skills/types';
+import { activateHedge, processHedges } from '../skills/HedgeSkill';
+import type { HedgeResize } from '../skills/HedgeSkill';
+import { estimateRollingHedge, getDailyReturns } from '../skills/HedgeEstimator';
+import type { HedgeEstimate } from '../skills/HedgeEstimator';
+import { DEFAULT_CARRY_RATES, DEFAULT_MARGIN_RULES } from '../types/state';
+import { createTrailingStop, updateTrailingStop } from './trailingStop';
+import { applySlippage, createFixedBpsSlippage } from './slippage';
+import type { SlippageModel } from './slippage';
+import { createFlatCommission } from './commission';
+import type { CommissionModel } from './commission';
+import { calculateCarryCost } from './carry';
+import { calculateMarginRequirements, getLiquidationOrder, isBelowMaintenance } from './margin';
+import { alignBenchmark, getBuyAndHoldEquity, getMarkPrice } from './benchmark';
+import type { BenchmarkSource } from './benchmark';
+import { NEUTRAL_INDICATORS, processMarketData } from './marketData';
+import type { RegimeModel } from './regimeClassifier';
+import { calculateAnalytics, calculateRelativeMetrics, getPeriodsPerYear } from './analytics';
+import type { AnalyticsOptions, PerformanceAnalytics, RelativeMetrics } from './analytics';
+import type { Strategy, StrategyContext } from './strategy';
+import { createIdGenerator, DEFAULT_SEED } from './ids';
+import type { IdGenerator, IdGeneratorState } from './ids';
 
 // Initial car physics for the engine
 const INITIAL_CAR_PHYSICS: CarPhysics = {
@@ -40,6 +70,7 @@ const INITIAL_ROAD_CONDITIONS: RoadConditions = {
   grip: 1.0,
   width: 1.0,
   weather: 'clear',
+  weatherMix: { clear: 1, cloudy: 0, rainy: 0, stormy: 0, foggy: 0 },
 };
 
 const INITIAL_ROAD_SEGMENT: RoadSegment = {
@@ -56,21 +87,66 @@ const INITIAL_ROAD_SEGMENT: RoadSegment = {
 // ORDER TYPES
 // ============================================
 
-export type OrderType = 'market' | 'limit' | 'stop';
+export type OrderType = 'market' | 'limit' | 'stop' | 'stop_limit' | 'trailing_stop';
 export type OrderSide = 'buy' | 'sell';
-export type OrderStatus = 'pending' | 'filled' | 'cancelled' | 'rejected';
+// 'partially_filled' orders keep working until the rest fills or they are cancelled/expired.
+// 'replaced' marks the superseded version of a modified order in the order history
+export type OrderStatus =
+  | 'pending'
+  | 'partially_filled'
+  | 'filled'
+  | 'cancelled'
+  | 'rejected'
+  | 'expired'
+  | 'replaced';
+
+// How long a resting order stays working:
+// gtc = good till cancelled, day = the next bar only, ioc/fok = fill on the next bar or cancel,
+// gtd = good till the expiresAt tick (inclusive)
+export type TimeInForce = 'gtc' | 'day' | 'ioc' | 'fok' | 'gtd';
+
+export interface OrderOptions {
+  timeInForce?: TimeInForce;
+  expiresAt?: number;      // Last tick the order may fill on (required for gtd)
+}
+
+// Fields that can be changed on a working order
+export interface OrderChanges {
+  price?: number;          // New limit price (limit/stop-limit)
+  stopPrice?: number;      // New trigger price (stop/stop-limit, before triggering)
+  size?: number;           // New size (0-1)
+}
+
+// Exit prices attached to an entry order or an open position
+export interface BracketPrices {
+  stopLoss?: number;       // Stop order price that closes the position at a loss
+  takeProfit?: number;     // Limit order price that closes the position at a profit
+}
 
 export interface Order {
   id: string;
   side: OrderSide;
   type: OrderType;
   size: number;            // Fraction of available capital (0-1)
-  price?: number;          // For limit/stop orders
+  price?: number;          // Limit price for limit/stop-limit orders
+  stopPrice?: number;      // Trigger price for stop/stop-limit/trailing-stop orders
+  triggered?: boolean;     // Stop was triggered (stops then work as market orders, stop-limits as limits)
   leverage: number;
+  bracket?: BracketPrices; // Exits created when this entry order fills
+  parentOrderId?: string;  // Entry order that created this bracket child
+  positionId?: string;     // Position this order closes (bracket children, manual closes)
+  exitReason?: ExitReason; // Why this order closes its position
   status: OrderStatus;
+  timeInForce: TimeInForce;
+  expiresAt?: number;      // Last tick a gtd order may fill on
   createdAt: number;       // Tick index when created
-  filledAt?: number;       // Tick index when filled
-  filledPrice?: number;
+  modifiedAt?: number;     // Tick index of the latest modification
+  replacedAt?: number;     // Tick index when this version was superseded (status 'replaced')
+  filledSize: number;      // Portion of size filled so far
+  fillCapital?: number;    // Cash the size fraction was measured against at the first fill
+  openedPositionId?: string; // Position built up by this order's fills
+  filledAt?: number;       // Tick index of the latest fill
+  filledPrice?: number;    // Average fill price
   rejectionReason?: string;
 }
 
@@ -82,6 +158,8 @@ export interface Fill {
   price: number;
   tick: number;
   timestamp: string;
+  fees: number;            // Commission paid on this fill
+  reason?: ExitReason;     // Set when the fill closes a position
 }
 
 // ============================================
@@ -93,7 +171,8 @@ export interface EngineEvents {
   onOrderFilled?: (fill: Fill) => void;
   onPositionOpened?: (position: Position) => void;
   onPositionClosed?: (closed: ClosedPosition) => void;
-  onMarginCall?: (portfolio: PortfolioState) => void;
+  onOrderExpired?: (order: Order) => void;
+  onMarginEvent?: (event: MarginEvent) => void;
   onError?: (error: string) => void;
 }
 
@@ -117,38 +196,99 @@ export interface OHLCV {
 export interface EngineConfig {
   initialCapital: number;
   maxLeverage: number;
-  marginCallLevel: number;    // % of equity that triggers margin call
+  marginRules: MarginRules;   // Maintenance requirement and grace bars before liquidation
+  tickDuration: number;       // Days each bar covers, for converting annual carry rates
+  carryRates: CarryRates;     // Annual margin interest and short borrow rates
   slippage: number;           // % slippage on market orders
-  commission: number;         // $ per trade
+  slippageModel?: SlippageModel;  // Replaces the flat slippage % when set
+  participationRate: number;  // Max share of a bar's volume one order may take (0 = no cap)
+  commission: number;         // $ per fill, charged on opens and closes
+  commissionModel?: CommissionModel;  // Replaces the flat commission when set
+  benchmarkSource: BenchmarkSource;   // Buy-and-hold series ticks are compared against ('index' falls back to the asset until one is loaded)
+  seed: number;               // Seeds order and position IDs, so the same inputs give the same run
+  regimeModel: RegimeModel | null;  // Fitted on bars before the run (null = rule-based regimes); never fitted on the run's own bars
 }
 
 const DEFAULT_CONFIG: EngineConfig = {
   initialCapital: 10000,
   maxLeverage: 3,
-  marginCallLevel: 0.2,
+  marginRules: DEFAULT_MARGIN_RULES,
+  tickDuration: 1,
+  carryRates: DEFAULT_CARRY_RATES,
   slippage: 0.001,  // 0.1%
+  participationRate: 0,
   commission: 0,
+  benchmarkSource: 'asset',
+  seed: DEFAULT_SEED,
+  regimeModel: null,
 };
 
+// ============================================
+// SNAPSHOTS
+// ============================================
+
+export const SNAPSHOT_VERSION = 1;
+
+/**
+ * Everything a run has done so far, as plain JSON. The market data and
+ * config are not included: restore into an engine loaded with the same data.
+ */
+export interface EngineSnapshot {
+  version: number;
+  dataLength: number;           // Bars in the data the snapshot was taken on
+  currentTick: number;
+  portfolio: PortfolioState;
+  pendingOrders: Order[];
+  orderHistory: Order[];
+  fillHistory: Fill[];
+  marginEvents: MarginEvent[];
+  tickHistory: BacktestTick[];
+  volumeMonth: string;
+  monthlyVolume: number;
+  ids: IdGeneratorState;
+}
+
+// Tolerance when comparing filled and remaining sizes
+const FILL_EPSILON = 1e-9;
+
 // ============================================
 // BACKTEST ENGINE CLASS
 // ============================================
 
 export class BacktestEngine {
   private config: EngineConfig;
+  private slippageModel: SlippageModel;
+  private commissionModel: CommissionModel;
   private data: OHLCV[] = [];
+  private candles: ProcessedCandle[] = [];       // data with returns and volatility, for indicators
+  private indicatorSeries: MarketIndicators[] = [];   // indicators at each bar, computed once on load
+  private benchmark: OHLCV[] = [];
+  private indexPrices: (number | null)[] = [];  // Benchmark closes aligned to data
+  private assetReturns: (number | null)[] = [];  // % daily returns of data, for hedge estimates
+  private indexReturns: (number | null)[] = [];  // % daily returns of indexPrices
+  private benchmarkEquity: number[] = [];       // Buy-and-hold equity of the benchmark source at each bar
   private currentTick: number = 0;
   private portfolio: PortfolioState;
   private pendingOrders: Order[] = [];
+  private processingOrders: Order[] = [];  // Orders taken off pendingOrders for the bar being processed
   private orderHistory: Order[] = [];
   private fillHistory: Fill[] = [];
+  private marginEvents: MarginEvent[] = [];
   private tickHistory: BacktestTick[] = [];
   private events: EngineEvents = {};
   private isRunning: boolean = false;
+  private volumeMonth: string = '';     // Calendar month (YYYY-MM) of monthlyVolume
+  private monthlyVolume: number = 0;    // Notional traded this month, for tiered commissions
+  private strategy: Strategy | null = null;
+  private strategyContext: StrategyContext | null = null;
+  private ids: IdGenerator;
 
   constructor(config: Partial<EngineConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
+    this.slippageModel = this.config.slippageModel ?? createFixedBpsSlippage(this.config.slippage * 10000);
+    this.commissionModel = this.config.commissionModel ?? createFlatCommission(this.config.commission);
     this.portfolio = this.createInitialPortfolio();
+    this.ids = createIdGenerator(this.config.seed);
   }
 
   // ============================================
@@ -165,16 +305,21 @@ export class BacktestEngine {
       totalExposure: 0,
       totalUnrealizedPnL: 0,
       totalRealizedPnL: 0,
+      totalCarry: 0,
       accumulatedReturn: 0,
       accumulatedReturnDollar: 0,
       drawdown: 0,
       maxDrawdown: 0,
       peakEquity: this.config.initialCapital,
       recoveryNeeded: 0,
+      initialMargin: 0,
+      maintenanceMargin: 0,
+      marginCallBars: 0,
       marginUsage: 0,
       stressLevel: 0,
       rawStress: 0,
       carPhysics: INITIAL_CAR_PHYSICS,
+      skillState: INITIAL_SKILL_STATE,
     };
   }
 
@@ -183,9 +328,33 @@ export class BacktestEngine {
    */
   loadData(data: OHLCV[]): void {
     this.data = data;
+    const { candles, indicators } = processMarketData(data, this.config.regimeModel ?? null);
+    this.candles = candles;
+    this.indicatorSeries = indicators;
+    this.assetReturns = getDailyReturns(data.map(bar => bar.close));
+    this.alignBenchmark();
     this.reset();
   }
 
+  /**
+   * Load the benchmark index that 'index' positions (hedges) are marked against.
+   * Its closes are aligned to the asset's dates; without it, hedges use the asset price.
+   */
+  loadBenchmark(benchmark: OHLCV[]): void {
+    this.benchmark = benchmark;
+    this.alignBenchmark();
+  }
+
+  private alignBenchmark(): void {
+    this.indexPrices = alignBenchmark(this.data, this.benchmark);
+    this.indexReturns = getDailyReturns(this.indexPrices);
+
+    const prices = this.config.benchmarkSource === 'index' && this.benchmark.length > 0
+      ? this.indexPrices
+      : this.data.map(bar => bar.close);
+    this.benchmarkEquity = getBuyAndHoldEquity(prices, this.config.initialCapital);
+  }
+
   /**
    * Reset the engine to initial state
    */
@@ -195,8 +364,64 @@ export class BacktestEngine {
     this.pendingOrders = [];
     this.orderHistory = [];
     this.fillHistory = [];
+    this.marginEvents = [];
     this.tickHistory = [];
     this.isRunning = false;
+    this.volumeMonth = '';
+    this.monthlyVolume = 0;
+    this.ids = createIdGenerator(this.config.seed);
+  }
+
+  /**
+   * Capture the run so far as JSON-serializable state. A running strategy's
+   * own state is not included.
+   */
+  snapshot(): EngineSnapshot {
+    const snapshot: EngineSnapshot = {
+      version: SNAPSHOT_VERSION,
+      dataLength: this.data.length,
+      currentTick: this.currentTick,
+      portfolio: this.portfolio,
+      pendingOrders: this.pendingOrders,
+      orderHistory: this.orderHistory,
+      fillHistory: this.fillHistory,
+      marginEvents: this.marginEvents,
+      tickHistory: this.tickHistory,
+      volumeMonth: this.volumeMonth,
+      monthlyVolume: this.monthlyVolume,
+      ids: this.ids.getState(),
+    };
+    return JSON.parse(JSON.stringify(snapshot));
+  }
+
+  /**
+   * Continue from a snapshot. The engine must hold the data the snapshot
+   * was taken on.
+   */
+  restore(snapshot: EngineSnapshot): boolean {
+    if (snapshot.version !== SNAPSHOT_VERSION) {
+      this.events.onError?.(`Unsupported snapshot version ${snapshot.version}`);
+      return false;
+    }
+    if (snapshot.dataLength !== this.data.length || snapshot.currentTick > this.data.length) {
+      this.events.onError?.('Snapshot was taken on different data');
+      return false;
+    }
+
+    const state: EngineSnapshot = JSON.parse(JSON.stringify(snapshot));
+    this.currentTick = state.currentTick;
+    this.portfolio = state.portfolio;
+    this.pendingOrders = state.pendingOrders;
+    this.orderHistory = state.orderHistory;
+    this.fillHistory = state.fillHistory;
+    this.marginEvents = state.marginEvents;
+    this.tickHistory = state.tickHistory;
+    this.volumeMonth = state.volumeMonth;
+    this.monthlyVolume = state.monthlyVolume;
+    this.isRunning = false;
+    this.ids = createIdGenerator(this.config.seed);
+    this.ids.setState(state.ids);
+    return true;
   }
 
   /**
@@ -211,17 +436,17 @@ export class BacktestEngine {
   // ============================================
 
   private generateOrderId(): string {
-    return `ord_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    return this.ids.nextId('ord');
   }
 
   private generatePositionId(): string {
-    return `pos_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    return this.ids.nextId('pos');
   }
 
   /**
    * Submit a market order (executed immediately at next tick)
    */
-  submitMarketOrder(side: OrderSide, size: number, leverage: number = 1): Order | null {
+  submitMarketOrder(side: OrderSide, size: number, leverage: number = 1, options: OrderOptions = {}): Order | null {
     if (size <= 0 || size > 1) {
       this.events.onError?.('Invalid order size. Must be between 0 and 1.');
       return null;
@@ -232,6 +457,8 @@ export class BacktestEngine {
       return null;
     }
 
+    if (!this.isValidTimeInForce(options)) return null;
+
     const order: Order = {
       id: this.generateOrderId(),
       side,
@@ -239,7 +466,10 @@ export class BacktestEngine {
       size,
       leverage,
       status: 'pending',
+      filledSize: 0,
       createdAt: this.currentTick,
+      timeInForce: options.timeInForce ?? 'gtc',
+      expiresAt: options.expiresAt,
     };
 
     this.pendingOrders.push(order);
@@ -249,12 +479,20 @@ export class BacktestEngine {
   /**
    * Submit a limit order
    */
-  submitLimitOrder(side: OrderSide, size: number, price: number, leverage: number = 1): Order | null {
+  submitLimitOrder(
+    side: OrderSide,
+    size: number,
+    price: number,
+    leverage: number = 1,
+    options: OrderOptions = {}
+  ): Order | null {
     if (size <= 0 || size > 1) {
       this.events.onError?.('Invalid order size');
       return null;
     }
 
+    if (!this.isValidTimeInForce(options)) return null;
+
     const order: Order = {
       id: this.generateOrderId(),
       side,
@@ -263,13 +501,380 @@ export class BacktestEngine {
       price,
       leverage,
       status: 'pending',
+      filledSize: 0,
+      createdAt: this.currentTick,
+      timeInForce: options.timeInForce ?? 'gtc',
+      expiresAt: options.expiresAt,
+    };
+
+    this.pendingOrders.push(order);
+    return order;
+  }
+
+  /**
+   * Submit a stop order.
+   * Becomes a market order once the bar trades through the stop price.
+   * If the bar opens beyond the stop (a gap), the fill happens at the open.
+   */
+  submitStopOrder(
+    side: OrderSide,
+    size: number,
+    stopPrice: number,
+    leverage: number = 1,
+    options: OrderOptions = {}
+  ): Order | null {
+    if (size <= 0 || size > 1) {
+      this.events.onError?.('Invalid order size');
+      return null;
+    }
+
+    if (stopPrice <= 0) {
+      this.events.onError?.('Invalid stop price');
+      return null;
+    }
+
+    if (leverage > this.config.maxLeverage) {
+      this.events.onError?.(`Leverage exceeds maximum (${this.config.maxLeverage}x)`);
+      return null;
+    }
+
+    if (!this.isValidTimeInForce(options)) return null;
+
+    const order: Order = {
+      id: this.generateOrderId(),
+      side,
+      type: 'stop',
+      size,
+      stopPrice,
+      leverage,
+      status: 'pending',
+      filledSize: 0,
+      createdAt: this.currentTick,
+      timeInForce: options.timeInForce ?? 'gtc',
+      expiresAt: options.expiresAt,
+    };
+
+    this.pendingOrders.push(order);
+    return order;
+  }
+
+  /**
+   * Submit a stop-limit order.
+   * Once the stop price is traded through, the order rests as a limit order at limitPrice.
+   * A gap past the limit leaves the order triggered but unfilled.
+   */
+  submitStopLimitOrder(
+    side: OrderSide,
+    size: number,
+    stopPrice: number,
+    limitPrice: number,
+    leverage: number = 1,
+    options: OrderOptions = {}
+  ): Order | null {
+    if (size <= 0 || size > 1) {
+      this.events.onError?.('Invalid order size');
+      return null;
+    }
+
+    if (stopPrice <= 0 || limitPrice <= 0) {
+      this.events.onError?.('Invalid stop or limit price');
+      return null;
+    }
+
+    if (leverage > this.config.maxLeverage) {
+      this.events.onError?.(`Leverage exceeds maximum (${this.config.maxLeverage}x)`);
+      return null;
+    }
+
+    if (!this.isValidTimeInForce(options)) return null;
+
+    const order: Order = {
+      id: this.generateOrderId(),
+      side,
+      type: 'stop_limit',
+      size,
+      price: limitPrice,
+      stopPrice,
+      triggered: false,
+      leverage,
+      status: 'pending',
+      filledSize: 0,
       createdAt: this.currentTick,
+      timeInForce: options.timeInForce ?? 'gtc',
+      expiresAt: options.expiresAt,
     };
 
     this.pendingOrders.push(order);
     return order;
   }
 
+  /**
+   * Submit an entry order with attached exits.
+   * The entry is a market order, or a limit order when entryPrice is given.
+   * When it fills, stop-loss and take-profit children are created for the new
+   * position; when one of them fills, the other is cancelled (OCO).
+   */
+  submitBracketOrder(
+    side: OrderSide,
+    size: number,
+    bracket: BracketPrices,
+    leverage: number = 1,
+    entryPrice?: number,
+    options: OrderOptions = {}
+  ): Order | null {
+    if (bracket.stopLoss === undefined && bracket.takeProfit === undefined) {
+      this.events.onError?.('Bracket needs a stop-loss or a take-profit price');
+      return null;
+    }
+
+    if (bracket.stopLoss !== undefined && bracket.takeProfit !== undefined) {
+      const ordered = side === 'buy'
+        ? bracket.stopLoss < bracket.takeProfit
+        : bracket.stopLoss > bracket.takeProfit;
+      if (!ordered) {
+        this.events.onError?.('Stop-loss must be on the losing side of take-profit');
+        return null;
+      }
+    }
+
+    const order = entryPrice === undefined
+      ? this.submitMarketOrder(side, size, leverage, options)
+      : this.submitLimitOrder(side, size, entryPrice, leverage, options);
+    if (order) {
+      order.bracket = { ...bracket };
+    }
+    return order;
+  }
+
+  /**
+   * Attach stop-loss and/or take-profit exits to an open position.
+   * Replaces any bracket orders already attached to it.
+   */
+  attachBracket(positionId: string, bracket: BracketPrices): Order[] {
+    const position = this.portfolio.positions.find(p => p.id === positionId);
+    if (!position) {
+      this.events.onError?.('Position not found');
+      return [];
+    }
+
+    const isLong = position.direction === 'long';
+    const { stopLoss, takeProfit } = bracket;
+    if (stopLoss !== undefined && (isLong ? stopLoss >= position.currentPrice : stopLoss <= position.currentPrice)) {
+      this.events.onError?.('Stop-loss must be on the losing side of the current price');
+      return [];
+    }
+    if (takeProfit !== undefined && (isLong ? takeProfit <= position.currentPrice : takeProfit >= position.currentPrice)) {
+      this.events.onError?.('Take-profit must be on the winning side of the current price');
+      return [];
+    }
+
+    this.cancelLinkedOrders(positionId, o => o.exitReason === 'stop_loss' || o.exitReason === 'take_profit');
+    return this.createBracketOrders(position, bracket);
+  }
+
+  private createBracketOrders(position: Position, bracket: BracketPrices, parentOrderId?: string): Order[] {
+    const exitSide: OrderSide = position.direction === 'long' ? 'sell' : 'buy';
+    const children: Order[] = [];
+
+    if (bracket.stopLoss !== undefined) {
+      children.push({
+        id: this.generateOrderId(),
+        side: exitSide,
+        type: 'stop',
+        size: position.size,
+        stopPrice: bracket.stopLoss,
+        leverage: 1,
+        status: 'pending',
+        filledSize: 0,
+        createdAt: this.currentTick,
+        timeInForce: 'gtc',
+        parentOrderId,
+        positionId: position.id,
+        exitReason: 'stop_loss',
+      });
+    }
+
+    if (bracket.takeProfit !== undefined) {
+      children.push({
+        id: this.generateOrderId(),
+        side: exitSide,
+        type: 'limit',
+        size: position.size,
+        price: bracket.takeProfit,
+        leverage: 1,
+        status: 'pending',
+        filledSize: 0,
+        createdAt: this.currentTick,
+        timeInForce: 'gtc',
+        parentOrderId,
+        positionId: position.id,
+        exitReason: 'take_profit',
+      });
+    }
+
+    this.pendingOrders.push(...children);
+    return children;
+  }
+
+  /**
+   * Attach a trailing stop to an open position.
+   * The stop level ratchets with price each tick and is shown on Position.trailingStop.
+   * Replaces any trailing stop already attached to the position.
+   */
+  submitTrailingStop(positionId: string, trail: TrailingStopConfig): Order | null {
+    const position = this.portfolio.positions.find(p => p.id === positionId);
+    if (!position) {
+      this.events.onError?.('Position not found');
+      return null;
+    }
+
+    if (trail.distance <= 0) {
+      this.events.onError?.('Invalid trailing stop distance');
+      return null;
+    }
+
+    // The latest bar that has closed: orders fill at an open, before its range is known
+    const atr = this.getATRAt(this.currentTick - 1);
+    if (trail.mode === 'atr' && atr <= 0) {
+      this.events.onError?.('ATR trailing stop needs price history');
+      return null;
+    }
+
+    this.cancelLinkedOrders(positionId, o => o.type === 'trailing_stop');
+    position.trailingStop = createTrailingStop(trail, position.direction, position.currentPrice, atr);
+
+    const order: Order = {
+      id: this.generateOrderId(),
+      side: position.direction === 'long' ? 'sell' : 'buy',
+      type: 'trailing_stop',
+      size: position.size,
+      stopPrice: position.trailingStop.level,
+      leverage: 1,
+      status: 'pending',
+      filledSize: 0,
+      createdAt: this.currentTick,
+      timeInForce: 'gtc',
+      positionId: position.id,
+      exitReason: 'trailing_stop',
+    };
+
+    this.pendingOrders.push(order);
+    return order;
+  }
+
+  /**
+   * Cancel pending orders that close the given position
+   */
+  private cancelLinkedOrders(positionId: string, predicate: (order: Order) => boolean = () => true): void {
+    const remaining: Order[] = [];
+    for (const order of this.pendingOrders) {
+      if (order.positionId === positionId && this.isWorking(order) && predicate(order)) {
+        order.status = 'cancelled';
+        this.orderHistory.push(order);
+      } else {
+        remaining.push(order);
+      }
+    }
+    this.pendingOrders = remaining;
+
+    // Orders still waiting their turn in this bar; processOrders skips them once cancelled
+    for (const order of this.processingOrders) {
+      if (order.positionId === positionId && this.isWorking(order) && predicate(order)) {
+        order.status = 'cancelled';
+        this.orderHistory.push(order);
+      }
+    }
+  }
+
+  /**
+   * Get pending orders that close the given position
+   */
+  getOrdersForPosition(positionId: string): Order[] {
+    return this.pendingOrders.filter(o => o.positionId === positionId);
+  }
+
+  private isWorking(order: Order): boolean {
+    return order.status === 'pending' || order.status === 'partially_filled';
+  }
+
+  private isValidTimeInForce(options: OrderOptions): boolean {
+    if (options.timeInForce === 'gtd') {
+      if (options.expiresAt === undefined || options.expiresAt < this.currentTick) {
+        this.events.onError?.('Good-till-date orders need an expiry tick at or after the current tick');
+        return false;
+      }
+    } else if (options.expiresAt !== undefined) {
+      this.events.onError?.('Expiry tick is only valid for good-till-date orders');
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Modify the price, stop price or size of a working order.
+   * The order keeps its id; the superseded version is recorded in the order history
+   * with status 'replaced'.
+   */
+  modifyOrder(orderId: string, changes: OrderChanges): Order | null {
+    const order = this.pendingOrders.find(o => o.id === orderId);
+    if (!order) {
+      this.events.onError?.('Order not found');
+      return null;
+    }
+
+    if (order.type === 'market' || order.type === 'trailing_stop') {
+      this.events.onError?.(`Cannot modify ${order.type} orders`);
+      return null;
+    }
+
+    const { price, stopPrice, size } = changes;
+    if (size !== undefined && (size <= 0 || size > 1)) {
+      this.events.onError?.('Invalid order size');
+      return null;
+    }
+
+    if (size !== undefined && size <= order.filledSize) {
+      this.events.onError?.('Size must be larger than the filled size');
+      return null;
+    }
+
+    if (price !== undefined) {
+      if (order.type !== 'limit' && order.type !== 'stop_limit') {
+        this.events.onError?.('Order has no limit price');
+        return null;
+      }
+      if (price <= 0) {
+        this.events.onError?.('Invalid limit price');
+        return null;
+      }
+    }
+
+    if (stopPrice !== undefined) {
+      if (order.type !== 'stop' && order.type !== 'stop_limit') {
+        this.events.onError?.('Order has no stop price');
+        return null;
+      }
+      if (stopPrice <= 0) {
+        this.events.onError?.('Invalid stop price');
+        return null;
+      }
+      if (order.triggered) {
+        this.events.onError?.('Stop already triggered');
+        return null;
+      }
+    }
+
+    // Record the version being replaced
+    this.orderHistory.push({ ...order, status: 'replaced', replacedAt: this.currentTick });
+
+    if (price !== undefined) order.price = price;
+    if (stopPrice !== undefined) order.stopPrice = stopPrice;
+    if (size !== undefined) order.size = size;
+    order.modifiedAt = this.currentTick;
+
+    return order;
+  }
+
   /**
    * Cancel a pending order
    */
@@ -286,25 +891,162 @@ export class BacktestEngine {
   /**
    * Close a specific position
    */
-  closePosition(positionId: string): Order | null {
+  closePosition(positionId: string, reason: ExitReason = 'manual'): Order | null {
     const position = this.portfolio.positions.find(p => p.id === positionId);
     if (!position) {
       this.events.onError?.('Position not found');
       return null;
     }
 
-    // Create a closing order (opposite side)
+    // There are no index bars to work an order against, so hedges close now at the index price
+    if (position.instrument === 'index') {
+      return this.currentTick > 0 ? this.closeAtMark(position, this.currentTick - 1, reason) : null;
+    }
+
+    // Create a closing order (opposite side) linked to the position
     const closingSide: OrderSide = position.direction === 'long' ? 'sell' : 'buy';
-    return this.submitMarketOrder(closingSide, position.size, 1);
+    const order = this.submitMarketOrder(closingSide, position.size, 1);
+    if (order) {
+      order.positionId = position.id;
+      order.exitReason = reason;
+    }
+    return order;
   }
 
   /**
    * Close all positions
    */
-  closeAllPositions(): void {
-    for (const position of this.portfolio.positions) {
-      this.closePosition(position.id);
+  closeAllPositions(reason: ExitReason = 'manual'): void {
+    for (const position of [...this.portfolio.positions]) {
+      this.closePosition(position.id, reason);
+    }
+  }
+
+  // ============================================
+  // HEDGING
+  // ============================================
+
+  /**
+   * Short the benchmark index against the open long positions, sized by the
+   * asset's measured beta (dynamic hedges by the rolling estimate).
+   * Opens immediately at the last bar's index close.
+   */
+  activateHedge(hedgeType: HedgeType = 'basic'): Position | null {
+    if (this.currentTick === 0) {
+      this.events.onError?.('No bar processed yet');
+      return null;
     }
+
+    const tickIndex = this.currentTick - 1;
+    const bar = this.data[tickIndex];
+    const estimate = this.getHedgeEstimate();
+
+    const result = activateHedge({
+      hedgeType,
+      currentPrice: bar.close,
+      positionValue: this.getHedgedValue(),
+      portfolioValue: this.portfolio.equity,
+      currentTick: tickIndex,
+      skillState: this.portfolio.skillState,
+      indexPrice: this.getIndexPriceAt(tickIndex) ?? undefined,
+      assetBeta: estimate?.beta,
+      estimate: estimate ?? undefined,
+      ids: this.ids,
+      now: Date.parse(bar.date),
+    });
+
+    if (!result.success || !result.newPosition) {
+      this.events.onError?.(result.event.message);
+      return null;
+    }
+
+    const hedgeCost = result.event.type === 'hedge_activated' ? result.event.costPaid : 0;
+    const position: Position = {
+      ...result.newPosition,
+      entryIndex: tickIndex,
+      entryTime: bar.date,
+      currentPrice: result.newPosition.entryPrice,
+      unrealizedPnL: 0,
+      unrealizedPnLPercent: 0,
+      leverage: 1,
+    };
+
+    this.portfolio.positions.push(position);
+    this.portfolio.cash -= position.sizeInDollars + hedgeCost;
+    this.portfolio.totalExposure += position.size;
+    this.portfolio.skillState = { ...this.portfolio.skillState, ...result.newState };
+
+    this.events.onPositionOpened?.(position);
+    return position;
+  }
+
+  /**
+   * Count down active hedges, close the ones whose duration ran out and
+   * re-size dynamic hedges to the current rolling beta
+   */
+  private processHedges(bar: OHLCV): void {
+    const skillState = this.portfolio.skillState;
+    if (skillState.activeHedges.length === 0 && skillState.hedgeCooldown === 0) return;
+
+    const result = processHedges({
+      currentPrice: bar.close,
+      currentTick: this.currentTick,
+      skillState,
+      getPositionPnL: (positionId) =>
+        this.portfolio.positions.find(p => p.id === positionId)?.unrealizedPnL ?? 0,
+      estimate: this.getHedgeEstimateAt(this.currentTick) ?? undefined,
+      positionValue: this.getHedgedValue(),
+      now: Date.parse(bar.date),
+    });
+
+    this.portfolio.skillState = { ...skillState, ...result.newState };
+    for (const positionId of result.hedgesToClose) {
+      const position = this.portfolio.positions.find(p => p.id === positionId);
+      if (position) {
+        this.closeAtMark(position, this.currentTick, 'manual');
+      }
+    }
+    for (const resize of result.hedgesToResize) {
+      const position = this.portfolio.positions.find(p => p.id === resize.positionId);
+      if (position) {
+        this.resizeHedge(position, resize, this.currentTick);
+      }
+    }
+    if (result.hedgesToClose.length > 0 || result.hedgesToResize.length > 0) {
+      this.updatePositions(bar.close);
+    }
+  }
+
+  /**
+   * Trim a hedge at the index price, or add to it there. Added size moves the
+   * entry to the dollar-weighted harmonic average, so P&L stays exact.
+   */
+  private resizeHedge(position: Position, resize: HedgeResize, tickIndex: number): void {
+    this.portfolio.cash -= resize.costPaid;
+
+    if (resize.change < 0) {
+      this.closeAtMark(position, tickIndex, 'manual', position.size * (-resize.change / position.sizeInDollars));
+      return;
+    }
+
+    const price = getMarkPrice(position, this.data[tickIndex].close, this.getIndexPriceAt(tickIndex));
+    const sizeInDollars = position.sizeInDollars + resize.change;
+    const addedSize = position.size * (resize.change / position.sizeInDollars);
+
+    position.entryPrice = sizeInDollars / (position.sizeInDollars / position.entryPrice + resize.change / price);
+    position.sizeInDollars = sizeInDollars;
+    position.size += addedSize;
+    this.portfolio.cash -= resize.change;
+    this.portfolio.totalExposure += addedSize;
+  }
+
+  /**
+   * Leveraged value of the long asset positions that hedges protect
+   */
+  private getHedgedValue(): number {
+    return this.portfolio.positions
+      .filter(p => !p.isHedge && p.direction === 'long')
+      .reduce((sum, p) => sum + p.sizeInDollars * p.leverage, 0);
   }
 
   // ============================================
@@ -326,20 +1068,26 @@ export class BacktestEngine {
     // 1. Process pending orders
     this.processOrders(bar);
 
-    // 2. Update all positions with current price
+    // 2. Charge margin interest and borrow fees on held positions
+    this.accrueCarry();
+
+    // 3. Update all positions with current price
     this.updatePositions(price);
 
-    // 3. Check for margin call
-    this.checkMarginCall();
+    // 4. Count down hedges and close the expired ones
+    this.processHedges(bar);
+
+    // 5. Warn or liquidate below maintenance margin
+    this.checkMargin(bar);
 
-    // 4. Create tick record
+    // 6. Create tick record
     const tick = this.createTick(bar);
     this.tickHistory.push(tick);
 
-    // 5. Emit tick event
+    // 7. Emit tick event
     this.events.onTick?.(tick);
 
-    // 6. Advance tick counter
+    // 8. Advance tick counter
     this.currentTick++;
 
     return tick;
@@ -365,124 +1113,397 @@ export class BacktestEngine {
     return this.runTicks(this.data.length - this.currentTick);
   }
 
+  /**
+   * Run a strategy from the current bar to the end of data.
+   * After each bar is processed, onBar sees its close and indicators;
+   * orders it submits work from the next bar on.
+   */
+  runStrategy(strategy: Strategy): BacktestTick[] {
+    this.strategy = strategy;
+    this.strategyContext = this.createStrategyContext();
+    const ctx = this.strategyContext;
+
+    try {
+      strategy.init?.(ctx);
+
+      const ticks: BacktestTick[] = [];
+      let tick: BacktestTick | null;
+      while ((tick = this.tick())) {
+        ticks.push(tick);
+        strategy.onBar(ctx, this.data[tick.index], this.getIndicators());
+      }
+
+      strategy.onEnd?.(ctx);
+      return ticks;
+    } finally {
+      this.strategy = null;
+      this.strategyContext = null;
+    }
+  }
+
+  private createStrategyContext(): StrategyContext {
+    return {
+      getTick: () => this.currentTick - 1,
+      submitMarketOrder: (side, size, leverage, options) => this.submitMarketOrder(side, size, leverage, options),
+      submitLimitOrder: (side, size, price, leverage, options) =>
+        this.submitLimitOrder(side, size, price, leverage, options),
+      submitStopOrder: (side, size, stopPrice, leverage, options) =>
+        this.submitStopOrder(side, size, stopPrice, leverage, options),
+      submitBracketOrder: (side, size, bracket, leverage, entryPrice, options) =>
+        this.submitBracketOrder(side, size, bracket, leverage, entryPrice, options),
+      submitTrailingStop: (positionId, trail) => this.submitTrailingStop(positionId, trail),
+      cancelOrder: orderId => this.cancelOrder(orderId),
+      closePosition: (positionId, reason) => this.closePosition(positionId, reason),
+      closeAllPositions: reason => this.closeAllPositions(reason),
+      getPortfolio: () => this.getPortfolio(),
+      getPositions: () => this.getPositions(),
+      getPendingOrders: () => this.getPendingOrders(),
+      getBars: lookback => this.getHistory(this.data, lookback),
+      getCandles: lookback => this.getHistory(this.candles, lookback),
+      getFills: () => this.getFillHistory(),
+      getTickHistory: () => this.getTickHistory(),
+    };
+  }
+
+  // The processed part of a per-bar series, or its last lookback entries
+  private getHistory<T>(series: T[], lookback?: number): T[] {
+    const start = lookback === undefined ? 0 : Math.max(0, this.currentTick - lookback);
+    return series.slice(start, this.currentTick);
+  }
+
   // ============================================
   // INTERNAL PROCESSING
   // ============================================
 
   private processOrders(bar: OHLCV): void {
-    const ordersToProcess = [...this.pendingOrders];
+    this.processingOrders = [...this.pendingOrders];
     this.pendingOrders = [];
 
-    for (const order of ordersToProcess) {
+    for (const order of this.processingOrders) {
+      // Skip orders cancelled earlier in this bar (e.g. the other side of a bracket)
+      if (!this.isWorking(order)) continue;
+
+      // Good-till-date orders past their expiry never reach the bar
+      if (order.timeInForce === 'gtd' && this.currentTick > order.expiresAt!) {
+        this.expireOrder(order);
+        continue;
+      }
+
       const filled = this.tryFillOrder(order, bar);
-      if (!filled) {
-        // Keep limit orders that weren't filled
-        if (order.type === 'limit') {
-          this.pendingOrders.push(order);
-        } else {
-          order.status = 'rejected';
-          order.rejectionReason = 'Could not fill market order';
-          this.orderHistory.push(order);
-        }
+      if (filled) continue;
+
+      if (order.type === 'market' && order.filledSize === 0) {
+        order.status = 'rejected';
+        order.rejectionReason = 'Could not fill market order';
+        this.orderHistory.push(order);
+      } else if (order.timeInForce === 'ioc' || order.timeInForce === 'fok') {
+        // Immediate orders get one bar, then the rest is cancelled
+        order.status = 'cancelled';
+        this.orderHistory.push(order);
+      } else if (
+        order.timeInForce === 'day' ||
+        (order.timeInForce === 'gtd' && this.currentTick >= order.expiresAt!)
+      ) {
+        this.expireOrder(order);
+      } else {
+        // Keep resting orders and the unfilled remainder of partial fills working
+        this.pendingOrders.push(order);
       }
     }
+    this.processingOrders = [];
+  }
+
+  private expireOrder(order: Order): void {
+    order.status = 'expired';
+    this.orderHistory.push(order);
+    this.events.onOrderExpired?.(order);
   }
 
   private tryFillOrder(order: Order, bar: OHLCV): boolean {
-    let fillPrice: number;
+    let fillPrice: number | null;
+    let paysSlippage = false;
 
     switch (order.type) {
       case 'market':
         // Fill at open with slippage
-        const slippage = order.side === 'buy' ? 1 + this.config.slippage : 1 - this.config.slippage;
-        fillPrice = bar.open * slippage;
+        fillPrice = bar.open;
+        paysSlippage = true;
         break;
 
       case 'limit':
-        // Check if limit price was touched
-        if (order.side === 'buy' && bar.low <= order.price!) {
-          fillPrice = order.price!;
-        } else if (order.side === 'sell' && bar.high >= order.price!) {
+        fillPrice = this.getLimitFillPrice(order.side, order.price!, bar);
+        break;
+
+      case 'stop':
+      case 'trailing_stop': {
+        // Triggered stops execute as market orders, including any unfilled remainder
+        fillPrice = order.triggered ? bar.open : this.getStopTriggerPrice(order.side, order.stopPrice!, bar);
+        if (fillPrice !== null) order.triggered = true;
+        paysSlippage = true;
+        break;
+      }
+
+      case 'stop_limit': {
+        if (order.triggered) {
+          fillPrice = this.getLimitFillPrice(order.side, order.price!, bar);
+          break;
+        }
+
+        const triggerPrice = this.getStopTriggerPrice(order.side, order.stopPrice!, bar);
+        if (triggerPrice === null) return false;
+        order.triggered = true;
+
+        // Fill at the trigger price if it is within the limit,
+        // otherwise at the limit if the rest of the bar reaches it
+        const withinLimit = order.side === 'buy' ? triggerPrice <= order.price! : triggerPrice >= order.price!;
+        if (withinLimit) {
+          fillPrice = triggerPrice;
+        } else if (order.side === 'buy' ? bar.low <= order.price! : bar.high >= order.price!) {
           fillPrice = order.price!;
         } else {
-          return false; // Limit not reached
+          fillPrice = null;
         }
         break;
+      }
 
       default:
         return false;
     }
 
-    // Execute the fill
-    this.executeFill(order, fillPrice, bar.date);
-    return true;
+    if (fillPrice === null) return false;
+
+    // Closing orders work off the position they close; opening orders off the capital they commit
+    const target = this.getClosingTarget(order);
+    if (order.positionId && !target) {
+      // The linked position was closed by something else
+      order.status = 'cancelled';
+      this.orderHistory.push(order);
+      return true;
+    }
+
+    const remaining = target ? target.size : order.size - order.filledSize;
+    const sharesPerUnit = target
+      ? (target.sizeInDollars * target.leverage) / (target.entryPrice * target.size)
+      : ((order.fillCapital ?? this.portfolio.cash) * order.leverage) / fillPrice;
+
+    const quantity = this.getFillableSize(remaining, sharesPerUnit, bar);
+    if (quantity <= FILL_EPSILON) return false;
+
+    // Fill-or-kill orders fill completely or not at all
+    if (order.timeInForce === 'fok' && quantity < remaining - FILL_EPSILON) return false;
+
+    if (paysSlippage) {
+      const slippage = this.slippageModel.estimate({
+        side: order.side,
+        price: fillPrice,
+        quantity: quantity * sharesPerUnit,
+        bar,
+      });
+      fillPrice = applySlippage(order.side, fillPrice, slippage);
+    }
+
+    this.executeFill(order, target, quantity, fillPrice, bar.date);
+    return order.status === 'filled';
   }
 
-  private executeFill(order: Order, price: number, timestamp: string): void {
-    order.status = 'filled';
-    order.filledAt = this.currentTick;
-    order.filledPrice = price;
-    this.orderHistory.push(order);
+  /**
+   * Position an order closes: its linked position, or for unlinked orders the first
+   * opposite-direction position, if it is at least as large as the order
+   */
+  private getClosingTarget(order: Order): Position | undefined {
+    if (order.positionId) {
+      return this.portfolio.positions.find(p => p.id === order.positionId);
+    }
+    if (order.openedPositionId) return undefined;
 
-    // Determine if opening or closing a position
-    const existingPosition = this.portfolio.positions.find(p => {
+    const opposite = this.portfolio.positions.find(p => {
       if (order.side === 'buy') return p.direction === 'short';
       return p.direction === 'long';
     });
+    return opposite && opposite.size >= order.size ? opposite : undefined;
+  }
 
-    if (existingPosition && existingPosition.size >= order.size) {
-      // Closing a position
-      this.closePositionInternal(existingPosition, price, order);
+  /**
+   * How much of the remaining size can fill on this bar.
+   * With a participation rate set, one order takes at most that share of the bar's volume.
+   */
+  private getFillableSize(remaining: number, sharesPerUnit: number, bar: OHLCV): number {
+    if (this.config.participationRate <= 0 || sharesPerUnit <= 0) return remaining;
+    const maxShares = this.config.participationRate * bar.volume;
+    return Math.min(remaining, maxShares / sharesPerUnit);
+  }
+
+  /**
+   * Limit fill price for a bar, or null if the limit was not reached.
+   * A bar that opens through the limit fills at the (better) open.
+   */
+  private getLimitFillPrice(side: OrderSide, limitPrice: number, bar: OHLCV): number | null {
+    if (side === 'buy') {
+      if (bar.open <= limitPrice) return bar.open;
+      return bar.low <= limitPrice ? limitPrice : null;
+    }
+    if (bar.open >= limitPrice) return bar.open;
+    return bar.high >= limitPrice ? limitPrice : null;
+  }
+
+  /**
+   * Price at which a stop triggers on a bar, or null if it did not trigger.
+   * Buy stops trigger on the high, sell stops on the low.
+   * A bar that gaps past the stop triggers at the (worse) open - this is gap risk.
+   */
+  private getStopTriggerPrice(side: OrderSide, stopPrice: number, bar: OHLCV): number | null {
+    if (side === 'buy') {
+      if (bar.open >= stopPrice) return bar.open;
+      return bar.high >= stopPrice ? stopPrice : null;
+    }
+    if (bar.open <= stopPrice) return bar.open;
+    return bar.low <= stopPrice ? stopPrice : null;
+  }
+
+  private executeFill(
+    order: Order,
+    target: Position | undefined,
+    quantity: number,
+    price: number,
+    timestamp: string
+  ): void {
+    // Closing orders are done once their position is gone, opening orders once their size is
+    const complete = target
+      ? quantity >= target.size - FILL_EPSILON
+      : order.filledSize + quantity >= order.size - FILL_EPSILON;
+
+    order.filledPrice = order.filledSize === 0
+      ? price
+      : (order.filledPrice! * order.filledSize + price * quantity) / (order.filledSize + quantity);
+    order.filledSize = complete ? order.size : Math.min(order.size, order.filledSize + quantity);
+    order.filledAt = this.currentTick;
+    order.status = complete ? 'filled' : 'partially_filled';
+    if (complete) {
+      this.orderHistory.push(order);
+    }
+
+    if (target) {
+      // The remainder of a partial close keeps working against the same position
+      order.positionId = target.id;
+      this.closePositionInternal(target, price, order, timestamp, quantity);
     } else {
-      // Opening a new position
-      this.openPositionInternal(order, price, timestamp);
+      this.openPositionInternal(order, quantity, price, timestamp);
     }
   }
 
-  private openPositionInternal(order: Order, price: number, timestamp: string): void {
-    const direction: PositionDirection = order.side === 'buy' ? 'long' : 'short';
-    const positionValue = this.portfolio.cash * order.size;
+  private openPositionInternal(order: Order, quantity: number, price: number, timestamp: string): void {
+    // The order's size is measured against the cash available at its first fill
+    order.fillCapital ??= this.portfolio.cash;
+    const positionValue = order.fillCapital * quantity;
+    const fees = this.chargeCommission(order.side, (positionValue * order.leverage) / price, price, timestamp);
+
+    this.portfolio.cash -= positionValue + fees;
+    this.portfolio.totalExposure += quantity;
+
+    // Later partial fills add to the position opened by the first one
+    const existing = this.portfolio.positions.find(p => p.id === order.openedPositionId);
+    if (existing) {
+      const shares = existing.sizeInDollars / existing.entryPrice + positionValue / price;
+      existing.sizeInDollars += positionValue;
+      existing.entryPrice = existing.sizeInDollars / shares;
+      existing.size += quantity;
+      existing.fees = (existing.fees ?? 0) + fees;
+
+      for (const linked of this.pendingOrders) {
+        if (linked.positionId === existing.id) linked.size = existing.size;
+      }
+
+      this.recordOpeningFill(order, existing.id, quantity, price, fees, timestamp);
+      return;
+    }
 
     const newPosition: Position = {
       id: this.generatePositionId(),
-      direction,
+      direction: order.side === 'buy' ? 'long' : 'short',
       entryPrice: price,
       entryIndex: this.currentTick,
       entryTime: timestamp,
-      size: order.size,
+      size: quantity,
+      sizeInDollars: positionValue,
       currentPrice: price,
       unrealizedPnL: 0,
       unrealizedPnLPercent: 0,
       leverage: order.leverage,
+      instrument: 'asset',
+      isHedge: false,
+      fees,
     };
 
     this.portfolio.positions.push(newPosition);
-    this.portfolio.cash -= positionValue;
-    this.portfolio.totalExposure += order.size;
+    order.openedPositionId = newPosition.id;
 
-    // Create fill record
+    this.recordOpeningFill(order, newPosition.id, quantity, price, fees, timestamp);
+    this.events.onPositionOpened?.(newPosition);
+
+    if (order.bracket) {
+      this.createBracketOrders(newPosition, order.bracket, order.id);
+    }
+  }
+
+  private recordOpeningFill(
+    order: Order,
+    positionId: string,
+    quantity: number,
+    price: number,
+    fees: number,
+    timestamp: string
+  ): void {
     const fill: Fill = {
       orderId: order.id,
-      positionId: newPosition.id,
+      positionId,
       side: order.side,
-      size: order.size,
+      size: quantity,
       price,
       tick: this.currentTick,
       timestamp,
+      fees,
     };
-    this.fillHistory.push(fill);
+    this.emitFill(fill);
+  }
 
+  private emitFill(fill: Fill): void {
+    this.fillHistory.push(fill);
     this.events.onOrderFilled?.(fill);
-    this.events.onPositionOpened?.(newPosition);
+    if (this.strategy) {
+      this.strategy.onFill?.(this.strategyContext!, fill);
+    }
   }
 
-  private closePositionInternal(position: Position, price: number, order: Order): void {
-    // Calculate P&L
+  /**
+   * Close all or part of a position. quantity is in units of the position's size.
+   */
+  private closePositionInternal(
+    position: Position,
+    price: number,
+    order: Order,
+    timestamp: string,
+    quantity: number = position.size
+  ): void {
+    const exitReason: ExitReason = order.exitReason ?? 'manual';
+    const isFullClose = quantity >= position.size - FILL_EPSILON;
+    const closedSize = isFullClose ? position.size : quantity;
+    const positionValue = isFullClose
+      ? position.sizeInDollars
+      : position.sizeInDollars * (quantity / position.size);
+
+    // Fees: this fill's commission plus the share of entry commissions being closed
+    const shares = (positionValue * position.leverage) / position.entryPrice;
+    const exitFees = this.chargeCommission(order.side, shares, price, timestamp);
+    const entryFees = isFullClose
+      ? position.fees ?? 0
+      : (position.fees ?? 0) * (quantity / position.size);
+
+    // Calculate P&L (entry fees were paid from cash when the position opened)
     const priceDiff = price - position.entryPrice;
     const pnlMultiplier = position.direction === 'long' ? 1 : -1;
     const pnlPercent = (priceDiff / position.entryPrice) * 100 * pnlMultiplier * position.leverage;
-    const positionValue = position.size * position.entryPrice;
-    const realizedPnL = positionValue * (pnlPercent / 100) - this.config.commission;
+    const grossPnL = positionValue * (pnlPercent / 100);
+    const realizedPnL = grossPnL - entryFees - exitFees;
 
     // Create closed position record
     const closedPosition: ClosedPosition = {
@@ -492,45 +1513,130 @@ export class BacktestEngine {
       entryIndex: position.entryIndex,
       exitPrice: price,
       exitIndex: this.currentTick,
-      size: position.size,
+      size: closedSize,
+      sizeInDollars: positionValue,
       realizedPnL,
       realizedPnLPercent: pnlPercent,
       holdingPeriod: this.currentTick - position.entryIndex,
+      symbol: position.symbol,
+      instrument: position.instrument,
+      isHedge: position.isHedge,
+      exitReason,
+      fees: entryFees + exitFees,
     };
 
     // Update portfolio
-    this.portfolio.positions = this.portfolio.positions.filter(p => p.id !== position.id);
+    if (isFullClose) {
+      this.portfolio.positions = this.portfolio.positions.filter(p => p.id !== position.id);
+    } else {
+      position.size -= closedSize;
+      position.sizeInDollars -= positionValue;
+      position.fees = (position.fees ?? 0) - entryFees;
+    }
     this.portfolio.closedPositions.push(closedPosition);
-    this.portfolio.cash += positionValue + realizedPnL;
-    this.portfolio.totalExposure -= position.size;
+    this.portfolio.cash += positionValue + grossPnL - exitFees;
+    this.portfolio.totalExposure -= closedSize;
     this.portfolio.totalRealizedPnL += realizedPnL;
 
+    // Any other exits for this position (e.g. the other bracket leg) are now void
+    if (isFullClose) {
+      this.cancelLinkedOrders(position.id);
+    }
+
+    const fill: Fill = {
+      orderId: order.id,
+      positionId: position.id,
+      side: order.side,
+      size: closedSize,
+      price,
+      tick: this.currentTick,
+      timestamp,
+      fees: exitFees,
+      reason: exitReason,
+    };
+    this.emitFill(fill);
     this.events.onPositionClosed?.(closedPosition);
   }
 
-  private updatePositions(currentPrice: number): void {
+  /**
+   * Commission for one fill, tracking the month's traded notional for tiered schedules
+   */
+  private chargeCommission(side: OrderSide, quantity: number, price: number, timestamp: string): number {
+    const month = timestamp.slice(0, 7);
+    if (month !== this.volumeMonth) {
+      this.volumeMonth = month;
+      this.monthlyVolume = 0;
+    }
+
+    const notional = quantity * price;
+    const fees = this.commissionModel.calculate({
+      side,
+      quantity,
+      price,
+      notional,
+      monthlyVolume: this.monthlyVolume,
+    });
+    this.monthlyVolume += notional;
+    return fees;
+  }
+
+  private accrueCarry(): void {
+    for (const position of this.portfolio.positions) {
+      const cost = calculateCarryCost(position, this.config.carryRates, this.config.tickDuration);
+      if (cost === 0) continue;
+
+      position.accruedCarry = (position.accruedCarry ?? 0) + cost;
+      this.portfolio.cash -= cost;
+      this.portfolio.totalCarry += cost;
+    }
+  }
+
+  /**
+   * Wilder ATR at a bar, from the indicator series (0 before the first bar)
+   */
+  private getATRAt(tickIndex: number): number {
+    return this.indicatorSeries[tickIndex]?.atr ?? 0;
+  }
+
+  private updatePositions(assetPrice: number): void {
     let totalUnrealizedPnL = 0;
+    let totalPositionValue = 0;
+    const atr = this.getATRAt(this.currentTick);
+    const indexPrice = this.getIndexPriceAt(this.currentTick);
 
     for (const position of this.portfolio.positions) {
+      const currentPrice = getMarkPrice(position, assetPrice, indexPrice);
       const priceDiff = currentPrice - position.entryPrice;
       const pnlMultiplier = position.direction === 'long' ? 1 : -1;
       const pnlPercent = (priceDiff / position.entryPrice) * 100 * pnlMultiplier * position.leverage;
-      const positionValue = position.size * position.entryPrice;
+      const positionValue = position.sizeInDollars;
       const unrealizedPnL = positionValue * (pnlPercent / 100);
 
       position.currentPrice = currentPrice;
       position.unrealizedPnL = unrealizedPnL;
       position.unrealizedPnLPercent = pnlPercent;
 
+      // Ratchet the trailing stop and move its order with it
+      if (position.trailingStop) {
+        position.trailingStop = updateTrailingStop(position.trailingStop, position.direction, currentPrice, atr);
+        for (const order of this.pendingOrders) {
+          if (order.positionId === position.id && order.type === 'trailing_stop') {
+            order.stopPrice = position.trailingStop.level;
+          }
+        }
+      }
+
       totalUnrealizedPnL += unrealizedPnL;
+      totalPositionValue += positionValue;
     }
 
     // Update portfolio metrics
+    // Note: cash was reduced by sizeInDollars when opening positions
     this.portfolio.totalUnrealizedPnL = totalUnrealizedPnL;
-    this.portfolio.equity = this.portfolio.cash + totalUnrealizedPnL;
+    this.portfolio.equity = this.portfolio.cash + totalPositionValue + totalUnrealizedPnL;
 
-    // Calculate accumulated return
-    const totalReturn = this.portfolio.equity - this.portfolio.initialCapital + this.portfolio.totalRealizedPnL;
+    // Calculate accumulated return (realized P&L is already reflected in cash)
+    const totalReturn = this.portfolio.equity - this.portfolio.initialCapital;
     this.portfolio.accumulatedReturnDollar = totalReturn;
     this.portfolio.accumulatedReturn = (totalReturn / this.portfolio.initialCapital) * 100;
 
@@ -543,16 +1649,105 @@ export class BacktestEngine {
 
     // Calculate stress level
     this.portfolio.stressLevel = Math.min(1, (this.portfolio.totalExposure * 0.3) + (this.portfolio.drawdown * 2));
-    this.portfolio.marginUsage = this.portfolio.totalExposure / this.config.maxLeverage;
+
+    const margin = calculateMarginRequirements(this.portfolio.positions, this.portfolio.equity, this.config.marginRules);
+    this.portfolio.initialMargin = margin.initialMargin;
+    this.portfolio.maintenanceMargin = margin.maintenanceMargin;
+    this.portfolio.marginUsage = margin.marginUsage;
   }
 
-  private checkMarginCall(): void {
-    const equityRatio = this.portfolio.equity / this.portfolio.initialCapital;
-    if (equityRatio < this.config.marginCallLevel && this.portfolio.positions.length > 0) {
-      this.events.onMarginCall?.(this.portfolio);
-      // Auto-close all positions on margin call
-      this.closeAllPositions();
+  /**
+   * Below maintenance margin the portfolio gets graceBars bars of warnings. After that,
+   * positions are liquidated at the close one at a time, largest loss first, until the
+   * portfolio is back above maintenance.
+   */
+  private checkMargin(bar: OHLCV): void {
+    const rules = this.config.marginRules;
+    if (!isBelowMaintenance(this.portfolio.equity, this.portfolio.maintenanceMargin)) {
+      this.portfolio.marginCallBars = 0;
+      return;
     }
+
+    this.portfolio.marginCallBars++;
+    if (this.portfolio.marginCallBars <= rules.graceBars) {
+      this.emitMarginEvent('margin_warning', rules.graceBars - this.portfolio.marginCallBars, []);
+      return;
+    }
+
+    const liquidatedPositionIds: string[] = [];
+    for (const position of getLiquidationOrder(this.portfolio.positions)) {
+      this.closeAtMark(position, this.currentTick, 'margin_call');
+      liquidatedPositionIds.push(position.id);
+      this.updatePositions(bar.close);
+
+      if (!isBelowMaintenance(this.portfolio.equity, this.portfolio.maintenanceMargin)) break;
+    }
+
+    this.portfolio.marginCallBars = 0;
+    const type = this.portfolio.positions.length === 0 ? 'full_liquidation' : 'partial_liquidation';
+    this.emitMarginEvent(type, 0, liquidatedPositionIds);
+  }
+
+  /**
+   * Immediate close (or trim, for a smaller quantity) at the bar's mark price
+   * (the index close for hedges), recorded as a filled market order
+   */
+  private closeAtMark(
+    position: Position,
+    tickIndex: number,
+    reason: ExitReason,
+    quantity: number = position.size
+  ): Order {
+    const bar = this.data[tickIndex];
+    const side: OrderSide = position.direction === 'long' ? 'sell' : 'buy';
+    const price = getMarkPrice(position, bar.close, this.getIndexPriceAt(tickIndex));
+    const order: Order = {
+      id: this.generateOrderId(),
+      side,
+      type: 'market',
+      size: quantity,
+      leverage: 1,
+      status: 'pending',
+      filledSize: 0,
+      createdAt: this.currentTick,
+      timeInForce: 'gtc',
+      positionId: position.id,
+      exitReason: reason,
+    };
+
+    const slippage = this.slippageModel.estimate({
+      side,
+      price,
+      quantity: (position.sizeInDollars * position.leverage * (quantity / position.size)) / position.entryPrice,
+      bar,
+    });
+    const fillPrice = applySlippage(side, price, slippage);
+
+    if (quantity >= position.size - FILL_EPSILON) {
+      this.executeFill(order, position, position.size, fillPrice, bar.date);
+    } else {
+      // A trim fills the whole order but leaves the rest of the position open
+      order.status = 'filled';
+      order.filledSize = quantity;
+      order.filledPrice = fillPrice;
+      order.filledAt = this.currentTick;
+      this.orderHistory.push(order);
+      this.closePositionInternal(position, fillPrice, order, bar.date, quantity);
+    }
+    return order;
+  }
+
+  private emitMarginEvent(type: MarginEvent['type'], barsRemaining: number, liquidatedPositionIds: string[]): void {
+    const event: MarginEvent = {
+      type,
+      tick: this.currentTick,
+      equity: this.portfolio.equity,
+      maintenanceMargin: this.portfolio.maintenanceMargin,
+      barsRemaining,
+      liquidatedPositionIds,
+    };
+    this.marginEvents.push(event);
+    this.events.onMarginEvent?.(event);
   }
 
   private createTick(bar: OHLCV): BacktestTick {
@@ -562,6 +1757,7 @@ export class BacktestEngine {
       timestamp: bar.date,
       price: bar.close,
       portfolioValue: this.portfolio.equity,
+      benchmarkValue: this.benchmarkEquity[this.currentTick],
       accumulatedReturn: this.portfolio.accumulatedReturn,
       roadHeight: this.portfolio.accumulatedReturn * RETURN_TO_HEIGHT_SCALE,
       roadSegment: INITIAL_ROAD_SEGMENT,
@@ -605,6 +1801,52 @@ export class BacktestEngine {
     return [...this.orderHistory];
   }
 
+  getFillHistory(): Fill[] {
+    return [...this.fillHistory];
+  }
+
+  getMarginEvents(): MarginEvent[] {
+    return [...this.marginEvents];
+  }
+
+  /**
+   * RSI, ATR, trend, drawdown and regime as of the last processed bar
+   */
+  getIndicators(): MarketIndicators {
+    return this.indicatorSeries[this.currentTick - 1] ?? NEUTRAL_INDICATORS;
+  }
+
+  /**
+   * Benchmark close of the last processed bar (null without a benchmark)
+   */
+  getIndexPrice(): number | null {
+    return this.getIndexPriceAt(this.currentTick - 1);
+  }
+
+  private getIndexPriceAt(tickIndex: number): number | null {
+    return this.indexPrices[tickIndex] ?? null;
+  }
+
+  /**
+   * Rolling beta, correlation and R² of the asset against the benchmark,
+   * up to the last processed bar (null without enough overlapping history)
+   */
+  getHedgeEstimate(window?: number): HedgeEstimate | null {
+    if (this.currentTick === 0) return null;
+    return this.getHedgeEstimateAt(this.currentTick - 1, window);
+  }
+
+  private getHedgeEstimateAt(tickIndex: number, window?: number): HedgeEstimate | null {
+    return estimateRollingHedge(this.assetReturns, this.indexReturns, tickIndex, window);
+  }
+
+  /**
+   * Beta of the asset against the benchmark up to the last processed bar
+   */
+  getAssetBeta(lookback?: number): number | null {
+    return this.getHedgeEstimate(lookback)?.beta ?? null;
+  }
+
   getCurrentBar(): OHLCV | null {
     if (this.currentTick >= this.data.length) return null;
     return this.data[this.currentTick];
@@ -631,6 +1873,8 @@ export class BacktestEngine {
     const totalPnL = closedPositions.reduce((sum, p) => sum + p.realizedPnL, 0);
     const grossProfit = winners.reduce((sum, p) => sum + p.realizedPnL, 0);
     const grossLoss = Math.abs(losers.reduce((sum, p) => sum + p.realizedPnL, 0));
+    // Includes entry fees on positions that are still open
+    const totalFees = this.fillHistory.reduce((sum, f) => sum + f.fees, 0);
 
     return {
       totalTrades: closedPositions.length,
@@ -645,6 +1889,55 @@ export class BacktestEngine {
       maxDrawdown: this.portfolio.maxDrawdown * 100,
       finalEquity: this.portfolio.equity,
       totalReturn: this.portfolio.accumulatedReturn,
+      totalFees,
+      feeDrag: (totalFees / this.portfolio.initialCapital) * 100,  // % of return lost to fees
+    };
+  }
+
+  /**
+   * Return, risk and trading analytics of the equity so far, annualized by
+   * the spacing of the loaded dates
+   */
+  getAnalytics(options?: AnalyticsOptions): PerformanceAnalytics {
+    return calculateAnalytics({
+      equity: [this.portfolio.initialCapital, ...this.tickHistory.map(tick => tick.portfolioValue)],
+      dates: this.tickHistory.map(tick => tick.timestamp),
+      trades: this.portfolio.closedPositions,
+      openPositions: this.portfolio.positions,
+    }, options);
+  }
+
+  /**
+   * Alpha, beta, tracking error and capture against buy-and-hold of the
+   * benchmark source, over the ticks so far
+   */
+  getRelativeMetrics(options?: AnalyticsOptions): RelativeMetrics {
+    const initialCapital = this.portfolio.initialCapital;
+    return calculateRelativeMetrics(
+      [initialCapital, ...this.tickHistory.map(tick => tick.portfolioValue)],
+      [initialCapital, ...this.tickHistory.map(tick => tick.benchmarkValue ?? initialCapital)],
+      options?.periodsPerYear ?? getPeriodsPerYear(this.tickHistory.map(tick => tick.timestamp)),
+      options?.riskFreeRate
+    );
+  }
+
+  getSummary(options?: AnalyticsOptions): BacktestSummary {
+    const statistics = this.getStatistics();
+    const analytics = this.getAnalytics(options);
+    const relative = this.getRelativeMetrics(options);
+
+    return {
+      totalReturn: this.portfolio.equity - this.portfolio.initialCapital,
+      totalReturnPercent: analytics.totalReturn,
+      sharpeRatio: analytics.sharpe,
+      maxDrawdown: analytics.maxDrawdown,
+      winRate: statistics.winRate,
+      totalTrades: statistics.totalTrades,
+      profitFactor: statistics.profitFactor,
+      benchmarkReturnPercent: relative.benchmarkReturn,
+      alpha: relative.alpha,
+      beta: relative.beta,
+      informationRatio: relative.informationRatio,
     };
   }
 }
@@ -0,0 +1,263 @@
+/**
+ * Analytics Tests
+ *
+ * Tests for annualizing by bar spacing, drawdown pain metrics (Ulcer index,
+ * longest drawdown, time to recovery), Sortino, risk of ruin, exposure time,
+ * metrics relative to a buy-and-hold benchmark and the engine's analytics
+ * and summary.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { ClosedPosition, Position } from '../types';
+import { BacktestEngine } from './BacktestEngine';
+import type { OHLCV } from './BacktestEngine';
+import {
+  calculateAnalytics,
+  calculateExposureTime,
+  calculateLongestDrawdown,
+  calculateRelativeMetrics,
+  calculateRiskOfRuin,
+  calculateSortino,
+  calculateTimeToRecovery,
+  calculateUlcerIndex,
+  getDrawdownSeries,
+  getPeriodsPerYear,
+} from './analytics';
+import { getBuyAndHoldEquity } from './benchmark';
+import { calculatePerformance } from './performance';
+import { createBuyAndHoldStrategy } from './strategies';
+
+// ============================================
+// TEST FIXTURES
+// ============================================
+
+function createTrade(entryIndex: number, exitIndex: number, realizedPnL: number): ClosedPosition {
+  return {
+    id: `trade-${entryIndex}`,
+    direction: 'long',
+    entryPrice: 100,
+    entryIndex,
+    exitPrice: 100,
+    exitIndex,
+    size: 1,
+    sizeInDollars: 1000,
+    realizedPnL,
+    realizedPnLPercent: realizedPnL / 10,
+    holdingPeriod: exitIndex - entryIndex,
+    instrument: 'asset',
+    isHedge: false,
+    exitReason: 'manual',
+    fees: 0,
+  };
+}
+
+function createDates(count: number, stepDays: number): string[] {
+  return Array.from({ length: count }, (_, i) => new Date(Date.UTC(2024, 0, 1 + i * stepDays)).toISOString().slice(0, 10));
+}
+
+// ============================================
+// ANNUALIZING
+// ============================================
+
+describe('Annualizing', () => {
+  it('should count bars per year from the date spacing', () => {
+    expect(getPeriodsPerYear(createDates(366, 1))).toBeCloseTo(365.25, 0);
+    expect(getPeriodsPerYear(createDates(53, 7))).toBeCloseTo(52.18, 1);
+  });
+
+  it('should fall back to trading days without usable dates', () => {
+    expect(getPeriodsPerYear([])).toBe(252);
+    expect(getPeriodsPerYear(['2024-01-01', '2024-01-01'])).toBe(252);
+  });
+});
+
+// ============================================
+// DRAWDOWNS
+// ============================================
+
+describe('Drawdown Analytics', () => {
+  const equity = [100, 110, 99, 88, 110, 120, 108, 114];
+
+  it('should measure the drawdown at each point', () => {
+    expect(getDrawdownSeries([100, 120, 90, 130])).toEqual([0, 0, 25, 0]);
+  });
+
+  it('should compute the Ulcer index as the RMS drawdown', () => {
+    expect(calculateUlcerIndex([100, 90])).toBeCloseTo(Math.sqrt(50));
+    expect(calculateUlcerIndex([100, 110, 120])).toBe(0);
+  });
+
+  it('should find the longest run of bars below a peak', () => {
+    expect(calculateLongestDrawdown(equity)).toBe(2);
+    expect(calculateLongestDrawdown([100, 90, 80, 85, 95, 99])).toBe(5);
+  });
+
+  it('should time the recovery from the deepest trough', () => {
+    // Deepest trough is 88 (-20%), back to 110 one bar later
+    expect(calculateTimeToRecovery(equity)).toBe(1);
+    expect(calculateTimeToRecovery([100, 90, 95])).toBeNull();
+    expect(calculateTimeToRecovery([100, 110])).toBe(0);
+  });
+});
+
+// ============================================
+// RETURNS AND TRADES
+// ============================================
+
+describe('Return and Trade Analytics', () => {
+  it('should ignore upside volatility in Sortino', () => {
+    // Big gains, small losses: only the losses count as risk
+    const equity = [100, 110, 108.9, 119.79, 118.59, 130.45];
+
+    expect(calculateSortino([100, 101, 102, 103])).toBe(0);
+    expect(calculateSortino(equity)).toBeGreaterThan(calculatePerformance(equity).sharpe);
+  });
+
+  it('should put risk of ruin at 1 without an edge and 0 without losses', () => {
+    expect(calculateRiskOfRuin([createTrade(0, 1, 100), createTrade(1, 2, -200)], 10000)).toBe(1);
+    expect(calculateRiskOfRuin([createTrade(0, 1, 100)], 10000)).toBe(0);
+  });
+
+  it('should raise risk of ruin with trade size', () => {
+    const trades = (scale: number) => [
+      createTrade(0, 1, 300 * scale),
+      createTrade(1, 2, -200 * scale),
+      createTrade(2, 3, 300 * scale),
+      createTrade(3, 4, -200 * scale),
+    ];
+    const small = calculateRiskOfRuin(trades(1), 10000);
+    const large = calculateRiskOfRuin(trades(10), 10000);
+
+    expect(small).toBeGreaterThanOrEqual(0);
+    expect(large).toBeGreaterThan(small);
+    expect(large).toBeLessThan(1);
+  });
+
+  it('should count bars with any position open, without double counting', () => {
+    const trades = [createTrade(0, 4, 10), createTrade(2, 6, 10)];
+    const open = [{ entryIndex: 8 } as Position];
+
+    expect(calculateExposureTime(10, trades)).toBe(60);
+    expect(calculateExposureTime(10, trades, open)).toBe(80);
+  });
+
+  it('should combine curve and trade analytics', () => {
+    const analytics = calculateAnalytics({
+      equity: [10000, 10100, 9900, 10300, 10400],
+      dates: createDates(4, 7),
+      trades: [createTrade(0, 2, -100), createTrade(2, 4, 500)],
+    });
+
+    expect(analytics.periodsPerYear).toBeCloseTo(52.18, 1);
+    expect(analytics.expectancy).toBe(200);
+    expect(analytics.averageHoldingPeriod).toBe(2);
+    expect(analytics.winRate).toBe(0.5);
+    expect(analytics.exposureTime).toBe(100);
+    expect(analytics.totalReturn).toBeCloseTo(4);
+  });
+});
+
+// ============================================
+// BENCHMARK
+// ============================================
+
+describe('Benchmark-Relative Metrics', () => {
+  // Benchmark bar returns, and a curve that takes twice each of them
+  const benchmarkReturns = [0.01, -0.02, 0.015, 0.03, -0.01, 0.005, -0.015, 0.02, 0.01, -0.005, 0.012, -0.008];
+  const compound = (returns: number[]) =>
+    returns.reduce((curve, r) => [...curve, curve[curve.length - 1] * (1 + r)], [10000]);
+  const benchmark = compound(benchmarkReturns);
+  const levered = compound(benchmarkReturns.map(r => r * 2));
+
+  it('should hold the benchmark from its first price', () => {
+    expect(getBuyAndHoldEquity([null, 50, 55, null, 45], 1000)).toEqual([1000, 1000, 1100, 1100, 900]);
+    expect(getBuyAndHoldEquity([null, null], 1000)).toEqual([1000, 1000]);
+  });
+
+  it('should find beta without alpha in a levered copy of the benchmark', () => {
+    const relative = calculateRelativeMetrics(levered, benchmark);
+
+    expect(relative.beta).toBeCloseTo(2);
+    expect(relative.correlation).toBeCloseTo(1);
+    expect(relative.alpha).toBeCloseTo(0);
+    expect(relative.upCapture).toBeCloseTo(200);
+    expect(relative.downCapture).toBeCloseTo(200);
+    expect(relative.trackingError).toBeGreaterThan(0);
+  });
+
+  it('should report no active risk when tracking the benchmark exactly', () => {
+    const relative = calculateRelativeMetrics(benchmark, benchmark);
+
+    expect(relative.excessReturn).toBeCloseTo(0);
+    expect(relative.trackingError).toBeCloseTo(0);
+    expect(relative.informationRatio).toBe(0);
+    expect(relative.benchmarkReturn).toBeCloseTo((benchmark[benchmark.length - 1] / 10000 - 1) * 100);
+  });
+
+  it('should credit steady outperformance as alpha', () => {
+    const ahead = compound(benchmarkReturns.map(r => r + 0.001));
+    const relative = calculateRelativeMetrics(ahead, benchmark, 252);
+
+    expect(relative.beta).toBeCloseTo(1);
+    expect(relative.alpha).toBeCloseTo(25.2);
+    expect(relative.excessReturn).toBeGreaterThan(0);
+  });
+});
+
+// ============================================
+// ENGINE
+// ============================================
+
+describe('Engine Analytics', () => {
+  const data: OHLCV[] = [100, 102, 98, 104, 108, 103, 110].map((close, i) => ({
+    date: createDates(7, 1)[i],
+    open: close,
+    high: close + 1,
+    low: close - 1,
+    close,
+    volume: 1000000,
+  }));
+
+  it('should analyze the tick equity series', () => {
+    const engine = new BacktestEngine();
+    engine.loadData(data);
+    engine.runStrategy(createBuyAndHoldStrategy({ leverage: 1, cashBuffer: 0 }));
+    const analytics = engine.getAnalytics();
+    const ticks = engine.getTickHistory();
+
+    expect(analytics.totalReturn).toBeCloseTo((ticks[ticks.length - 1].portfolioValue / 10000 - 1) * 100);
+    expect(analytics.periodsPerYear).toBeCloseTo(365.25);
+    expect(analytics.exposureTime).toBeGreaterThan(80);
+  });
+
+  it('should fill the summary with a computed Sharpe ratio', () => {
+    const engine = new BacktestEngine();
+    engine.loadData(data);
+    engine.runStrategy(createBuyAndHoldStrategy({ leverage: 1, cashBuffer: 0 }));
+    const summary = engine.getSummary();
+
+    expect(summary.sharpeRatio).toBe(engine.getAnalytics().sharpe);
+    expect(summary.sharpeRatio).not.toBe(0);
+    expect(summary.totalTrades).toBe(0);
+    expect(summary.benchmarkReturnPercent).toBeCloseTo(10);
+  });
+
+  it('should track buy-and-hold of the asset on each tick', () => {
+    const engine = new BacktestEngine();
+    engine.loadData(data);
+    engine.runTicks(data.length);
+
+    expect(engine.getTickHistory().map(tick => tick.benchmarkValue)).toEqual(data.map(bar => bar.close * 100));
+  });
+
+  it('should track the index when it is the benchmark source', () => {
+    const index = data.map((bar, i) => ({ ...bar, close: 200 + i * 10 }));
+    const engine = new BacktestEngine({ benchmarkSource: 'index' });
+    engine.loadData(data);
+    engine.loadBenchmark(index);
+    engine.runTicks(data.length);
+
+    expect(engine.getTickHistory()[6].benchmarkValue).toBeCloseTo(13000);
+    expect(engine.getRelativeMetrics().benchmarkReturn).toBeCloseTo(30);
+  });
+});
@@ -0,0 +1,284 @@
+/**
+ * Analytics - The scoring table of a finished (or running) backtest
+ *
+ * Everything the README's scoring promises, measured on the equity at each
+ * bar: return and risk-adjusted return (CAGR, Sharpe, Sortino, Calmar),
+ * pain (max drawdown, Ulcer index, longest drawdown, time to recovery),
+ * trading (expectancy, holding period, exposure time) and risk of ruin.
+ *
+ * Annual figures use the dataset's own bar spacing, so daily stock bars,
+ * crypto bars that include weekends and weekly bars all annualize correctly.
+ *
+ * Relative metrics compare the equity with a buy-and-hold benchmark on the
+ * same bars: did the player beat simply holding, and with how much of the
+ * benchmark's risk?
+ */
+
+import type { ClosedPosition, Position } from '../types';
+import { estimateHedge } from '../skills/HedgeEstimator';
+import { calculatePerformance, getEquityReturns, TRADING_DAYS_PER_YEAR } from './performance';
+import type { PerformanceMetrics } from './performance';
+
+export interface AnalyticsInput {
+  equity: number[];               // Initial capital, then equity at each bar's close
+  dates?: string[];               // Date of each bar (equity[i + 1]), to annualize by bar spacing
+  trades?: ClosedPosition[];
+  openPositions?: Position[];     // Still open at the end (counted in exposure time)
+}
+
+export interface AnalyticsOptions {
+  periodsPerYear?: number;        // Overrides the spacing of the dates
+  riskFreeRate?: number;          // Annual (0.04 = 4%)
+  ruinLevel?: number;             // Share of the initial capital at or below which the account is ruined (default 0.5)
+}
+
+export interface PerformanceAnalytics extends PerformanceMetrics {
+  sortino: number;                // Annualized excess return / downside deviation
+  ulcerIndex: number;             // % root mean square of drawdowns
+  longestDrawdown: number;        // Most bars spent below a previous peak
+  timeToRecovery: number | null;  // Bars from the deepest trough back to its peak (null = not recovered)
+  riskOfRuin: number;             // Probability (0-1) of falling to the ruin level, from the trade statistics
+  exposureTime: number;           // % of bars with a position open
+  averageHoldingPeriod: number;   // Bars per closed trade
+  expectancy: number;             // Average P&L per closed trade
+  winRate: number;                // 0-1
+  periodsPerYear: number;
+}
+
+export interface RelativeMetrics {
+  benchmarkReturn: number;        // % total return of the benchmark
+  excessReturn: number;           // % total return minus the benchmark's
+  alpha: number;                  // % annualized return not explained by beta (Jensen's alpha)
+  beta: number;                   // Sensitivity to the benchmark's bar returns (0 with too few bars)
+  correlation: number;            // -1 to 1
+  trackingError: number;          // % annualized standard deviation of the return difference
+  informationRatio: number;       // Annualized mean return difference / tracking error
+  upCapture: number;              // % of the benchmark's average up-bar return captured
+  downCapture: number;            // % of the benchmark's average down-bar return taken (below 100 = cushioned)
+}
+
+const DEFAULT_RUIN_LEVEL = 0.5;
+const DAYS_PER_YEAR = 365.25;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// ============================================
+// ANNUALIZING
+// ============================================
+
+/**
+ * Bars per calendar year between the first and last date. Falls back to
+ * trading days when the dates cannot tell.
+ */
+export function getPeriodsPerYear(dates: string[]): number {
+  if (dates.length < 2) return TRADING_DAYS_PER_YEAR;
+
+  const days = (Date.parse(dates[dates.length - 1]) - Date.parse(dates[0])) / MS_PER_DAY;
+  if (!(days > 0)) return TRADING_DAYS_PER_YEAR;
+
+  return ((dates.length - 1) * DAYS_PER_YEAR) / days;
+}
+
+// ============================================
+// DRAWDOWNS
+// ============================================
+
+/**
+ * % below the running peak at each equity point
+ */
+export function getDrawdownSeries(equity: number[]): number[] {
+  let peak = -Infinity;
+  return equity.map(value => {
+    peak = Math.max(peak, value);
+    return peak > 0 ? ((peak - value) / peak) * 100 : 0;
+  });
+}
+
+export function calculateUlcerIndex(equity: number[]): number {
+  if (equity.length === 0) return 0;
+  const drawdowns = getDrawdownSeries(equity);
+  return Math.sqrt(drawdowns.reduce((sum, dd) => sum + dd * dd, 0) / drawdowns.length);
+}
+
+/**
+ * Longest run of bars below a previous peak, recovered or not
+ */
+export function calculateLongestDrawdown(equity: number[]): number {
+  let longest = 0;
+  let current = 0;
+  for (const dd of getDrawdownSeries(equity)) {
+    current = dd > 0 ? current + 1 : 0;
+    longest = Math.max(longest, current);
+  }
+  return longest;
+}
+
+/**
+ * Bars from the deepest trough until equity is back at the peak before it
+ */
+export function calculateTimeToRecovery(equity: number[]): number | null {
+  const drawdowns = getDrawdownSeries(equity);
+  let trough = 0;
+  for (let i = 1; i < drawdowns.length; i++) {
+    if (drawdowns[i] > drawdowns[trough]) trough = i;
+  }
+  if (drawdowns[trough] === 0) return 0;
+
+  for (let i = trough + 1; i < drawdowns.length; i++) {
+    if (drawdowns[i] === 0) return i - trough;
+  }
+  return null;
+}
+
+// ============================================
+// RETURNS
+// ============================================
+
+/**
+ * Annualized mean excess return over the downside deviation (returns below
+ * the risk-free rate only)
+ */
+export function calculateSortino(
+  equity: number[],
+  periodsPerYear: number = TRADING_DAYS_PER_YEAR,
+  riskFreeRate: number = 0
+): number {
+  const returns = getEquityReturns(equity);
+  if (returns.length === 0) return 0;
+
+  const target = riskFreeRate / periodsPerYear;
+  const excess = returns.reduce((sum, r) => sum + r, 0) / returns.length - target;
+  const downside = Math.sqrt(returns.reduce((sum, r) => sum + Math.min(0, r - target) ** 2, 0) / returns.length);
+
+  return downside > 0 ? (excess / downside) * Math.sqrt(periodsPerYear) : 0;
+}
+
+// ============================================
+// TRADES
+// ============================================
+
+/**
+ * Probability of losing ruinLevel of the capital, from the win rate and the
+ * average win and loss as shares of the capital (Vince's approximation).
+ * 1 when the trades have no edge, 0 when they never lose.
+ */
+export function calculateRiskOfRuin(
+  trades: ClosedPosition[],
+  capital: number,
+  ruinLevel: number = DEFAULT_RUIN_LEVEL
+): number {
+  if (trades.length === 0 || capital <= 0) return 0;
+
+  const wins = trades.filter(t => t.realizedPnL > 0);
+  const losses = trades.filter(t => t.realizedPnL < 0);
+  if (losses.length === 0) return 0;
+
+  const winRate = wins.length / trades.length;
+  const lossRate = losses.length / trades.length;
+  const averageWin = wins.length > 0 ? wins.reduce((sum, t) => sum + t.realizedPnL, 0) / wins.length / capital : 0;
+  const averageLoss = Math.abs(losses.reduce((sum, t) => sum + t.realizedPnL, 0)) / losses.length / capital;
+
+  const edge = winRate * averageWin - lossRate * averageLoss;
+  if (edge <= 0) return 1;
+
+  const spread = Math.sqrt(winRate * averageWin ** 2 + lossRate * averageLoss ** 2);
+  const p = 0.5 * (1 + edge / spread);
+  return Math.min(1, Math.pow((1 - p) / p, (1 - ruinLevel) / spread));
+}
+
+/**
+ * % of barCount bars on which any position was open
+ */
+export function calculateExposureTime(
+  barCount: number,
+  trades: ClosedPosition[],
+  openPositions: Position[] = []
+): number {
+  if (barCount <= 0) return 0;
+
+  const exposed = new Array<boolean>(barCount).fill(false);
+  const mark = (from: number, to: number) => {
+    for (let i = Math.max(0, from); i < Math.min(barCount, to); i++) exposed[i] = true;
+  };
+  trades.forEach(t => mark(t.entryIndex, t.exitIndex));
+  openPositions.forEach(p => mark(p.entryIndex, barCount));
+
+  return (exposed.filter(Boolean).length / barCount) * 100;
+}
+
+// ============================================
+// ANALYTICS
+// ============================================
+
+export function calculateAnalytics(input: AnalyticsInput, options: AnalyticsOptions = {}): PerformanceAnalytics {
+  const { equity, trades = [], openPositions = [] } = input;
+  const periodsPerYear = options.periodsPerYear ?? getPeriodsPerYear(input.dates ?? []);
+  const riskFreeRate = options.riskFreeRate ?? 0;
+  const winners = trades.filter(t => t.realizedPnL > 0).length;
+
+  return {
+    ...calculatePerformance(equity, periodsPerYear, riskFreeRate),
+    sortino: calculateSortino(equity, periodsPerYear, riskFreeRate),
+    ulcerIndex: calculateUlcerIndex(equity),
+    longestDrawdown: calculateLongestDrawdown(equity),
+    timeToRecovery: calculateTimeToRecovery(equity),
+    riskOfRuin: calculateRiskOfRuin(trades, equity[0] ?? 0, options.ruinLevel),
+    exposureTime: calculateExposureTime(equity.length - 1, trades, openPositions),
+    averageHoldingPeriod: trades.length > 0 ? trades.reduce((sum, t) => sum + t.holdingPeriod, 0) / trades.length : 0,
+    expectancy: trades.length > 0 ? trades.reduce((sum, t) => sum + t.realizedPnL, 0) / trades.length : 0,
+    winRate: trades.length > 0 ? winners / trades.length : 0,
+    periodsPerYear,
+  };
+}
+
+// ============================================
+// RELATIVE TO A BENCHMARK
+// ============================================
+
+/**
+ * Compare an equity curve with a benchmark equity curve over the same bars.
+ * riskFreeRate is annual (0.04 = 4%).
+ */
+export function calculateRelativeMetrics(
+  equity: number[],
+  benchmarkEquity: number[],
+  periodsPerYear: number = TRADING_DAYS_PER_YEAR,
+  riskFreeRate: number = 0
+): RelativeMetrics {
+  const n = Math.min(equity.length, benchmarkEquity.length);
+  const returns = getEquityReturns(equity.slice(0, n));
+  const benchmarkReturns = getEquityReturns(benchmarkEquity.slice(0, n));
+  const totalReturn = (curve: number[]) => (n > 1 && curve[0] > 0 ? (curve[n - 1] / curve[0] - 1) * 100 : 0);
+  const mean = (values: number[]) => (values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0);
+
+  const benchmarkReturn = totalReturn(benchmarkEquity);
+  const estimate = estimateHedge(returns, benchmarkReturns);
+  const beta = estimate?.beta ?? 0;
+
+  // Jensen's alpha per bar, from excess returns over the risk-free rate
+  const riskFree = riskFreeRate / periodsPerYear;
+  const alpha = (mean(returns) - riskFree - beta * (mean(benchmarkReturns) - riskFree)) * periodsPerYear * 100;
+
+  const active = returns.map((r, i) => r - benchmarkReturns[i]);
+  const activeMean = mean(active);
+  const activeDeviation = Math.sqrt(
+    active.reduce((sum, a) => sum + (a - activeMean) ** 2, 0) / Math.max(1, active.length - 1)
+  );
+
+  const capture = (up: boolean) => {
+    const bars = [...benchmarkReturns.keys()].filter(i => (up ? benchmarkReturns[i] > 0 : benchmarkReturns[i] < 0));
+    const benchmarkMean = mean(bars.map(i => benchmarkReturns[i]));
+    return benchmarkMean !== 0 ? (mean(bars.map(i => returns[i])) / benchmarkMean) * 100 : 0;
+  };
+
+  return {
+    benchmarkReturn,
+    excessReturn: totalReturn(equity) - benchmarkReturn,
+    alpha,
+    beta,
+    correlation: estimate?.correlation ?? 0,
+    trackingError: activeDeviation * Math.sqrt(periodsPerYear) * 100,
+    informationRatio: activeDeviation > 0 ? (activeMean / activeDeviation) * Math.sqrt(periodsPerYear) : 0,
+    upCapture: capture(true),
+    downCapture: capture(false),
+  };
+}
@@ -12,15 +12,29 @@ import {
   openPosition,
   closePositionById,
   closeAllPositions,
+  resizePosition,
+  updateMultiAssetPortfolio,
+  getBookIndicators,
+  getExposureBySymbol,
+  processCandles,
+  setTrailingStop,
+  closeTriggeredTrailingStops,
+  enforceMargin,
   calculateTerrainState,
   calculateCarPhysics,
   detectCandlePattern,
   calculateRoadConditions,
+  getWeatherMix,
   generateRoadSegment,
   createBacktestTick,
   calculateIndicators,
   returnToSlope,
 } from './backtestEngine';
+import { accrueCarry, annualRateToTick, calculateCarryCost } from './carry';
+import { calculateMarginRequirements, getLiquidationOrder } from './margin';
+import { alignBenchmark, calculateBeta } from './benchmark';
+import { alignFeed, createMultiAssetFeed, getFeedIndicators } from './multiAssetFeed';
+import type { AssetSeries } from './multiAssetFeed';
 import type {
   PortfolioState,
   Position,
@@ -277,6 +291,47 @@ describe('Portfolio Management', () => {
     });
   });
 
+  describe('resizePosition', () => {
+    it('should realize P&L on the part removed', () => {
+      const portfolio = createTestPortfolio({
+        cash: 5000,
+        positions: [createTestPosition({ size: 0.5, sizeInDollars: 5000, entryPrice: 100 })],
+      });
+
+      const result = resizePosition(portfolio, 'test-pos-1', 2000, 110, 3);
+      const [position] = result.positions;
+      expect(position.sizeInDollars).toBe(2000);
+      expect(position.size).toBeCloseTo(0.2);
+      expect(position.unrealizedPnL).toBeCloseTo(200);
+      // $3,000 removed with a 10% gain
+      expect(result.closedPositions[0].sizeInDollars).toBe(3000);
+      expect(result.totalRealizedPnL).toBeCloseTo(300);
+      expect(result.cash).toBeCloseTo(5000 + 3300);
+    });
+
+    it('should keep P&L exact when adding at a new price', () => {
+      const portfolio = createTestPortfolio({
+        cash: 5000,
+        positions: [createTestPosition({ direction: 'short', size: 0.3, sizeInDollars: 3000, entryPrice: 100 })],
+      });
+
+      const grown = resizePosition(portfolio, 'test-pos-1', 5000, 90, 3);
+      expect(grown.cash).toBe(3000);
+      expect(grown.positions[0].unrealizedPnL).toBeCloseTo(300);
+
+      // $3,000 short from 100 and $2,000 short from 90, both marked at 81
+      const marked = updatePosition(grown.positions[0], 81);
+      expect(marked.unrealizedPnL).toBeCloseTo(3000 * 0.19 + 2000 * 0.1);
+    });
+
+    it('should close the position when resized to zero', () => {
+      const portfolio = createTestPortfolio({ positions: [createTestPosition()] });
+      const result = resizePosition(portfolio, 'test-pos-1', 0, 100, 3);
+      expect(result.positions).toHaveLength(0);
+      expect(result.closedPositions).toHaveLength(1);
+    });
+  });
+
   describe('closeAllPositions', () => {
     it('should close all open positions', () => {
       const positions = [
@@ -296,6 +351,388 @@ describe('Portfolio Management', () => {
     });
   });
 
+  describe('trailing stops', () => {
+    it('should attach a percent trailing stop at the current price', () => {
+      const portfolio = createTestPortfolio({ positions: [createTestPosition({ currentPrice: 100 })] });
+
+      const updated = setTrailingStop(portfolio, 'test-pos-1', { mode: 'percent', distance: 10 });
+
+      expect(updated.positions[0].trailingStop!.level).toBe(90);
+      expect(updated.positions[0].trailingStop!.extremePrice).toBe(100);
+    });
+
+    it('should ratchet the trail with the ATR from market indicators', () => {
+      let portfolio = createTestPortfolio({ positions: [createTestPosition({ currentPrice: 100 })] });
+      portfolio = setTrailingStop(portfolio, 'test-pos-1', { mode: 'atr', distance: 2 }, 5);
+      expect(portfolio.positions[0].trailingStop!.level).toBe(90);
+
+      const market = createTestMarket({ indicators: { ...INITIAL_MARKET_STATE.indicators, atr: 4 } });
+      portfolio = updatePortfolio(portfolio, 120, 1, '2024-01-02', market);
+      expect(portfolio.positions[0].trailingStop!.level).toBe(112);
+
+      // Falling price does not loosen the trail
+      portfolio = updatePortfolio(portfolio, 115, 2, '2024-01-03', market);
+      expect(portfolio.positions[0].trailingStop!.level).toBe(112);
+    });
+
+    it('should move a short trail down only', () => {
+      let portfolio = createTestPortfolio({
+        positions: [createTestPosition({ direction: 'short', currentPrice: 100 })],
+      });
+      portfolio = setTrailingStop(portfolio, 'test-pos-1', { mode: 'percent', distance: 10 });
+      expect(portfolio.positions[0].trailingStop!.level).toBeCloseTo(110);
+
+      portfolio = updatePortfolio(portfolio, 80, 1, '2024-01-02');
+      expect(portfolio.positions[0].trailingStop!.level).toBeCloseTo(88);
+
+      portfolio = updatePortfolio(portfolio, 85, 2, '2024-01-03');
+      expect(portfolio.positions[0].trailingStop!.level).toBeCloseTo(88);
+    });
+
+    it('should close positions whose trail is hit, at the open on a gap', () => {
+      let portfolio = createTestPortfolio({
+        positions: [createTestPosition({ currentPrice: 100 })],
+        cash: 5000,
+        totalExposure: 0.5,
+      });
+      portfolio = setTrailingStop(portfolio, 'test-pos-1', { mode: 'percent', distance: 10 });
+
+      const untouched = closeTriggeredTrailingStops(portfolio, { open: 99, high: 101, low: 91 }, 1);
+      expect(untouched.positions).toHaveLength(1);
+
+      const closed = closeTriggeredTrailingStops(portfolio, { open: 85, high: 87, low: 84 }, 1);
+      expect(closed.positions).toHaveLength(0);
+      expect(closed.closedPositions[0].exitReason).toBe('trailing_stop');
+      expect(closed.closedPositions[0].exitPrice).toBe(85);
+    });
+  });
+
+  describe('carry', () => {
+    const rates = { marginInterestRate: 0.0365, shortBorrowRate: 0.073 };
+
+    it('should convert annual rates using the tick duration', () => {
+      expect(annualRateToTick(0.0365, 1)).toBeCloseTo(0.0001);
+      expect(annualRateToTick(0.0365, 7)).toBeCloseTo(0.0007);
+    });
+
+    it('should charge interest only on the borrowed part of a leveraged long', () => {
+      expect(calculateCarryCost(createTestPosition({ leverage: 1 }), rates, 1)).toBe(0);
+      // $5,000 at 3x borrows $10,000 at 0.01% a day
+      expect(calculateCarryCost(createTestPosition({ leverage: 3 }), rates, 1)).toBeCloseTo(1);
+    });
+
+    it('should charge a borrow fee on short notional', () => {
+      const short = createTestPosition({ direction: 'short', leverage: 2 });
+      // $5,000 borrowed at 0.01% plus $10,000 short at 0.02%
+      expect(calculateCarryCost(short, rates, 1)).toBeCloseTo(0.5 + 2);
+    });
+
+    it('should pay carry from cash and track it per position and in total', () => {
+      const portfolio = createTestPortfolio({
+        cash: 5000,
+        positions: [createTestPosition({ leverage: 3 })],
+      });
+
+      const accrued = accrueCarry(accrueCarry(portfolio, rates, 1), rates, 1, 3);
+
+      expect(accrued.cash).toBeCloseTo(4996);
+      expect(accrued.totalCarry).toBeCloseTo(4);
+      expect(accrued.positions[0].accruedCarry).toBeCloseTo(4);
+      expect(updatePortfolio(accrued, 100, 4, '2024-01-05').equity).toBeCloseTo(9996);
+    });
+
+    it('should leave unleveraged longs untouched', () => {
+      const portfolio = createTestPortfolio({ positions: [createTestPosition()] });
+      expect(accrueCarry(portfolio, rates, 1)).toBe(portfolio);
+    });
+  });
+
+  describe('margin', () => {
+    const rules = { maintenanceRatio: 0.5, graceBars: 1 };
+
+    it('should require less initial margin from more leveraged positions', () => {
+      const unlevered = createTestPosition({ leverage: 1 });
+      const levered = createTestPosition({ leverage: 3, sizeInDollars: 5000 / 3 });
+
+      const a = calculateMarginRequirements([unlevered], 10000, rules);
+      const b = calculateMarginRequirements([levered], 10000, rules);
+
+      // Same $5,000 notional
+      expect(a.initialMargin).toBeCloseTo(5000);
+      expect(b.initialMargin).toBeCloseTo(5000 / 3);
+      expect(b.maintenanceMargin).toBeCloseTo(2500 / 3);
+      expect(a.marginUsage).toBeCloseTo(0.25);
+    });
+
+    it('should order liquidations by largest loss first', () => {
+      const order = getLiquidationOrder([
+        createTestPosition({ id: 'small-loss', unrealizedPnL: -100 }),
+        createTestPosition({ id: 'gain', unrealizedPnL: 200 }),
+        createTestPosition({ id: 'big-loss', unrealizedPnL: -900 }),
+      ]);
+      expect(order.map(p => p.id)).toEqual(['big-loss', 'small-loss', 'gain']);
+    });
+
+    it('should warn during the grace period, then liquidate everything', () => {
+      const portfolio = createTestPortfolio({
+        cash: 0,
+        positions: [createTestPosition({ size: 1, sizeInDollars: 10000, leverage: 3 })],
+      });
+      // 25% drop at 3x: equity $2,500 against $3,750 maintenance
+      const marked = updatePortfolio(portfolio, 75, 1, '2024-01-02', undefined, 1, rules);
+      expect(marked.maintenanceMargin).toBeCloseTo(3750);
+
+      const warned = enforceMargin(marked, 75, 1, '2024-01-02', rules);
+      expect(warned.event?.type).toBe('margin_warning');
+      expect(warned.event?.barsRemaining).toBe(0);
+      expect(warned.portfolio.positions).toHaveLength(1);
+
+      const liquidated = enforceMargin(warned.portfolio, 75, 2, '2024-01-03', rules);
+      expect(liquidated.event?.type).toBe('full_liquidation');
+      expect(liquidated.portfolio.positions).toHaveLength(0);
+      expect(liquidated.portfolio.closedPositions[0].exitReason).toBe('margin_call');
+      expect(liquidated.portfolio.marginCallBars).toBe(0);
+    });
+
+    it('should stop liquidating once back above maintenance', () => {
+      const portfolio = createTestPortfolio({
+        cash: 0,
+        marginCallBars: 1,
+        positions: [
+          createTestPosition({ id: 'levered-long', size: 0.8, sizeInDollars: 8000, leverage: 3 }),
+          createTestPosition({ id: 'short', direction: 'short', size: 0.2, sizeInDollars: 2000 }),
+        ],
+      });
+      const marked = updatePortfolio(portfolio, 70, 1, '2024-01-02', undefined, 1, rules);
+      const result = enforceMargin(marked, 70, 1, '2024-01-02', rules);
+
+      expect(result.event?.type).toBe('partial_liquidation');
+      expect(result.event?.liquidatedPositionIds).toEqual(['levered-long']);
+      expect(result.portfolio.positions.map(p => p.id)).toEqual(['short']);
+    });
+
+    it('should clear the warning when equity recovers', () => {
+      const portfolio = createTestPortfolio({ marginCallBars: 1, positions: [createTestPosition()] });
+      const marked = updatePortfolio(portfolio, 100, 1, '2024-01-02', undefined, 1, rules);
+      const result = enforceMargin(marked, 100, 1, '2024-01-02', rules);
+
+      expect(result.event).toBeNull();
+      expect(result.portfolio.marginCallBars).toBe(0);
+    });
+  });
+
+  describe('benchmark', () => {
+    it('should align benchmark closes to asset dates, carrying the last close over gaps', () => {
+      const aligned = alignBenchmark(
+        [{ date: '2024-01-01' }, { date: '2024-01-02' }, { date: '2024-01-03' }, { date: '2024-01-06' }],
+        [
+          { date: '2024-01-02', close: 50 },
+          { date: '2024-01-03', close: 51 },
+          { date: '2024-01-05', close: 52 },
+        ]
+      );
+      expect(aligned).toEqual([null, 50, 51, 52]);
+    });
+
+    it('should measure beta from close-to-close returns', () => {
+      const index = [100];
+      const asset = [100];
+      for (let i = 1; i <= 30; i++) {
+        const r = (i % 2 === 0 ? 0.01 : -0.008) * (1 + (i % 5) / 10);
+        index.push(index[i - 1] * (1 + r));
+        asset.push(asset[i - 1] * (1 + 1.5 * r));
+      }
+
+      expect(calculateBeta(asset, index, 30)).toBeCloseTo(1.5);
+      // Too few return pairs to measure
+      expect(calculateBeta(asset, index, 5)).toBeNull();
+      expect(calculateBeta(asset, index.map(() => null), 30)).toBeNull();
+    });
+
+    it('should mark index positions at the index price', () => {
+      const portfolio = createTestPortfolio({
+        cash: 0,
+        positions: [
+          createTestPosition({ id: 'asset', entryPrice: 100 }),
+          createTestPosition({
+            id: 'hedge', direction: 'short', instrument: 'index', isHedge: true, entryPrice: 4000,
+          }),
+        ],
+      });
+
+      const updated = updatePortfolio(portfolio, 110, 1, '2024-01-02', undefined, 1, undefined, 3800);
+      const hedge = updated.positions.find(p => p.id === 'hedge')!;
+      expect(updated.positions.find(p => p.id === 'asset')!.currentPrice).toBe(110);
+      expect(hedge.currentPrice).toBe(3800);
+      // 5% index drop on a $5,000 short
+      expect(hedge.unrealizedPnL).toBeCloseTo(250);
+
+      // Without an index series, hedges fall back to the asset price
+      const fallback = updatePortfolio(portfolio, 110, 1, '2024-01-02');
+      expect(fallback.positions.find(p => p.id === 'hedge')!.currentPrice).toBe(110);
+    });
+
+    it('should close index positions at the index price', () => {
+      const portfolio = createTestPortfolio({
+        positions: [createTestPosition({ direction: 'short', instrument: 'index', isHedge: true, entryPrice: 4000 })],
+      });
+
+      const closed = closeAllPositions(portfolio, 110, 5, 'manual', 4200);
+      expect(closed.closedPositions[0].exitPrice).toBe(4200);
+      expect(closed.closedPositions[0].realizedPnL).toBeCloseTo(-250);
+    });
+  });
+
+  describe('multi-asset book', () => {
+    function createSeries(symbol: string, bars: [string, number][]): AssetSeries {
+      return {
+        key: symbol.toLowerCase(),
+        symbol,
+        name: symbol,
+        candles: processCandles(bars.map(([date, close]) => ({
+          date, open: close, high: close, low: close, close, volume: 1000,
+        }))),
+      };
+    }
+
+    const indicators = (overrides: Partial<MarketIndicators>): MarketIndicators => ({
+      ...INITIAL_MARKET_STATE.indicators, volatility: 1, ...overrides,
+    });
+
+    it('should align series on the union of dates and carry closes forward', () => {
+      const feed = createMultiAssetFeed([
+        createSeries('SPY', [['2024-01-02', 100], ['2024-01-03', 101], ['2024-01-05', 103]]),
+        createSeries('BTC-USD', [['2024-01-03', 40000], ['2024-01-04', 41000], ['2024-01-05', 42000]]),
+      ]);
+
+      expect(feed.symbols).toEqual(['SPY', 'BTC-USD']);
+      expect(feed.bars.map(bar => bar.date)).toEqual(['2024-01-02', '2024-01-03', '2024-01-04', '2024-01-05']);
+
+      // Bitcoin has no price before its first bar
+      expect(feed.bars[0].prices).toEqual({ SPY: 100 });
+      // SPY did not trade on the 4th: its close carries forward
+      expect(feed.bars[2].prices).toEqual({ SPY: 101, 'BTC-USD': 41000 });
+      expect(feed.bars[2].traded).toEqual(['BTC-USD']);
+      expect(feed.bars[2].candleIndex).toEqual({ SPY: 1, 'BTC-USD': 1 });
+    });
+
+    it('should keep only shared dates with intersection alignment', () => {
+      const feed = createMultiAssetFeed([
+        createSeries('SPY', [['2024-01-02', 100], ['2024-01-03', 101], ['2024-01-05', 103]]),
+        createSeries('BTC-USD', [['2024-01-03', 40000], ['2024-01-04', 41000], ['2024-01-05', 42000]]),
+      ], 'intersection');
+
+      expect(feed.bars.map(bar => bar.date)).toEqual(['2024-01-03', '2024-01-05']);
+      expect(feed.bars[1].traded).toEqual(['SPY', 'BTC-USD']);
+    });
+
+    it('should compute indicators for each priced symbol from its own history', () => {
+      const feed = createMultiAssetFeed([
+        createSeries('SPY', [['2024-01-02', 100], ['2024-01-03', 101]]),
+        createSeries('BTC-USD', [['2024-01-03', 40000]]),
+      ]);
+
+      expect(Object.keys(getFeedIndicators(feed, 0))).toEqual(['SPY']);
+      expect(Object.keys(getFeedIndicators(feed, 1))).toEqual(['SPY', 'BTC-USD']);
+      expect(getFeedIndicators(feed, 5)).toEqual({});
+    });
+
+    it('should find the feed bar at or before each date of another calendar', () => {
+      const feed = createMultiAssetFeed([
+        createSeries('BTC-USD', [['2024-01-03', 40000], ['2024-01-04', 41000], ['2024-01-06', 42000]]),
+      ]);
+
+      expect(alignFeed(feed, ['2024-01-02', '2024-01-03', '2024-01-05', '2024-01-08'])).toEqual([-1, 0, 1, 2]);
+    });
+
+    it('should leave book positions to the book when marking the loaded dataset', () => {
+      const portfolio = createTestPortfolio({
+        cash: 5000,
+        positions: [createTestPosition({ symbol: 'BTC-USD', currentPrice: 40000, entryPrice: 40000 })],
+      });
+
+      const updated = updatePortfolio(portfolio, 100, 1, '2024-01-02');
+      expect(updated.positions[0].currentPrice).toBe(40000);
+
+      const closed = closeAllPositions(updated, 100, 1);
+      expect(closed.closedPositions[0].exitPrice).toBe(40000);
+    });
+
+    it('should open and close positions with their symbol', () => {
+      const opened = openPosition(createTestPortfolio(), 'long', 0.5, 100, 0, '2024-01-01', 1, { symbol: 'SPY' });
+      expect(opened.positions[0].symbol).toBe('SPY');
+
+      const closed = closePositionById(opened, opened.positions[0].id, 110, 1);
+      expect(closed.closedPositions[0].symbol).toBe('SPY');
+    });
+
+    it('should mark each position at its own symbol price', () => {
+      const portfolio = createTestPortfolio({
+        cash: 0,
+        positions: [
+          createTestPosition({ id: 'spy', symbol: 'SPY', sizeInDollars: 5000, size: 0.5, entryPrice: 100 }),
+          createTestPosition({ id: 'btc', symbol: 'BTC-USD', sizeInDollars: 5000, size: 0.5, entryPrice: 40000 }),
+        ],
+      });
+
+      const updated = updateMultiAssetPortfolio(portfolio, { SPY: 110, 'BTC-USD': 36000 });
+
+      expect(updated.positions[0].currentPrice).toBe(110);
+      expect(updated.positions[0].unrealizedPnL).toBeCloseTo(500);
+      expect(updated.positions[1].currentPrice).toBe(36000);
+      expect(updated.positions[1].unrealizedPnL).toBeCloseTo(-500);
+      // Exposure and equity cover the whole book
+      expect(updated.totalExposure).toBeCloseTo(1);
+      expect(updated.equity).toBeCloseTo(10000);
+    });
+
+    it('should keep the last mark of a symbol without a price', () => {
+      const portfolio = createTestPortfolio({
+        cash: 5000,
+        positions: [createTestPosition({ symbol: 'GME', currentPrice: 90, entryPrice: 100 })],
+      });
+
+      const updated = updateMultiAssetPortfolio(portfolio, { SPY: 500 });
+
+      expect(updated.positions[0].currentPrice).toBe(90);
+    });
+
+    it('should measure drawdown across the book', () => {
+      const portfolio = createTestPortfolio({
+        cash: 0,
+        peakEquity: 10000,
+        positions: [
+          createTestPosition({ id: 'spy', symbol: 'SPY', sizeInDollars: 5000, entryPrice: 100 }),
+          createTestPosition({ id: 'gme', symbol: 'GME', sizeInDollars: 5000, entryPrice: 20 }),
+        ],
+      });
+
+      const updated = updateMultiAssetPortfolio(portfolio, { SPY: 100, GME: 10 });
+
+      // GME halves: 2500 of 10000 lost
+      expect(updated.equity).toBeCloseTo(7500);
+      expect(updated.drawdown).toBeCloseTo(0.25);
+    });
+
+    it('should weight book indicators by exposure', () => {
+      const positions = [
+        createTestPosition({ id: 'spy', symbol: 'SPY', sizeInDollars: 7500 }),
+        createTestPosition({ id: 'btc', symbol: 'BTC-USD', sizeInDollars: 2500, direction: 'short' }),
+      ];
+
+      expect(getExposureBySymbol(positions)).toEqual({ SPY: 7500, 'BTC-USD': 2500 });
+
+      const book = getBookIndicators(positions, {
+        SPY: indicators({ volatility: 1, regime: 'BULL' }),
+        'BTC-USD': indicators({ volatility: 5, regime: 'CRASH' }),
+      });
+
+      expect(book!.volatility).toBeCloseTo(2);
+      expect(book!.regime).toBe('BULL');
+      expect(getBookIndicators(positions, {})).toBeNull();
+    });
+  });
+
   describe('updatePortfolio', () => {
     it('should calculate equity correctly', () => {
       // Position with sizeInDollars = 5000
@@ -706,6 +1143,17 @@ describe('Road Conditions', () => {
       expect(calculateRoadConditions(indicators, null, 'CHOP').weather).toBe('foggy');
       expect(calculateRoadConditions(indicators, null, 'RECOVERY').weather).toBe('rainy');
     });
+
+    it('should blend weather by the regime probabilities', () => {
+      const indicators = INITIAL_MARKET_STATE.indicators;
+      const probabilities = { BULL: 0.6, BEAR: 0, CRASH: 0.3, CHOP: 0.1, RECOVERY: 0 };
+
+      expect(getWeatherMix(probabilities)).toEqual({ clear: 0.6, cloudy: 0, rainy: 0, stormy: 0.3, foggy: 0.1 });
+      expect(calculateRoadConditions(indicators, null, 'BULL', probabilities).weatherMix.stormy).toBe(0.3);
+      expect(calculateRoadConditions(indicators, null, 'CRASH').weatherMix).toEqual(
+        { clear: 0, cloudy: 0, rainy: 0, stormy: 1, foggy: 0 }
+      );
+    });
   });
 
   describe('generateRoadSegment', () => {
@@ -765,12 +1213,15 @@ describe('Road Conditions', () => {
 describe('Market Indicators', () => {
   describe('calculateIndicators', () => {
     it('should calculate RSI correctly', () => {
-      const candles = Array.from({ length: 15 }, (_, i) =>
-        createTestCandle({
+      let close = 100;
+      const candles = Array.from({ length: 15 }, (_, i) => {
+        close += i % 2 === 0 ? 1 : -0.5; // Alternating gains/losses
+        return createTestCandle({
           index: i,
-          dailyReturn: i % 2 === 0 ? 1 : -0.5, // Alternating gains/losses
-        })
-      );
+          close,
+          dailyReturn: i % 2 === 0 ? 1 : -0.5,
+        });
+      });
 
       const indicators = calculateIndicators(candles, 14);
 
@@ -781,6 +1232,9 @@ describe('Market Indicators', () => {
       const candles = Array.from({ length: 15 }, (_, i) =>
         createTestCandle({
           index: i,
+          high: 102.5,
+          low: 97.5,
+          close: 100,
           trueRange: 5,
         })
       );
@@ -829,16 +1283,17 @@ describe('Market Indicators', () => {
             close: 200,
           })
         ),
-        ...Array.from({ length: 11 }, (_, i) =>
+        // Long enough at the low for the moving average to catch up: no longer trending
+        ...Array.from({ length: 25 }, (_, i) =>
           createTestCandle({
             index: i + 10,
-            high: 200 - i * 5,
+            high: Math.max(150, 200 - i * 5),
             close: 150, // 25% below peak
           })
         ),
       ];
 
-      const indicators = calculateIndicators(candles, 20);
+      const indicators = calculateIndicators(candles, 34);
 
       expect(indicators.drawdown).toBeGreaterThan(20);
       expect(indicators.regime).toBe('CRASH');
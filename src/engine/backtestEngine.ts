@@ -10,21 +10,33 @@ import type {
   Position,
   ClosedPosition,
   PositionDirection,
+  ExitReason,
+  TrailingStopConfig,
+  MarginRules,
+  MarginEvent,
   CarPhysics,
   MarketIndicators,
   MarketRegime,
+  RegimeProbabilities,
   RoadConditions,
   RoadSegment,
   CandlePattern,
   ProcessedCandle,
   BacktestTick,
+  Weather,
+  WeatherMix,
 } from '../types';
 import type { CurrentMarketState, TerrainState } from '../types/state';
 import {
   LOSS_AVERSION_MULTIPLIER,
   calculateRecoveryNeeded,
 } from '../types/game';
-import { INITIAL_CAR_PHYSICS, INITIAL_PORTFOLIO_STATE } from '../types/state';
+import { INITIAL_CAR_PHYSICS, INITIAL_PORTFOLIO_STATE, INITIAL_MARKET_STATE, DEFAULT_MARGIN_RULES } from '../types/state';
+import { createTrailingStop, updateTrailingStop, getTrailingStopExitPrice } from './trailingStop';
+import { calculateMarginRequirements, getLiquidationOrder, getPositionNotional, isBelowMaintenance } from './margin';
+import { getMarkPrice } from './benchmark';
+import { sharedIds } from './ids';
+import { toRegimeProbabilities } from './regimeClassifier';
 
 // ============================================
 // POSITION MANAGEMENT
@@ -34,30 +46,39 @@ import { INITIAL_CAR_PHYSICS, INITIAL_PORTFOLIO_STATE } from '../types/state';
  * Generate unique ID for positions
  */
 export function generatePositionId(): string {
-  return `pos_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  return sharedIds.nextId('pos');
 }
 
 /**
- * Update a single position with current market price
+ * Update a single position with current market price.
+ * Also ratchets the position's trailing stop, if any (ATR-based trails need atr).
  */
-export function updatePosition(position: Position, currentPrice: number): Position {
+export function updatePosition(position: Position, currentPrice: number, atr: number = 0): Position {
   const priceDiff = currentPrice - position.entryPrice;
   const pnlMultiplier = position.direction === 'long' ? 1 : -1;
   const unrealizedPnLPercent = (priceDiff / position.entryPrice) * 100 * pnlMultiplier * position.leverage;
   // Use sizeInDollars for actual position value
   const unrealizedPnL = position.sizeInDollars * (unrealizedPnLPercent / 100);
 
+  const trailingStop = position.trailingStop
+    ? updateTrailingStop(position.trailingStop, position.direction, currentPrice, atr)
+    : undefined;
+
   return {
     ...position,
     currentPrice,
     unrealizedPnL,
     unrealizedPnLPercent,
+    trailingStop,
   };
 }
 
 /**
  * Update all positions and calculate portfolio metrics
  * Includes loss aversion (2.25x) for stress calculation per CONCEPTS.md
+ * 'index' positions (hedges) are marked at indexPrice when an index series is loaded.
+ * Positions tagged with a symbol belong to a multi-asset book and keep their
+ * mark: updateMultiAssetPortfolio prices them.
  */
 export function updatePortfolio(
   portfolio: PortfolioState,
@@ -65,11 +86,99 @@ export function updatePortfolio(
   currentIndex: number,
   currentDate: string,
   market?: CurrentMarketState,
-  leverage: number = 1
+  leverage: number = 1,
+  marginRules: MarginRules = DEFAULT_MARGIN_RULES,
+  indexPrice: number | null = null
+): PortfolioState {
+  // Update all positions (trailing stops ratchet with the asset's current ATR)
+  const atr = market?.indicators.atr ?? 0;
+  const updatedPositions = portfolio.positions.map(pos => {
+    if (pos.symbol !== undefined) return pos;
+    return pos.instrument === 'index' && indexPrice !== null
+      ? updatePosition(pos, indexPrice)
+      : updatePosition(pos, currentPrice, atr);
+  });
+
+  return summarizePortfolio(portfolio, updatedPositions, market, leverage, marginRules);
+}
+
+/**
+ * Update a book of positions in several instruments, each marked at its own
+ * symbol's price. Exposure, drawdown, margin and car physics cover the whole
+ * book; car physics reads the book's exposure-weighted indicators.
+ * Positions without a price this bar keep their last mark.
+ */
+export function updateMultiAssetPortfolio(
+  portfolio: PortfolioState,
+  prices: Record<string, number>,
+  indicators: Record<string, MarketIndicators> = {},
+  leverage: number = 1,
+  marginRules: MarginRules = DEFAULT_MARGIN_RULES
 ): PortfolioState {
-  // Update all positions
-  const updatedPositions = portfolio.positions.map(pos => updatePosition(pos, currentPrice));
+  const updatedPositions = portfolio.positions.map(pos => {
+    const price = pos.symbol !== undefined ? prices[pos.symbol] : undefined;
+    return price === undefined ? pos : updatePosition(pos, price, indicators[pos.symbol!]?.atr ?? 0);
+  });
+
+  const bookIndicators = getBookIndicators(updatedPositions, indicators);
+  const market = bookIndicators
+    ? { ...INITIAL_MARKET_STATE, indicators: bookIndicators, regime: bookIndicators.regime }
+    : undefined;
+
+  return summarizePortfolio(portfolio, updatedPositions, market, leverage, marginRules);
+}
+
+/**
+ * Indicators of the whole book: RSI, ATR, volatility, trend and drawdown of
+ * each symbol weighted by its share of the book's exposure, and the regime
+ * and price-level indicators (averages, bands) of the largest holding.
+ * Null when no held symbol has indicators.
+ */
+export function getBookIndicators(
+  positions: Position[],
+  indicators: Record<string, MarketIndicators>
+): MarketIndicators | null {
+  const exposure = getExposureBySymbol(positions);
+  const symbols = Object.keys(exposure).filter(symbol => indicators[symbol]);
+  const total = symbols.reduce((sum, symbol) => sum + exposure[symbol], 0);
+  if (total === 0) return null;
+
+  const weighted = (field: 'rsi' | 'atr' | 'volatility' | 'trend' | 'drawdown') =>
+    symbols.reduce((sum, symbol) => sum + indicators[symbol][field] * (exposure[symbol] / total), 0);
+  const largest = symbols.reduce((a, b) => (exposure[b] > exposure[a] ? b : a));
+
+  return {
+    ...indicators[largest],
+    rsi: weighted('rsi'),
+    atr: weighted('atr'),
+    volatility: weighted('volatility'),
+    trend: weighted('trend'),
+    drawdown: weighted('drawdown'),
+  };
+}
+
+/**
+ * Current notional held in each symbol ($, shorts included as positive exposure)
+ */
+export function getExposureBySymbol(positions: Position[]): Record<string, number> {
+  const exposure: Record<string, number> = {};
+  for (const position of positions) {
+    if (position.symbol === undefined) continue;
+    exposure[position.symbol] = (exposure[position.symbol] ?? 0) + getPositionNotional(position);
+  }
+  return exposure;
+}
 
+/**
+ * Aggregate metrics for a portfolio whose positions have already been marked
+ */
+function summarizePortfolio(
+  portfolio: PortfolioState,
+  updatedPositions: Position[],
+  market: CurrentMarketState | undefined,
+  leverage: number,
+  marginRules: MarginRules
+): PortfolioState {
   // Calculate aggregate metrics
   const totalUnrealizedPnL = updatedPositions.reduce((sum, pos) => sum + pos.unrealizedPnL, 0);
   const totalExposure = updatedPositions.reduce((sum, pos) => sum + pos.size, 0);
@@ -104,8 +213,9 @@ export function updatePortfolio(
     ? Math.min(1, rawStress * LOSS_AVERSION_MULTIPLIER)
     : rawStress;
 
-  // Margin usage (simplified: exposure / max leverage)
-  const marginUsage = totalExposure / 3; // Assuming max 3x leverage
+  // Margin requirements scale with each position's leverage
+  const { initialMargin, maintenanceMargin, marginUsage } =
+    calculateMarginRequirements(updatedPositions, equity, marginRules);
 
   // Calculate car physics if market data available
   const carPhysics = market
@@ -124,6 +234,8 @@ export function updatePortfolio(
     drawdown,
     maxDrawdown,
     recoveryNeeded,
+    initialMargin,
+    maintenanceMargin,
     marginUsage,
     rawStress,
     stressLevel,
@@ -135,6 +247,7 @@ export function updatePortfolio(
  * Options for opening a position
  */
 export interface OpenPositionOptions {
+  symbol?: string;
   isHedge?: boolean;
   instrument?: 'asset' | 'index';
   beta?: number;
@@ -172,6 +285,7 @@ export function openPosition(
     unrealizedPnL: 0,
     unrealizedPnLPercent: 0,
     leverage,
+    symbol: options.symbol,
     // New fields for hedge support
     instrument: options.instrument ?? 'asset',
     isHedge: options.isHedge ?? false,
@@ -197,7 +311,8 @@ export function closePositionById(
   portfolio: PortfolioState,
   positionId: string,
   currentPrice: number,
-  currentIndex: number
+  currentIndex: number,
+  exitReason: ExitReason = 'manual'
 ): PortfolioState {
   const positionToClose = portfolio.positions.find(p => p.id === positionId);
   if (!positionToClose) return portfolio;
@@ -219,9 +334,12 @@ export function closePositionById(
     realizedPnL,
     realizedPnLPercent: updatedPosition.unrealizedPnLPercent,
     holdingPeriod: currentIndex - positionToClose.entryIndex,
+    symbol: positionToClose.symbol,
     // Preserve hedge info
     instrument: positionToClose.instrument,
     isHedge: positionToClose.isHedge,
+    exitReason,
+    fees: 0,
   };
 
   // Return cash (sizeInDollars) + P&L
@@ -238,22 +356,210 @@ export function closePositionById(
 }
 
 /**
- * Close all positions
+ * Change a position's size in dollars at the current price.
+ * Shrinking realizes P&L on the part removed; growing moves the entry to the
+ * dollar-weighted harmonic average so the combined P&L stays exact.
+ */
+export function resizePosition(
+  portfolio: PortfolioState,
+  positionId: string,
+  sizeInDollars: number,
+  currentPrice: number,
+  currentIndex: number,
+  exitReason: ExitReason = 'manual'
+): PortfolioState {
+  const position = portfolio.positions.find(p => p.id === positionId);
+  if (!position || sizeInDollars === position.sizeInDollars) return portfolio;
+  if (sizeInDollars <= 0) {
+    return closePositionById(portfolio, positionId, currentPrice, currentIndex, exitReason);
+  }
+
+  const change = sizeInDollars - position.sizeInDollars;
+  const size = position.size * (sizeInDollars / position.sizeInDollars);
+  const replace = (resized: Position) => portfolio.positions.map(p => (p.id === positionId ? resized : p));
+
+  if (change > 0) {
+    const entryPrice = sizeInDollars / (position.sizeInDollars / position.entryPrice + change / currentPrice);
+    return {
+      ...portfolio,
+      positions: replace(updatePosition({ ...position, size, sizeInDollars, entryPrice }, currentPrice)),
+      cash: portfolio.cash - change,
+      totalExposure: portfolio.totalExposure + size - position.size,
+    };
+  }
+
+  const marked = updatePosition(position, currentPrice);
+  const removed = -change;
+  const realizedPnL = removed * (marked.unrealizedPnLPercent / 100);
+
+  const closedPosition: ClosedPosition = {
+    id: position.id,
+    direction: position.direction,
+    entryPrice: position.entryPrice,
+    entryIndex: position.entryIndex,
+    exitPrice: currentPrice,
+    exitIndex: currentIndex,
+    size: position.size - size,
+    sizeInDollars: removed,
+    realizedPnL,
+    realizedPnLPercent: marked.unrealizedPnLPercent,
+    holdingPeriod: currentIndex - position.entryIndex,
+    symbol: position.symbol,
+    instrument: position.instrument,
+    isHedge: position.isHedge,
+    exitReason,
+    fees: 0,
+  };
+
+  return {
+    ...portfolio,
+    positions: replace(updatePosition({ ...marked, size, sizeInDollars }, currentPrice)),
+    closedPositions: [...portfolio.closedPositions, closedPosition],
+    cash: portfolio.cash + removed + realizedPnL,
+    totalExposure: portfolio.totalExposure - (position.size - size),
+    totalRealizedPnL: portfolio.totalRealizedPnL + realizedPnL,
+  };
+}
+
+/**
+ * Attach (or replace) a trailing stop on a position.
+ * ATR-based trails use the given ATR to place the first level.
+ */
+export function setTrailingStop(
+  portfolio: PortfolioState,
+  positionId: string,
+  config: TrailingStopConfig,
+  atr: number = 0
+): PortfolioState {
+  if (config.distance <= 0) return portfolio;
+
+  return {
+    ...portfolio,
+    positions: portfolio.positions.map(pos =>
+      pos.id === positionId
+        ? { ...pos, trailingStop: createTrailingStop(config, pos.direction, pos.currentPrice, atr) }
+        : pos
+    ),
+  };
+}
+
+/**
+ * Close positions whose trailing stop was hit by a candle of their instrument:
+ * the loaded dataset's by default, or a book symbol's.
+ * Call before updatePortfolio so the check uses the levels from the previous bar.
+ */
+export function closeTriggeredTrailingStops(
+  portfolio: PortfolioState,
+  candle: { open: number; high: number; low: number },
+  currentIndex: number,
+  symbol?: string
+): PortfolioState {
+  let updatedPortfolio = portfolio;
+
+  for (const position of portfolio.positions) {
+    if (!position.trailingStop || position.symbol !== symbol) continue;
+
+    const exitPrice = getTrailingStopExitPrice(position.trailingStop, position.direction, candle);
+    if (exitPrice !== null) {
+      updatedPortfolio = closePositionById(updatedPortfolio, position.id, exitPrice, currentIndex, 'trailing_stop');
+    }
+  }
+
+  return updatedPortfolio;
+}
+
+/**
+ * Close all positions ('index' positions at indexPrice when an index series is loaded)
  */
 export function closeAllPositions(
   portfolio: PortfolioState,
   currentPrice: number,
-  currentIndex: number
+  currentIndex: number,
+  exitReason: ExitReason = 'manual',
+  indexPrice: number | null = null
 ): PortfolioState {
   let updatedPortfolio = { ...portfolio };
 
   for (const position of portfolio.positions) {
-    updatedPortfolio = closePositionById(updatedPortfolio, position.id, currentPrice, currentIndex);
+    const exitPrice = getMarkPrice(position, currentPrice, indexPrice);
+    updatedPortfolio = closePositionById(updatedPortfolio, position.id, exitPrice, currentIndex, exitReason);
   }
 
   return updatedPortfolio;
 }
 
+// ============================================
+// MARGIN CALLS
+// ============================================
+
+export interface MarginCheckResult {
+  portfolio: PortfolioState;
+  event: MarginEvent | null;     // What happened this bar, if anything
+}
+
+/**
+ * Enforce maintenance margin after updatePortfolio has marked positions to market.
+ * Below maintenance the portfolio first gets graceBars bars of warnings; after that,
+ * positions are liquidated one at a time, largest loss first, until it is back above
+ * maintenance (partial liquidation) or nothing is left (full liquidation).
+ */
+export function enforceMargin(
+  portfolio: PortfolioState,
+  currentPrice: number,
+  currentIndex: number,
+  currentDate: string,
+  marginRules: MarginRules = DEFAULT_MARGIN_RULES,
+  indexPrice: number | null = null
+): MarginCheckResult {
+  if (!isBelowMaintenance(portfolio.equity, portfolio.maintenanceMargin)) {
+    return {
+      portfolio: portfolio.marginCallBars === 0 ? portfolio : { ...portfolio, marginCallBars: 0 },
+      event: null,
+    };
+  }
+
+  const marginCallBars = portfolio.marginCallBars + 1;
+  if (marginCallBars <= marginRules.graceBars) {
+    return {
+      portfolio: { ...portfolio, marginCallBars },
+      event: {
+        type: 'margin_warning',
+        tick: currentIndex,
+        equity: portfolio.equity,
+        maintenanceMargin: portfolio.maintenanceMargin,
+        barsRemaining: marginRules.graceBars - marginCallBars,
+        liquidatedPositionIds: [],
+      },
+    };
+  }
+
+  let updatedPortfolio = portfolio;
+  const liquidatedPositionIds: string[] = [];
+
+  for (const position of getLiquidationOrder(portfolio.positions)) {
+    const exitPrice = getMarkPrice(position, currentPrice, indexPrice);
+    updatedPortfolio = closePositionById(updatedPortfolio, position.id, exitPrice, currentIndex, 'margin_call');
+    updatedPortfolio = updatePortfolio(
+      updatedPortfolio, currentPrice, currentIndex, currentDate, undefined, 1, marginRules, indexPrice
+    );
+    liquidatedPositionIds.push(position.id);
+
+    if (!isBelowMaintenance(updatedPortfolio.equity, updatedPortfolio.maintenanceMargin)) break;
+  }
+
+  return {
+    portfolio: { ...updatedPortfolio, marginCallBars: 0 },
+    event: {
+      type: updatedPortfolio.positions.length === 0 ? 'full_liquidation' : 'partial_liquidation',
+      tick: currentIndex,
+      equity: updatedPortfolio.equity,
+      maintenanceMargin: updatedPortfolio.maintenanceMargin,
+      barsRemaining: 0,
+      liquidatedPositionIds,
+    },
+  };
+}
+
 // ============================================
 // TERRAIN & PHYSICS CALCULATIONS
 // ============================================
@@ -419,14 +725,37 @@ export function detectCandlePattern(
   return 'neutral';
 }
 
+// Weather of each regime
+export const REGIME_WEATHER: Record<MarketRegime, Weather> = {
+  BULL: 'clear',
+  BEAR: 'cloudy',
+  CRASH: 'stormy',
+  CHOP: 'foggy',
+  RECOVERY: 'rainy',
+};
+
+/**
+ * Share of each weather from regime probabilities
+ */
+export function getWeatherMix(probabilities: RegimeProbabilities): WeatherMix {
+  const mix: WeatherMix = { clear: 0, cloudy: 0, rainy: 0, stormy: 0, foggy: 0 };
+  for (const regime of Object.keys(REGIME_WEATHER) as MarketRegime[]) {
+    mix[REGIME_WEATHER[regime]] += probabilities[regime];
+  }
+  return mix;
+}
+
 /**
  * Calculate road conditions from market indicators
  * Based on Market Physics in CONCEPTS.md
+ * Weather is the regime's; the mix blends it by the regime probabilities
+ * (certain of the regime when none are given)
  */
 export function calculateRoadConditions(
   indicators: MarketIndicators,
   candle: ProcessedCandle | null,
-  regime: MarketRegime
+  regime: MarketRegime,
+  probabilities: RegimeProbabilities = toRegimeProbabilities(regime)
 ): RoadConditions {
   // ATR → Road roughness (normalized 0-1)
   // Higher ATR = rougher road
@@ -449,16 +778,10 @@ export function calculateRoadConditions(
   const width = candle ? Math.min(2, Math.max(0.5, candle.volume / 1000000)) : 1;
 
   // Weather from regime
-  let weather: RoadConditions['weather'] = 'clear';
-  switch (regime) {
-    case 'BULL': weather = 'clear'; break;
-    case 'BEAR': weather = 'cloudy'; break;
-    case 'CRASH': weather = 'stormy'; break;
-    case 'CHOP': weather = 'foggy'; break;
-    case 'RECOVERY': weather = 'rainy'; break;
-  }
+  const weather = REGIME_WEATHER[regime];
+  const weatherMix = getWeatherMix(probabilities);
 
-  return { roughness, visibility, slope, grip, width, weather };
+  return { roughness, visibility, slope, grip, width, weather, weatherMix };
 }
 
 /**
@@ -496,7 +819,8 @@ export function generateRoadSegment(
 }
 
 /**
- * Create a backtest tick record with road segment and conditions
+ * Create a backtest tick record with road segment and conditions, and the
+ * benchmark's buy-and-hold value when it is tracked
  */
 export function createBacktestTick(
   index: number,
@@ -506,7 +830,8 @@ export function createBacktestTick(
   candle: ProcessedCandle | null,
   prevCandle: ProcessedCandle | null,
   indicators: MarketIndicators,
-  regime: MarketRegime
+  regime: MarketRegime,
+  benchmarkValue?: number
 ): BacktestTick {
   // Road height based on accumulated return (1% = 10 pixels)
   const RETURN_TO_HEIGHT_SCALE = 10;
@@ -517,13 +842,14 @@ export function createBacktestTick(
     : { pattern: 'neutral', slope: 0, roughness: 0, width: 1, hasObstacle: false, hasBump: false, hasPothole: false };
 
   // Calculate road conditions from indicators
-  const roadConditions = calculateRoadConditions(indicators, candle, regime);
+  const roadConditions = calculateRoadConditions(indicators, candle, regime, indicators.regimeProbabilities);
 
   return {
     index,
     timestamp,
     price,
     portfolioValue: portfolio.equity,
+    benchmarkValue,
     accumulatedReturn: portfolio.accumulatedReturn,
     roadHeight: portfolio.accumulatedReturn * RETURN_TO_HEIGHT_SCALE,
     roadSegment,
@@ -535,67 +861,7 @@ export function createBacktestTick(
 // MARKET INDICATORS
 // ============================================
 
-/**
- * Calculate market indicators from candle data
- */
-export function calculateIndicators(
-  data: ProcessedCandle[],
-  currentIndex: number
-): MarketIndicators {
-  if (currentIndex < 0 || currentIndex >= data.length) {
-    return {
-      rsi: 50,
-      atr: 0,
-      volatility: 0,
-      trend: 0,
-      drawdown: 0,
-      regime: 'CHOP',
-    };
-  }
-
-  const candle = data[currentIndex];
-  const lookback = Math.min(14, currentIndex + 1);
-  const recentCandles = data.slice(Math.max(0, currentIndex - lookback + 1), currentIndex + 1);
-
-  // Calculate RSI (simplified)
-  let gains = 0;
-  let losses = 0;
-  for (let i = 1; i < recentCandles.length; i++) {
-    const change = recentCandles[i].dailyReturn;
-    if (change > 0) gains += change;
-    else losses += Math.abs(change);
-  }
-  const avgGain = gains / lookback;
-  const avgLoss = losses / lookback;
-  const rs = avgLoss === 0 ? 100 : avgGain / avgLoss;
-  const rsi = 100 - 100 / (1 + rs);
-
-  // ATR
-  const atr =
-    recentCandles.reduce((sum, c) => sum + c.trueRange, 0) / recentCandles.length;
-
-  // Volatility
-  const volatility = candle.rollingVolatility;
-
-  // Trend (simple: positive if price above 20-day MA)
-  const maLookback = Math.min(20, currentIndex + 1);
-  const maCandles = data.slice(Math.max(0, currentIndex - maLookback + 1), currentIndex + 1);
-  const ma = maCandles.reduce((sum, c) => sum + c.close, 0) / maCandles.length;
-  const trend = ((candle.close - ma) / ma) * 100;
-
-  // Drawdown
-  const maxPrice = Math.max(...data.slice(0, currentIndex + 1).map((c) => c.high));
-  const drawdown = ((maxPrice - candle.close) / maxPrice) * 100;
-
-  // Regime detection
-  let regime: MarketRegime = 'CHOP';
-  if (trend > 5 && rsi > 50) regime = 'BULL';
-  else if (trend < -5 && rsi < 50) regime = 'BEAR';
-  else if (drawdown > 20) regime = 'CRASH';
-  else if (trend > 0 && drawdown > 10) regime = 'RECOVERY';
-
-  return { rsi, atr, volatility, trend, drawdown, regime };
-}
+export { processCandles, calculateIndicators } from './marketData';
 
 /**
  * Convert daily return to terrain slope
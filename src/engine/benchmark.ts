@@ -0,0 +1,82 @@
+/**
+ * Benchmark - Index price series for hedges, and the buy-and-hold yardstick
+ *
+ * Hedge positions are shorts on the index, not on the traded asset. The index
+ * series is loaded next to the asset, aligned to its dates, and used to mark
+ * 'index' positions and to measure the asset's beta against the index.
+ *
+ * A benchmark series (the asset itself or the index) also gives the equity a
+ * player would have had by buying it on the first bar and doing nothing.
+ */
+
+import type { Position } from '../types';
+import { estimateRollingHedge, getDailyReturns, HEDGE_ESTIMATE_WINDOW } from '../skills/HedgeEstimator';
+
+export const DEFAULT_BENCHMARK_KEY = 'sp500';
+
+// What buy-and-hold equity is tracked against: the traded asset or the loaded index
+export type BenchmarkSource = 'asset' | 'index';
+
+/**
+ * Align benchmark closes to the asset's dates.
+ * Each asset bar gets the latest benchmark close on or before its date
+ * (so holidays carry the previous close); bars before the benchmark starts get null.
+ * Both series must be sorted by ISO date.
+ */
+export function alignBenchmark(
+  assetBars: { date: string }[],
+  benchmarkBars: { date: string; close: number }[]
+): (number | null)[] {
+  const aligned: (number | null)[] = [];
+  let j = 0;
+  let lastClose: number | null = null;
+
+  for (const bar of assetBars) {
+    while (j < benchmarkBars.length && benchmarkBars[j].date <= bar.date) {
+      lastClose = benchmarkBars[j].close;
+      j++;
+    }
+    aligned.push(lastClose);
+  }
+
+  return aligned;
+}
+
+/**
+ * Beta of the asset against the index from close-to-close returns over the
+ * lookback window ending at endIndex. Null when there is too little overlap.
+ */
+export function calculateBeta(
+  assetPrices: number[],
+  indexPrices: (number | null)[],
+  endIndex: number,
+  lookback: number = HEDGE_ESTIMATE_WINDOW
+): number | null {
+  const estimate = estimateRollingHedge(getDailyReturns(assetPrices), getDailyReturns(indexPrices), endIndex, lookback);
+  return estimate?.beta ?? null;
+}
+
+/**
+ * Price a position is marked at: index positions follow the index,
+ * falling back to the asset price when no index series is loaded.
+ * Positions in a multi-asset book keep the last mark of their own symbol.
+ */
+export function getMarkPrice(position: Position, assetPrice: number, indexPrice: number | null): number {
+  if (position.symbol !== undefined) return position.currentPrice;
+  return position.instrument === 'index' && indexPrice !== null ? indexPrice : assetPrice;
+}
+
+/**
+ * Equity from putting initialCapital into the benchmark at its first price
+ * and holding it. Bars before the first price hold cash; missing prices
+ * carry the last value.
+ */
+export function getBuyAndHoldEquity(prices: (number | null)[], initialCapital: number): number[] {
+  const entry = prices.find((price): price is number => price !== null && price > 0);
+  let value = initialCapital;
+
+  return prices.map(price => {
+    if (entry !== undefined && price !== null) value = initialCapital * (price / entry);
+    return value;
+  });
+}
@@ -0,0 +1,64 @@
+/**
+ * Carry - Financing costs of holding positions
+ *
+ * Leverage is not free: the borrowed part of a leveraged position pays margin
+ * interest, and shorts pay a borrow fee on the shares they owe. Both are quoted
+ * as annual rates and accrued every tick, scaled by how many days a tick covers.
+ */
+
+import type { CarryRates, PortfolioState, Position } from '../types';
+
+const DAYS_PER_YEAR = 365;
+
+/**
+ * Convert an annual rate to the rate for one tick of tickDuration days
+ */
+export function annualRateToTick(annualRate: number, tickDuration: number): number {
+  return annualRate * (tickDuration / DAYS_PER_YEAR);
+}
+
+/**
+ * Dollar carry a position pays for one tick
+ */
+export function calculateCarryCost(position: Position, rates: CarryRates, tickDuration: number): number {
+  // Only the part above the trader's own capital is borrowed
+  const borrowed = position.sizeInDollars * Math.max(0, position.leverage - 1);
+  const interest = borrowed * annualRateToTick(rates.marginInterestRate, tickDuration);
+
+  const shortNotional = position.direction === 'short' ? position.sizeInDollars * position.leverage : 0;
+  const borrowFee = shortNotional * annualRateToTick(rates.shortBorrowRate, tickDuration);
+
+  return interest + borrowFee;
+}
+
+/**
+ * Charge carry on all open positions for the given number of ticks.
+ * Costs are paid from cash and tracked per position and on the portfolio.
+ * Call before updatePortfolio so equity reflects the charge.
+ */
+export function accrueCarry(
+  portfolio: PortfolioState,
+  rates: CarryRates,
+  tickDuration: number,
+  ticks: number = 1
+): PortfolioState {
+  if (ticks <= 0 || portfolio.positions.length === 0) return portfolio;
+
+  let totalCost = 0;
+  const positions = portfolio.positions.map(position => {
+    const cost = calculateCarryCost(position, rates, tickDuration) * ticks;
+    if (cost === 0) return position;
+
+    totalCost += cost;
+    return { ...position, accruedCarry: (position.accruedCarry ?? 0) + cost };
+  });
+
+  if (totalCost === 0) return portfolio;
+
+  return {
+    ...portfolio,
+    positions,
+    cash: portfolio.cash - totalCost,
+    totalCarry: portfolio.totalCarry + totalCost,
+  };
+}
@@ -0,0 +1,104 @@
+/**
+ * Commission Models - Broker fee schedules for the BacktestEngine
+ *
+ * A commission model prices a single fill (ticket). The engine charges it on
+ * both legs of a trade: when a position is opened and when it is closed.
+ *
+ * - Flat: a fixed dollar amount per ticket
+ * - Per-share: a rate per share traded
+ * - Percent: a percentage of the fill's notional value
+ * - Tiered: a percentage that drops as the month's traded volume grows
+ * - Minimum ticket: wraps any model with a minimum fee per fill
+ */
+
+export interface CommissionContext {
+  side: 'buy' | 'sell';
+  quantity: number;           // Shares in this fill
+  price: number;              // Fill price
+  notional: number;           // Dollar value traded (quantity * price)
+  monthlyVolume: number;      // Notional already traded this calendar month, before this fill
+}
+
+export interface CommissionModel {
+  name: string;
+  /** Fee in dollars for this fill */
+  calculate(context: CommissionContext): number;
+}
+
+export interface CommissionTier {
+  upToVolume: number;         // Monthly notional this tier applies up to (Infinity for the last tier)
+  percent: number;            // % of notional charged within the tier
+}
+
+/**
+ * Fixed dollar fee per fill
+ */
+export function createFlatCommission(amount: number): CommissionModel {
+  return {
+    name: 'flat',
+    calculate: () => amount,
+  };
+}
+
+/**
+ * Fee per share traded
+ */
+export function createPerShareCommission(perShare: number): CommissionModel {
+  return {
+    name: 'per_share',
+    calculate: ({ quantity }) => quantity * perShare,
+  };
+}
+
+/**
+ * Percentage of the fill's notional value
+ */
+export function createPercentCommission(percent: number): CommissionModel {
+  return {
+    name: 'percent',
+    calculate: ({ notional }) => notional * (percent / 100),
+  };
+}
+
+/**
+ * Percentage of notional that depends on the month's traded volume.
+ * A fill that crosses a tier boundary is charged at each tier's rate for its share.
+ */
+export function createTieredCommission(tiers: CommissionTier[]): CommissionModel {
+  const sorted = [...tiers].sort((a, b) => a.upToVolume - b.upToVolume);
+
+  return {
+    name: 'tiered',
+    calculate: ({ notional, monthlyVolume }) => {
+      let fee = 0;
+      let volume = monthlyVolume;
+      let remaining = notional;
+
+      for (const tier of sorted) {
+        if (remaining <= 0) break;
+        if (volume >= tier.upToVolume) continue;
+
+        const inTier = Math.min(remaining, tier.upToVolume - volume);
+        fee += inTier * (tier.percent / 100);
+        volume += inTier;
+        remaining -= inTier;
+      }
+
+      // Volume past the last tier pays the last tier's rate
+      if (remaining > 0 && sorted.length > 0) {
+        fee += remaining * (sorted[sorted.length - 1].percent / 100);
+      }
+      return fee;
+    },
+  };
+}
+
+/**
+ * Charge at least `minimum` dollars per fill
+ */
+export function withMinimumTicket(model: CommissionModel, minimum: number): CommissionModel {
+  return {
+    name: `${model.name}_min`,
+    calculate: (context) => Math.max(minimum, model.calculate(context)),
+  };
+}
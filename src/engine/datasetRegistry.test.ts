@@ -0,0 +1,127 @@
+/**
+ * Dataset Registry Tests
+ *
+ * Tests for resolving datasets.json entries to their files and URLs,
+ * filtering by difficulty and category, cycling datasets and rating
+ * imported datasets.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { DatasetEntry, DatasetsManifest, RawMarketData } from '../types';
+import {
+  createImportedEntry,
+  filterDatasets,
+  findDataset,
+  getDatasetEntries,
+  getDatasetUrl,
+  getNextDatasetKey,
+  isImportedKey,
+  rateDifficulty,
+} from './datasetRegistry';
+
+// ============================================
+// TEST FIXTURES
+// ============================================
+
+// Every file under assets/market, by repository-relative path
+const files = Object.fromEntries(
+  Object.entries(import.meta.glob<unknown>('../../assets/market/**/*.json', { eager: true, import: 'default' }))
+    .map(([path, json]) => [path.replace(/^\.\.\/\.\.\//, './'), json])
+);
+const manifest = files['./assets/market/datasets.json'] as DatasetsManifest;
+const entries = getDatasetEntries(manifest);
+
+function createRaw(closes: number[]): RawMarketData {
+  return {
+    symbol: 'TEST',
+    name: 'Test',
+    description: 'Imported from test.csv',
+    data: closes.map((close, i) => ({
+      date: new Date(Date.UTC(2024, 0, 1 + i)).toISOString().slice(0, 10),
+      open: close,
+      high: close,
+      low: close,
+      close,
+      volume: 1000,
+    })),
+  };
+}
+
+// ============================================
+// REGISTRY
+// ============================================
+
+describe('Dataset Registry', () => {
+  it('should list datasets then scenarios, each with its file', () => {
+    expect(entries.map(entry => entry.key)).toEqual([
+      ...manifest.datasets.map(entry => entry.key),
+      ...manifest.scenarios.map(entry => entry.key),
+    ]);
+    for (const entry of entries) {
+      expect(files[entry.path], entry.path).toBeDefined();
+    }
+  });
+
+  it('should resolve scenarios to the scenarios folder', () => {
+    expect(getDatasetUrl(findDataset(entries, 'sp500')!)).toBe('/market/sp500.json');
+    expect(getDatasetUrl(findDataset(entries, 'dotcom_2000')!)).toBe('/market/scenarios/dotcom_2000.json');
+    expect(getDatasetUrl(findDataset(entries, 'crypto_winter_2022')!)).toBe('/market/scenarios/crypto_winter_2022.json');
+    expect(findDataset(entries, 'nope')).toBeUndefined();
+  });
+
+  it('should describe the historical event of every scenario', () => {
+    for (const scenario of manifest.scenarios) {
+      expect(scenario.category).toBe('scenario');
+      expect(scenario.historicalEvent).toBeTruthy();
+      expect(scenario.dateRange).toMatch(/^\d{4}-\d{2} to \d{4}-\d{2}$/);
+    }
+  });
+
+  it('should filter by difficulty and category', () => {
+    const extremeScenarios = filterDatasets(entries, { difficulty: 'extreme', category: 'scenario' });
+
+    expect(extremeScenarios.map(entry => entry.key)).toEqual(['crash_2008', 'dotcom_2000', 'crypto_winter_2022']);
+    expect(filterDatasets(entries, {})).toEqual(entries);
+    expect(filterDatasets(entries, { category: 'crypto' }).map(entry => entry.key)).toEqual(['bitcoin']);
+  });
+
+  it('should cycle through every dataset', () => {
+    const last = entries[entries.length - 1].key;
+
+    expect(getNextDatasetKey(entries, entries[0].key)).toBe(entries[1].key);
+    expect(getNextDatasetKey(entries, last)).toBe(entries[0].key);
+    expect(getNextDatasetKey(entries, 'unknown')).toBe(entries[0].key);
+    expect(getNextDatasetKey([], 'sp500')).toBe('sp500');
+  });
+});
+
+// ============================================
+// IMPORTED DATASETS
+// ============================================
+
+describe('Imported Datasets', () => {
+  it('should rate every registered dataset at its listed difficulty', () => {
+    for (const entry of entries) {
+      const raw = files[entry.path] as RawMarketData;
+      expect(rateDifficulty(raw.data), entry.key).toBe(entry.difficulty);
+    }
+  });
+
+  it('should rate calm prices easy and collapses extreme', () => {
+    const calm = Array.from({ length: 100 }, (_, i) => 100 + i * 0.05);
+    const collapse = Array.from({ length: 100 }, (_, i) => 100 * 0.98 ** i);
+
+    expect(rateDifficulty(createRaw(calm).data)).toBe('easy');
+    expect(rateDifficulty(createRaw(collapse).data)).toBe('extreme');
+  });
+
+  it('should register an import under its own key and category', () => {
+    const entry: DatasetEntry = createImportedEntry(createRaw([100, 101, 102]));
+
+    expect(entry.key).toBe('import:TEST');
+    expect(isImportedKey(entry.key)).toBe(true);
+    expect(isImportedKey('sp500')).toBe(false);
+    expect(entry.category).toBe('imported');
+    expect(entry.dateRange).toBe('2024-01-01 to 2024-01-03');
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Dataset Registry - Every playable dataset and where its file lives
+ *
+ * assets/market/datasets.json lists the datasets and the historical scenarios
+ * with their difficulty and category (and, for scenarios, the event and date
+ * range they cover). Its paths are relative to the repository root; the app
+ * serves assets/ at the site root, so ./assets/market/scenarios/dotcom_2000.json
+ * is fetched from /market/scenarios/dotcom_2000.json.
+ *
+ * Datasets the player imported join the registry in the 'imported' category,
+ * rated by their own volatility and drawdown.
+ */
+
+import type {
+  DatasetCategory,
+  DatasetDifficulty,
+  DatasetEntry,
+  DatasetsManifest,
+  OHLCVCandle,
+  RawMarketData,
+} from '../types';
+import { calculateMaxDrawdown, getEquityReturns, TRADING_DAYS_PER_YEAR } from './performance';
+
+export const DATASETS_MANIFEST_URL = '/market/datasets.json';
+export const IMPORTED_KEY_PREFIX = 'import:';
+
+export const DATASET_DIFFICULTIES: DatasetDifficulty[] = ['easy', 'medium', 'hard', 'extreme'];
+export const DATASET_CATEGORIES: DatasetCategory[] = ['index', 'stock', 'crypto', 'scenario', 'imported'];
+
+export interface DatasetFilter {
+  difficulty?: DatasetDifficulty;   // Unset = any
+  category?: DatasetCategory;
+}
+
+// Lower bounds of medium, hard and extreme
+const VOLATILITY_LEVELS = [12, 20, 30];   // % annualized volatility of daily returns
+const DRAWDOWN_LEVELS = [10, 20, 40];     // % max drawdown
+
+// ============================================
+// LOOKUP
+// ============================================
+
+/**
+ * Datasets, then scenarios
+ */
+export function getDatasetEntries(manifest: DatasetsManifest): DatasetEntry[] {
+  return [...manifest.datasets, ...manifest.scenarios];
+}
+
+export function findDataset(entries: DatasetEntry[], key: string): DatasetEntry | undefined {
+  return entries.find(entry => entry.key === key);
+}
+
+/**
+ * URL the app fetches a dataset from
+ */
+export function getDatasetUrl(entry: DatasetEntry): string {
+  return entry.path.replace(/^\.?\/?assets\//, '/');
+}
+
+export function filterDatasets(entries: DatasetEntry[], filter: DatasetFilter): DatasetEntry[] {
+  return entries.filter(entry =>
+    (!filter.difficulty || entry.difficulty === filter.difficulty) &&
+    (!filter.category || entry.category === filter.category)
+  );
+}
+
+/**
+ * The key after the given one, wrapping around (the first if it is unknown)
+ */
+export function getNextDatasetKey(entries: DatasetEntry[], key: string): string {
+  if (entries.length === 0) return key;
+  const index = entries.findIndex(entry => entry.key === key);
+  return entries[(index + 1) % entries.length].key;
+}
+
+// ============================================
+// IMPORTED DATASETS
+// ============================================
+
+export function isImportedKey(key: string): boolean {
+  return key.startsWith(IMPORTED_KEY_PREFIX);
+}
+
+/**
+ * Difficulty from how volatile the prices are and how deep they fall,
+ * whichever is worse
+ */
+export function rateDifficulty(candles: OHLCVCandle[]): DatasetDifficulty {
+  const closes = candles.map(candle => candle.close);
+  const returns = getEquityReturns(closes);
+  const mean = returns.reduce((sum, r) => sum + r, 0) / Math.max(1, returns.length);
+  const deviation = Math.sqrt(returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / Math.max(1, returns.length));
+
+  const level = (value: number, levels: number[]) => levels.filter(bound => value >= bound).length;
+  const volatility = deviation * Math.sqrt(TRADING_DAYS_PER_YEAR) * 100;
+  return DATASET_DIFFICULTIES[Math.max(level(volatility, VOLATILITY_LEVELS), level(calculateMaxDrawdown(closes), DRAWDOWN_LEVELS))];
+}
+
+export function createImportedEntry(raw: RawMarketData): DatasetEntry {
+  const { data } = raw;
+  return {
+    key: `${IMPORTED_KEY_PREFIX}${raw.symbol}`,
+    path: '',
+    name: raw.name,
+    symbol: raw.symbol,
+    difficulty: rateDifficulty(data),
+    category: 'imported',
+    description: raw.description,
+    dateRange: data.length > 0 ? `${data[0].date} to ${data[data.length - 1].date}` : undefined,
+  };
+}
+
+// ============================================
+// LOADING
+// ============================================
+
+let manifestRequest: Promise<DatasetsManifest> | null = null;
+
+/**
+ * Fetch datasets.json once. A failed request is retried on the next call.
+ */
+export function fetchDatasetsManifest(): Promise<DatasetsManifest> {
+  manifestRequest ??= fetch(DATASETS_MANIFEST_URL)
+    .then(response => {
+      if (!response.ok) {
+        throw new Error('Failed to load the dataset list');
+      }
+      return response.json() as Promise<DatasetsManifest>;
+    })
+    .catch(error => {
+      manifestRequest = null;
+      throw error;
+    });
+  return manifestRequest;
+}
+
+/**
+ * Fetch a registered dataset's market data by key
+ */
+export async function fetchMarketData(key: string): Promise<RawMarketData> {
+  const entry = findDataset(getDatasetEntries(await fetchDatasetsManifest()), key);
+  if (!entry) {
+    throw new Error(`Unknown dataset: ${key}`);
+  }
+
+  const response = await fetch(getDatasetUrl(entry));
+  if (!response.ok) {
+    throw new Error(`Failed to load dataset: ${key}`);
+  }
+  return response.json();
+}
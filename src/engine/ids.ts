@@ -0,0 +1,85 @@
+/**
+ * IDs - Seedable random numbers and reproducible order/position IDs
+ *
+ * IDs used to be built from Date.now() and Math.random(), so two runs of the
+ * same inputs never produced the same state. An IdGenerator draws from a
+ * seeded generator (mulberry32) and a counter instead: the same seed and the
+ * same calls give the same IDs, and its whole state is two numbers that an
+ * engine snapshot can save and restore.
+ */
+
+export interface IdGeneratorState {
+  rngState: number;     // Internal state of the random generator (uint32)
+  sequence: number;     // IDs issued so far
+}
+
+export interface IdGenerator {
+  nextId(prefix: string): string;
+  random(): number;     // Uniform in [0, 1), from the same seeded stream
+  getState(): IdGeneratorState;
+  setState(state: IdGeneratorState): void;
+}
+
+export const DEFAULT_SEED = 1;
+
+/**
+ * One step of mulberry32: the next state and a uniform number in [0, 1)
+ */
+function mulberry32(state: number): [number, number] {
+  const next = (state + 0x6d2b79f5) >>> 0;
+  let t = next;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return [next, ((t ^ (t >>> 14)) >>> 0) / 4294967296];
+}
+
+/**
+ * A seeded replacement for Math.random
+ */
+export function createSeededRandom(seed: number = DEFAULT_SEED): () => number {
+  let state = seed >>> 0;
+  return () => {
+    const [next, value] = mulberry32(state);
+    state = next;
+    return value;
+  };
+}
+
+export function createIdGenerator(seed: number = DEFAULT_SEED): IdGenerator {
+  let rngState = seed >>> 0;
+  let sequence = 0;
+
+  const random = () => {
+    const [next, value] = mulberry32(rngState);
+    rngState = next;
+    return value;
+  };
+
+  return {
+    nextId: (prefix) => {
+      sequence++;
+      const suffix = Math.floor(random() * 36 ** 6).toString(36).padStart(6, '0');
+      return `${prefix}_${sequence}_${suffix}`;
+    },
+    random,
+    getState: () => ({ rngState, sequence }),
+    setState: (state) => {
+      rngState = state.rngState >>> 0;
+      sequence = state.sequence;
+    },
+  };
+}
+
+// ============================================
+// SHARED GENERATOR
+// ============================================
+
+/**
+ * IDs for the pure portfolio functions and skills when they are not handed
+ * a generator of their own. Reseed it before a run to make it reproducible.
+ */
+export const sharedIds: IdGenerator = createIdGenerator();
+
+export function seedSharedIds(seed: number = DEFAULT_SEED): void {
+  sharedIds.setState(createIdGenerator(seed).getState());
+}
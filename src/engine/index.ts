@@ -5,3 +5,16 @@
  */
 
 export * from './backtestEngine';
+export * from './trailingStop';
+export * from './slippage';
+export * from './commission';
+export * from './carry';
+export * from './margin';
+export * from './benchmark';
+export * from './multiAssetFeed';
+export * from './ids';
+export * from './marketImport';
+export * from './datasetRegistry';
+export * from './marketData';
+export * from './technicalIndicators';
+export * from './regimeClassifier';
@@ -0,0 +1,61 @@
+/**
+ * Margin - Initial and maintenance requirements for open positions
+ *
+ * A position's initial margin is the collateral behind it: its current
+ * notional divided by its leverage. Maintenance margin is a fixed share of
+ * that, so the more leverage a position carries, the smaller the price move
+ * that pushes the portfolio below maintenance.
+ */
+
+import type { MarginRules, Position } from '../types';
+
+export interface MarginRequirements {
+  initialMargin: number;
+  maintenanceMargin: number;
+  marginUsage: number;    // Maintenance margin / equity (1 or more = below maintenance)
+}
+
+/**
+ * Market value of the exposure a position controls
+ */
+export function getPositionNotional(position: Position): number {
+  return position.sizeInDollars * position.leverage * (position.currentPrice / position.entryPrice);
+}
+
+export function getInitialMargin(position: Position): number {
+  return getPositionNotional(position) / Math.max(1, position.leverage);
+}
+
+export function getMaintenanceMargin(position: Position, rules: MarginRules): number {
+  return getInitialMargin(position) * rules.maintenanceRatio;
+}
+
+/**
+ * Aggregate margin requirements for a set of positions
+ */
+export function calculateMarginRequirements(
+  positions: Position[],
+  equity: number,
+  rules: MarginRules
+): MarginRequirements {
+  let initialMargin = 0;
+  let maintenanceMargin = 0;
+  for (const position of positions) {
+    initialMargin += getInitialMargin(position);
+    maintenanceMargin += getMaintenanceMargin(position, rules);
+  }
+
+  const marginUsage = maintenanceMargin === 0 ? 0 : equity > 0 ? maintenanceMargin / equity : 1;
+  return { initialMargin, maintenanceMargin, marginUsage };
+}
+
+export function isBelowMaintenance(equity: number, maintenanceMargin: number): boolean {
+  return maintenanceMargin > 0 && equity < maintenanceMargin;
+}
+
+/**
+ * Order in which positions are liquidated: largest unrealized loss first
+ */
+export function getLiquidationOrder(positions: Position[]): Position[] {
+  return [...positions].sort((a, b) => a.unrealizedPnL - b.unrealizedPnL);
+}
@@ -0,0 +1,71 @@
+/**
+ * Market Data Benchmarks
+ *
+ * Cost of one bar at the end of short and long datasets. Streaming a bar and
+ * an engine tick should cost about the same at 1,000 bars as at 50,000;
+ * calculateIndicators at a single bar scans the history for the drawdown
+ * peak and grows with it.
+ *
+ * Run with: npm run bench
+ */
+
+import { bench, describe } from 'vitest';
+import type { OHLCVCandle } from '../types';
+import { BacktestEngine } from './BacktestEngine';
+import { createSeededRandom } from './ids';
+import { calculateIndicators, createMarketDataStream, processCandles } from './marketData';
+
+const DATASET_LENGTHS = [1_000, 10_000, 50_000];
+const MEASURED_BARS = 2_000;   // Bars processed past the end of the dataset
+
+// Every iteration consumes a bar, so run a fixed number of them. setup puts
+// the stream or engine back at the end of the dataset before warmup and run.
+const options = { time: 0, iterations: MEASURED_BARS, warmupTime: 0, warmupIterations: MEASURED_BARS / 10 };
+
+function createWalk(length: number): OHLCVCandle[] {
+  const random = createSeededRandom(11);
+  let close = 100;
+  return Array.from({ length }, (_, i) => {
+    const open = close;
+    close = open * (1 + (random() - 0.5) * 0.04);
+    return {
+      date: new Date(Date.UTC(1900, 0, 1 + i)).toISOString().slice(0, 10),
+      open,
+      high: Math.max(open, close) * 1.005,
+      low: Math.min(open, close) * 0.995,
+      close,
+      volume: 1000,
+    };
+  });
+}
+
+for (const length of DATASET_LENGTHS) {
+  describe(`${length.toLocaleString('en-US')} bars`, () => {
+    // One bar more: tinybench calls the function once to see if it is async
+    const bars = createWalk(length + MEASURED_BARS + 1);
+
+    const createStream = () => {
+      const stream = createMarketDataStream();
+      bars.slice(0, length).forEach(bar => stream.push(bar));
+      return stream;
+    };
+    let stream = createStream();
+    bench('stream the next bar', () => {
+      stream.push(bars[stream.candles.length]);
+    }, { ...options, setup: () => { stream = createStream(); } });
+
+    const engine = new BacktestEngine();
+    engine.loadData(bars);
+    engine.runTicks(length);
+    engine.submitMarketOrder('buy', 0.5);
+    const start = engine.snapshot();
+    bench('engine tick with a position open', () => {
+      engine.tick();
+    }, { ...options, setup: () => { engine.restore(start); } });
+
+    const candles = processCandles(bars.slice(0, length));
+    bench('calculateIndicators at the last bar', () => {
+      calculateIndicators(candles, length - 1);
+    });
+  });
+}
@@ -0,0 +1,179 @@
+/**
+ * Market Data Tests
+ *
+ * Tests for the market-data pipeline: candle processing, the indicators at
+ * each bar, streaming bars against processing a whole dataset, regimes from
+ * a fitted model, and dataset stats.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { OHLCVCandle, ProcessedCandle } from '../types';
+import { createSeededRandom } from './ids';
+import {
+  calculateIndicators,
+  calculateIndicatorSeries,
+  calculateMarketStats,
+  createMarketDataStream,
+  fitMarketRegimeModel,
+  NEUTRAL_INDICATORS,
+  processCandles,
+  processMarketData,
+  toMarketDataset,
+  VOLATILITY_WINDOW,
+} from './marketData';
+import { fitRegimeModel } from './regimeClassifier';
+
+// ============================================
+// TEST FIXTURES
+// ============================================
+
+// A random walk with a crash in the middle, so every regime shows up
+function createWalk(length: number, seed: number = 7): OHLCVCandle[] {
+  const random = createSeededRandom(seed);
+  let close = 100;
+  return Array.from({ length }, (_, i) => {
+    const open = close;
+    const drift = i > length / 3 && i < length / 2 ? -0.02 : 0.002;
+    close = open * (1 + drift + (random() - 0.5) * 0.04);
+    return {
+      date: new Date(Date.UTC(2020, 0, 1 + i)).toISOString().slice(0, 10),
+      open,
+      high: Math.max(open, close) * (1 + random() * 0.01),
+      low: Math.min(open, close) * (1 - random() * 0.01),
+      close,
+      volume: 1000 + Math.round(random() * 1000),
+    };
+  });
+}
+
+// The regime model processMarketData fits
+function fitModel(candles: ProcessedCandle[]) {
+  return fitRegimeModel(candles, { warmupBars: VOLATILITY_WINDOW - 1 });
+}
+
+// Candle processing as the app did it before the pipeline: returns first, then volatility
+function processCandlesInTwoPasses(bars: OHLCVCandle[]): ProcessedCandle[] {
+  const data: ProcessedCandle[] = bars.map((candle, i) => {
+    const prevClose = i > 0 ? bars[i - 1].close : candle.open;
+    const intradayVolatility = ((candle.high - candle.low) / candle.open) * 100;
+    return {
+      ...candle,
+      dailyReturn: ((candle.close - prevClose) / prevClose) * 100,
+      intradayVolatility,
+      trueRange: Math.max(
+        candle.high - candle.low,
+        i > 0 ? Math.abs(candle.high - prevClose) : 0,
+        i > 0 ? Math.abs(candle.low - prevClose) : 0
+      ),
+      rollingVolatility: intradayVolatility,
+      index: i,
+    };
+  });
+
+  for (let i = 19; i < data.length; i++) {
+    let sum = 0;
+    for (let j = i - 19; j <= i; j++) {
+      sum += Math.pow(data[j].dailyReturn, 2);
+    }
+    data[i].rollingVolatility = Math.sqrt(sum / 20);
+  }
+  return data;
+}
+
+// ============================================
+// PIPELINE
+// ============================================
+
+describe('Market Data', () => {
+  const bars = createWalk(300);
+
+  it('should process candles exactly as the two-pass processing did', () => {
+    expect(processCandles(bars)).toEqual(processCandlesInTwoPasses(bars));
+  });
+
+  it('should give the same indicators in one pass as bar by bar', () => {
+    const candles = processCandles(bars);
+    const series = calculateIndicatorSeries(candles);
+
+    expect(series).toHaveLength(bars.length);
+    series.forEach((indicators, i) => {
+      expect(indicators).toEqual(calculateIndicators(candles, i));
+    });
+    expect(new Set(series.map(indicators => indicators.regime)).size).toBeGreaterThan(2);
+  });
+
+  it('should give the same candles and indicators streamed as processed at once', () => {
+    const model = fitModel(processCandles(bars));
+    const stream = createMarketDataStream(model);
+    const pushed = bars.map(bar => stream.push(bar));
+    const batch = processMarketData(bars);
+
+    expect(stream.candles).toEqual(batch.candles);
+    expect(stream.indicators).toEqual(batch.indicators);
+    expect(pushed).toEqual(batch.indicators);
+  });
+
+  it('should only use bars up to the one being processed', () => {
+    const model = fitModel(processCandles(bars));
+    const full = processMarketData(bars, model);
+    const prefix = processMarketData(bars.slice(0, 120), model);
+
+    expect(full.indicators.slice(0, 120)).toEqual(prefix.indicators);
+  });
+
+  it('should take regimes from the fitted model, and the rules without one', () => {
+    const candles = processCandles(bars);
+    const model = fitModel(candles);
+    const { indicators } = processMarketData(bars);
+
+    expect(indicators).toEqual(calculateIndicatorSeries(candles, model));
+    expect(fitMarketRegimeModel(bars)).toEqual(model);
+    expect(processMarketData(bars, null).indicators).toEqual(calculateIndicatorSeries(candles));
+    indicators.forEach(values => {
+      const total = Object.values(values.regimeProbabilities).reduce((sum, p) => sum + p, 0);
+      expect(total).toBeCloseTo(1, 12);
+    });
+    calculateIndicatorSeries(candles).forEach(values => {
+      expect(values.regimeProbabilities[values.regime]).toBe(1);
+    });
+  });
+
+  it('should return neutral indicators out of range', () => {
+    const candles = processCandles(bars.slice(0, 5));
+
+    expect(calculateIndicators(candles, -1)).toEqual(NEUTRAL_INDICATORS);
+    expect(calculateIndicators(candles, 5)).toEqual(NEUTRAL_INDICATORS);
+    expect(calculateIndicators([], 0)).toEqual(NEUTRAL_INDICATORS);
+  });
+});
+
+// ============================================
+// DATASETS
+// ============================================
+
+describe('Market Datasets', () => {
+  it('should describe a dataset with its stats', () => {
+    const bars = createWalk(50);
+    const dataset = toMarketDataset({ symbol: 'TEST', name: 'Test', description: 'Walk', data: bars });
+    const returns = dataset.data.map(candle => candle.dailyReturn);
+
+    expect(dataset.totalDays).toBe(50);
+    expect(dataset.startDate).toBe(bars[0].date);
+    expect(dataset.endDate).toBe(bars[49].date);
+    expect(dataset.stats.maxReturn).toBe(Math.max(...returns));
+    expect(dataset.stats.minReturn).toBe(Math.min(...returns));
+    expect(dataset.stats.totalReturn).toBeCloseTo(((bars[49].close - bars[0].open) / bars[0].open) * 100, 10);
+  });
+
+  it('should give zero stats without candles', () => {
+    expect(calculateMarketStats([])).toEqual({
+      avgReturn: 0,
+      maxReturn: 0,
+      minReturn: 0,
+      stdReturn: 0,
+      avgVolatility: 0,
+      maxVolatility: 0,
+      totalReturn: 0,
+    });
+  });
+});
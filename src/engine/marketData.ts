@@ -0,0 +1,271 @@
+/**
+ * Market Data - The one pipeline from raw candles to per-bar indicators
+ *
+ * Candle processing (returns, true range, rolling volatility) and the
+ * indicators at each bar (the technical indicators plus trend, drawdown and
+ * regime) are computed once per bar, in order. Every indicator updates in
+ * constant time and the drawdown peak is carried forward, so a bar costs
+ * the same on the 10th bar and the 10,000th: a whole dataset is processed
+ * in one pass, and a stream can take bars as they arrive.
+ *
+ * Regimes come from a regime model (engine/regimeClassifier) when there is
+ * one. processMarketData fits it to the whole dataset unless given one, so
+ * the fitted parameters have seen every bar even though each bar's regime
+ * is filtered from the bars up to it. Without a model, or with too few bars
+ * to fit one, the trend/RSI/drawdown rules name the regime.
+ *
+ * Serves the React layer (the app state, the chart and useMarketData) and
+ * the BacktestEngine class; the pure portfolio functions re-export it.
+ */
+
+import type {
+  ChartCandle,
+  MarketDataset,
+  MarketIndicators,
+  MarketRegime,
+  MarketStats,
+  OHLCVCandle,
+  ProcessedCandle,
+  RawMarketData,
+} from '../types';
+import { createRegimeFilter, fitRegimeModel, toRegimeProbabilities, type RegimeModel } from './regimeClassifier';
+import { createTechnicalIndicators, NEUTRAL_TECHNICAL_INDICATORS } from './technicalIndicators';
+
+export interface MarketData {
+  candles: ProcessedCandle[];
+  indicators: MarketIndicators[];     // At each bar, from that bar and the ones before it
+}
+
+export interface MarketDataStream extends MarketData {
+  push(bar: OHLCVCandle): MarketIndicators;   // Process the next bar; returns its indicators
+}
+
+export const VOLATILITY_WINDOW = 20;    // Bars in the rolling volatility of daily returns
+
+// Before any bar, or out of range
+export const NEUTRAL_INDICATORS: MarketIndicators = {
+  ...NEUTRAL_TECHNICAL_INDICATORS,
+  volatility: 0,
+  trend: 0,
+  drawdown: 0,
+  regime: 'CHOP',
+  regimeProbabilities: toRegimeProbabilities('CHOP'),
+};
+
+// ============================================
+// CANDLES
+// ============================================
+
+/**
+ * Daily return, intraday volatility, true range and rolling volatility of
+ * the bar after the processed ones
+ */
+function processCandle(bar: OHLCVCandle, processed: ProcessedCandle[]): ProcessedCandle {
+  const i = processed.length;
+  const prevClose = i > 0 ? processed[i - 1].close : bar.open;
+  const dailyReturn = ((bar.close - prevClose) / prevClose) * 100;
+  const intradayVolatility = ((bar.high - bar.low) / bar.open) * 100;
+
+  // Volatility of the last VOLATILITY_WINDOW returns, the bar's own range until there are enough
+  let rollingVolatility = intradayVolatility;
+  if (i >= VOLATILITY_WINDOW - 1) {
+    let sum = 0;
+    for (let j = i - VOLATILITY_WINDOW + 1; j < i; j++) {
+      sum += Math.pow(processed[j].dailyReturn, 2);
+    }
+    sum += Math.pow(dailyReturn, 2);
+    rollingVolatility = Math.sqrt(sum / VOLATILITY_WINDOW);
+  }
+
+  return {
+    ...bar,
+    dailyReturn,
+    intradayVolatility,
+    trueRange: Math.max(
+      bar.high - bar.low,
+      i > 0 ? Math.abs(bar.high - prevClose) : 0,
+      i > 0 ? Math.abs(bar.low - prevClose) : 0
+    ),
+    rollingVolatility,
+    index: i,
+  };
+}
+
+// ============================================
+// INDICATORS
+// ============================================
+
+/**
+ * Takes each processed candle in order and returns the indicators at it
+ */
+function createIndicatorCalculator(model: RegimeModel | null): (candle: ProcessedCandle) => MarketIndicators {
+  const technical = createTechnicalIndicators();
+  const filter = model ? createRegimeFilter(model) : null;
+  let peakHigh = -Infinity;
+
+  return (candle) => {
+    const values = technical(candle);
+    peakHigh = Math.max(peakHigh, candle.high);
+
+    // Trend: % above or below the moving average; drawdown from the highest high so far
+    const trend = ((candle.close - values.sma) / values.sma) * 100;
+    const drawdown = ((peakHigh - candle.close) / peakHigh) * 100;
+
+    // Regime from the model's filter, or the rules with certainty
+    const estimate = filter?.(candle);
+    const regime = estimate?.regime ?? classifyRegime(trend, values.rsi, drawdown);
+
+    return {
+      ...values,
+      volatility: candle.rollingVolatility,
+      trend,
+      drawdown,
+      regime,
+      regimeProbabilities: estimate?.probabilities ?? toRegimeProbabilities(regime),
+    };
+  };
+}
+
+function classifyRegime(trend: number, rsi: number, drawdown: number): MarketRegime {
+  if (trend > 5 && rsi > 50) return 'BULL';
+  if (trend < -5 && rsi < 50) return 'BEAR';
+  if (drawdown > 20) return 'CRASH';
+  if (trend > 0 && drawdown > 10) return 'RECOVERY';
+  return 'CHOP';
+}
+
+/**
+ * Indicators at every bar of processed candles, in one pass
+ */
+export function calculateIndicatorSeries(data: ProcessedCandle[], model: RegimeModel | null = null): MarketIndicators[] {
+  return data.map(createIndicatorCalculator(model));
+}
+
+/**
+ * Indicators at a single bar. The Wilder and exponential averages carry
+ * state from the first bar, so this runs through the whole history; per-bar
+ * loops should use calculateIndicatorSeries or a stream instead.
+ */
+export function calculateIndicators(
+  data: ProcessedCandle[],
+  currentIndex: number,
+  model: RegimeModel | null = null
+): MarketIndicators {
+  if (currentIndex < 0 || currentIndex >= data.length) {
+    return NEUTRAL_INDICATORS;
+  }
+  return calculateIndicatorSeries(data.slice(0, currentIndex + 1), model)[currentIndex];
+}
+
+// ============================================
+// PIPELINE
+// ============================================
+
+/**
+ * Process bars one at a time as they arrive, with regimes from a model
+ * fitted beforehand (or the rules without one)
+ */
+export function createMarketDataStream(model: RegimeModel | null = null): MarketDataStream {
+  const candles: ProcessedCandle[] = [];
+  const indicators: MarketIndicators[] = [];
+  const calculate = createIndicatorCalculator(model);
+
+  return {
+    candles,
+    indicators,
+    push: (bar) => {
+      const candle = processCandle(bar, candles);
+      candles.push(candle);
+
+      const current = calculate(candle);
+      indicators.push(current);
+      return current;
+    },
+  };
+}
+
+/**
+ * Fit a regime model to raw bars, skipping the volatility warm-up.
+ * Null with too few bars to fit one.
+ */
+export function fitMarketRegimeModel(bars: OHLCVCandle[]): RegimeModel | null {
+  return fitCandleRegimeModel(processCandles(bars));
+}
+
+function fitCandleRegimeModel(candles: ProcessedCandle[]): RegimeModel | null {
+  return fitRegimeModel(candles, { warmupBars: VOLATILITY_WINDOW - 1 });
+}
+
+/**
+ * Process a whole dataset: candles and the indicators at each bar. Regimes
+ * come from a model fitted to the dataset unless one is given, so pass a
+ * model (or null) wherever later bars must not shape earlier regimes.
+ */
+export function processMarketData(bars: OHLCVCandle[], model?: RegimeModel | null): MarketData {
+  const candles = processCandles(bars);
+  const regimeModel = model === undefined ? fitCandleRegimeModel(candles) : model;
+  return { candles, indicators: calculateIndicatorSeries(candles, regimeModel) };
+}
+
+/**
+ * Derive daily return, intraday volatility, true range and 20-bar rolling
+ * volatility for raw candles
+ */
+export function processCandles(bars: OHLCVCandle[]): ProcessedCandle[] {
+  const candles: ProcessedCandle[] = [];
+  bars.forEach(bar => candles.push(processCandle(bar, candles)));
+  return candles;
+}
+
+// ============================================
+// DATASETS
+// ============================================
+
+export function calculateMarketStats(candles: ProcessedCandle[]): MarketStats {
+  if (candles.length === 0) {
+    return { avgReturn: 0, maxReturn: 0, minReturn: 0, stdReturn: 0, avgVolatility: 0, maxVolatility: 0, totalReturn: 0 };
+  }
+
+  const returns = candles.map(c => c.dailyReturn);
+  const volatilities = candles.map(c => c.intradayVolatility);
+  const avg = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+  const avgReturn = avg(returns);
+  const first = candles[0];
+  const last = candles[candles.length - 1];
+
+  return {
+    avgReturn,
+    maxReturn: returns.reduce((max, r) => Math.max(max, r), -Infinity),
+    minReturn: returns.reduce((min, r) => Math.min(min, r), Infinity),
+    stdReturn: Math.sqrt(avg(returns.map(r => Math.pow(r - avgReturn, 2)))),
+    avgVolatility: avg(volatilities),
+    maxVolatility: volatilities.reduce((max, v) => Math.max(max, v), -Infinity),
+    totalReturn: ((last.close - first.open) / first.open) * 100,
+  };
+}
+
+export function toMarketDataset(raw: RawMarketData): MarketDataset {
+  const data = processCandles(raw.data);
+  return {
+    symbol: raw.symbol,
+    name: raw.name,
+    description: raw.description,
+    startDate: data[0]?.date,
+    endDate: data[data.length - 1]?.date,
+    totalDays: data.length,
+    data,
+    stats: calculateMarketStats(data),
+  };
+}
+
+export function toChartCandle(candle: OHLCVCandle, indicators?: MarketIndicators): ChartCandle {
+  return {
+    date: new Date(candle.date),
+    open: candle.open,
+    high: candle.high,
+    low: candle.low,
+    close: candle.close,
+    volume: candle.volume,
+    indicators,
+  };
+}
@@ -0,0 +1,189 @@
+/**
+ * Market Import Tests
+ *
+ * Tests for CSV parsing, column and date format detection, OHLC validation
+ * and importing Yahoo, Stooq, generic CSV and JSON files.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  detectColumns,
+  detectDateFormat,
+  detectDelimiter,
+  parseCsv,
+  parseDate,
+  parseMarketFile,
+  parseNumber,
+  validateCandles,
+} from './marketImport';
+
+// ============================================
+// PARSING
+// ============================================
+
+describe('CSV Parsing', () => {
+  it('should split quoted cells and skip blank lines', () => {
+    expect(parseCsv('a,"b,c",d\r\n\r\n1,"say ""hi""",3\n')).toEqual([
+      ['a', 'b,c', 'd'],
+      ['1', 'say "hi"', '3'],
+    ]);
+  });
+
+  it('should detect the delimiter from the header', () => {
+    expect(detectDelimiter('Date;Open;Close\n2024-01-02;1,5;2')).toBe(';');
+    expect(detectDelimiter('Date\tClose')).toBe('\t');
+    expect(detectDelimiter('Date,Close')).toBe(',');
+  });
+
+  it('should read thousands separators and decimal commas', () => {
+    expect(parseNumber('1,234.5')).toBe(1234.5);
+    expect(parseNumber('1234,5', ';')).toBe(1234.5);
+    expect(parseNumber('null')).toBeNull();
+    expect(parseNumber('')).toBeNull();
+  });
+
+  it('should find columns by name', () => {
+    expect(detectColumns(['<TICKER>', '<DATE>', '<OPEN>', '<HIGH>', '<LOW>', '<CLOSE>', '<VOL>'])).toEqual({
+      symbol: 0, date: 1, open: 2, high: 3, low: 4, close: 5, volume: 6,
+    });
+    expect(detectColumns(['Date', 'Adj Close'])).toEqual({ date: 0, close: 1 });
+  });
+});
+
+// ============================================
+// DATES
+// ============================================
+
+describe('Date Formats', () => {
+  it('should detect each format from the values', () => {
+    expect(detectDateFormat(['2024-01-02', '2024-01-03T00:00:00Z'])?.format).toBe('YYYY-MM-DD');
+    expect(detectDateFormat(['20240102'])?.format).toBe('YYYYMMDD');
+    expect(detectDateFormat(['1704153600'])?.format).toBe('unix-seconds');
+    expect(detectDateFormat(['1704153600000'])?.format).toBe('unix-ms');
+    expect(detectDateFormat(['02.01.2024'])?.format).toBe('DD.MM.YYYY');
+    expect(detectDateFormat(['Jan 2, 2024'])).toBeNull();
+  });
+
+  it('should tell day-first from month-first slashed dates', () => {
+    expect(detectDateFormat(['01/02/2024', '25/02/2024'])).toEqual({ format: 'DD/MM/YYYY', ambiguous: false });
+    expect(detectDateFormat(['01/02/2024', '01/25/2024'])).toEqual({ format: 'MM/DD/YYYY', ambiguous: false });
+    expect(detectDateFormat(['01/02/2024'])).toEqual({ format: 'MM/DD/YYYY', ambiguous: true });
+  });
+
+  it('should convert dates to YYYY-MM-DD and reject impossible ones', () => {
+    expect(parseDate('25/02/2024', 'DD/MM/YYYY')).toBe('2024-02-25');
+    expect(parseDate('2/25/99', 'MM/DD/YYYY')).toBe('1999-02-25');
+    expect(parseDate('20240229', 'YYYYMMDD')).toBe('2024-02-29');
+    expect(parseDate('1704153600', 'unix-seconds')).toBe('2024-01-02');
+    expect(parseDate('2023-02-30', 'YYYY-MM-DD')).toBeNull();
+  });
+});
+
+// ============================================
+// VALIDATION
+// ============================================
+
+describe('Candle Validation', () => {
+  const bar = { date: '2024-01-02', open: 100, high: 105, low: 95, close: 102, volume: 1000 };
+
+  it('should accept consistent bars', () => {
+    expect(validateCandles([bar, { ...bar, date: '2024-01-03' }])).toEqual([]);
+  });
+
+  it('should reject inconsistent prices and negative volume', () => {
+    expect(validateCandles([{ ...bar, high: 101 }])[0].message).toMatch(/High 101/);
+    expect(validateCandles([{ ...bar, low: 101 }])[0].message).toMatch(/Low 101/);
+    expect(validateCandles([{ ...bar, volume: -1 }])[0].message).toMatch(/Negative volume/);
+    expect(validateCandles([{ ...bar, open: 0, low: 0 }])[0].message).toMatch(/positive/);
+  });
+
+  it('should reject duplicate and unsorted dates with their rows', () => {
+    const errors = validateCandles([bar, bar, { ...bar, date: '2024-01-01' }]);
+
+    expect(errors).toEqual([
+      { row: 2, message: 'Duplicate date 2024-01-02' },
+      { row: 3, message: "Date 2024-01-01 is before the previous bar's 2024-01-02" },
+    ]);
+  });
+});
+
+// ============================================
+// IMPORT
+// ============================================
+
+describe('Market File Import', () => {
+  it('should import a Yahoo CSV, skipping rows without prices', () => {
+    const csv = [
+      'Date,Open,High,Low,Close,Adj Close,Volume',
+      '2024-01-02,100,105,99,104,103.5,1000',
+      '2024-01-03,null,null,null,null,null,null',
+      '2024-01-04,104,106,101,102,101.5,1200',
+    ].join('\n');
+    const result = parseMarketFile(csv, 'AAPL.csv');
+
+    expect(result.errors).toEqual([]);
+    expect(result.layout).toBe('yahoo');
+    expect(result.columns.close).toBe('Close');
+    expect(result.dateFormat).toBe('YYYY-MM-DD');
+    expect(result.rowCount).toBe(3);
+    expect(result.warnings.map(w => w.message)).toContain('Skipped 1 row without a close');
+    expect(result.data?.symbol).toBe('AAPL');
+    expect(result.data?.data).toEqual([
+      { date: '2024-01-02', open: 100, high: 105, low: 99, close: 104, volume: 1000 },
+      { date: '2024-01-04', open: 104, high: 106, low: 101, close: 102, volume: 1200 },
+    ]);
+  });
+
+  it('should import a Stooq file with its ticker', () => {
+    const csv = [
+      '<TICKER>,<PER>,<DATE>,<TIME>,<OPEN>,<HIGH>,<LOW>,<CLOSE>,<VOL>,<OPENINT>',
+      'SPY.US,D,20240102,000000,470,475,468,472,50000,0',
+      'SPY.US,D,20240103,000000,472,474,466,467,60000,0',
+    ].join('\n');
+    const result = parseMarketFile(csv, 'spy_us_d.csv');
+
+    expect(result.layout).toBe('stooq');
+    expect(result.dateFormat).toBe('YYYYMMDD');
+    expect(result.data?.symbol).toBe('SPY.US');
+    expect(result.data?.data[1]).toEqual({ date: '2024-01-03', open: 472, high: 474, low: 466, close: 467, volume: 60000 });
+  });
+
+  it('should fill a close-only file and reverse newest-first rows', () => {
+    const result = parseMarketFile('date;price\n03.01.2024;1,5\n02.01.2024;1,25', 'prices.csv');
+
+    expect(result.errors).toEqual([]);
+    expect(result.data?.data).toEqual([
+      { date: '2024-01-02', open: 1.25, high: 1.25, low: 1.25, close: 1.25, volume: 0 },
+      { date: '2024-01-03', open: 1.5, high: 1.5, low: 1.5, close: 1.5, volume: 0 },
+    ]);
+    expect(result.warnings.map(w => w.message)).toEqual([
+      'No open/high/low column: using the close',
+      'No volume column: volume set to 0',
+      'Rows were newest first: reversed',
+    ]);
+  });
+
+  it('should import JSON market data and candle arrays', () => {
+    const candles = [
+      { date: '2024-01-02', open: 100, high: 101, low: 99, close: 100.5, volume: 10 },
+      { date: '2024-01-03', open: 100.5, high: 102, low: 100, close: 101, volume: 12 },
+    ];
+    const raw = parseMarketFile(JSON.stringify({ symbol: 'X', name: 'Ex', description: 'Test', data: candles }), 'x.json');
+    const array = parseMarketFile(JSON.stringify(candles), 'candles.json');
+
+    expect(raw.format).toBe('json');
+    expect(raw.data).toEqual({ symbol: 'X', name: 'Ex', description: 'Test', data: candles });
+    expect(array.data?.symbol).toBe('candles');
+    expect(array.data?.data).toEqual(candles);
+  });
+
+  it('should return errors and no data for an invalid file', () => {
+    const csv = 'Date,Open,High,Low,Close,Volume\n2024-01-02,100,99,98,100,10\n2024-01-03,100,101,99,100,-5';
+    const result = parseMarketFile(csv);
+
+    expect(result.data).toBeNull();
+    expect(result.errors.map(e => e.row)).toEqual([1, 2]);
+    expect(parseMarketFile('Open,Close\n1,2').errors).toEqual([{ row: null, message: 'No date column found' }]);
+    expect(parseMarketFile('{ not json', 'bad.json').errors[0].message).toMatch(/^Invalid JSON/);
+  });
+});
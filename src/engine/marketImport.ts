@@ -0,0 +1,431 @@
+/**
+ * Market Import - Price history from the player's own files
+ *
+ * Turns a CSV or JSON file into RawMarketData the game can play. Columns are
+ * found by name, so Yahoo (Date, Open, High, Low, Close, Adj Close, Volume),
+ * Stooq (<TICKER>, <DATE>, <OPEN>, ..., <VOL>) and generic
+ * date/open/high/low/close/volume layouts all import. The date format is
+ * detected from the values.
+ *
+ * Nothing is imported silently wrong: bars with inconsistent prices, negative
+ * volume or out-of-order dates are reported as errors with their row, and an
+ * import with errors has no data.
+ */
+
+import type { OHLCVCandle, RawMarketData } from '../types';
+
+export type ImportField = 'date' | 'open' | 'high' | 'low' | 'close' | 'volume' | 'symbol';
+export type ImportFormat = 'csv' | 'json';
+export type ImportLayout = 'yahoo' | 'stooq' | 'generic' | 'json';
+export type DateFormat =
+  | 'YYYY-MM-DD'
+  | 'YYYYMMDD'
+  | 'MM/DD/YYYY'
+  | 'DD/MM/YYYY'
+  | 'DD.MM.YYYY'
+  | 'unix-seconds'
+  | 'unix-ms';
+
+export interface ImportIssue {
+  row: number | null;           // 1-based data row (header excluded), null for the whole file
+  message: string;
+}
+
+export interface MarketImport {
+  data: RawMarketData | null;   // Null when there are errors
+  format: ImportFormat;
+  layout: ImportLayout;
+  columns: Partial<Record<ImportField, string>>;  // Source column used for each field
+  dateFormat: DateFormat | null;
+  rowCount: number;             // Data rows in the file
+  errors: ImportIssue[];
+  warnings: ImportIssue[];
+}
+
+export const MIN_IMPORT_BARS = 2;
+
+// Normalized column names (lowercase, letters and digits only) for each field
+const COLUMN_ALIASES: Record<ImportField, string[]> = {
+  date: ['date', 'datetime', 'time', 'timestamp', 'day'],
+  open: ['open', 'o'],
+  high: ['high', 'h'],
+  low: ['low', 'l'],
+  close: ['close', 'c', 'last', 'price'],
+  volume: ['volume', 'vol', 'v'],
+  symbol: ['ticker', 'symbol'],
+};
+const ADJUSTED_CLOSE_ALIASES = ['adjclose', 'adjustedclose'];
+const STOOQ_COLUMNS = ['per', 'openint'];
+
+// ============================================
+// PARSING
+// ============================================
+
+/**
+ * Split delimited text into rows of cells. Quoted cells may contain the
+ * delimiter, line breaks and doubled quotes.
+ */
+export function parseCsv(text: string, delimiter: string = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      if (row.some(value => value !== '')) rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell.trim());
+  if (row.some(value => value !== '')) rows.push(row);
+
+  return rows;
+}
+
+/**
+ * The most frequent of comma, semicolon and tab in the first line
+ */
+export function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const counts = [',', ';', '\t'].map(d => [d, firstLine.split(d).length - 1] as const);
+  return counts.reduce((best, current) => (current[1] > best[1] ? current : best))[0];
+}
+
+function normalizeColumn(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Index of the column for each field. Close falls back to the adjusted
+ * close when the file has only that.
+ */
+export function detectColumns(header: string[]): Partial<Record<ImportField, number>> {
+  const normalized = header.map(normalizeColumn);
+  const columns: Partial<Record<ImportField, number>> = {};
+
+  for (const [field, aliases] of Object.entries(COLUMN_ALIASES) as [ImportField, string[]][]) {
+    const index = normalized.findIndex(name => aliases.includes(name));
+    if (index >= 0) columns[field] = index;
+  }
+  if (columns.close === undefined) {
+    const index = normalized.findIndex(name => ADJUSTED_CLOSE_ALIASES.includes(name));
+    if (index >= 0) columns.close = index;
+  }
+
+  return columns;
+}
+
+function detectLayout(header: string[]): ImportLayout {
+  const normalized = header.map(normalizeColumn);
+  if (normalized.some(name => ADJUSTED_CLOSE_ALIASES.includes(name))) return 'yahoo';
+  if (header.some(name => /^<.*>$/.test(name)) || normalized.some(name => STOOQ_COLUMNS.includes(name))) {
+    return 'stooq';
+  }
+  return 'generic';
+}
+
+/**
+ * A number from a cell, or null for an empty or missing value. Commas are
+ * thousands separators, or the decimal point in files not delimited by commas.
+ */
+export function parseNumber(value: string, delimiter: string = ','): number | null {
+  let text = value.trim();
+  if (text === '' || /^(null|nan|n\/a|-)$/i.test(text)) return null;
+
+  if (text.includes(',')) {
+    text = text.includes('.') || delimiter === ',' ? text.replace(/,/g, '') : text.replace(',', '.');
+  }
+  const number = Number(text);
+  return Number.isFinite(number) ? number : null;
+}
+
+// ============================================
+// DATES
+// ============================================
+
+const DATE_PATTERNS: [DateFormat, RegExp][] = [
+  ['YYYY-MM-DD', /^\d{4}[-/]\d{1,2}[-/]\d{1,2}(?:[ T].*)?$/],
+  ['YYYYMMDD', /^(?:18|19|20)\d{6}$/],
+  ['unix-seconds', /^\d{9,10}$/],
+  ['unix-ms', /^\d{12,13}$/],
+  ['MM/DD/YYYY', /^\d{1,2}\/\d{1,2}\/\d{2,4}(?:[ T].*)?$/],
+  ['DD.MM.YYYY', /^\d{1,2}\.\d{1,2}\.\d{4}(?:[ T].*)?$/],
+];
+
+/**
+ * The format all the date values share. Slashed dates are day-first when a
+ * first part is above 12; otherwise month-first, and ambiguous if no second
+ * part is above 12 either.
+ */
+export function detectDateFormat(values: string[]): { format: DateFormat; ambiguous: boolean } | null {
+  const dates = values.map(value => value.trim()).filter(value => value !== '');
+  if (dates.length === 0) return null;
+
+  const match = DATE_PATTERNS.find(([, pattern]) => dates.every(value => pattern.test(value)));
+  if (!match) return null;
+
+  if (match[0] !== 'MM/DD/YYYY') return { format: match[0], ambiguous: false };
+
+  const parts = dates.map(value => value.split(/[/ T]/).map(Number));
+  if (parts.some(([first]) => first > 12)) return { format: 'DD/MM/YYYY', ambiguous: false };
+  return { format: 'MM/DD/YYYY', ambiguous: !parts.some(([, second]) => second > 12) };
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * A date value as YYYY-MM-DD, or null if it is not a valid date in the format
+ */
+export function parseDate(value: string, format: DateFormat): string | null {
+  const text = value.trim();
+  const numbers = (text.match(/\d+/g) ?? []).map(Number);
+  const fullYear = (year: number) => (year < 100 ? year + (year < 70 ? 2000 : 1900) : year);
+
+  switch (format) {
+    case 'YYYY-MM-DD':
+      return toIsoDate(numbers[0], numbers[1], numbers[2]);
+    case 'YYYYMMDD':
+      return toIsoDate(Number(text.slice(0, 4)), Number(text.slice(4, 6)), Number(text.slice(6, 8)));
+    case 'MM/DD/YYYY':
+      return toIsoDate(fullYear(numbers[2]), numbers[0], numbers[1]);
+    case 'DD/MM/YYYY':
+      return toIsoDate(fullYear(numbers[2]), numbers[1], numbers[0]);
+    case 'DD.MM.YYYY':
+      return toIsoDate(numbers[2], numbers[1], numbers[0]);
+    case 'unix-seconds':
+    case 'unix-ms': {
+      const ms = Number(text) * (format === 'unix-seconds' ? 1000 : 1);
+      return Number.isFinite(ms) ? new Date(ms).toISOString().slice(0, 10) : null;
+    }
+  }
+}
+
+// ============================================
+// VALIDATION
+// ============================================
+
+/**
+ * OHLC consistency of each bar and the order of their dates. Rows are the
+ * 1-based rows the candles came from (defaults to their position).
+ */
+export function validateCandles(candles: OHLCVCandle[], rows: number[] = candles.map((_, i) => i + 1)): ImportIssue[] {
+  const errors: ImportIssue[] = [];
+
+  candles.forEach((candle, i) => {
+    const row = rows[i];
+    const { open, high, low, close, volume } = candle;
+    if ([open, high, low, close].some(price => !(price > 0))) {
+      errors.push({ row, message: 'Prices must be positive' });
+    }
+    if (high < Math.max(open, close)) {
+      errors.push({ row, message: `High ${high} is below the open or close` });
+    }
+    if (low > Math.min(open, close)) {
+      errors.push({ row, message: `Low ${low} is above the open or close` });
+    }
+    if (volume < 0) {
+      errors.push({ row, message: `Negative volume ${volume}` });
+    }
+    if (i > 0 && candle.date === candles[i - 1].date) {
+      errors.push({ row, message: `Duplicate date ${candle.date}` });
+    } else if (i > 0 && candle.date < candles[i - 1].date) {
+      errors.push({ row, message: `Date ${candle.date} is before the previous bar's ${candles[i - 1].date}` });
+    }
+  });
+
+  return errors;
+}
+
+// ============================================
+// IMPORT
+// ============================================
+
+interface ImportTable {
+  header: string[];
+  rows: string[][];
+  delimiter: string;
+  meta: Partial<Pick<RawMarketData, 'symbol' | 'name' | 'description'>>;
+}
+
+/**
+ * Header and rows of a JSON file: RawMarketData or an array of candles
+ */
+function readJsonTable(text: string): ImportTable {
+  const parsed: unknown = JSON.parse(text);
+  const source = parsed as { data?: unknown; symbol?: unknown; name?: unknown; description?: unknown };
+  const candles = Array.isArray(parsed) ? parsed : Array.isArray(source.data) ? source.data : null;
+  if (!candles) throw new Error('Expected an array of candles or an object with a data array');
+
+  const objects = candles.filter((c): c is Record<string, unknown> => typeof c === 'object' && c !== null);
+  const header = [...new Set(objects.flatMap(candle => Object.keys(candle)))];
+  const meta = Array.isArray(parsed)
+    ? {}
+    : Object.fromEntries(
+        (['symbol', 'name', 'description'] as const)
+          .filter(key => typeof source[key] === 'string')
+          .map(key => [key, source[key] as string])
+      );
+
+  return {
+    header,
+    rows: objects.map(candle => header.map(key => (candle[key] === null || candle[key] === undefined ? '' : String(candle[key])))),
+    delimiter: ',',
+    meta,
+  };
+}
+
+function getSymbolFromFileName(fileName: string): string {
+  return fileName.replace(/^.*[\\/]/, '').replace(/\.[^.]*$/, '').trim() || 'CUSTOM';
+}
+
+/**
+ * Parse a CSV or JSON file into playable market data, with the detected
+ * layout, columns and date format for a preview
+ */
+export function parseMarketFile(text: string, fileName: string = 'import.csv'): MarketImport {
+  const trimmed = text.trim();
+  const format: ImportFormat = /\.json$/i.test(fileName) || /^[[{]/.test(trimmed) ? 'json' : 'csv';
+  const result: MarketImport = {
+    data: null,
+    format,
+    layout: format === 'json' ? 'json' : 'generic',
+    columns: {},
+    dateFormat: null,
+    rowCount: 0,
+    errors: [],
+    warnings: [],
+  };
+  const fail = (message: string) => {
+    result.errors.push({ row: null, message });
+    return result;
+  };
+
+  let table: ImportTable;
+  if (format === 'json') {
+    try {
+      table = readJsonTable(trimmed);
+    } catch (error) {
+      return fail(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  } else {
+    const delimiter = detectDelimiter(trimmed);
+    const [header = [], ...rows] = parseCsv(trimmed, delimiter);
+    table = { header, rows, delimiter, meta: {} };
+    result.layout = detectLayout(header);
+  }
+  result.rowCount = table.rows.length;
+
+  // Columns
+  const columns = detectColumns(table.header);
+  result.columns = Object.fromEntries(
+    Object.entries(columns).map(([field, index]) => [field, table.header[index]])
+  );
+  if (columns.date === undefined) return fail('No date column found');
+  if (columns.close === undefined) return fail('No close column found');
+
+  const missingPrices = (['open', 'high', 'low'] as const).filter(field => columns[field] === undefined);
+  if (missingPrices.length > 0) {
+    result.warnings.push({ row: null, message: `No ${missingPrices.join('/')} column: using the close` });
+  }
+  if (columns.volume === undefined) {
+    result.warnings.push({ row: null, message: 'No volume column: volume set to 0' });
+  }
+
+  // Dates
+  const detected = detectDateFormat(table.rows.map(row => row[columns.date!] ?? ''));
+  if (!detected) return fail('Unrecognized date format');
+  result.dateFormat = detected.format;
+  if (detected.ambiguous) {
+    result.warnings.push({ row: null, message: `Dates could be day-first or month-first: read as ${detected.format}` });
+  }
+
+  // Bars
+  let candles: OHLCVCandle[] = [];
+  let rows: number[] = [];
+  let skipped = 0;
+  table.rows.forEach((cells, i) => {
+    const row = i + 1;
+    const value = (field: ImportField) => {
+      const index = columns[field];
+      return index === undefined ? null : parseNumber(cells[index] ?? '', table.delimiter);
+    };
+
+    const date = parseDate(cells[columns.date!] ?? '', detected.format);
+    if (!date) {
+      result.errors.push({ row, message: `Invalid date "${cells[columns.date!] ?? ''}"` });
+      return;
+    }
+
+    const close = value('close');
+    if (close === null) {
+      skipped++;
+      return;
+    }
+
+    candles.push({
+      date,
+      open: value('open') ?? close,
+      high: value('high') ?? close,
+      low: value('low') ?? close,
+      close,
+      volume: value('volume') ?? 0,
+    });
+    rows.push(row);
+  });
+  if (skipped > 0) {
+    result.warnings.push({ row: null, message: `Skipped ${skipped} row${skipped === 1 ? '' : 's'} without a close` });
+  }
+
+  // Newest-first files are reversed rather than rejected
+  if (candles.length > 1 && candles.every((c, i) => i === 0 || c.date < candles[i - 1].date)) {
+    candles = candles.reverse();
+    rows = rows.reverse();
+    result.warnings.push({ row: null, message: 'Rows were newest first: reversed' });
+  }
+
+  result.errors.push(...validateCandles(candles, rows));
+  if (candles.length < MIN_IMPORT_BARS) {
+    result.errors.push({ row: null, message: `At least ${MIN_IMPORT_BARS} bars are needed, found ${candles.length}` });
+  }
+  if (result.errors.length > 0) return result;
+
+  const symbolColumn = columns.symbol;
+  const symbol = table.meta.symbol
+    ?? (symbolColumn !== undefined ? table.rows[0]?.[symbolColumn] : undefined)
+    ?? getSymbolFromFileName(fileName);
+
+  result.data = {
+    symbol,
+    name: table.meta.name ?? symbol,
+    description: table.meta.description ?? `Imported from ${fileName.replace(/^.*[\\/]/, '')}`,
+    data: candles,
+  };
+  return result;
+}
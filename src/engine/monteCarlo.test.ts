@@ -0,0 +1,218 @@
+/**
+ * Monte Carlo Tests
+ *
+ * Tests for trade reshuffling and resampling, block-bootstrapped paths,
+ * percentile bands and the final equity, drawdown and time-to-ruin
+ * distributions.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { ClosedPosition, ProcessedCandle } from '../types';
+import {
+  bootstrapRun,
+  createDistribution,
+  getBootstrapIndices,
+  getPercentile,
+  getTimeToRuin,
+  getTradeEquityPath,
+  resampleTrades,
+  reshuffleTrades,
+  runMonteCarlo,
+} from './monteCarlo';
+
+// ============================================
+// TEST FIXTURES
+// ============================================
+
+function createRandom(seed: number = 1): () => number {
+  return () => (seed = (seed * 9301 + 49297) % 233280) / 233280;
+}
+
+function createTrade(exitIndex: number, realizedPnL: number): ClosedPosition {
+  return {
+    id: `trade-${exitIndex}`,
+    direction: 'long',
+    entryPrice: 100,
+    entryIndex: exitIndex - 1,
+    exitPrice: 100 + realizedPnL / 10,
+    exitIndex,
+    size: 1,
+    sizeInDollars: 1000,
+    realizedPnL,
+    realizedPnLPercent: realizedPnL / 10,
+    holdingPeriod: 1,
+    instrument: 'asset',
+    isHedge: false,
+    exitReason: 'manual',
+    fees: 0,
+  };
+}
+
+function createCandles(returns: number[]): ProcessedCandle[] {
+  let close = 100;
+  return returns.map((dailyReturn, index) => {
+    close *= 1 + dailyReturn / 100;
+    return {
+      date: new Date(Date.UTC(2024, 0, 1 + index)).toISOString().slice(0, 10),
+      open: close,
+      high: close,
+      low: close,
+      close,
+      volume: 1000000,
+      dailyReturn,
+      intradayVolatility: 0,
+      trueRange: 0,
+      rollingVolatility: 0,
+      index,
+    };
+  });
+}
+
+// ============================================
+// PATHS
+// ============================================
+
+describe('Monte Carlo Paths', () => {
+  const pnls = [500, -2000, 300, -1500, 800, 1200];
+
+  it('should reshuffle the same trades', () => {
+    const shuffled = reshuffleTrades(pnls, createRandom());
+
+    expect(shuffled).toHaveLength(pnls.length);
+    expect([...shuffled].sort((a, b) => a - b)).toEqual([...pnls].sort((a, b) => a - b));
+  });
+
+  it('should resample trades from the original ones', () => {
+    const resampled = resampleTrades(pnls, createRandom());
+
+    expect(resampled).toHaveLength(pnls.length);
+    expect(resampled.every(pnl => pnls.includes(pnl))).toBe(true);
+  });
+
+  it('should stop a trade path at zero', () => {
+    expect(getTradeEquityPath(1000, [500, -2000, 800])).toEqual([1000, 1500, 0, 0]);
+  });
+
+  it('should draw bootstrap blocks of consecutive bars that wrap around', () => {
+    const indices = getBootstrapIndices(10, 4, createRandom());
+
+    expect(indices).toHaveLength(10);
+    expect(indices.every(i => i >= 0 && i < 10)).toBe(true);
+    for (let i = 1; i < 4; i++) {
+      expect(indices[i]).toBe((indices[0] + i) % 10);
+    }
+  });
+
+  it('should find the first step at or below the ruin level', () => {
+    expect(getTimeToRuin([100, 80, 50, 40], 0.5)).toBe(2);
+    expect(getTimeToRuin([100, 80, 60], 0.5)).toBeNull();
+  });
+});
+
+// ============================================
+// DISTRIBUTIONS
+// ============================================
+
+describe('Monte Carlo Distributions', () => {
+  it('should interpolate percentiles', () => {
+    expect(getPercentile([1, 2, 3, 4, 5], 50)).toBe(3);
+    expect(getPercentile([0, 10], 25)).toBe(2.5);
+    expect(getPercentile([], 50)).toBe(0);
+  });
+
+  it('should bin every value into the histogram', () => {
+    const distribution = createDistribution([5, 1, 3, 2, 4], 2);
+
+    expect(distribution.values).toEqual([1, 2, 3, 4, 5]);
+    expect(distribution.mean).toBe(3);
+    expect(distribution.percentiles.p50).toBe(3);
+    expect(distribution.histogram.map(bin => bin.count)).toEqual([2, 3]);
+    expect(distribution.histogram[1].to).toBe(5);
+  });
+
+  it('should put identical values in a single bin', () => {
+    expect(createDistribution([7, 7, 7]).histogram).toEqual([{ from: 7, to: 7, count: 3 }]);
+  });
+});
+
+// ============================================
+// ANALYSIS
+// ============================================
+
+describe('Monte Carlo Analysis', () => {
+  const trades = [createTrade(3, 2000), createTrade(1, -3000), createTrade(5, 1500), createTrade(8, -4000), createTrade(9, 2500)];
+  const equity = [10000, 10100, 9900, 10200, 10400, 10300, 10600, 10500, 10900, 11000];
+
+  it('should keep final equity but vary drawdowns when reshuffling', () => {
+    const { reshuffle } = runMonteCarlo({ trades, equity }, { simulations: 200, random: createRandom() });
+
+    expect(reshuffle.simulations).toBe(200);
+    expect(reshuffle.steps).toBe(5);
+    expect(reshuffle.finalEquity.percentiles.p5).toBe(9000);
+    expect(reshuffle.finalEquity.percentiles.p95).toBe(9000);
+    expect(reshuffle.maxDrawdown.percentiles.p95).toBeGreaterThan(reshuffle.maxDrawdown.percentiles.p5);
+  });
+
+  it('should repeat the same analysis without a random source', () => {
+    const first = runMonteCarlo({ trades, equity }, { simulations: 50 });
+    const second = runMonteCarlo({ trades, equity }, { simulations: 50 });
+
+    expect(second.resample.finalEquity).toEqual(first.resample.finalEquity);
+  });
+
+  it('should measure the historical path in close order', () => {
+    const { reshuffle } = runMonteCarlo({ trades, equity }, { simulations: 10, random: createRandom() });
+
+    // -3000, +2000, +1500, -4000, +2500 from 10000: peak 10500, trough 6500
+    expect(reshuffle.actual.finalEquity).toBe(9000);
+    expect(reshuffle.actual.maxDrawdown).toBeCloseTo((4000 / 10500) * 100);
+  });
+
+  it('should spread final equity when resampling', () => {
+    const { resample } = runMonteCarlo({ trades, equity }, { simulations: 200, random: createRandom() });
+    expect(resample.finalEquity.percentiles.p95).toBeGreaterThan(resample.finalEquity.percentiles.p5);
+  });
+
+  it('should report ruin from the paths that reach the ruin level', () => {
+    const losing = [createTrade(1, -3000), createTrade(2, -3000), createTrade(3, 1000)];
+    const { reshuffle } = runMonteCarlo({ trades: losing, equity: [10000] }, { simulations: 50, random: createRandom() });
+
+    // Both losses always happen: ruined by the second or third trade
+    expect(reshuffle.ruinProbability).toBe(1);
+    expect(reshuffle.timeToRuin.values).toHaveLength(50);
+    expect(reshuffle.timeToRuin.percentiles.p5).toBeGreaterThanOrEqual(2);
+    expect(reshuffle.timeToRuin.percentiles.p95).toBeLessThanOrEqual(3);
+  });
+
+  it('should give equity bands for every step, ordered by percentile', () => {
+    const { resample } = runMonteCarlo({ trades, equity }, { simulations: 100, random: createRandom() });
+    const { p5, p50, p95 } = resample.equityBands;
+
+    expect(p50).toHaveLength(6);
+    expect(p50[0]).toBe(10000);
+    for (let i = 0; i < p50.length; i++) {
+      expect(p5[i]).toBeLessThanOrEqual(p50[i]);
+      expect(p50[i]).toBeLessThanOrEqual(p95[i]);
+    }
+  });
+
+  it('should skip bootstrapping without candles', () => {
+    expect(runMonteCarlo({ trades, equity }, { simulations: 10 }).bootstrap).toBeNull();
+  });
+
+  it('should bootstrap price and equity paths from the same bars', () => {
+    // A run fully invested at 1x: its returns are the market's
+    const candles = createCandles([1, -2, 3, -1, 2, 0.5, -0.5, 1]);
+    const runEquity = candles.reduce((path, candle) => [...path, path[path.length - 1] * (1 + candle.dailyReturn / 100)], [10000]);
+    const result = bootstrapRun(runEquity, candles, { simulations: 100, blockSize: 3, random: createRandom() });
+
+    expect(result.method).toBe('bootstrap');
+    expect(result.steps).toBe(8);
+    expect(result.priceBands!.p50).toHaveLength(9);
+    expect(result.priceBands!.p50[0]).toBeCloseTo(100);
+    for (let i = 0; i < 9; i++) {
+      expect(result.equityBands.p50[i] / 10000).toBeCloseTo(result.priceBands!.p50[i] / 100);
+    }
+    expect(result.actual.finalEquity).toBeCloseTo(runEquity[8]);
+  });
+});
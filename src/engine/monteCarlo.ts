@@ -0,0 +1,324 @@
+/**
+ * Monte Carlo - How much of a finished run was luck
+ *
+ * A backtest is one path through history. Replaying it many times with the
+ * luck shuffled out shows the range of results the same strategy could have
+ * produced:
+ * - reshuffle: the same trades in a random order (same final equity, a
+ *   different ride - drawdowns and ruin depend on the order of losses)
+ * - resample: trades drawn with replacement (some winners never happen,
+ *   some losers happen twice)
+ * - bootstrap: blocks of consecutive bars drawn with replacement, keeping
+ *   each bar's market return together with the run's return on it, so
+ *   volatility clustering survives inside a block
+ *
+ * Every result carries percentile bands per step, ready for a fan chart,
+ * and distributions of final equity, max drawdown and time-to-ruin.
+ */
+
+import type { ClosedPosition, ProcessedCandle } from '../types';
+import { createSeededRandom } from './ids';
+import { calculateMaxDrawdown, getEquityReturns } from './performance';
+
+export type MonteCarloMethod = 'reshuffle' | 'resample' | 'bootstrap';
+
+export interface MonteCarloInput {
+  trades: ClosedPosition[];
+  equity: number[];             // Initial capital, then equity at each bar's close
+  candles?: ProcessedCandle[];  // The run's bars (candle i = equity[i + 1]), for bootstrapped paths
+}
+
+export interface MonteCarloOptions {
+  simulations?: number;         // Paths per method (default 1000)
+  blockSize?: number;           // Consecutive bars per bootstrap block (default 20)
+  ruinLevel?: number;           // Share of the initial equity at or below which a path is ruined (default 0.5)
+  histogramBins?: number;       // Default 20
+  random?: () => number;       // Default: seeded, so the same run gives the same analysis
+}
+
+export interface PercentileBands {
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+export type PathBands = { [K in keyof PercentileBands]: number[] };
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface Distribution {
+  values: number[];             // One per path, sorted ascending
+  mean: number;
+  percentiles: PercentileBands;
+  histogram: HistogramBin[];
+}
+
+export interface MonteCarloResult {
+  method: MonteCarloMethod;
+  simulations: number;
+  steps: number;                // Trades (reshuffle, resample) or bars (bootstrap) per path
+  finalEquity: Distribution;
+  maxDrawdown: Distribution;    // %
+  timeToRuin: Distribution;     // Steps until ruin, over the ruined paths only
+  ruinProbability: number;      // Share of paths that reached the ruin level
+  equityBands: PathBands;       // Equity percentiles at each step
+  priceBands?: PathBands;       // Bootstrapped price percentiles at each bar
+  actual: {
+    finalEquity: number;
+    maxDrawdown: number;
+    percentile: number;         // Share of paths that ended below the historical one (0-100)
+  };
+}
+
+export interface MonteCarloAnalysis {
+  reshuffle: MonteCarloResult;
+  resample: MonteCarloResult;
+  bootstrap: MonteCarloResult | null;   // Null without candles
+}
+
+const DEFAULT_SIMULATIONS = 1000;
+const DEFAULT_BLOCK_SIZE = 20;
+const DEFAULT_RUIN_LEVEL = 0.5;
+const DEFAULT_HISTOGRAM_BINS = 20;
+const PERCENTILES: Record<keyof PercentileBands, number> = { p5: 5, p25: 25, p50: 50, p75: 75, p95: 95 };
+
+// ============================================
+// PATHS
+// ============================================
+
+/**
+ * Equity after each trade, adding realized P&L to the initial equity.
+ * A path that hits zero stays there - there is nothing left to trade.
+ */
+export function getTradeEquityPath(initialEquity: number, pnls: number[]): number[] {
+  const path = [initialEquity];
+  for (const pnl of pnls) {
+    const last = path[path.length - 1];
+    path.push(last > 0 ? Math.max(0, last + pnl) : 0);
+  }
+  return path;
+}
+
+/**
+ * The same trades in random order (Fisher-Yates)
+ */
+export function reshuffleTrades(pnls: number[], random: () => number = createSeededRandom()): number[] {
+  const shuffled = [...pnls];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/**
+ * As many trades as there were, drawn with replacement
+ */
+export function resampleTrades(pnls: number[], random: () => number = createSeededRandom()): number[] {
+  return pnls.map(() => pnls[Math.floor(random() * pnls.length)]);
+}
+
+/**
+ * Bar indices for one block-bootstrapped path of the given length.
+ * Blocks start at random bars and wrap around the end of the data.
+ */
+export function getBootstrapIndices(
+  length: number,
+  blockSize: number = DEFAULT_BLOCK_SIZE,
+  random: () => number = createSeededRandom()
+): number[] {
+  const indices: number[] = [];
+  const block = Math.max(1, Math.min(blockSize, length));
+  while (indices.length < length) {
+    const start = Math.floor(random() * length);
+    for (let k = 0; k < block && indices.length < length; k++) {
+      indices.push((start + k) % length);
+    }
+  }
+  return indices;
+}
+
+/**
+ * Compound returns (fractions) onto a starting value. Stops at zero.
+ */
+function compound(start: number, returns: number[]): number[] {
+  const path = [start];
+  for (const r of returns) {
+    path.push(Math.max(0, path[path.length - 1] * (1 + r)));
+  }
+  return path;
+}
+
+// ============================================
+// STATISTICS
+// ============================================
+
+/**
+ * Linearly interpolated percentile (0-100) of ascending values
+ */
+export function getPercentile(sorted: number[], percentile: number): number {
+  if (sorted.length === 0) return 0;
+  const position = (Math.max(0, Math.min(100, percentile)) / 100) * (sorted.length - 1);
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+export function createDistribution(values: number[], bins: number = DEFAULT_HISTOGRAM_BINS): Distribution {
+  const sorted = [...values].sort((a, b) => a - b);
+  const percentiles = Object.fromEntries(
+    Object.entries(PERCENTILES).map(([key, p]) => [key, getPercentile(sorted, p)])
+  ) as unknown as PercentileBands;
+
+  if (sorted.length === 0) {
+    return { values: sorted, mean: 0, percentiles, histogram: [] };
+  }
+
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  const binCount = max > min ? Math.max(1, bins) : 1;
+  const width = (max - min) / binCount;
+  const histogram: HistogramBin[] = Array.from({ length: binCount }, (_, i) => ({
+    from: min + i * width,
+    to: i === binCount - 1 ? max : min + (i + 1) * width,
+    count: 0,
+  }));
+  for (const value of sorted) {
+    const bin = width > 0 ? Math.min(binCount - 1, Math.floor((value - min) / width)) : 0;
+    histogram[bin].count++;
+  }
+
+  return {
+    values: sorted,
+    mean: sorted.reduce((sum, value) => sum + value, 0) / sorted.length,
+    percentiles,
+    histogram,
+  };
+}
+
+/**
+ * Percentiles of the paths' values at each step
+ */
+function getPathBands(paths: number[][]): PathBands {
+  const steps = paths.length > 0 ? paths[0].length : 0;
+  const bands: PathBands = { p5: [], p25: [], p50: [], p75: [], p95: [] };
+  for (let step = 0; step < steps; step++) {
+    const column = paths.map(path => path[step]).sort((a, b) => a - b);
+    for (const [key, p] of Object.entries(PERCENTILES) as [keyof PercentileBands, number][]) {
+      bands[key].push(getPercentile(column, p));
+    }
+  }
+  return bands;
+}
+
+/**
+ * Steps until equity first falls to the ruin level, or null if it never does
+ */
+export function getTimeToRuin(path: number[], ruinLevel: number = DEFAULT_RUIN_LEVEL): number | null {
+  const threshold = path[0] * ruinLevel;
+  const step = path.findIndex(value => value <= threshold);
+  return step < 0 ? null : step;
+}
+
+/**
+ * Distributions and bands of simulated equity paths, with the historical
+ * path for comparison
+ */
+export function summarizePaths(
+  method: MonteCarloMethod,
+  paths: number[][],
+  actualPath: number[],
+  options: MonteCarloOptions = {}
+): MonteCarloResult {
+  const ruinLevel = options.ruinLevel ?? DEFAULT_RUIN_LEVEL;
+  const bins = options.histogramBins ?? DEFAULT_HISTOGRAM_BINS;
+
+  const finals = paths.map(path => path[path.length - 1]);
+  const ruinTimes = paths
+    .map(path => getTimeToRuin(path, ruinLevel))
+    .filter((step): step is number => step !== null);
+  const actualFinal = actualPath[actualPath.length - 1];
+
+  return {
+    method,
+    simulations: paths.length,
+    steps: Math.max(0, actualPath.length - 1),
+    finalEquity: createDistribution(finals, bins),
+    maxDrawdown: createDistribution(paths.map(calculateMaxDrawdown), bins),
+    timeToRuin: createDistribution(ruinTimes, bins),
+    ruinProbability: paths.length > 0 ? ruinTimes.length / paths.length : 0,
+    equityBands: getPathBands(paths),
+    actual: {
+      finalEquity: actualFinal,
+      maxDrawdown: calculateMaxDrawdown(actualPath),
+      percentile: paths.length > 0 ? (finals.filter(value => value < actualFinal).length / paths.length) * 100 : 0,
+    },
+  };
+}
+
+// ============================================
+// ANALYSIS
+// ============================================
+
+/**
+ * Reshuffled and resampled trade sequences, plus block-bootstrapped bar
+ * paths when the run's candles are given
+ */
+export function runMonteCarlo(input: MonteCarloInput, options: MonteCarloOptions = {}): MonteCarloAnalysis {
+  const simulations = options.simulations ?? DEFAULT_SIMULATIONS;
+  const random = options.random ?? createSeededRandom();
+  const initialEquity = input.equity[0] ?? 0;
+
+  // Trades in the order they closed
+  const pnls = [...input.trades]
+    .sort((a, b) => a.exitIndex - b.exitIndex)
+    .map(trade => trade.realizedPnL);
+  const tradePath = getTradeEquityPath(initialEquity, pnls);
+  const simulate = (draw: (pnls: number[], random: () => number) => number[]) =>
+    Array.from({ length: simulations }, () => getTradeEquityPath(initialEquity, draw(pnls, random)));
+
+  return {
+    reshuffle: summarizePaths('reshuffle', simulate(reshuffleTrades), tradePath, options),
+    resample: summarizePaths('resample', simulate(resampleTrades), tradePath, options),
+    bootstrap: input.candles ? bootstrapRun(input.equity, input.candles, options) : null,
+  };
+}
+
+/**
+ * Block-bootstrap the run's bars. The same draw of bars gives a price path
+ * (from the candles' daily returns) and an equity path (from the run's
+ * returns on those bars).
+ */
+export function bootstrapRun(
+  equity: number[],
+  candles: ProcessedCandle[],
+  options: MonteCarloOptions = {}
+): MonteCarloResult {
+  const simulations = options.simulations ?? DEFAULT_SIMULATIONS;
+  const random = options.random ?? createSeededRandom();
+  const equityReturns = getEquityReturns(equity);
+  const length = Math.min(equityReturns.length, candles.length);
+  const marketReturns = candles.slice(0, length).map(candle => candle.dailyReturn / 100);
+
+  // Price before the first bar, so the path's first return is the first bar's
+  const startPrice = candles.length > 0 ? candles[0].close / (1 + candles[0].dailyReturn / 100) : 0;
+
+  const equityPaths: number[][] = [];
+  const pricePaths: number[][] = [];
+  for (let s = 0; s < simulations; s++) {
+    const indices = getBootstrapIndices(length, options.blockSize, random);
+    equityPaths.push(compound(equity[0], indices.map(i => equityReturns[i])));
+    pricePaths.push(compound(startPrice, indices.map(i => marketReturns[i])));
+  }
+
+  return {
+    ...summarizePaths('bootstrap', equityPaths, equity.slice(0, length + 1), options),
+    priceBands: getPathBands(pricePaths),
+  };
+}
@@ -0,0 +1,127 @@
+/**
+ * Multi-Asset Feed - Date-aligned prices for several instruments
+ *
+ * Each dataset in assets/market has its own trading calendar (Bitcoin trades
+ * on weekends, stocks do not). The feed merges them onto one timeline of
+ * dates. On a date an instrument did not trade, its last close carries
+ * forward; before its first bar it has no price.
+ */
+
+import type { MarketIndicators, ProcessedCandle } from '../types';
+import { calculateIndicators, processMarketData } from './marketData';
+import { fetchMarketData } from './datasetRegistry';
+
+export interface AssetSeries {
+  key: string;                // Dataset key (e.g. 'bitcoin')
+  symbol: string;             // Ticker positions are opened in (e.g. 'BTC-USD')
+  name: string;
+  candles: ProcessedCandle[];
+  indicators?: MarketIndicators[];   // At each candle; computed per lookup when missing
+}
+
+// 'union' keeps every date any instrument traded; 'intersection' only dates all traded
+export type FeedAlignment = 'union' | 'intersection';
+
+export interface MultiAssetBar {
+  date: string;
+  prices: Record<string, number>;       // Latest close per symbol (missing before its first bar)
+  candleIndex: Record<string, number>;  // Index of that close in the symbol's candles
+  traded: string[];                     // Symbols with a bar on this exact date
+}
+
+export interface MultiAssetFeed {
+  symbols: string[];
+  series: Record<string, AssetSeries>;
+  bars: MultiAssetBar[];
+}
+
+/**
+ * Merge several series onto one date-aligned timeline.
+ * Each series must be sorted by ISO date.
+ */
+export function createMultiAssetFeed(series: AssetSeries[], alignment: FeedAlignment = 'union'): MultiAssetFeed {
+  const symbols = series.map(s => s.symbol);
+  const dateSets = series.map(s => new Set(s.candles.map(c => c.date)));
+
+  const allDates = new Set<string>();
+  dateSets.forEach(dates => dates.forEach(date => allDates.add(date)));
+  const dates = [...allDates]
+    .filter(date => alignment === 'union' || dateSets.every(set => set.has(date)))
+    .sort();
+
+  const cursors = series.map(() => -1);
+  const bars: MultiAssetBar[] = dates.map(date => {
+    const bar: MultiAssetBar = { date, prices: {}, candleIndex: {}, traded: [] };
+
+    series.forEach((s, i) => {
+      while (cursors[i] + 1 < s.candles.length && s.candles[cursors[i] + 1].date <= date) {
+        cursors[i]++;
+      }
+      if (cursors[i] < 0) return;
+
+      const candle = s.candles[cursors[i]];
+      bar.prices[s.symbol] = candle.close;
+      bar.candleIndex[s.symbol] = cursors[i];
+      if (candle.date === date) bar.traded.push(s.symbol);
+    });
+
+    return bar;
+  });
+
+  return {
+    symbols,
+    series: Object.fromEntries(series.map(s => [s.symbol, s])),
+    bars,
+  };
+}
+
+/**
+ * Feed bar at or before each of a sorted list of dates (-1 before the feed
+ * starts), so a series on its own calendar can look up the book's prices
+ */
+export function alignFeed(feed: MultiAssetFeed, dates: string[]): number[] {
+  let cursor = -1;
+  return dates.map(date => {
+    while (cursor + 1 < feed.bars.length && feed.bars[cursor + 1].date <= date) {
+      cursor++;
+    }
+    return cursor;
+  });
+}
+
+/**
+ * Indicators of each priced symbol as of a feed bar, from its own history
+ */
+export function getFeedIndicators(feed: MultiAssetFeed, index: number): Record<string, MarketIndicators> {
+  const bar = feed.bars[index];
+  if (!bar) return {};
+
+  const indicators: Record<string, MarketIndicators> = {};
+  for (const [symbol, candleIndex] of Object.entries(bar.candleIndex)) {
+    const series = feed.series[symbol];
+    indicators[symbol] = series.indicators?.[candleIndex] ?? calculateIndicators(series.candles, candleIndex);
+  }
+  return indicators;
+}
+
+/**
+ * Load registered datasets and merge them into one feed
+ */
+export async function loadMultiAssetFeed(
+  keys: string[],
+  alignment: FeedAlignment = 'union'
+): Promise<MultiAssetFeed> {
+  const series = await Promise.all(keys.map(async (key): Promise<AssetSeries> => {
+    const raw = await fetchMarketData(key);
+    const { candles, indicators } = processMarketData(raw.data);
+    return {
+      key,
+      symbol: raw.symbol || key.toUpperCase(),
+      name: raw.name || key.toUpperCase(),
+      candles,
+      indicators,
+    };
+  }));
+
+  return createMultiAssetFeed(series, alignment);
+}
@@ -0,0 +1,370 @@
+/**
+ * Optimizer Tests
+ *
+ * Tests for equity-curve performance metrics and the parameter sweep:
+ * grid and random search, in/out-of-sample measurement, ranking, stability
+ * of the winning region, the overfitting report and walk-forward analysis.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { OHLCV } from './BacktestEngine';
+import {
+  createReferenceRule,
+  enumerateGrid,
+  evaluateParameters,
+  getParameterKey,
+  getRankCorrelation,
+  getInSampleConfig,
+  getSplitIndex,
+  optimize,
+  sampleParameters,
+  summarizeRuns,
+} from './optimizer';
+import type { OptimizationRun, ParameterSet, TradingRule } from './optimizer';
+import { createWalkForwardSplits, evaluateWindow, summarizeWalkForward, walkForward } from './walkForward';
+import type { WalkForwardWindow } from './walkForward';
+import { calculateMaxDrawdown, calculatePerformance } from './performance';
+import type { PerformanceMetrics } from './performance';
+import { fitMarketRegimeModel } from './marketData';
+import type { RegimeProbabilities } from '../types';
+
+// ============================================
+// TEST FIXTURES
+// ============================================
+
+function createBars(closes: number[]): OHLCV[] {
+  return closes.map((close, i) => ({
+    date: new Date(Date.UTC(2024, 0, 1 + i)).toISOString().slice(0, 10),
+    open: close,
+    high: close + 1,
+    low: close - 1,
+    close,
+    volume: 1000000,
+  }));
+}
+
+// 200 choppy bars, and the same first 100 followed by wild swings
+const wave = createBars(Array.from({ length: 200 }, (_, i) => 100 + 10 * Math.sin(i / 5) + 3 * Math.sin(i * 1.7)));
+const swung = createBars([
+  ...wave.slice(0, 100).map(bar => bar.close),
+  ...Array.from({ length: 100 }, (_, i) => 100 + 40 * Math.sin(i)),
+]);
+
+// Trades nothing; records the regime probabilities each run sees per bar
+function createRegimeRecorder(runs: RegimeProbabilities[][]): TradingRule {
+  return () => {
+    const seen: RegimeProbabilities[] = [];
+    runs.push(seen);
+    return { name: 'Regimes', onBar: (_ctx, _bar, indicators) => { seen.push(indicators.regimeProbabilities); } };
+  };
+}
+
+function createMetrics(sharpe: number): PerformanceMetrics {
+  return { totalReturn: 0, cagr: 0, volatility: 0, sharpe, maxDrawdown: 0, calmar: 0 };
+}
+
+function createRun(params: ParameterSet, inSample: number, outOfSample: number): OptimizationRun {
+  return { params, inSample: createMetrics(inSample), outOfSample: createMetrics(outOfSample), trades: 1 };
+}
+
+// ============================================
+// PERFORMANCE
+// ============================================
+
+describe('Performance Metrics', () => {
+  it('should measure total return and CAGR', () => {
+    // Doubling over one year of daily bars
+    const equity = Array.from({ length: 253 }, (_, i) => 100 * Math.pow(2, i / 252));
+    const metrics = calculatePerformance(equity);
+
+    expect(metrics.totalReturn).toBeCloseTo(100);
+    expect(metrics.cagr).toBeCloseTo(100);
+    expect(metrics.maxDrawdown).toBe(0);
+  });
+
+  it('should measure the largest peak-to-trough drawdown', () => {
+    expect(calculateMaxDrawdown([100, 120, 90, 110, 60, 130])).toBeCloseTo(50);
+  });
+
+  it('should give a higher Sharpe ratio to a smoother curve with the same return', () => {
+    const smooth = [100, 101, 102, 103, 104, 105];
+    const choppy = [100, 104, 99, 106, 100, 105];
+
+    expect(calculatePerformance(smooth).sharpe).toBeGreaterThan(calculatePerformance(choppy).sharpe);
+  });
+
+  it('should relate Calmar to CAGR and drawdown', () => {
+    const metrics = calculatePerformance([100, 110, 99, 120]);
+    expect(metrics.calmar).toBeCloseTo(metrics.cagr / metrics.maxDrawdown);
+  });
+
+  it('should return zeros for a curve without returns', () => {
+    expect(calculatePerformance([100]).sharpe).toBe(0);
+    expect(calculatePerformance([]).cagr).toBe(0);
+  });
+});
+
+// ============================================
+// PARAMETER SETS
+// ============================================
+
+describe('Parameter Sets', () => {
+  it('should enumerate every grid combination', () => {
+    const grid = enumerateGrid({ fast: [5, 10], slow: [50, 100, 200] });
+
+    expect(grid).toHaveLength(6);
+    expect(grid).toContainEqual({ fast: 10, slow: 100 });
+  });
+
+  it('should sample distinct combinations from the grid', () => {
+    let seed = 0;
+    const random = () => (seed = (seed * 9301 + 49297) % 233280) / 233280;
+    const sample = sampleParameters({ a: [1, 2, 3, 4], b: [1, 2, 3, 4] }, 5, random);
+
+    expect(sample).toHaveLength(5);
+    expect(new Set(sample.map(getParameterKey)).size).toBe(5);
+  });
+
+  it('should draw the same sample on every call by default', () => {
+    const space = { a: [1, 2, 3, 4, 5, 6], b: [1, 2, 3, 4, 5, 6] };
+    expect(sampleParameters(space, 8)).toEqual(sampleParameters(space, 8));
+  });
+
+  it('should return the whole grid when asked for more samples than it has', () => {
+    expect(sampleParameters({ a: [1, 2] }, 10)).toHaveLength(2);
+  });
+
+  it('should key parameter sets independently of their order', () => {
+    expect(getParameterKey({ b: 2, a: 1 })).toBe(getParameterKey({ a: 1, b: 2 }));
+  });
+});
+
+// ============================================
+// OPTIMIZATION
+// ============================================
+
+describe('Optimizer', () => {
+  // Rally, then a long slide
+  const closes = [
+    ...Array.from({ length: 60 }, (_, i) => 100 + i),
+    ...Array.from({ length: 40 }, (_, i) => 160 - i * 1.5),
+  ];
+  const data = createBars(closes);
+
+  it('should split in and out of sample at the ratio', () => {
+    expect(getSplitIndex(100, 0.7)).toBe(70);
+    expect(getSplitIndex(10, 1)).toBe(9);
+  });
+
+  it('should measure a run in and out of sample', () => {
+    const run = evaluateParameters(data, createReferenceRule('buy_and_hold'), { leverage: 1 }, { inSampleRatio: 0.6 });
+
+    // Held through the rally (in sample) and the slide (out of sample)
+    expect(run.inSample.totalReturn).toBeGreaterThan(0);
+    expect(run.outOfSample.totalReturn).toBeLessThan(0);
+  });
+
+  it('should fit the regime model on the in-sample bars only', () => {
+    const runs: RegimeProbabilities[][] = [];
+    evaluateParameters(wave, createRegimeRecorder(runs), {}, { inSampleRatio: 0.5 });
+    evaluateParameters(swung, createRegimeRecorder(runs), {}, { inSampleRatio: 0.5 });
+
+    // A model fitted to all the bars would differ, and so would the early regimes
+    expect(fitMarketRegimeModel(swung)).not.toEqual(fitMarketRegimeModel(wave));
+    expect(getInSampleConfig(wave, { inSampleRatio: 0.5 }).regimeModel).not.toBeNull();
+    expect(runs[1].slice(0, 100)).toEqual(runs[0].slice(0, 100));
+    expect(getInSampleConfig(wave, { config: { regimeModel: null } }).regimeModel).toBeNull();
+  });
+
+  it('should pass sizing and strategy parameters through the reference rule', () => {
+    const strategy = createReferenceRule('sma_crossover')({ fast: 3, slow: 7, leverage: 2 });
+    expect(strategy.name).toBe('SMA 3/7');
+  });
+
+  it('should rank runs by the in-sample objective', () => {
+    const report = optimize(data, createReferenceRule('sma_crossover'), { fast: [2, 5], slow: [10, 20] }, {
+      inSampleRatio: 0.6,
+      objective: 'cagr',
+    });
+
+    expect(report.runs).toHaveLength(4);
+    expect(report.best).toBe(report.runs[0]);
+    for (let i = 1; i < report.runs.length; i++) {
+      expect(report.runs[i - 1].inSample.cagr).toBeGreaterThanOrEqual(report.runs[i].inSample.cagr);
+    }
+    expect(report.splitIndex).toBe(60);
+  });
+
+  it('should report the stability of the best set from its grid neighbours', () => {
+    const runs = [
+      createRun({ x: 1 }, 0.5, 0),
+      createRun({ x: 2 }, 2, 0),
+      createRun({ x: 3 }, 1, 0),
+      createRun({ x: 4 }, 1.9, 0),
+    ];
+    const report = summarizeRuns(runs, { x: [1, 2, 3, 4] }, 100);
+
+    expect(report.best.params).toEqual({ x: 2 });
+    expect(report.stability.neighbors).toBe(2);
+    expect(report.stability.meanObjective).toBeCloseTo(0.75);
+    expect(report.stability.worstObjective).toBe(0.5);
+    expect(report.stability.drop).toBeCloseTo(1.25);
+  });
+
+  it('should report how the in-sample winner did out of sample', () => {
+    const runs = [
+      createRun({ x: 1 }, 3, -1),
+      createRun({ x: 2 }, 2, 1),
+      createRun({ x: 3 }, 1, 2),
+    ];
+    const { overfitting } = summarizeRuns(runs, { x: [1, 2, 3] }, 100);
+
+    expect(overfitting.inSampleObjective).toBe(3);
+    expect(overfitting.outOfSampleObjective).toBe(-1);
+    expect(overfitting.degradation).toBeCloseTo(4);
+    expect(overfitting.outOfSampleRank).toBe(3);
+    expect(overfitting.rankCorrelation).toBeCloseTo(-1);
+  });
+
+  it('should report stability and degradation for negative objectives', () => {
+    const runs = [
+      createRun({ x: 1 }, -3, -2),
+      createRun({ x: 2 }, -1, -4),
+      createRun({ x: 3 }, -2, -1),
+    ];
+    const { stability, overfitting } = summarizeRuns(runs, { x: [1, 2, 3] }, 100);
+
+    // Neighbours below a losing best still count as a drop
+    expect(stability.meanObjective).toBeCloseTo(-2.5);
+    expect(stability.drop).toBeCloseTo(1.5);
+
+    // Losing more out of sample is degradation, not improvement
+    expect(overfitting.inSampleObjective).toBe(-1);
+    expect(overfitting.outOfSampleObjective).toBe(-4);
+    expect(overfitting.degradation).toBeCloseTo(3);
+  });
+
+  it('should report no degradation when the winner does better out of sample', () => {
+    const runs = [createRun({ x: 1 }, 0, 0.5), createRun({ x: 2 }, -1, 0)];
+    const { overfitting } = summarizeRuns(runs, { x: [1, 2] }, 100);
+
+    expect(overfitting.degradation).toBeCloseTo(-0.5);
+  });
+
+  it('should refuse to summarize no runs', () => {
+    expect(() => summarizeRuns([], {}, 100)).toThrow();
+  });
+
+  it('should compute Spearman rank correlation with ties', () => {
+    expect(getRankCorrelation([1, 2, 3, 4], [10, 20, 30, 40])).toBeCloseTo(1);
+    expect(getRankCorrelation([1, 2, 3, 4], [4, 3, 2, 1])).toBeCloseTo(-1);
+    expect(getRankCorrelation([1, 1, 2], [5, 5, 6])).toBeCloseTo(1);
+    expect(getRankCorrelation([1, 2, 3], [7, 7, 7])).toBe(0);
+  });
+});
+
+// ============================================
+// WALK-FORWARD
+// ============================================
+
+describe('Walk-Forward', () => {
+  // Rally, slide, rally
+  const closes = [
+    ...Array.from({ length: 60 }, (_, i) => 100 + i),
+    ...Array.from({ length: 40 }, (_, i) => 160 - i * 1.5),
+    ...Array.from({ length: 40 }, (_, i) => 100 + i * 2),
+  ];
+  const data = createBars(closes);
+
+  it('should roll train and test windows forward by the test length', () => {
+    const splits = createWalkForwardSplits(100, 40, 25);
+
+    expect(splits).toEqual([
+      { trainStart: 0, testStart: 40, testEnd: 65 },
+      { trainStart: 25, testStart: 65, testEnd: 90 },
+      { trainStart: 50, testStart: 90, testEnd: 100 },
+    ]);
+  });
+
+  it('should anchor train windows at the first bar', () => {
+    const splits = createWalkForwardSplits(100, 40, 25, true);
+    expect(splits.map(split => split.trainStart)).toEqual([0, 0, 0]);
+  });
+
+  it('should make no windows when the data is shorter than the train window', () => {
+    expect(createWalkForwardSplits(30, 40, 10)).toEqual([]);
+  });
+
+  it('should pick the parameters that did best on the train window', () => {
+    const sets = [{ leverage: 1 }, { leverage: 2 }];
+    const window = evaluateWindow(data, createReferenceRule('buy_and_hold'), sets, { trainStart: 0, testStart: 50, testEnd: 80 }, {
+      objective: 'cagr',
+    });
+
+    // More leverage on a rally earns more, then loses more on the slide
+    expect(window.params).toEqual({ leverage: 2 });
+    expect(window.inSample.cagr).toBeGreaterThan(0);
+    expect(window.outOfSample.totalReturn).toBeLessThan(0);
+    expect(window.testEquity).toHaveLength(31);
+    expect(window.testStartDate).toBe(data[50].date);
+  });
+
+  it('should fit the regime model on the train window only', () => {
+    const runs: RegimeProbabilities[][] = [];
+    const split = { trainStart: 0, testStart: 100, testEnd: 200 };
+    evaluateWindow(wave, createRegimeRecorder(runs), [{}], split);
+    evaluateWindow(swung, createRegimeRecorder(runs), [{}], split);
+
+    expect(runs[0]).toHaveLength(200);
+    expect(runs[1].slice(0, 100)).toEqual(runs[0].slice(0, 100));
+  });
+
+  it('should stitch the test windows into one continuous curve', () => {
+    const report = walkForward(data, createReferenceRule('sma_crossover'), { fast: [2, 5], slow: [10, 20] }, {
+      trainBars: 40,
+      testBars: 20,
+    });
+
+    expect(report.windows).toHaveLength(5);
+    expect(report.equity[0]).toBe(10000);
+    expect(report.equity).toHaveLength(101);
+    expect(report.dates).toEqual(data.slice(40).map(bar => bar.date));
+  });
+
+  it('should chain each window onto where the last one ended', () => {
+    const window = (testStart: number, testEquity: number[], params: ParameterSet): WalkForwardWindow => ({
+      trainStart: 0,
+      testStart,
+      testEnd: testStart + testEquity.length - 1,
+      trainStartDate: data[0].date,
+      testStartDate: data[testStart].date,
+      testEndDate: data[testStart + testEquity.length - 2].date,
+      params,
+      inSample: { ...createMetrics(0), cagr: 20 },
+      outOfSample: createMetrics(0),
+      efficiency: 0,
+      testEquity,
+    });
+    const report = summarizeWalkForward(data, [
+      window(10, [500, 550], { x: 1 }),
+      window(11, [2000, 1000, 1500], { x: 2 }),
+      window(13, [100, 110], { x: 2 }),
+    ]);
+
+    // +10%, -50%, +50%, +10% from the initial capital
+    expect(report.equity.map(value => Math.round(value))).toEqual([10000, 11000, 5500, 8250, 9075]);
+    expect(report.parameterChanges).toBe(1);
+    expect(report.efficiency).toBeCloseTo(report.outOfSample.cagr / 20);
+  });
+
+  it('should not report efficiency against an in-sample loss', () => {
+    const window = evaluateWindow(data, createReferenceRule('buy_and_hold'), [{ leverage: 1 }], {
+      trainStart: 60,
+      testStart: 100,
+      testEnd: 140,
+    });
+
+    expect(window.inSample.cagr).toBeLessThan(0);
+    expect(window.efficiency).toBe(0);
+  });
+});
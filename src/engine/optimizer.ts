@@ -0,0 +1,335 @@
+/**
+ * Optimizer - Parameter sweeps over repeated BacktestEngine runs
+ *
+ * Runs a parameterized trading rule for every set in a grid (or a random
+ * sample of it) and ranks the sets by an objective measured in sample. The
+ * report never stops at the winner: it also shows how the winner's
+ * neighbours did (a lone peak is luck, a plateau is a property of the
+ * market) and how the winner did on the out-of-sample bars it was never
+ * chosen on.
+ *
+ * Each set is run once over all the data. Strategies cannot see future
+ * bars and the regime model is fitted on the in-sample bars only, so the
+ * in-sample half of that run is exactly a run on the in-sample bars alone,
+ * and the out-of-sample half starts warmed up.
+ */
+
+import { BacktestEngine } from './BacktestEngine';
+import type { EngineConfig, OHLCV } from './BacktestEngine';
+import type { Strategy } from './strategy';
+import {
+  createBuyAndHoldStrategy,
+  createRebalanceStrategy,
+  createSmaCrossoverStrategy,
+  createRsiReversionStrategy,
+  createVolatilityTargetStrategy,
+  createTrendFollowingStrategy,
+} from './strategies';
+import type { ReferenceStrategyKind, StrategySizing } from './strategies';
+import { createSeededRandom } from './ids';
+import { fitMarketRegimeModel } from './marketData';
+import { calculatePerformance, TRADING_DAYS_PER_YEAR } from './performance';
+import type { PerformanceMetrics } from './performance';
+
+export type ParameterSet = Record<string, number>;
+export type ParameterSpace = Record<string, number[]>;   // Candidate values of each parameter
+export type TradingRule = (params: ParameterSet) => Strategy;
+export type OptimizationObjective = 'sharpe' | 'cagr' | 'calmar';
+export type SearchMethod = 'grid' | 'random';
+
+export interface OptimizerOptions {
+  objective?: OptimizationObjective;
+  inSampleRatio?: number;           // Share of bars parameters are chosen on (default 0.7)
+  config?: Partial<EngineConfig>;
+  periodsPerYear?: number;
+}
+
+export interface OptimizationRun {
+  params: ParameterSet;
+  inSample: PerformanceMetrics;
+  outOfSample: PerformanceMetrics;
+  trades: number;
+}
+
+export interface StabilityReport {
+  neighbors: number;          // Sets one grid step from the best that were run
+  meanObjective: number;
+  worstObjective: number;
+  drop: number;               // Best minus neighbour mean (near 0 = plateau, large next to the best = isolated peak)
+}
+
+export interface OverfittingReport {
+  inSampleObjective: number;      // The best set's in-sample objective
+  outOfSampleObjective: number;   // The same set out of sample
+  degradation: number;            // In-sample minus out-of-sample objective (above 0 = worse out of sample)
+  rankCorrelation: number;        // Spearman correlation of in- and out-of-sample objectives across runs
+  outOfSampleRank: number;        // Where the in-sample winner places out of sample (1 = best)
+}
+
+export interface OptimizationReport {
+  objective: OptimizationObjective;
+  splitIndex: number;             // First out-of-sample bar
+  runs: OptimizationRun[];        // Best in-sample first
+  best: OptimizationRun;
+  stability: StabilityReport;
+  overfitting: OverfittingReport;
+}
+
+const DEFAULT_IN_SAMPLE_RATIO = 0.7;
+
+// ============================================
+// PARAMETER SETS
+// ============================================
+
+/**
+ * Every combination of the candidate values
+ */
+export function enumerateGrid(space: ParameterSpace): ParameterSet[] {
+  return Object.entries(space).reduce<ParameterSet[]>(
+    (sets, [name, values]) => sets.flatMap(set => values.map(value => ({ ...set, [name]: value }))),
+    [{}]
+  );
+}
+
+/**
+ * Up to count distinct combinations drawn at random from the grid.
+ * Seeded by default, so the same call draws the same sample.
+ */
+export function sampleParameters(
+  space: ParameterSpace,
+  count: number,
+  random: () => number = createSeededRandom()
+): ParameterSet[] {
+  const gridSize = Object.values(space).reduce((size, values) => size * values.length, 1);
+  if (count >= gridSize) return enumerateGrid(space);
+
+  const sets = new Map<string, ParameterSet>();
+  while (sets.size < count) {
+    const set: ParameterSet = {};
+    for (const [name, values] of Object.entries(space)) {
+      set[name] = values[Math.floor(random() * values.length)];
+    }
+    sets.set(getParameterKey(set), set);
+  }
+  return [...sets.values()];
+}
+
+export function getParameterKey(params: ParameterSet): string {
+  return Object.keys(params).sort().map(name => `${name}=${params[name]}`).join(',');
+}
+
+// ============================================
+// RUNNING
+// ============================================
+
+export function getSplitIndex(barCount: number, inSampleRatio: number = DEFAULT_IN_SAMPLE_RATIO): number {
+  return Math.min(barCount - 1, Math.max(1, Math.round(barCount * inSampleRatio)));
+}
+
+/**
+ * Engine config with a regime model fitted on the in-sample bars only.
+ * A regimeModel already in the config (null included) is kept.
+ */
+export function getInSampleConfig(data: OHLCV[], options: OptimizerOptions = {}): Partial<EngineConfig> {
+  if (options.config?.regimeModel !== undefined) return options.config;
+  const split = getSplitIndex(data.length, options.inSampleRatio);
+  return { ...options.config, regimeModel: fitMarketRegimeModel(data.slice(0, split)) };
+}
+
+/**
+ * Run one parameter set and measure it in and out of sample
+ */
+export function evaluateParameters(
+  data: OHLCV[],
+  rule: TradingRule,
+  params: ParameterSet,
+  options: OptimizerOptions = {}
+): OptimizationRun {
+  const { equity, trades } = runEquityCurve(data, rule(params), getInSampleConfig(data, options));
+  const split = getSplitIndex(data.length, options.inSampleRatio);
+  const periodsPerYear = options.periodsPerYear ?? TRADING_DAYS_PER_YEAR;
+
+  return {
+    params,
+    inSample: calculatePerformance(equity.slice(0, split + 1), periodsPerYear),
+    outOfSample: calculatePerformance(equity.slice(split), periodsPerYear),
+    trades,
+  };
+}
+
+/**
+ * Run a strategy over all the data. equity[0] is the initial capital and
+ * equity[i + 1] the equity at the close of bar i.
+ */
+export function runEquityCurve(
+  data: OHLCV[],
+  strategy: Strategy,
+  config?: Partial<EngineConfig>
+): { equity: number[]; trades: number } {
+  const engine = new BacktestEngine(config);
+  engine.loadData(data);
+  engine.runStrategy(strategy);
+
+  return {
+    equity: [engine.getPortfolio().initialCapital, ...engine.getTickHistory().map(tick => tick.portfolioValue)],
+    trades: engine.getClosedPositions().length,
+  };
+}
+
+/**
+ * Rank runs by their in-sample objective and report stability and overfitting
+ */
+export function summarizeRuns(
+  runs: OptimizationRun[],
+  space: ParameterSpace,
+  barCount: number,
+  options: OptimizerOptions = {}
+): OptimizationReport {
+  if (runs.length === 0) {
+    throw new Error('No optimization runs to summarize');
+  }
+
+  const objective = options.objective ?? 'sharpe';
+  const ranked = [...runs].sort((a, b) => b.inSample[objective] - a.inSample[objective]);
+  const best = ranked[0];
+
+  return {
+    objective,
+    splitIndex: getSplitIndex(barCount, options.inSampleRatio),
+    runs: ranked,
+    best,
+    stability: getStability(ranked, best, space, objective),
+    overfitting: getOverfitting(ranked, objective),
+  };
+}
+
+/**
+ * Sweep a parameter space on one thread
+ */
+export function optimize(
+  data: OHLCV[],
+  rule: TradingRule,
+  space: ParameterSpace,
+  options: OptimizerOptions & { search?: SearchMethod; samples?: number; random?: () => number } = {}
+): OptimizationReport {
+  const sets = options.search === 'random'
+    ? sampleParameters(space, options.samples ?? 50, options.random)
+    : enumerateGrid(space);
+
+  const fitted = { ...options, config: getInSampleConfig(data, options) };
+  const runs = sets.map(params => evaluateParameters(data, rule, params, fitted));
+  return summarizeRuns(runs, space, data.length, options);
+}
+
+// ============================================
+// REPORTS
+// ============================================
+
+function getStability(
+  runs: OptimizationRun[],
+  best: OptimizationRun,
+  space: ParameterSpace,
+  objective: OptimizationObjective
+): StabilityReport {
+  const byKey = new Map(runs.map(run => [getParameterKey(run.params), run]));
+  const neighbors: OptimizationRun[] = [];
+
+  for (const [name, values] of Object.entries(space)) {
+    const index = values.indexOf(best.params[name]);
+    for (const step of [-1, 1]) {
+      const value = values[index + step];
+      if (index < 0 || value === undefined) continue;
+      const neighbor = byKey.get(getParameterKey({ ...best.params, [name]: value }));
+      if (neighbor) neighbors.push(neighbor);
+    }
+  }
+
+  const bestObjective = best.inSample[objective];
+  if (neighbors.length === 0) {
+    return { neighbors: 0, meanObjective: bestObjective, worstObjective: bestObjective, drop: 0 };
+  }
+
+  const objectives = neighbors.map(run => run.inSample[objective]);
+  const meanObjective = objectives.reduce((sum, value) => sum + value, 0) / objectives.length;
+  return {
+    neighbors: neighbors.length,
+    meanObjective,
+    worstObjective: Math.min(...objectives),
+    drop: bestObjective - meanObjective,
+  };
+}
+
+function getOverfitting(runs: OptimizationRun[], objective: OptimizationObjective): OverfittingReport {
+  const best = runs[0];
+  const inSampleObjective = best.inSample[objective];
+  const outOfSampleObjective = best.outOfSample[objective];
+  const outOfSample = runs.map(run => run.outOfSample[objective]);
+
+  return {
+    inSampleObjective,
+    outOfSampleObjective,
+    degradation: inSampleObjective - outOfSampleObjective,
+    rankCorrelation: getRankCorrelation(runs.map(run => run.inSample[objective]), outOfSample),
+    outOfSampleRank: 1 + outOfSample.filter(value => value > outOfSampleObjective).length,
+  };
+}
+
+/**
+ * Ranks with ties sharing their average rank
+ */
+function getRanks(values: number[]): number[] {
+  const order = values.map((value, i) => ({ value, i })).sort((a, b) => a.value - b.value);
+  const ranks = new Array<number>(values.length);
+  for (let start = 0; start < order.length;) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].value === order[start].value) end++;
+    for (let k = start; k <= end; k++) ranks[order[k].i] = (start + end) / 2 + 1;
+    start = end + 1;
+  }
+  return ranks;
+}
+
+/**
+ * Spearman rank correlation (0 when either series is constant)
+ */
+export function getRankCorrelation(a: number[], b: number[]): number {
+  const n = Math.min(a.length, b.length);
+  if (n < 2) return 0;
+
+  const ra = getRanks(a.slice(0, n));
+  const rb = getRanks(b.slice(0, n));
+  const mean = (n + 1) / 2;
+
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (ra[i] - mean) * (rb[i] - mean);
+    varianceA += (ra[i] - mean) ** 2;
+    varianceB += (rb[i] - mean) ** 2;
+  }
+  return varianceA === 0 || varianceB === 0 ? 0 : covariance / Math.sqrt(varianceA * varianceB);
+}
+
+// ============================================
+// REFERENCE RULES
+// ============================================
+
+const RULE_FACTORIES: Record<ReferenceStrategyKind, (sizing: StrategySizing, params: ParameterSet) => Strategy> = {
+  buy_and_hold: (sizing) => createBuyAndHoldStrategy(sizing),
+  rebalance: createRebalanceStrategy,
+  sma_crossover: createSmaCrossoverStrategy,
+  rsi_reversion: createRsiReversionStrategy,
+  volatility_target: createVolatilityTargetStrategy,
+  trend_following: createTrendFollowingStrategy,
+};
+
+/**
+ * A reference strategy as a trading rule. leverage and cashBuffer size it
+ * (default 1x, fully invested); every other parameter is passed to the
+ * strategy's options (e.g. fast/slow for sma_crossover).
+ */
+export function createReferenceRule(kind: ReferenceStrategyKind): TradingRule {
+  const factory = RULE_FACTORIES[kind];
+  return ({ leverage = 1, cashBuffer = 0, ...params }) => factory({ leverage, cashBuffer }, params);
+}
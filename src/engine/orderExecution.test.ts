@@ -0,0 +1,1372 @@
+/**
+ * Order Execution Tests
+ *
+ * Tests for order handling in the tick-by-tick BacktestEngine class:
+ * market, limit, stop and stop-limit orders, gap fills, bracket and trailing
+ * exits, time-in-force, order modification, partial fills, slippage and
+ * commission models, financing carry, margin calls, index hedges,
+ * strategies driven by runStrategy, the reference strategies, seeded IDs
+ * and snapshot/restore.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { BacktestEngine, type OHLCV, type Order } from './BacktestEngine';
+import type { Strategy } from './strategy';
+import {
+  createBuyAndHoldStrategy,
+  createRebalanceStrategy,
+  createSmaCrossoverStrategy,
+  createRsiReversionStrategy,
+  createVolatilityTargetStrategy,
+  createTrendFollowingStrategy,
+  createReferenceStrategies,
+} from './strategies';
+import { STRATEGY_PRESETS } from '../types';
+import {
+  createFixedBpsSlippage,
+  createVolatilitySlippage,
+  createSquareRootImpactSlippage,
+} from './slippage';
+import {
+  createPerShareCommission,
+  createPercentCommission,
+  createTieredCommission,
+  withMinimumTicket,
+} from './commission';
+import { createIdGenerator } from './ids';
+import { fitMarketRegimeModel } from './marketData';
+
+// ============================================
+// TEST FIXTURES
+// ============================================
+
+function createBar(overrides: Partial<OHLCV> = {}, day: number = 1): OHLCV {
+  return {
+    date: `2024-01-${String(day).padStart(2, '0')}`,
+    open: 100,
+    high: 102,
+    low: 98,
+    close: 100,
+    volume: 1000000,
+    ...overrides,
+  };
+}
+
+function createBars(bars: Partial<OHLCV>[]): OHLCV[] {
+  return bars.map((bar, i) => createBar(bar, i + 1));
+}
+
+function createEngine(data: OHLCV[]): BacktestEngine {
+  const engine = new BacktestEngine({ slippage: 0 });
+  engine.loadData(data);
+  return engine;
+}
+
+// ============================================
+// MARKET & LIMIT ORDERS
+// ============================================
+
+describe('Market Orders', () => {
+  it('should fill at the next bar open', () => {
+    const engine = createEngine(createBars([{}, { open: 101, high: 103, low: 100, close: 102 }]));
+    engine.tick();
+
+    const order = engine.submitMarketOrder('buy', 0.5);
+    engine.tick();
+
+    expect(order!.status).toBe('filled');
+    expect(order!.filledPrice).toBe(101);
+    expect(engine.getPositions()).toHaveLength(1);
+    expect(engine.getPositions()[0].sizeInDollars).toBe(5000);
+  });
+
+  it('should keep equity unchanged right after opening a position', () => {
+    const engine = createEngine(createBars([{}, { open: 100, close: 100 }]));
+    engine.tick();
+    engine.submitMarketOrder('buy', 0.5);
+    engine.tick();
+
+    expect(engine.getPortfolio().equity).toBe(10000);
+  });
+});
+
+describe('Limit Orders', () => {
+  it('should stay pending until the limit is reached', () => {
+    const engine = createEngine(createBars([{}, { low: 97 }, { low: 94 }]));
+    engine.tick();
+
+    const order = engine.submitLimitOrder('buy', 0.5, 95);
+    engine.tick();
+    expect(order!.status).toBe('pending');
+    expect(engine.getPendingOrders()).toHaveLength(1);
+
+    engine.tick();
+    expect(order!.status).toBe('filled');
+    expect(order!.filledPrice).toBe(95);
+  });
+
+  it('should fill at the open when the bar gaps through the limit', () => {
+    const engine = createEngine(createBars([{}, { open: 92, high: 93, low: 90, close: 91 }]));
+    engine.tick();
+
+    const order = engine.submitLimitOrder('buy', 0.5, 95);
+    engine.tick();
+
+    expect(order!.filledPrice).toBe(92);
+  });
+});
+
+// ============================================
+// STOP ORDERS
+// ============================================
+
+describe('Stop Orders', () => {
+  it('should reject invalid stop prices', () => {
+    const engine = createEngine(createBars([{}]));
+    expect(engine.submitStopOrder('sell', 0.5, 0)).toBeNull();
+  });
+
+  it('should stay pending until the stop is touched', () => {
+    const engine = createEngine(createBars([{}, { low: 96 }]));
+    engine.tick();
+
+    const order = engine.submitStopOrder('sell', 0.5, 95);
+    engine.tick();
+
+    expect(order!.status).toBe('pending');
+    expect(engine.getPendingOrders()).toHaveLength(1);
+  });
+
+  it('should fill a sell stop at the stop price when traded through', () => {
+    const engine = createEngine(createBars([{}, { open: 99, high: 100, low: 94, close: 96 }]));
+    engine.tick();
+
+    const order = engine.submitStopOrder('sell', 0.5, 95);
+    engine.tick();
+
+    expect(order!.status).toBe('filled');
+    expect(order!.filledPrice).toBe(95);
+  });
+
+  it('should fill a sell stop at the open when the bar gaps below the stop', () => {
+    const engine = createEngine(createBars([{}, { open: 88, high: 90, low: 85, close: 89 }]));
+    engine.tick();
+
+    const order = engine.submitStopOrder('sell', 0.5, 95);
+    engine.tick();
+
+    expect(order!.filledPrice).toBe(88);
+  });
+
+  it('should fill a buy stop at the open when the bar gaps above the stop', () => {
+    const engine = createEngine(createBars([{}, { open: 110, high: 112, low: 108, close: 111 }]));
+    engine.tick();
+
+    const order = engine.submitStopOrder('buy', 0.5, 105);
+    engine.tick();
+
+    expect(order!.filledPrice).toBe(110);
+    expect(engine.getPositions()[0].direction).toBe('long');
+  });
+
+  it('should apply slippage to triggered stops', () => {
+    const engine = new BacktestEngine({ slippage: 0.01 });
+    engine.loadData(createBars([{}, { open: 99, high: 100, low: 94, close: 96 }]));
+    engine.tick();
+
+    const order = engine.submitStopOrder('sell', 0.5, 95);
+    engine.tick();
+
+    expect(order!.filledPrice).toBeCloseTo(94.05);
+  });
+
+  it('should realize the gap loss when a stop protects a long position', () => {
+    const engine = createEngine(createBars([
+      {},
+      { open: 100, high: 101, low: 99, close: 100 },
+      { open: 80, high: 82, low: 78, close: 81 },
+    ]));
+    engine.tick();
+    engine.submitMarketOrder('buy', 0.5);
+    engine.tick();
+
+    engine.submitStopOrder('sell', 0.5, 95);
+    engine.tick();
+
+    const closed = engine.getClosedPositions();
+    expect(engine.getPositions()).toHaveLength(0);
+    expect(closed).toHaveLength(1);
+    expect(closed[0].exitPrice).toBe(80);
+    expect(closed[0].realizedPnL).toBe(-1000); // 20% of $5,000, not the 5% the stop promised
+  });
+});
+
+// ============================================
+// STOP-LIMIT ORDERS
+// ============================================
+
+describe('Stop-Limit Orders', () => {
+  it('should fill at the stop when triggered within the limit', () => {
+    const engine = createEngine(createBars([{}, { open: 100, high: 101, low: 94, close: 95 }]));
+    engine.tick();
+
+    const order = engine.submitStopLimitOrder('sell', 0.5, 96, 94);
+    engine.tick();
+
+    expect(order!.status).toBe('filled');
+    expect(order!.filledPrice).toBe(96);
+  });
+
+  it('should stay triggered but unfilled when the bar gaps past the limit', () => {
+    const engine = createEngine(createBars([
+      {},
+      { open: 90, high: 92, low: 88, close: 91 },
+      { open: 92, high: 95, low: 91, close: 94 },
+    ]));
+    engine.tick();
+
+    const order = engine.submitStopLimitOrder('sell', 0.5, 96, 94);
+    engine.tick();
+
+    expect(order!.status).toBe('pending');
+    expect(order!.triggered).toBe(true);
+
+    // Once triggered it rests as a limit order
+    engine.tick();
+    expect(order!.status).toBe('filled');
+    expect(order!.filledPrice).toBe(94);
+  });
+
+  it('should fill at the limit within the trigger bar after a gap', () => {
+    const engine = createEngine(createBars([{}, { open: 108, high: 109, low: 104, close: 105 }]));
+    engine.tick();
+
+    const order = engine.submitStopLimitOrder('buy', 0.5, 105, 106);
+    engine.tick();
+
+    expect(order!.filledPrice).toBe(106);
+  });
+
+  it('should be cancellable while resting', () => {
+    const engine = createEngine(createBars([{}, {}]));
+    engine.tick();
+
+    const order = engine.submitStopLimitOrder('buy', 0.5, 120, 121);
+    expect(engine.cancelOrder(order!.id)).toBe(true);
+    engine.tick();
+
+    expect(order!.status).toBe('cancelled');
+    expect(engine.getPendingOrders()).toHaveLength(0);
+  });
+});
+
+// ============================================
+// BRACKET (OCO) ORDERS
+// ============================================
+
+describe('Bracket Orders', () => {
+  it('should reject a bracket with the stop on the winning side', () => {
+    const engine = createEngine(createBars([{}]));
+    expect(engine.submitBracketOrder('buy', 0.5, { stopLoss: 110, takeProfit: 105 })).toBeNull();
+  });
+
+  it('should apply time-in-force options to a market entry', () => {
+    const engine = createEngine(createBars([{}, {}]));
+    engine.tick();
+
+    expect(engine.submitBracketOrder('buy', 0.5, { stopLoss: 95 }, 1, undefined, { timeInForce: 'gtd' })).toBeNull();
+
+    const entry = engine.submitBracketOrder('buy', 0.5, { stopLoss: 95 }, 1, undefined, { timeInForce: 'gtd', expiresAt: 1 });
+    expect(entry!.timeInForce).toBe('gtd');
+    expect(entry!.expiresAt).toBe(1);
+  });
+
+  it('should create linked stop-loss and take-profit children when the entry fills', () => {
+    const engine = createEngine(createBars([{}, {}]));
+    engine.tick();
+
+    const entry = engine.submitBracketOrder('buy', 0.5, { stopLoss: 95, takeProfit: 110 });
+    engine.tick();
+
+    const position = engine.getPositions()[0];
+    const children = engine.getOrdersForPosition(position.id);
+    expect(children).toHaveLength(2);
+    expect(children.map(o => o.exitReason).sort()).toEqual(['stop_loss', 'take_profit']);
+    expect(children.every(o => o.parentOrderId === entry!.id)).toBe(true);
+    expect(children.every(o => o.side === 'sell')).toBe(true);
+  });
+
+  it('should close at the take-profit and cancel the stop-loss', () => {
+    const engine = createEngine(createBars([
+      {},
+      { open: 100, high: 101, low: 99, close: 100 },
+      { open: 104, high: 112, low: 103, close: 111 },
+    ]));
+    const closedReasons: string[] = [];
+    engine.setEvents({ onPositionClosed: closed => closedReasons.push(closed.exitReason) });
+    engine.tick();
+
+    engine.submitBracketOrder('buy', 0.5, { stopLoss: 95, takeProfit: 110 });
+    engine.tick();
+    engine.tick();
+
+    const closed = engine.getClosedPositions();
+    expect(closed).toHaveLength(1);
+    expect(closed[0].exitReason).toBe('take_profit');
+    expect(closed[0].exitPrice).toBe(110);
+    expect(closedReasons).toEqual(['take_profit']);
+    expect(engine.getPendingOrders()).toHaveLength(0);
+
+    const stopLoss = engine.getOrderHistory().find(o => o.exitReason === 'stop_loss');
+    expect(stopLoss!.status).toBe('cancelled');
+  });
+
+  it('should close a short at the stop-loss and report the reason on the fill', () => {
+    const engine = createEngine(createBars([
+      {},
+      { open: 100, high: 101, low: 99, close: 100 },
+      { open: 101, high: 106, low: 100, close: 105 },
+    ]));
+    const fillReasons: (string | undefined)[] = [];
+    engine.setEvents({ onOrderFilled: fill => fillReasons.push(fill.reason) });
+    engine.tick();
+
+    engine.submitBracketOrder('sell', 0.5, { stopLoss: 105, takeProfit: 90 });
+    engine.tick();
+    engine.tick();
+
+    const closed = engine.getClosedPositions();
+    expect(closed[0].exitReason).toBe('stop_loss');
+    expect(closed[0].exitPrice).toBe(105);
+    expect(fillReasons).toEqual([undefined, 'stop_loss']);
+  });
+
+  it('should cancel the take-profit when the stop-loss fills in the same bar', () => {
+    const engine = createEngine(createBars([
+      {},
+      { open: 100, high: 101, low: 99, close: 100 },
+      { open: 99, high: 100, low: 93, close: 94 },
+      {},
+    ]));
+    engine.tick();
+
+    engine.submitBracketOrder('buy', 0.5, { stopLoss: 95, takeProfit: 120 });
+    engine.tick();
+    engine.tick();
+
+    expect(engine.getClosedPositions()[0].exitReason).toBe('stop_loss');
+    expect(engine.getPendingOrders()).toHaveLength(0);
+
+    const takeProfit = engine.getOrderHistory().find(o => o.exitReason === 'take_profit');
+    expect(takeProfit!.status).toBe('cancelled');
+  });
+
+  it('should cancel bracket children when the position is closed manually', () => {
+    const engine = createEngine(createBars([{}, {}, {}]));
+    engine.tick();
+    engine.submitBracketOrder('buy', 0.5, { stopLoss: 90, takeProfit: 120 });
+    engine.tick();
+
+    const position = engine.getPositions()[0];
+    engine.closePosition(position.id);
+    engine.tick();
+
+    expect(engine.getClosedPositions()[0].exitReason).toBe('manual');
+    expect(engine.getPendingOrders()).toHaveLength(0);
+  });
+
+  it('should attach a bracket to an existing position', () => {
+    const engine = createEngine(createBars([
+      {},
+      { open: 100, high: 101, low: 99, close: 100 },
+      { open: 99, high: 100, low: 93, close: 94 },
+    ]));
+    engine.tick();
+    engine.submitMarketOrder('buy', 0.5);
+    engine.tick();
+
+    const position = engine.getPositions()[0];
+    expect(engine.attachBracket(position.id, { stopLoss: 105 })).toHaveLength(0);
+    expect(engine.attachBracket(position.id, { stopLoss: 95 })).toHaveLength(1);
+    engine.tick();
+
+    expect(engine.getClosedPositions()[0].exitReason).toBe('stop_loss');
+    expect(engine.getClosedPositions()[0].exitPrice).toBe(95);
+  });
+});
+
+// ============================================
+// TRAILING STOPS
+// ============================================
+
+describe('Trailing Stops', () => {
+  function openLong(bars: Partial<OHLCV>[]): BacktestEngine {
+    const engine = createEngine(createBars([{}, { open: 100, high: 101, low: 99, close: 100 }, ...bars]));
+    engine.tick();
+    engine.submitMarketOrder('buy', 0.5);
+    engine.tick();
+    return engine;
+  }
+
+  it('should place a percent trail below a long position', () => {
+    const engine = openLong([]);
+    const position = engine.getPositions()[0];
+
+    const order = engine.submitTrailingStop(position.id, { mode: 'percent', distance: 5 });
+
+    expect(order!.type).toBe('trailing_stop');
+    expect(order!.stopPrice).toBe(95);
+    expect(engine.getPositions()[0].trailingStop!.level).toBe(95);
+  });
+
+  it('should ratchet up with price but never loosen', () => {
+    const engine = openLong([
+      { open: 101, high: 111, low: 100, close: 110 },
+      { open: 109, high: 109, low: 106, close: 107 },
+    ]);
+    const position = engine.getPositions()[0];
+    engine.submitTrailingStop(position.id, { mode: 'percent', distance: 5 });
+
+    engine.tick();
+    expect(engine.getPositions()[0].trailingStop!.level).toBeCloseTo(104.5);
+
+    engine.tick();
+    expect(engine.getPositions()[0].trailingStop!.level).toBeCloseTo(104.5);
+    expect(engine.getOrdersForPosition(position.id)[0].stopPrice).toBeCloseTo(104.5);
+  });
+
+  it('should close the position when the trail is hit', () => {
+    const engine = openLong([
+      { open: 101, high: 111, low: 100, close: 110 },
+      { open: 108, high: 108, low: 100, close: 101 },
+    ]);
+    const position = engine.getPositions()[0];
+    engine.submitTrailingStop(position.id, { mode: 'percent', distance: 5 });
+    engine.runToEnd();
+
+    const closed = engine.getClosedPositions();
+    expect(closed).toHaveLength(1);
+    expect(closed[0].exitReason).toBe('trailing_stop');
+    expect(closed[0].exitPrice).toBeCloseTo(104.5);
+  });
+
+  it('should trail by a multiple of ATR', () => {
+    const engine = openLong([]);
+    const position = engine.getPositions()[0];
+
+    // Bars so far have a true range of 4 and 2, so ATR = 3
+    const order = engine.submitTrailingStop(position.id, { mode: 'atr', distance: 2 });
+
+    expect(order!.stopPrice).toBe(94);
+  });
+
+  it('should trail by the Wilder ATR of the last closed bar', () => {
+    const spike = { open: 100, high: 110, low: 90, close: 100 };
+    const engine = openLong([...Array(16).fill({}), spike, spike]);
+    engine.runToEnd();
+    const position = engine.getPositions()[0];
+
+    const order = engine.submitTrailingStop(position.id, { mode: 'atr', distance: 2 });
+
+    // A 14-bar simple average would give (12 * 4 + 2 * 20) / 14 = 6.29
+    expect(engine.getIndicators().atr).toBeCloseTo(6.11, 2);
+    expect(order!.stopPrice).toBeCloseTo(100 - 2 * engine.getIndicators().atr);
+  });
+});
+
+// ============================================
+// TIME IN FORCE & MODIFICATION
+// ============================================
+
+describe('Time in Force', () => {
+  it('should default resting orders to good-till-cancelled', () => {
+    const engine = createEngine(createBars([{}, {}, {}]));
+    const order = engine.submitLimitOrder('buy', 0.5, 90);
+    engine.runToEnd();
+
+    expect(order!.timeInForce).toBe('gtc');
+    expect(order!.status).toBe('pending');
+  });
+
+  it('should expire a day order after one bar', () => {
+    const engine = createEngine(createBars([{}, {}, { low: 85 }]));
+    const expired: string[] = [];
+    engine.setEvents({ onOrderExpired: o => expired.push(o.id) });
+    engine.tick();
+
+    const order = engine.submitLimitOrder('buy', 0.5, 90, 1, { timeInForce: 'day' });
+    engine.runToEnd();
+
+    expect(order!.status).toBe('expired');
+    expect(expired).toEqual([order!.id]);
+    expect(engine.getPositions()).toHaveLength(0);
+  });
+
+  it('should cancel an unfilled immediate-or-cancel order', () => {
+    const engine = createEngine(createBars([{}, {}]));
+    engine.tick();
+
+    const order = engine.submitStopOrder('buy', 0.5, 120, 1, { timeInForce: 'ioc' });
+    engine.tick();
+
+    expect(order!.status).toBe('cancelled');
+    expect(engine.getPendingOrders()).toHaveLength(0);
+  });
+
+  it('should keep a good-till-date order working through its expiry tick', () => {
+    const engine = createEngine(createBars([{}, {}, {}, { low: 85 }]));
+    engine.tick();
+
+    expect(engine.submitLimitOrder('buy', 0.5, 90, 1, { timeInForce: 'gtd' })).toBeNull();
+
+    const order = engine.submitLimitOrder('buy', 0.5, 90, 1, { timeInForce: 'gtd', expiresAt: 2 });
+    engine.tick();
+    expect(order!.status).toBe('pending');
+
+    engine.tick();
+    expect(order!.status).toBe('expired');
+  });
+});
+
+describe('Order Modification', () => {
+  it('should change price and size and keep the order id', () => {
+    const engine = createEngine(createBars([{}, { low: 94 }]));
+    engine.tick();
+
+    const order = engine.submitLimitOrder('buy', 0.5, 90);
+    const modified = engine.modifyOrder(order!.id, { price: 95, size: 0.25 });
+    engine.tick();
+
+    expect(modified!.id).toBe(order!.id);
+    expect(order!.status).toBe('filled');
+    expect(order!.filledPrice).toBe(95);
+    expect(engine.getPositions()[0].size).toBe(0.25);
+  });
+
+  it('should record every modification in the order history', () => {
+    const engine = createEngine(createBars([{}, {}]));
+    const order = engine.submitStopLimitOrder('sell', 0.5, 95, 94);
+
+    engine.modifyOrder(order!.id, { stopPrice: 93, price: 92 });
+    engine.modifyOrder(order!.id, { size: 0.3 });
+
+    const history = engine.getOrderHistory().filter(o => o.id === order!.id);
+    expect(history).toHaveLength(2);
+    expect(history.every(o => o.status === 'replaced')).toBe(true);
+    expect(history[0].stopPrice).toBe(95);
+    expect(history[1].stopPrice).toBe(93);
+    expect(history[1].size).toBe(0.5);
+    expect(order!.size).toBe(0.3);
+  });
+
+  it('should reject changes that do not apply to the order type', () => {
+    const engine = createEngine(createBars([{}]));
+    const stop = engine.submitStopOrder('sell', 0.5, 95);
+    const market = engine.submitMarketOrder('buy', 0.5);
+
+    expect(engine.modifyOrder(stop!.id, { price: 94 })).toBeNull();
+    expect(engine.modifyOrder(market!.id, { size: 0.2 })).toBeNull();
+    expect(engine.modifyOrder('missing', { size: 0.2 })).toBeNull();
+  });
+});
+
+// ============================================
+// PARTIAL FILLS & SLIPPAGE
+// ============================================
+
+describe('Partial Fills', () => {
+  // $10,000 capital at $100: each 0.1 of size is 10 shares
+  function createCappedEngine(data: OHLCV[]): BacktestEngine {
+    const engine = new BacktestEngine({ slippage: 0, participationRate: 0.1 });
+    engine.loadData(data);
+    return engine;
+  }
+
+  it('should cap fills at the participation rate and keep the rest working', () => {
+    const engine = createCappedEngine(createBars([{}, { volume: 200 }, { volume: 200 }, { volume: 200 }]));
+    engine.tick();
+    const order = engine.submitMarketOrder('buy', 0.5);
+
+    engine.tick();
+    expect(order!.status).toBe('partially_filled');
+    expect(order!.filledSize).toBeCloseTo(0.2);
+    expect(engine.getPositions()[0].sizeInDollars).toBeCloseTo(2000);
+
+    engine.tick();
+    engine.tick();
+    expect(order!.status).toBe('filled');
+    expect(order!.filledSize).toBe(0.5);
+    expect(engine.getPositions()).toHaveLength(1);
+    expect(engine.getPositions()[0].size).toBeCloseTo(0.5);
+    expect(engine.getPositions()[0].sizeInDollars).toBeCloseTo(5000);
+  });
+
+  it('should average the entry price across partial fills', () => {
+    const engine = createCappedEngine(createBars([
+      {},
+      { open: 100, volume: 300 },
+      { open: 110, high: 112, close: 110, volume: 10000 },
+    ]));
+    engine.tick();
+    const order = engine.submitMarketOrder('buy', 0.5);
+    engine.runToEnd();
+
+    const position = engine.getPositions()[0];
+    // 30 shares at 100, then $2,000 at 110
+    expect(position.entryPrice).toBeCloseTo(5000 / (30 + 2000 / 110));
+    expect(order!.filledPrice).toBeCloseTo(104);
+    expect(engine.getPortfolio().equity).toBeCloseTo(10000 + 5000 * (110 / position.entryPrice - 1));
+  });
+
+  it('should cancel the unfilled remainder of an ioc order', () => {
+    const engine = createCappedEngine(createBars([{}, { volume: 200 }, {}]));
+    engine.tick();
+    const order = engine.submitLimitOrder('buy', 0.5, 101, 1, { timeInForce: 'ioc' });
+    engine.runToEnd();
+
+    expect(order!.status).toBe('cancelled');
+    expect(order!.filledSize).toBeCloseTo(0.2);
+    expect(engine.getPositions()[0].size).toBeCloseTo(0.2);
+  });
+
+  it('should not partially fill a fok order', () => {
+    const engine = createCappedEngine(createBars([{}, { volume: 200 }]));
+    engine.tick();
+    const order = engine.submitLimitOrder('buy', 0.5, 101, 1, { timeInForce: 'fok' });
+    engine.tick();
+
+    expect(order!.status).toBe('cancelled');
+    expect(order!.filledSize).toBe(0);
+    expect(engine.getPositions()).toHaveLength(0);
+  });
+
+  it('should close a position in pieces when volume is thin', () => {
+    const engine = createCappedEngine(createBars([{}, {}, { volume: 300 }, { volume: 300 }]));
+    engine.tick();
+    engine.submitMarketOrder('buy', 0.5);
+    engine.tick();
+
+    const position = engine.getPositions()[0];
+    const order = engine.closePosition(position.id);
+    engine.tick();
+
+    expect(order!.status).toBe('partially_filled');
+    expect(engine.getPositions()[0].size).toBeCloseTo(0.2);
+    expect(engine.getClosedPositions()[0].size).toBeCloseTo(0.3);
+
+    engine.tick();
+    expect(order!.status).toBe('filled');
+    expect(engine.getPositions()).toHaveLength(0);
+    expect(engine.getPortfolio().cash).toBeCloseTo(10000);
+  });
+
+  it('should not shrink an order below its filled size', () => {
+    const engine = createCappedEngine(createBars([{}, { volume: 200 }]));
+    engine.tick();
+    const order = engine.submitLimitOrder('buy', 0.5, 101);
+    engine.tick();
+
+    expect(engine.modifyOrder(order!.id, { size: 0.1 })).toBeNull();
+    expect(engine.modifyOrder(order!.id, { size: 0.3 })).not.toBeNull();
+  });
+});
+
+describe('Slippage Models', () => {
+  const bar = createBar();  // 4% intraday range
+  const context = { side: 'buy' as const, price: 100, quantity: 100, bar };
+
+  it('should charge a fixed cost in basis points', () => {
+    expect(createFixedBpsSlippage(25).estimate(context)).toBeCloseTo(0.0025);
+  });
+
+  it('should scale with the intraday range', () => {
+    expect(createVolatilitySlippage(0.1).estimate(context)).toBeCloseTo(0.004);
+    // Processed candles supply their own intraday volatility
+    const processed = { ...bar, intradayVolatility: 1 };
+    expect(createVolatilitySlippage(0.1).estimate({ ...context, bar: processed })).toBeCloseTo(0.001);
+    expect(createVolatilitySlippage(0.1, 50).estimate(context)).toBeCloseTo(0.005);
+  });
+
+  it('should grow with the square root of participation', () => {
+    const model = createSquareRootImpactSlippage(1);
+    const small = model.estimate({ ...context, bar: { ...bar, volume: 10000 } });
+    const large = model.estimate({ ...context, bar: { ...bar, volume: 2500 } });
+
+    expect(small).toBeCloseTo(0.04 * Math.sqrt(0.01));
+    expect(large).toBeCloseTo(small * 2);
+  });
+
+  it('should use the configured model for market orders', () => {
+    const engine = new BacktestEngine({ slippageModel: createFixedBpsSlippage(50) });
+    engine.loadData(createBars([{}, {}]));
+    engine.tick();
+
+    const buy = engine.submitMarketOrder('buy', 0.5);
+    engine.tick();
+    expect(buy!.filledPrice).toBeCloseTo(100.5);
+  });
+
+  it('should not slip limit fills', () => {
+    const engine = new BacktestEngine({ slippageModel: createFixedBpsSlippage(50) });
+    engine.loadData(createBars([{}, {}]));
+    engine.tick();
+
+    const order = engine.submitLimitOrder('buy', 0.5, 99);
+    engine.tick();
+    expect(order!.filledPrice).toBe(99);
+  });
+});
+
+// ============================================
+// COMMISSIONS
+// ============================================
+
+describe('Commission Models', () => {
+  const context = { side: 'buy' as const, quantity: 100, price: 50, notional: 5000, monthlyVolume: 0 };
+
+  it('should price per share and per notional', () => {
+    expect(createPerShareCommission(0.005).calculate(context)).toBeCloseTo(0.5);
+    expect(createPercentCommission(0.1).calculate(context)).toBeCloseTo(5);
+  });
+
+  it('should charge a minimum per ticket', () => {
+    const model = withMinimumTicket(createPerShareCommission(0.005), 1);
+    expect(model.calculate(context)).toBe(1);
+    expect(model.calculate({ ...context, quantity: 1000 })).toBeCloseTo(5);
+  });
+
+  it('should lower the rate as monthly volume grows', () => {
+    const model = createTieredCommission([
+      { upToVolume: 10000, percent: 0.1 },
+      { upToVolume: Infinity, percent: 0.05 },
+    ]);
+
+    expect(model.calculate(context)).toBeCloseTo(5);
+    expect(model.calculate({ ...context, monthlyVolume: 20000 })).toBeCloseTo(2.5);
+    // Half of this fill is in each tier
+    expect(model.calculate({ ...context, monthlyVolume: 7500 })).toBeCloseTo(2.5 + 1.25);
+  });
+});
+
+describe('Commissions', () => {
+  function createFeeEngine(data: OHLCV[], config = {}): BacktestEngine {
+    const engine = new BacktestEngine({ slippage: 0, ...config });
+    engine.loadData(data);
+    return engine;
+  }
+
+  it('should charge both legs and record fees on fills and closed positions', () => {
+    const engine = createFeeEngine(createBars([{}, {}, { open: 110, high: 112, close: 110 }]), {
+      commissionModel: createPercentCommission(0.1),
+    });
+    engine.tick();
+    engine.submitMarketOrder('buy', 0.5);
+    engine.tick();
+
+    // $5,000 notional at 0.1% is paid up front
+    expect(engine.getPortfolio().cash).toBeCloseTo(5000 - 5);
+    expect(engine.getPositions()[0].fees).toBeCloseTo(5);
+
+    engine.closePosition(engine.getPositions()[0].id);
+    engine.tick();
+
+    const closed = engine.getClosedPositions()[0];
+    expect(closed.fees).toBeCloseTo(5 + 5.5);
+    expect(closed.realizedPnL).toBeCloseTo(500 - 10.5);
+    expect(engine.getPortfolio().cash).toBeCloseTo(10000 + 500 - 10.5);
+  });
+
+  it('should charge the flat commission on opens as well as closes', () => {
+    const engine = createFeeEngine(createBars([{}, {}, {}]), { commission: 2 });
+    engine.tick();
+    engine.submitMarketOrder('buy', 0.5);
+    engine.tick();
+    engine.closePosition(engine.getPositions()[0].id);
+    engine.tick();
+
+    expect(engine.getClosedPositions()[0].realizedPnL).toBeCloseTo(-4);
+    expect(engine.getPortfolio().equity).toBeCloseTo(9996);
+  });
+
+  it('should report total fees and fee drag', () => {
+    const engine = createFeeEngine(createBars([{}, {}, {}]), { commission: 5 });
+    engine.tick();
+    engine.submitMarketOrder('buy', 0.5);
+    engine.tick();
+    engine.closePosition(engine.getPositions()[0].id);
+    engine.tick();
+
+    const stats = engine.getStatistics();
+    expect(stats.totalFees).toBe(10);
+    expect(stats.feeDrag).toBeCloseTo(0.1);
+  });
+
+  it('should reset tiered volume at the start of each month', () => {
+    const data = [
+      createBar({}, 1),
+      createBar({}, 2),
+      { ...createBar({}, 1), date: '2024-02-01' },
+    ];
+    const engine = createFeeEngine(data, {
+      commissionModel: createTieredCommission([
+        { upToVolume: 5000, percent: 0.1 },
+        { upToVolume: Infinity, percent: 0.01 },
+      ]),
+    });
+    engine.tick();
+    engine.submitMarketOrder('buy', 0.5);
+    engine.tick();
+    engine.submitMarketOrder('buy', 0.5);
+    engine.tick();
+
+    const fees = engine.getPositions().map(p => p.fees);
+    expect(fees[0]).toBeCloseTo(5);
+    // Remaining cash is $4,995; a new month starts back in the first tier
+    expect(fees[1]).toBeCloseTo(4995 * 0.5 * 0.001);
+  });
+});
+
+describe('Carry', () => {
+  it('should accrue margin interest and borrow fees each bar', () => {
+    const engine = new BacktestEngine({
+      slippage: 0,
+      tickDuration: 1,
+      carryRates: { marginInterestRate: 0.0365, shortBorrowRate: 0.073 },
+    });
+    engine.loadData(createBars([{}, {}, {}, {}]));
+    engine.tick();
+    engine.submitMarketOrder('sell', 0.5, 2);
+    engine.runToEnd();
+
+    // $5,000 at 2x: $5,000 borrowed at 0.01% and $10,000 short at 0.02%, for 3 bars
+    const position = engine.getPositions()[0];
+    expect(position.accruedCarry).toBeCloseTo(2.5 * 3);
+    expect(engine.getPortfolio().totalCarry).toBeCloseTo(7.5);
+    expect(engine.getPortfolio().equity).toBeCloseTo(10000 - 7.5);
+  });
+
+  it('should not charge unleveraged longs', () => {
+    const engine = createEngine(createBars([{}, {}, {}]));
+    engine.tick();
+    engine.submitMarketOrder('buy', 0.5);
+    engine.runToEnd();
+
+    expect(engine.getPortfolio().totalCarry).toBe(0);
+  });
+});
+
+describe('Margin Calls', () => {
+  const crash = { open: 75, high: 76, low: 74, close: 75 };
+
+  function createMarginEngine(data: OHLCV[]): BacktestEngine {
+    const engine = new BacktestEngine({
+      slippage: 0,
+      carryRates: { marginInterestRate: 0, shortBorrowRate: 0 },
+      marginRules: { maintenanceRatio: 0.5, graceBars: 1 },
+    });
+    engine.loadData(data);
+    return engine;
+  }
+
+  it('should warn first and liquidate after the grace period', () => {
+    const engine = createMarginEngine(createBars([{}, {}, crash, crash]));
+    const events: string[] = [];
+    engine.setEvents({ onMarginEvent: e => events.push(e.type) });
+
+    engine.tick();
+    engine.submitMarketOrder('buy', 1, 3);
+    engine.tick();
+
+    engine.tick();
+    expect(events).toEqual(['margin_warning']);
+    expect(engine.getPortfolio().marginCallBars).toBe(1);
+    expect(engine.getPositions()).toHaveLength(1);
+
+    engine.tick();
+    expect(events).toEqual(['margin_warning', 'full_liquidation']);
+    expect(engine.getPositions()).toHaveLength(0);
+
+    const closed = engine.getClosedPositions()[0];
+    expect(closed.exitReason).toBe('margin_call');
+    expect(closed.exitPrice).toBe(75);
+    expect(engine.getPortfolio().equity).toBeCloseTo(2500);
+  });
+
+  it('should liquidate the largest loser and keep the rest', () => {
+    const drop = { open: 62, high: 63, low: 61, close: 62 };
+    const engine = createMarginEngine(createBars([{}, {}, drop, drop]));
+
+    // Short first so the long does not net against it
+    engine.tick();
+    engine.submitMarketOrder('sell', 0.1);
+    engine.submitMarketOrder('buy', 0.8, 3);
+    engine.runToEnd();
+
+    const [event] = engine.getMarginEvents().filter(e => e.type !== 'margin_warning');
+    expect(event.type).toBe('partial_liquidation');
+    expect(event.liquidatedPositionIds).toHaveLength(1);
+    expect(engine.getPositions()).toHaveLength(1);
+    expect(engine.getPositions()[0].direction).toBe('short');
+  });
+
+  it('should not margin call unleveraged positions', () => {
+    const engine = createMarginEngine(createBars([{}, {}, { open: 40, high: 41, low: 39, close: 40 }, {}]));
+    engine.tick();
+    engine.submitMarketOrder('buy', 1);
+    engine.runToEnd();
+
+    expect(engine.getMarginEvents()).toHaveLength(0);
+    expect(engine.getPositions()).toHaveLength(1);
+  });
+});
+
+// ============================================
+// INDEX HEDGES
+// ============================================
+
+describe('Index Hedges', () => {
+  function createIndexBars(closes: number[]): OHLCV[] {
+    return closes.map((close, i) => createBar({ open: close, high: close, low: close, close }, i + 1));
+  }
+
+  it('should open hedges at the index price and mark them against the index', () => {
+    const engine = createEngine(createBars(Array(8).fill({})));
+    engine.loadBenchmark(createIndexBars([4000, 4000, 3800, 3800, 3800, 3800, 3800, 3800]));
+    engine.tick();
+    engine.submitMarketOrder('buy', 0.5);
+    engine.tick();
+
+    const hedge = engine.activateHedge('basic');
+    expect(hedge!.instrument).toBe('index');
+    expect(hedge!.entryPrice).toBe(4000);
+    // No beta measurement yet: 70% of the $5,000 long
+    expect(hedge!.sizeInDollars).toBeCloseTo(3500);
+
+    engine.tick();
+    const marked = engine.getPositions().find(p => p.isHedge)!;
+    expect(marked.currentPrice).toBe(3800);
+    expect(marked.unrealizedPnL).toBeCloseTo(175);
+    expect(engine.getPositions().find(p => !p.isHedge)!.currentPrice).toBe(100);
+  });
+
+  it('should close expired hedges at the index price', () => {
+    const engine = createEngine(createBars(Array(8).fill({})));
+    engine.loadBenchmark(createIndexBars([4000, 4000, 3800, 3800, 3800, 3800, 3800, 3800]));
+    engine.tick();
+    engine.submitMarketOrder('buy', 0.5);
+    engine.tick();
+    engine.activateHedge('basic');
+    engine.runToEnd();
+
+    const [closed] = engine.getClosedPositions().filter(p => p.isHedge);
+    expect(closed.exitPrice).toBe(3800);
+    expect(closed.realizedPnL).toBeCloseTo(175);
+    expect(engine.getPortfolio().skillState.activeHedges).toHaveLength(0);
+  });
+
+  it('should size hedges by the asset beta against the index', () => {
+    const index = [4000];
+    const asset = [100];
+    for (let i = 1; i < 16; i++) {
+      const r = i % 2 === 0 ? 0.01 : -0.006;
+      index.push(index[i - 1] * (1 + r));
+      asset.push(asset[i - 1] * (1 + 2 * r));
+    }
+
+    const engine = createEngine(createIndexBars(asset));
+    engine.loadBenchmark(createIndexBars(index));
+    engine.tick();
+    engine.submitMarketOrder('buy', 0.5);
+    engine.runTicks(13);
+
+    expect(engine.getAssetBeta()).toBeCloseTo(2);
+    const hedge = engine.activateHedge('basic');
+    expect(hedge!.sizeInDollars).toBeCloseTo(5000 * 0.7 * 2);
+    expect(hedge!.entryPrice).toBeCloseTo(engine.getIndexPrice()!);
+  });
+
+  it('should re-size dynamic hedges each bar as the rolling beta moves', () => {
+    // The asset tracks the index at beta 1, then starts moving twice as much
+    const index = [4000];
+    const asset = [100];
+    for (let i = 1; i < 40; i++) {
+      const r = i % 2 === 0 ? 0.01 : -0.008;
+      index.push(index[i - 1] * (1 + r));
+      asset.push(asset[i - 1] * (1 + (i < 25 ? 1 : 2) * r));
+    }
+
+    const engine = createEngine(createIndexBars(asset));
+    engine.loadBenchmark(createIndexBars(index));
+    // Dynamic hedges unlock at level 15
+    engine.getPortfolio().skillState.playerLevel = 15;
+    engine.tick();
+    engine.submitMarketOrder('buy', 0.5);
+    engine.runTicks(23);
+
+    const initialSize = engine.activateHedge('dynamic')!.sizeInDollars;
+    const longValue = engine.getPositions().find(p => !p.isHedge)!.sizeInDollars;
+    expect(initialSize).toBeCloseTo(longValue, 0);
+
+    engine.runTicks(5);
+    const [active] = engine.getPortfolio().skillState.activeHedges;
+    const resized = engine.getPositions().find(p => p.isHedge)!;
+    expect(active.beta).toBeGreaterThan(1.05);
+    expect(resized.sizeInDollars).toBeCloseTo(active.hedgeSize);
+    expect(resized.sizeInDollars).toBeGreaterThan(initialSize);
+  });
+
+  it('should fall back to the asset price without a benchmark', () => {
+    const engine = createEngine(createBars([{}, {}, { open: 90, high: 90, low: 90, close: 90 }]));
+    engine.tick();
+    engine.submitMarketOrder('buy', 0.5);
+    engine.tick();
+
+    expect(engine.getIndexPrice()).toBeNull();
+    const hedge = engine.activateHedge('basic');
+    expect(hedge!.entryPrice).toBe(100);
+
+    engine.tick();
+    expect(engine.getPositions().find(p => p.isHedge)!.currentPrice).toBe(90);
+  });
+
+  it('should report failed activations', () => {
+    const errors: string[] = [];
+    const engine = createEngine(createBars([{}, {}]));
+    engine.setEvents({ onError: (error) => errors.push(error) });
+    engine.tick();
+
+    expect(engine.activateHedge('basic')).toBeNull();
+    expect(errors).toHaveLength(1);
+  });
+});
+
+// ============================================
+// STRATEGIES
+// ============================================
+
+describe('Strategies', () => {
+  it('should call the hooks in order around every bar', () => {
+    const calls: string[] = [];
+    const engine = createEngine(createBars([{}, {}, {}]));
+
+    engine.runStrategy({
+      name: 'recorder',
+      init: (ctx) => calls.push(`init ${ctx.getTick()}`),
+      onBar: (ctx, bar) => calls.push(`bar ${ctx.getTick()} ${bar.date}`),
+      onEnd: (ctx) => calls.push(`end ${ctx.getTick()}`),
+    });
+
+    expect(calls).toEqual([
+      'init -1',
+      'bar 0 2024-01-01',
+      'bar 1 2024-01-02',
+      'bar 2 2024-01-03',
+      'end 2',
+    ]);
+  });
+
+  it('should see regimes that later bars cannot change', () => {
+    const closes = Array.from({ length: 200 }, (_, i) => 100 + 10 * Math.sin(i / 5) + 3 * Math.sin(i * 1.7));
+    const data = closes.map((close, i) => ({
+      ...createBar({ open: close, high: close + 1, low: close - 1, close }),
+      date: new Date(Date.UTC(2024, 0, 1 + i)).toISOString().slice(0, 10),
+    }));
+    const run = (bars: OHLCV[], config = {}) => {
+      const regimes: string[] = [];
+      const engine = new BacktestEngine(config);
+      engine.loadData(bars);
+      engine.runStrategy({ name: 'regimes', onBar: (_ctx, _bar, indicators) => { regimes.push(JSON.stringify(indicators.regimeProbabilities)); } });
+      return regimes;
+    };
+
+    // Rule-based regimes unless given a model fitted beforehand
+    expect(run(data).slice(0, 100)).toEqual(run(data.slice(0, 100)));
+    const regimeModel = fitMarketRegimeModel(data.slice(0, 100));
+    expect(run(data, { regimeModel })).not.toEqual(run(data));
+    expect(run(data, { regimeModel }).slice(0, 100)).toEqual(run(data.slice(0, 100), { regimeModel }));
+  });
+
+  it('should pass order options through to bracket entries', () => {
+    const entries: Order[] = [];
+    const engine = createEngine(createBars([{}, {}, {}]));
+
+    engine.runStrategy({
+      name: 'bracket',
+      onBar: (ctx) => {
+        if (ctx.getTick() !== 0) return;
+        const entry = ctx.submitBracketOrder('buy', 0.5, { stopLoss: 90 }, 1, 95, { timeInForce: 'day' });
+        if (entry) entries.push(entry);
+      },
+    });
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0].timeInForce).toBe('day');
+    expect(entries[0].status).toBe('expired');
+  });
+
+  it('should only show history up to the current bar', () => {
+    const seen: number[] = [];
+    const engine = createEngine(createBars([{}, {}, {}, {}]));
+
+    engine.runStrategy({
+      name: 'history',
+      onBar: (ctx, bar) => {
+        const bars = ctx.getBars();
+        expect(bars[bars.length - 1]).toBe(bar);
+        seen.push(ctx.getCandles().length);
+      },
+    });
+
+    expect(seen).toEqual([1, 2, 3, 4]);
+  });
+
+  it('should return only the last bars when given a lookback', () => {
+    const seen: number[][] = [];
+    const engine = createEngine(createBars([{ close: 1 }, { close: 2 }, { close: 3 }, { close: 4 }]));
+
+    engine.runStrategy({
+      name: 'lookback',
+      onBar: (ctx) => {
+        seen.push(ctx.getBars(2).map(bar => bar.close));
+        expect(ctx.getCandles(2)).toHaveLength(seen[seen.length - 1].length);
+      },
+    });
+
+    expect(seen).toEqual([[1], [1, 2], [2, 3], [3, 4]]);
+  });
+
+  it('should fill orders submitted in onBar on the next bar and report the fill', () => {
+    const fills: number[] = [];
+    const engine = createEngine(createBars([{}, { open: 101, high: 103, close: 102 }, {}]));
+
+    const ticks = engine.runStrategy({
+      name: 'buy once',
+      onBar: (ctx) => {
+        if (ctx.getTick() === 0) ctx.submitMarketOrder('buy', 0.5);
+      },
+      onFill: (ctx, fill) => {
+        fills.push(fill.price);
+        expect(fill.tick).toBe(1);
+        expect(ctx.getPositions()).toHaveLength(1);
+      },
+    });
+
+    expect(ticks).toHaveLength(3);
+    expect(fills).toEqual([101]);
+    expect(engine.getFillHistory()).toHaveLength(1);
+  });
+
+  it('should trade an SMA crossover', () => {
+    const closes = [100, 100, 100, 100, 104, 108, 112, 116, 110, 100, 90, 85];
+    const engine = createEngine(createBars(closes.map(close => ({ open: close, high: close, low: close, close }))));
+
+    const smaCrossover: Strategy = {
+      name: 'SMA 2/4',
+      onBar: (ctx) => {
+        const bars = ctx.getBars();
+        if (bars.length < 4) return;
+        const sma = (n: number) => bars.slice(-n).reduce((sum, b) => sum + b.close, 0) / n;
+        const invested = ctx.getPositions().length > 0;
+
+        if (sma(2) > sma(4) && !invested) ctx.submitMarketOrder('buy', 1);
+        if (sma(2) < sma(4) && invested) ctx.closeAllPositions('manual');
+      },
+    };
+    engine.runStrategy(smaCrossover);
+
+    // Fills come on the open after each cross: in at 108, out at 90
+    const [trade] = engine.getClosedPositions();
+    expect(engine.getClosedPositions()).toHaveLength(1);
+    expect(trade.entryPrice).toBe(108);
+    expect(trade.exitPrice).toBe(90);
+    expect(engine.getPositions()).toHaveLength(0);
+  });
+
+  it('should pass the indicators of the processed bar', () => {
+    const rsis: number[] = [];
+    const engine = createEngine(createBars([
+      { close: 100 }, { close: 101 }, { close: 102 }, { close: 103 },
+    ]));
+
+    engine.runStrategy({ name: 'rsi', onBar: (_ctx, _bar, indicators) => rsis.push(indicators.rsi) });
+
+    expect(rsis).toHaveLength(4);
+    expect(rsis[3]).toBeGreaterThan(70);
+    expect(engine.getIndicators().rsi).toBe(rsis[3]);
+  });
+
+  it('should detach the strategy once the run ends', () => {
+    let fills = 0;
+    const engine = createEngine(createBars([{}, {}, {}]));
+    engine.runStrategy({ name: 'idle', onBar: () => {}, onFill: () => fills++ });
+
+    engine.reset();
+    engine.tick();
+    engine.submitMarketOrder('buy', 0.5);
+    engine.tick();
+
+    expect(engine.getPositions()).toHaveLength(1);
+    expect(fills).toBe(0);
+  });
+});
+
+describe('Reference Strategies', () => {
+  const balanced = STRATEGY_PRESETS.find(p => p.name === 'Balanced')!;
+  const flat = (closes: number[]) =>
+    createBars(closes.map(close => ({ open: close, high: close + 1, low: close - 1, close })));
+
+  it('should buy and hold the preset allocation at its leverage', () => {
+    const engine = createEngine(flat([100, 100, 110, 120, 90]));
+    engine.runStrategy(createBuyAndHoldStrategy(balanced));
+
+    const [position] = engine.getPositions();
+    expect(engine.getPositions()).toHaveLength(1);
+    expect(position.sizeInDollars).toBeCloseTo(10000 * (1 - balanced.cashBuffer));
+    expect(position.leverage).toBe(balanced.leverage);
+    expect(position.entryIndex).toBe(1);
+  });
+
+  it('should restore a drifted allocation on the rebalance bar', () => {
+    const engine = createEngine(flat([100, 100, 150, 150, 150]));
+    engine.runStrategy(createRebalanceStrategy({ leverage: 1, cashBuffer: 0.5 }, { period: 3 }));
+
+    // The rally pushed exposure from 50% to 60% of equity; the sale on bar 4 brings it back
+    const [trade] = engine.getClosedPositions();
+    expect(trade.exitIndex).toBe(4);
+    const portfolio = engine.getPortfolio();
+    expect(portfolio.positions[0].sizeInDollars / portfolio.equity).toBeCloseTo(0.5, 2);
+  });
+
+  it('should follow SMA crossovers', () => {
+    const engine = createEngine(flat([100, 100, 100, 110, 120, 130, 120, 100, 90, 80]));
+    engine.runStrategy(createSmaCrossoverStrategy(balanced, { fast: 2, slow: 3 }));
+
+    const [trade] = engine.getClosedPositions();
+    expect(trade.entryIndex).toBe(4);
+    expect(trade.exitIndex).toBe(8);
+    expect(engine.getPositions()).toHaveLength(0);
+  });
+
+  it('should buy oversold RSI and sell the recovery', () => {
+    const engine = createEngine(flat([100, 96, 92, 88, 84, 80, 84, 88, 92, 96, 100, 104, 108, 112, 116, 120]));
+    engine.runStrategy(createRsiReversionStrategy(balanced));
+
+    const [trade] = engine.getClosedPositions();
+    expect(engine.getClosedPositions()).toHaveLength(1);
+    expect(trade.exitPrice).toBeGreaterThan(trade.entryPrice);
+  });
+
+  it('should scale down exposure when volatility is above target', () => {
+    const closes = [100, 104, 99, 105, 98, 106, 97, 107, 96, 108];
+    const calm = createEngine(flat(closes));
+    calm.runStrategy(createVolatilityTargetStrategy(balanced, { targetVolatility: 100 }));
+    const wild = createEngine(flat(closes));
+    wild.runStrategy(createVolatilityTargetStrategy(balanced, { targetVolatility: 0.5 }));
+
+    const size = (engine: BacktestEngine) => engine.getOrderHistory()[0].size;
+    expect(size(calm)).toBeCloseTo(1 - balanced.cashBuffer);
+    expect(size(wild)).toBeLessThan(size(calm));
+  });
+
+  it('should enter breakouts and exit on the ATR trailing stop', () => {
+    const engine = createEngine(flat([100, 101, 100, 101, 100, 105, 110, 115, 120, 100, 95]));
+    engine.runStrategy(createTrendFollowingStrategy(balanced, { lookback: 4, atrMultiple: 2 }));
+
+    const [trade] = engine.getClosedPositions();
+    expect(trade.entryIndex).toBe(6);
+    expect(trade.exitReason).toBe('trailing_stop');
+  });
+
+  it('should run every reference strategy for every preset', () => {
+    const closes = Array.from({ length: 120 }, (_, i) => 100 + 20 * Math.sin(i / 8) + i / 4);
+    for (const preset of STRATEGY_PRESETS) {
+      for (const strategy of Object.values(createReferenceStrategies(preset))) {
+        const errors: string[] = [];
+        const engine = createEngine(flat(closes));
+        engine.setEvents({ onError: (error) => errors.push(error) });
+
+        engine.runStrategy(strategy);
+
+        expect(errors).toEqual([]);
+        expect(engine.getOrderHistory().length).toBeGreaterThan(0);
+        expect(engine.getPositions().every(p => p.leverage === preset.leverage)).toBe(true);
+      }
+    }
+  });
+});
+
+// ============================================
+// SNAPSHOTS
+// ============================================
+
+describe('Snapshots', () => {
+  const closes = Array.from({ length: 60 }, (_, i) => 100 + 15 * Math.sin(i / 5) + i / 3);
+  const data = createBars(closes.map(close => ({ open: close, high: close + 1, low: close - 1, close })));
+  const balanced = STRATEGY_PRESETS.find(p => p.name === 'Balanced')!;
+  const strategy = () => createSmaCrossoverStrategy(balanced, { fast: 3, slow: 8 });
+
+  it('should issue the same IDs from the same seed', () => {
+    const a = createIdGenerator(42);
+    const b = createIdGenerator(42);
+    const ids = [a.nextId('pos'), a.nextId('ord')];
+
+    expect([b.nextId('pos'), b.nextId('ord')]).toEqual(ids);
+    expect(ids[0]).toMatch(/^pos_1_[0-9a-z]{6}$/);
+    expect(createIdGenerator(7).nextId('pos')).not.toBe(ids[0]);
+  });
+
+  it('should reproduce a run exactly with the same seed', () => {
+    const run = (seed: number) => {
+      const engine = new BacktestEngine({ slippage: 0, seed });
+      engine.loadData(data);
+      engine.runStrategy(strategy());
+      return engine.snapshot();
+    };
+
+    expect(run(3).orderHistory.length).toBeGreaterThan(0);
+    expect(JSON.stringify(run(3))).toBe(JSON.stringify(run(3)));
+    expect(run(4).orderHistory[0].id).not.toBe(run(3).orderHistory[0].id);
+  });
+
+  it('should continue a restored run exactly as the original', () => {
+    const original = createEngine(data);
+    original.submitMarketOrder('buy', 0.5, 2);
+    original.runTicks(20);
+    const snapshot = original.snapshot();
+    original.closeAllPositions();
+    original.runToEnd();
+
+    const restored = createEngine(data);
+    expect(restored.restore(JSON.parse(JSON.stringify(snapshot)))).toBe(true);
+    expect(restored.getCurrentTick()).toBe(20);
+    restored.closeAllPositions();
+    restored.runToEnd();
+
+    expect(restored.snapshot()).toEqual(original.snapshot());
+  });
+
+  it('should not share state with the snapshot', () => {
+    const engine = createEngine(data);
+    engine.submitMarketOrder('buy', 0.5);
+    engine.runTicks(5);
+    const snapshot = engine.snapshot();
+    engine.runTicks(5);
+
+    expect(snapshot.tickHistory).toHaveLength(5);
+    expect(snapshot.currentTick).toBe(5);
+  });
+
+  it('should reject a snapshot taken on different data', () => {
+    const errors: string[] = [];
+    const engine = createEngine(data);
+    engine.runTicks(10);
+    const snapshot = engine.snapshot();
+
+    const other = createEngine(data.slice(0, 30));
+    other.setEvents({ onError: (error) => errors.push(error) });
+
+    expect(other.restore(snapshot)).toBe(false);
+    expect(errors).toEqual(['Snapshot was taken on different data']);
+    expect(other.getCurrentTick()).toBe(0);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Performance - Risk-adjusted return metrics of an equity curve
+ *
+ * Works on the equity value at each bar, so it applies equally to a whole
+ * backtest or to any slice of one (e.g. an out-of-sample period).
+ */
+
+// Bars per year for annualizing daily data (use 365 for markets that trade every day)
+export const TRADING_DAYS_PER_YEAR = 252;
+
+export interface PerformanceMetrics {
+  totalReturn: number;    // % over the whole curve
+  cagr: number;           // % compound annual growth rate
+  volatility: number;     // % annualized standard deviation of bar returns
+  sharpe: number;         // Annualized excess return / volatility
+  maxDrawdown: number;    // % largest peak-to-trough fall
+  calmar: number;         // CAGR / max drawdown
+}
+
+/**
+ * Simple returns between consecutive equity values
+ */
+export function getEquityReturns(equity: number[]): number[] {
+  const returns: number[] = [];
+  for (let i = 1; i < equity.length; i++) {
+    returns.push(equity[i - 1] > 0 ? equity[i] / equity[i - 1] - 1 : 0);
+  }
+  return returns;
+}
+
+export function calculateMaxDrawdown(equity: number[]): number {
+  let peak = -Infinity;
+  let maxDrawdown = 0;
+  for (const value of equity) {
+    peak = Math.max(peak, value);
+    if (peak > 0) maxDrawdown = Math.max(maxDrawdown, (peak - value) / peak);
+  }
+  return maxDrawdown * 100;
+}
+
+/**
+ * Metrics of an equity curve sampled once per bar.
+ * riskFreeRate is annual (0.04 = 4%).
+ */
+export function calculatePerformance(
+  equity: number[],
+  periodsPerYear: number = TRADING_DAYS_PER_YEAR,
+  riskFreeRate: number = 0
+): PerformanceMetrics {
+  const returns = getEquityReturns(equity);
+  if (returns.length === 0 || equity[0] <= 0) {
+    return { totalReturn: 0, cagr: 0, volatility: 0, sharpe: 0, maxDrawdown: 0, calmar: 0 };
+  }
+
+  const growth = Math.max(0, equity[equity.length - 1] / equity[0]);
+  const years = returns.length / periodsPerYear;
+  const cagr = (Math.pow(growth, 1 / years) - 1) * 100;
+
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / Math.max(1, returns.length - 1);
+  const stdDev = Math.sqrt(variance);
+  const excess = mean - riskFreeRate / periodsPerYear;
+
+  const maxDrawdown = calculateMaxDrawdown(equity);
+
+  return {
+    totalReturn: (growth - 1) * 100,
+    cagr,
+    volatility: stdDev * Math.sqrt(periodsPerYear) * 100,
+    sharpe: stdDev > 0 ? (excess / stdDev) * Math.sqrt(periodsPerYear) : 0,
+    maxDrawdown,
+    calmar: maxDrawdown > 0 ? cagr / maxDrawdown : 0,
+  };
+}
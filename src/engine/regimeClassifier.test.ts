@@ -0,0 +1,144 @@
+/**
+ * Regime Classifier Tests
+ *
+ * Tests for fitting the hidden Markov model, naming its states, and the
+ * per-bar regime probabilities from the forward filter.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { OHLCVCandle } from '../types';
+import { createSeededRandom } from './ids';
+import { processCandles } from './marketData';
+import {
+  createRegimeFilter,
+  filterRegimes,
+  fitRegimeModel,
+  MARKET_REGIMES,
+  MIN_REGIME_BARS,
+  toRegimeProbabilities,
+} from './regimeClassifier';
+
+// ============================================
+// TEST FIXTURES
+// ============================================
+
+// A calm climb, a crash, then a calm climb again
+function createCrashWalk(): OHLCVCandle[] {
+  const random = createSeededRandom(3);
+  const phases = [
+    { bars: 150, drift: 0.003, spread: 0.01 },
+    { bars: 60, drift: -0.02, spread: 0.08 },
+    { bars: 150, drift: 0.003, spread: 0.01 },
+  ];
+  let close = 100;
+  return phases.flatMap(({ bars, drift, spread }) =>
+    Array.from({ length: bars }, () => {
+      const open = close;
+      close = open * (1 + drift + (random() - 0.5) * spread);
+      return { date: '', open, high: Math.max(open, close) * 1.002, low: Math.min(open, close) * 0.998, close, volume: 1000 };
+    })
+  ).map((bar, i) => ({ ...bar, date: new Date(Date.UTC(2020, 0, 1 + i)).toISOString().slice(0, 10) }));
+}
+
+const candles = processCandles(createCrashWalk());
+const options = { warmupBars: 19 };   // Bars before the rolling volatility covers 20 returns
+
+// ============================================
+// FITTING
+// ============================================
+
+describe('fitRegimeModel', () => {
+  it('should not fit too few bars', () => {
+    expect(fitRegimeModel(candles.slice(0, MIN_REGIME_BARS - 1))).toBeNull();
+    expect(fitRegimeModel(candles.slice(0, MIN_REGIME_BARS))).not.toBeNull();
+    expect(fitRegimeModel(candles.slice(0, MIN_REGIME_BARS), options)).toBeNull();
+  });
+
+  it('should fit the same model every time', () => {
+    const model = fitRegimeModel(candles, options)!;
+
+    expect(fitRegimeModel(candles, options)).toEqual(model);
+    expect(Number.isFinite(model.logLikelihood)).toBe(true);
+    model.transitions.forEach(row => {
+      expect(row.reduce((sum, p) => sum + p, 0)).toBeCloseTo(1, 12);
+    });
+  });
+
+  it('should name a turbulent falling state CRASH and a calm rising one BULL', () => {
+    const model = fitRegimeModel(candles, options)!;
+    const crash = model.states.find(state => state.regime === 'CRASH');
+    const bull = model.states.find(state => state.regime === 'BULL');
+
+    expect(crash).toBeDefined();
+    expect(bull).toBeDefined();
+    expect(crash!.volatilityMean).toBeGreaterThan(bull!.volatilityMean);
+    expect(crash!.returnMean).toBeLessThan(0);
+  });
+
+  it('should stop after the iteration limit', () => {
+    expect(fitRegimeModel(candles, { ...options, maxIterations: 2 })!.iterations).toBe(2);
+  });
+
+  it('should leave the warm-up bars out of the fit', () => {
+    const wild = candles.map((candle, i) => (i < 19 ? { ...candle, dailyReturn: -30, rollingVolatility: 50 } : candle));
+
+    expect(fitRegimeModel(wild, options)).toEqual(fitRegimeModel(candles, options));
+  });
+});
+
+// ============================================
+// FILTERING
+// ============================================
+
+describe('filterRegimes', () => {
+  const model = fitRegimeModel(candles, options)!;
+  const estimates = filterRegimes(model, candles);
+
+  it('should find the crash and the climbs around it', () => {
+    expect(estimates[180].regime).toBe('CRASH');
+    expect(estimates[100].regime).toBe('BULL');
+    expect(estimates[320].regime).toBe('BULL');
+  });
+
+  it('should give probabilities that sum to 1, led by the most likely regime', () => {
+    estimates.forEach(({ regime, probabilities }) => {
+      const values = MARKET_REGIMES.map(r => probabilities[r]);
+      expect(values.reduce((sum, p) => sum + p, 0)).toBeCloseTo(1, 12);
+      expect(Math.min(...values)).toBeGreaterThanOrEqual(0);
+      expect(probabilities[regime]).toBe(Math.max(...values));
+    });
+  });
+
+  it('should hold the share of bars in each state through the warm-up', () => {
+    const crashShare = model.states.reduce((sum, state, s) => sum + (state.regime === 'CRASH' ? model.initial[s] : 0), 0);
+
+    estimates.slice(0, 19).forEach(({ probabilities }) => {
+      expect(probabilities.CRASH).toBeCloseTo(crashShare, 12);
+    });
+    expect(crashShare).toBeGreaterThan(0.1);
+    expect(crashShare).toBeLessThan(0.25);
+  });
+
+  it('should switch to the crash within a few bars of it starting', () => {
+    const firstCrash = estimates.findIndex(e => e.probabilities.CRASH > 0.5);
+
+    expect(firstCrash).toBeGreaterThanOrEqual(145);
+    expect(firstCrash).toBeLessThan(160);
+  });
+
+  it('should only use bars up to the one being filtered', () => {
+    expect(filterRegimes(model, candles.slice(0, 170))).toEqual(estimates.slice(0, 170));
+  });
+
+  it('should give the same estimates bar by bar', () => {
+    const filter = createRegimeFilter(model);
+
+    expect(candles.map(candle => filter(candle))).toEqual(estimates);
+  });
+});
+
+describe('toRegimeProbabilities', () => {
+  it('should be certain of one regime', () => {
+    expect(toRegimeProbabilities('BEAR')).toEqual({ BULL: 0, BEAR: 1, CRASH: 0, CHOP: 0, RECOVERY: 0 });
+  });
+});
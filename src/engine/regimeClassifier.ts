@@ -0,0 +1,312 @@
+/**
+ * Regime Classifier - Market regimes from a Gaussian hidden Markov model
+ *
+ * Each bar is described by its daily return and rolling volatility. A small
+ * hidden Markov model with Gaussian emissions is fitted to a dataset with
+ * Baum-Welch (expectation-maximization), starting from the bars split into
+ * quarters by rolling volatility. Every hidden state is then named after the regime
+ * its average bar looks like: turbulent states are CRASH or RECOVERY by the
+ * sign of their drift, calm ones BULL, BEAR or CHOP.
+ *
+ * The probabilities at a bar come from the forward filter, so they only use
+ * that bar and the ones before it (the parameters are fitted to the whole
+ * dataset). Regime probabilities add up the states with the same name.
+ * Warm-up bars, whose rolling volatility does not cover a full window yet,
+ * are left out of the fit and get the share of bars in each state.
+ */
+
+import type { MarketRegime, ProcessedCandle, RegimeProbabilities } from '../types';
+
+export interface RegimeState {
+  regime: MarketRegime;
+  returnMean: number;           // % daily return
+  returnVariance: number;
+  volatilityMean: number;       // % rolling volatility
+  volatilityVariance: number;
+}
+
+export interface RegimeModel {
+  states: RegimeState[];
+  initial: number[];            // Share of bars in each state, the filter's starting point
+  transitions: number[][];      // [from][to] probability of moving between states
+  warmupBars: number;           // Leading bars the filter skips
+  logLikelihood: number;        // Of the dataset under the fitted model
+  iterations: number;           // EM iterations run
+}
+
+export interface RegimeModelOptions {
+  maxIterations: number;
+  tolerance: number;            // Stop when the log-likelihood improves by less than this
+  warmupBars: number;           // Leading bars left out of the fit
+}
+
+export interface RegimeEstimate {
+  regime: MarketRegime;         // Most likely regime
+  probabilities: RegimeProbabilities;
+}
+
+export const MARKET_REGIMES: MarketRegime[] = ['BULL', 'BEAR', 'CRASH', 'CHOP', 'RECOVERY'];
+export const MIN_REGIME_BARS = 60;    // Fewer bars than this are not fitted
+
+const DEFAULT_OPTIONS: RegimeModelOptions = {
+  maxIterations: 50,
+  tolerance: 1e-6,
+  warmupBars: 0,
+};
+
+const STATE_COUNT = 4;                // Hidden states in the model
+const STAY_PROBABILITY = 0.9;         // Initial chance of staying in a state from one bar to the next
+const VARIANCE_FLOOR = 1e-4;          // Minimum state variance, as a share of the feature's variance
+const TURBULENT_VOLATILITY = 1.5;     // State volatility, as a multiple of the median, that is turbulent
+const TREND_DRIFT = 0.05;             // Mean return per unit of volatility that is a trend
+
+// ============================================
+// HELPERS
+// ============================================
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function variance(values: number[]): number {
+  const m = mean(values);
+  return values.reduce((sum, v) => sum + (v - m) ** 2, 0) / values.length;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+// Log density of a bar under each state
+function logEmissions(states: RegimeState[], candle: ProcessedCandle): number[] {
+  return states.map(state => {
+    const r = candle.dailyReturn - state.returnMean;
+    const v = candle.rollingVolatility - state.volatilityMean;
+    return -0.5 * (
+      Math.log(2 * Math.PI * state.returnVariance) + (r * r) / state.returnVariance +
+      Math.log(2 * Math.PI * state.volatilityVariance) + (v * v) / state.volatilityVariance
+    );
+  });
+}
+
+// Emission densities scaled so the largest is 1, and the log of the scale
+function scaledEmissions(states: RegimeState[], candle: ProcessedCandle): { densities: number[]; logScale: number } {
+  const logs = logEmissions(states, candle);
+  const logScale = Math.max(...logs);
+  return { densities: logs.map(l => Math.exp(l - logScale)), logScale };
+}
+
+function normalize(values: number[]): number {
+  const total = values.reduce((sum, v) => sum + v, 0);
+  for (let i = 0; i < values.length; i++) values[i] /= total;
+  return total;
+}
+
+/**
+ * Regime a state's average bar looks like
+ */
+function nameState(state: RegimeState, typicalVolatility: number): MarketRegime {
+  const drift = state.returnMean / Math.max(state.volatilityMean, 1e-9);
+  if (state.volatilityMean > TURBULENT_VOLATILITY * typicalVolatility) {
+    return drift < 0 ? 'CRASH' : 'RECOVERY';
+  }
+  if (drift > TREND_DRIFT) return 'BULL';
+  if (drift < -TREND_DRIFT) return 'BEAR';
+  return 'CHOP';
+}
+
+/**
+ * Certain of one regime (probability 1)
+ */
+export function toRegimeProbabilities(regime: MarketRegime): RegimeProbabilities {
+  const probabilities = Object.fromEntries(MARKET_REGIMES.map(r => [r, 0])) as RegimeProbabilities;
+  probabilities[regime] = 1;
+  return probabilities;
+}
+
+// ============================================
+// FITTING
+// ============================================
+
+/**
+ * Starting states: bars split into quarters by rolling volatility, from the
+ * calmest to the most turbulent
+ */
+function initialStates(candles: ProcessedCandle[], floors: [number, number]): RegimeState[] {
+  const sorted = [...candles].sort((a, b) => a.rollingVolatility - b.rollingVolatility);
+  const size = Math.ceil(sorted.length / STATE_COUNT);
+
+  return Array.from({ length: STATE_COUNT }, (_, s) => {
+    const bars = sorted.slice(s * size, (s + 1) * size);
+    const returns = bars.map(c => c.dailyReturn);
+    const volatilities = bars.map(c => c.rollingVolatility);
+    return {
+      regime: 'CHOP',
+      returnMean: mean(returns),
+      returnVariance: Math.max(variance(returns), floors[0]),
+      volatilityMean: mean(volatilities),
+      volatilityVariance: Math.max(variance(volatilities), floors[1]),
+    };
+  });
+}
+
+/**
+ * Fit the model to processed candles with Baum-Welch.
+ * Null with fewer than MIN_REGIME_BARS bars after the warm-up.
+ */
+export function fitRegimeModel(
+  data: ProcessedCandle[],
+  options: Partial<RegimeModelOptions> = {}
+): RegimeModel | null {
+  const { maxIterations, tolerance, warmupBars } = { ...DEFAULT_OPTIONS, ...options };
+  const candles = data.slice(warmupBars);
+  if (candles.length < MIN_REGIME_BARS) return null;
+
+  const n = candles.length;
+  const floors: [number, number] = [
+    Math.max(variance(candles.map(c => c.dailyReturn)) * VARIANCE_FLOOR, 1e-12),
+    Math.max(variance(candles.map(c => c.rollingVolatility)) * VARIANCE_FLOOR, 1e-12),
+  ];
+  let states = initialStates(candles, floors);
+  const k = states.length;
+  let initial = states.map(() => 1 / k);
+  let transitions = states.map((_, i) => states.map((__, j) => (i === j ? STAY_PROBABILITY : (1 - STAY_PROBABILITY) / (k - 1))));
+
+  const alpha = states.map(() => new Float64Array(n));
+  const beta = states.map(() => new Float64Array(n));
+  const emissions = states.map(() => new Float64Array(n));
+  const scales = new Float64Array(n);
+
+  let logLikelihood = -Infinity;
+  let iterations = 0;
+
+  while (iterations < maxIterations) {
+    iterations++;
+
+    // E step: scaled forward-backward
+    let likelihood = 0;
+    for (let t = 0; t < n; t++) {
+      const { densities, logScale } = scaledEmissions(states, candles[t]);
+      const forward = densities.map((density, s) => {
+        emissions[s][t] = density;
+        if (t === 0) return initial[s] * density;
+        let sum = 0;
+        for (let r = 0; r < k; r++) sum += alpha[r][t - 1] * transitions[r][s];
+        return sum * density;
+      });
+      scales[t] = normalize(forward);
+      forward.forEach((value, s) => { alpha[s][t] = value; });
+      likelihood += Math.log(scales[t]) + logScale;
+    }
+
+    for (let s = 0; s < k; s++) beta[s][n - 1] = 1;
+    for (let t = n - 2; t >= 0; t--) {
+      for (let r = 0; r < k; r++) {
+        let sum = 0;
+        for (let s = 0; s < k; s++) sum += transitions[r][s] * emissions[s][t + 1] * beta[s][t + 1];
+        beta[r][t] = sum / scales[t + 1];
+      }
+    }
+
+    // M step: re-estimate from the state and transition posteriors
+    const occupancy = new Array<number>(k).fill(0);
+    const leaving = new Array<number>(k).fill(0);
+    const moves = states.map(() => new Array<number>(k).fill(0));
+    const sums = states.map(() => ({ r: 0, rr: 0, v: 0, vv: 0 }));
+
+    for (let t = 0; t < n; t++) {
+      const gamma = states.map((_, s) => alpha[s][t] * beta[s][t]);
+      normalize(gamma);
+
+      const { dailyReturn: r, rollingVolatility: v } = candles[t];
+      gamma.forEach((g, s) => {
+        occupancy[s] += g;
+        sums[s].r += g * r;
+        sums[s].rr += g * r * r;
+        sums[s].v += g * v;
+        sums[s].vv += g * v * v;
+        if (t < n - 1) leaving[s] += g;
+      });
+
+      if (t < n - 1) {
+        for (let from = 0; from < k; from++) {
+          for (let to = 0; to < k; to++) {
+            moves[from][to] += alpha[from][t] * transitions[from][to] * emissions[to][t + 1] * beta[to][t + 1] / scales[t + 1];
+          }
+        }
+      }
+    }
+
+    initial = occupancy.map(o => o / n);
+    transitions = transitions.map((row, from) => leaving[from] > 0 ? moves[from].map(m => m / leaving[from]) : row);
+    states = states.map((state, s) => {
+      if (occupancy[s] <= 0) return state;
+      const returnMean = sums[s].r / occupancy[s];
+      const volatilityMean = sums[s].v / occupancy[s];
+      return {
+        regime: state.regime,
+        returnMean,
+        returnVariance: Math.max(sums[s].rr / occupancy[s] - returnMean ** 2, floors[0]),
+        volatilityMean,
+        volatilityVariance: Math.max(sums[s].vv / occupancy[s] - volatilityMean ** 2, floors[1]),
+      };
+    });
+
+    const improvement = likelihood - logLikelihood;
+    logLikelihood = likelihood;
+    if (improvement < tolerance) break;
+  }
+
+  const typicalVolatility = median(candles.map(c => c.rollingVolatility));
+  return {
+    states: states.map(state => ({ ...state, regime: nameState(state, typicalVolatility) })),
+    initial,
+    transitions,
+    warmupBars,
+    logLikelihood,
+    iterations,
+  };
+}
+
+// ============================================
+// FILTERING
+// ============================================
+
+/**
+ * Takes each processed candle in order and returns the regime probabilities
+ * given the bars so far
+ */
+export function createRegimeFilter(model: RegimeModel): (candle: ProcessedCandle) => RegimeEstimate {
+  const { states, initial, transitions, warmupBars } = model;
+  let previous: number[] | null = null;
+  let bars = 0;
+
+  return (candle) => {
+    let current = initial;
+    if (bars++ >= warmupBars) {
+      const { densities } = scaledEmissions(states, candle);
+      current = densities.map((density, s) => {
+        if (previous === null) return initial[s] * density;
+        let sum = 0;
+        for (let r = 0; r < states.length; r++) sum += previous[r] * transitions[r][s];
+        return sum * density;
+      });
+      normalize(current);
+      previous = current;
+    }
+
+    const probabilities = Object.fromEntries(MARKET_REGIMES.map(r => [r, 0])) as RegimeProbabilities;
+    current.forEach((p, s) => { probabilities[states[s].regime] += p; });
+    const regime = MARKET_REGIMES.reduce((best, r) => (probabilities[r] > probabilities[best] ? r : best));
+    return { regime, probabilities };
+  };
+}
+
+/**
+ * Regime probabilities at every bar
+ */
+export function filterRegimes(model: RegimeModel, candles: ProcessedCandle[]): RegimeEstimate[] {
+  return candles.map(createRegimeFilter(model));
+}
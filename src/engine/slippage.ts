@@ -0,0 +1,78 @@
+/**
+ * Slippage Models - Pluggable execution cost for the BacktestEngine
+ *
+ * A slippage model returns the fractional price penalty for filling an order
+ * on a bar. Buys fill above the reference price, sells below it.
+ *
+ * - Fixed bps: a constant cost regardless of size or conditions
+ * - Volatility-scaled: cost grows with the bar's intraday range
+ * - Square-root impact: cost grows with the square root of the share of
+ *   bar volume taken, scaled by volatility (the classic market impact law)
+ */
+
+import type { OHLCVCandle } from '../types';
+
+export interface SlippageContext {
+  side: 'buy' | 'sell';
+  price: number;              // Reference price before slippage
+  quantity: number;           // Shares being filled on this bar
+  bar: OHLCVCandle & { intradayVolatility?: number };  // ProcessedCandle bars carry their own volatility
+}
+
+export interface SlippageModel {
+  name: string;
+  /** Fractional slippage for this fill (0.001 = 0.1%) */
+  estimate(context: SlippageContext): number;
+}
+
+/**
+ * Intraday range as a % of the open.
+ * Uses ProcessedCandle.intradayVolatility when the bar already has it.
+ */
+export function getIntradayVolatility(bar: SlippageContext['bar']): number {
+  if (bar.intradayVolatility !== undefined) return bar.intradayVolatility;
+  return bar.open > 0 ? ((bar.high - bar.low) / bar.open) * 100 : 0;
+}
+
+/**
+ * Constant slippage in basis points
+ */
+export function createFixedBpsSlippage(bps: number): SlippageModel {
+  return {
+    name: 'fixed_bps',
+    estimate: () => bps / 10000,
+  };
+}
+
+/**
+ * Slippage proportional to the bar's intraday range.
+ * multiplier 0.1 on a bar with a 2% range costs 0.2%.
+ */
+export function createVolatilitySlippage(multiplier: number, minBps: number = 0): SlippageModel {
+  return {
+    name: 'volatility',
+    estimate: ({ bar }) => Math.max(minBps / 10000, multiplier * getIntradayVolatility(bar) / 100),
+  };
+}
+
+/**
+ * Square-root market impact: coefficient * volatility * sqrt(quantity / volume).
+ * Bars without volume are treated as fully consumed.
+ */
+export function createSquareRootImpactSlippage(coefficient: number, minBps: number = 0): SlippageModel {
+  return {
+    name: 'square_root_impact',
+    estimate: ({ bar, quantity }) => {
+      const volatility = getIntradayVolatility(bar) / 100;
+      const participation = bar.volume > 0 ? Math.min(1, quantity / bar.volume) : 1;
+      return Math.max(minBps / 10000, coefficient * volatility * Math.sqrt(participation));
+    },
+  };
+}
+
+/**
+ * Apply a slippage fraction against the trader
+ */
+export function applySlippage(side: 'buy' | 'sell', price: number, slippage: number): number {
+  return side === 'buy' ? price * (1 + slippage) : price * (1 - slippage);
+}
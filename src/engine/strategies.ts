@@ -0,0 +1,216 @@
+/**
+ * Reference Strategies - Systematic drivers for the BacktestEngine
+ *
+ * Each strategy is sized by a StrategyPreset: it commits (1 - cashBuffer) of
+ * its cash at the preset's leverage when fully invested. Run one with
+ * engine.runStrategy(...) on the same dataset as a player's drive to compare
+ * the two.
+ *
+ * The engine closes whole positions, so strategies that change their
+ * exposure (rebalancing, volatility targeting) close the book and buy the
+ * new target back on the same bar's open.
+ */
+
+import type { Position, StrategyPreset } from '../types';
+import type { Strategy, StrategyContext } from './strategy';
+import { getPositionNotional } from './margin';
+
+// The parts of a preset that size a strategy
+export type StrategySizing = Pick<StrategyPreset, 'leverage' | 'cashBuffer'>;
+
+export type ReferenceStrategyKind =
+  | 'buy_and_hold'
+  | 'rebalance'
+  | 'sma_crossover'
+  | 'rsi_reversion'
+  | 'volatility_target'
+  | 'trend_following';
+
+// ============================================
+// HELPERS
+// ============================================
+
+function getTradedPositions(ctx: StrategyContext): Position[] {
+  return ctx.getPositions().filter(p => !p.isHedge);
+}
+
+function isInvested(ctx: StrategyContext): boolean {
+  return getTradedPositions(ctx).length > 0 || ctx.getPendingOrders().length > 0;
+}
+
+/**
+ * Buy scale × the preset's full allocation of the current cash
+ */
+function enter(ctx: StrategyContext, sizing: StrategySizing, scale: number = 1): void {
+  const size = Math.min(1, (1 - sizing.cashBuffer) * scale);
+  if (size > 0) ctx.submitMarketOrder('buy', size, sizing.leverage);
+}
+
+function exit(ctx: StrategyContext): void {
+  for (const position of getTradedPositions(ctx)) {
+    ctx.closePosition(position.id, 'manual');
+  }
+}
+
+/**
+ * Exposure of the traded book as a multiple of equity
+ */
+function getExposureRatio(ctx: StrategyContext): number {
+  const { equity } = ctx.getPortfolio();
+  if (equity <= 0) return 0;
+  return getTradedPositions(ctx).reduce((sum, p) => sum + getPositionNotional(p), 0) / equity;
+}
+
+/**
+ * Close the book and buy back scale × the full allocation when the exposure
+ * is more than band (relative) away from that target
+ */
+function rebalanceTo(ctx: StrategyContext, sizing: StrategySizing, scale: number, band: number): void {
+  if (ctx.getPendingOrders().length > 0) return;
+
+  const target = (1 - sizing.cashBuffer) * sizing.leverage * scale;
+  const current = getExposureRatio(ctx);
+  if (target === 0 ? current === 0 : Math.abs(current - target) <= band * target) return;
+
+  exit(ctx);
+  if (target > 0) enter(ctx, sizing, scale);
+}
+
+function getSMA(ctx: StrategyContext, period: number): number | null {
+  const bars = ctx.getBars(period);
+  if (bars.length < period) return null;
+  return bars.reduce((sum, bar) => sum + bar.close, 0) / period;
+}
+
+// ============================================
+// STRATEGIES
+// ============================================
+
+/**
+ * Buy on the first bar and hold to the end
+ */
+export function createBuyAndHoldStrategy(sizing: StrategySizing): Strategy {
+  return {
+    name: 'Buy & Hold',
+    onBar: (ctx) => {
+      // Never buys back in, even after a liquidation
+      if (ctx.getFills().length === 0 && !isInvested(ctx)) enter(ctx, sizing);
+    },
+  };
+}
+
+/**
+ * Hold the preset's allocation, restoring it every period bars
+ * once the exposure has drifted more than band from target
+ */
+export function createRebalanceStrategy(
+  sizing: StrategySizing,
+  { period = 21, band = 0.05 }: { period?: number; band?: number } = {}
+): Strategy {
+  return {
+    name: 'Fixed Allocation',
+    onBar: (ctx) => {
+      if (!isInvested(ctx)) {
+        enter(ctx, sizing);
+      } else if (ctx.getTick() % period === 0) {
+        rebalanceTo(ctx, sizing, 1, band);
+      }
+    },
+  };
+}
+
+/**
+ * Long while the fast moving average of closes is above the slow one, flat otherwise
+ */
+export function createSmaCrossoverStrategy(
+  sizing: StrategySizing,
+  { fast = 20, slow = 50 }: { fast?: number; slow?: number } = {}
+): Strategy {
+  return {
+    name: `SMA ${fast}/${slow}`,
+    onBar: (ctx) => {
+      const fastSma = getSMA(ctx, fast);
+      const slowSma = getSMA(ctx, slow);
+      if (fastSma === null || slowSma === null) return;
+
+      if (fastSma > slowSma && !isInvested(ctx)) enter(ctx, sizing);
+      else if (fastSma < slowSma && getTradedPositions(ctx).length > 0) exit(ctx);
+    },
+  };
+}
+
+/**
+ * Buy when RSI is oversold, sell once it recovers to the exit level
+ */
+export function createRsiReversionStrategy(
+  sizing: StrategySizing,
+  { oversold = 30, exitLevel = 55 }: { oversold?: number; exitLevel?: number } = {}
+): Strategy {
+  return {
+    name: 'RSI Mean Reversion',
+    onBar: (ctx, _bar, indicators) => {
+      if (indicators.rsi < oversold && !isInvested(ctx)) enter(ctx, sizing);
+      else if (indicators.rsi > exitLevel && getTradedPositions(ctx).length > 0) exit(ctx);
+    },
+  };
+}
+
+/**
+ * Scale the allocation so the book runs near a target daily volatility (%).
+ * Calm markets get the full allocation; volatile ones get less.
+ */
+export function createVolatilityTargetStrategy(
+  sizing: StrategySizing,
+  { targetVolatility = 1, period = 5, band = 0.2 }: { targetVolatility?: number; period?: number; band?: number } = {}
+): Strategy {
+  return {
+    name: 'Volatility Target',
+    onBar: (ctx, _bar, indicators) => {
+      if (indicators.volatility <= 0 || ctx.getTick() % period !== 0) return;
+
+      const scale = Math.min(1, targetVolatility / indicators.volatility);
+      if (!isInvested(ctx)) enter(ctx, sizing, scale);
+      else rebalanceTo(ctx, sizing, scale, band);
+    },
+  };
+}
+
+/**
+ * Buy breakouts to a new lookback-bar closing high and ride them
+ * with an ATR trailing stop
+ */
+export function createTrendFollowingStrategy(
+  sizing: StrategySizing,
+  { lookback = 50, atrMultiple = 3 }: { lookback?: number; atrMultiple?: number } = {}
+): Strategy {
+  return {
+    name: 'Trend Following',
+    onBar: (ctx, bar) => {
+      const bars = ctx.getBars(lookback + 1);
+      if (bars.length <= lookback || isInvested(ctx)) return;
+
+      const priorHigh = Math.max(...bars.slice(0, -1).map(b => b.close));
+      if (bar.close > priorHigh) enter(ctx, sizing);
+    },
+    onFill: (ctx, fill) => {
+      // Trail every new entry; exit fills carry a reason
+      if (fill.reason === undefined) {
+        ctx.submitTrailingStop(fill.positionId, { mode: 'atr', distance: atrMultiple });
+      }
+    },
+  };
+}
+
+/**
+ * One of each reference strategy, sized by the same preset
+ */
+export function createReferenceStrategies(sizing: StrategySizing): Record<ReferenceStrategyKind, Strategy> {
+  return {
+    buy_and_hold: createBuyAndHoldStrategy(sizing),
+    rebalance: createRebalanceStrategy(sizing),
+    sma_crossover: createSmaCrossoverStrategy(sizing),
+    rsi_reversion: createRsiReversionStrategy(sizing),
+    volatility_target: createVolatilityTargetStrategy(sizing),
+    trend_following: createTrendFollowingStrategy(sizing),
+  };
+}
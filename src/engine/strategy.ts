@@ -0,0 +1,56 @@
+/**
+ * Strategy - Programmatic trading against the BacktestEngine
+ *
+ * A strategy is a set of hooks the engine calls while it runs through the
+ * data. Each bar is processed first (pending orders fill, positions are
+ * marked), then onBar sees the bar's close and may submit orders, which
+ * work from the next bar on. Strategies never see a bar before it closes.
+ */
+
+import type {
+  BacktestTick,
+  ExitReason,
+  MarketIndicators,
+  PortfolioState,
+  Position,
+  ProcessedCandle,
+  TrailingStopConfig,
+} from '../types';
+import type { BracketPrices, Fill, OHLCV, Order, OrderOptions, OrderSide } from './BacktestEngine';
+
+/**
+ * What a strategy can see and do while it runs
+ */
+export interface StrategyContext {
+  getTick(): number;   // Index of the latest processed bar (-1 before the first)
+
+  // Orders
+  submitMarketOrder(side: OrderSide, size: number, leverage?: number, options?: OrderOptions): Order | null;
+  submitLimitOrder(side: OrderSide, size: number, price: number, leverage?: number, options?: OrderOptions): Order | null;
+  submitStopOrder(side: OrderSide, size: number, stopPrice: number, leverage?: number, options?: OrderOptions): Order | null;
+  submitBracketOrder(side: OrderSide, size: number, bracket: BracketPrices, leverage?: number, entryPrice?: number, options?: OrderOptions): Order | null;
+  submitTrailingStop(positionId: string, trail: TrailingStopConfig): Order | null;
+  cancelOrder(orderId: string): boolean;
+  closePosition(positionId: string, reason?: ExitReason): Order | null;
+  closeAllPositions(reason?: ExitReason): void;
+
+  // Portfolio
+  getPortfolio(): PortfolioState;
+  getPositions(): Position[];
+  getPendingOrders(): Order[];
+
+  // History, up to and including the latest processed bar. Give a lookback
+  // to copy only the last bars: the full history grows with every bar.
+  getBars(lookback?: number): OHLCV[];
+  getCandles(lookback?: number): ProcessedCandle[];
+  getFills(): Fill[];
+  getTickHistory(): BacktestTick[];
+}
+
+export interface Strategy {
+  name: string;
+  init?(ctx: StrategyContext): void;
+  onBar(ctx: StrategyContext, bar: OHLCV, indicators: MarketIndicators): void;
+  onFill?(ctx: StrategyContext, fill: Fill): void;    // Called as the fill happens, before the bar's marks
+  onEnd?(ctx: StrategyContext): void;                 // Orders submitted here never fill
+}
@@ -0,0 +1,209 @@
+/**
+ * Technical Indicator Tests
+ *
+ * Tests for the standard indicator definitions: moving averages, Wilder RSI
+ * and ATR, MACD, Bollinger Bands, ADX, stochastic, OBV, VWAP and Donchian
+ * channels, and the warm-up over the first bars.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  adx,
+  atr,
+  bollingerBands,
+  createTechnicalIndicators,
+  donchianChannels,
+  ema,
+  macd,
+  obv,
+  rsi,
+  sma,
+  stochastic,
+  vwap,
+  wma,
+  type IndicatorBar,
+} from './technicalIndicators';
+
+// ============================================
+// TEST FIXTURES
+// ============================================
+
+// Wilder's RSI example closes (as published by StockCharts)
+const RSI_CLOSES = [
+  44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.10, 45.42, 45.84, 46.08, 45.89,
+  46.03, 45.61, 46.28, 46.28, 46.00, 46.03, 46.41, 46.22, 45.64, 46.21, 46.25,
+  45.71, 46.45, 45.78, 45.35, 44.03, 44.18, 44.22, 44.57, 43.42, 42.66, 43.13,
+];
+
+function createBar(close: number, range: number = 2, volume: number = 1000): IndicatorBar {
+  return { high: close + range / 2, low: close - range / 2, close, volume };
+}
+
+// ============================================
+// MOVING AVERAGES
+// ============================================
+
+describe('Moving Averages', () => {
+  const values = [1, 2, 3, 4, 5, 6];
+
+  it('should average the window, or the values so far', () => {
+    expect(sma(values, 3)).toEqual([1, 1.5, 2, 3, 4, 5]);
+  });
+
+  it('should weight the newest value most', () => {
+    // (1*4 + 2*5 + 3*6) / 6
+    expect(wma(values, 3)[5]).toBeCloseTo(32 / 6, 12);
+    expect(wma(values, 3)[1]).toBeCloseTo((1 + 2 * 2) / 3, 12);
+    expect(wma([5, 5, 5, 5], 2)).toEqual([5, 5, 5, 5]);
+  });
+
+  it('should seed the EMA with the simple average, then smooth by 2 / (period + 1)', () => {
+    const result = ema(values, 3);
+
+    expect(result[2]).toBe(2);
+    expect(result[3]).toBeCloseTo(2 + 0.5 * (4 - 2), 12);
+    expect(result[4]).toBeCloseTo(3 + 0.5 * (5 - 3), 12);
+  });
+});
+
+// ============================================
+// MOMENTUM
+// ============================================
+
+describe('Momentum', () => {
+  it('should match the published Wilder RSI', () => {
+    const result = rsi(RSI_CLOSES).slice(14).map(value => Number(value.toFixed(2)));
+
+    expect(result).toEqual([
+      70.46, 66.25, 66.48, 69.35, 66.29, 57.92, 62.88, 63.21, 56.01, 62.34,
+      54.67, 50.39, 40.02, 41.49, 41.90, 45.50, 37.32, 33.09, 37.79,
+    ]);
+  });
+
+  it('should read 100 without losses and 50 without changes', () => {
+    expect(rsi([1, 2, 3, 4]).slice(1)).toEqual([100, 100, 100]);
+    expect(rsi([5, 5, 5])).toEqual([50, 50, 50]);
+  });
+
+  it('should build MACD from the two EMAs and its signal line', () => {
+    const closes = RSI_CLOSES;
+    const fast = ema(closes, 12);
+    const slow = ema(closes, 26);
+    const result = macd(closes);
+    const signal = ema(fast.map((value, i) => value - slow[i]), 9);
+
+    result.forEach((values, i) => {
+      expect(values.macd).toBeCloseTo(fast[i] - slow[i], 12);
+      expect(values.signal).toBeCloseTo(signal[i], 12);
+      expect(values.histogram).toBeCloseTo(values.macd - values.signal, 12);
+    });
+  });
+
+  it('should place the close within the stochastic range', () => {
+    const bars = [createBar(10), createBar(12), createBar(14), createBar(11)];
+    const result = stochastic(bars, 3, 2);
+
+    // Highest high 15, lowest low 9 over the last three bars
+    expect(result[2].k).toBeCloseTo(((14 - 9) / (15 - 9)) * 100, 12);
+    expect(result[3].k).toBeCloseTo(((11 - 10) / (15 - 10)) * 100, 12);
+    expect(result[3].d).toBeCloseTo((result[2].k + result[3].k) / 2, 12);
+  });
+});
+
+// ============================================
+// VOLATILITY AND TREND
+// ============================================
+
+describe('Volatility and Trend', () => {
+  it('should smooth true ranges, gaps included', () => {
+    const bars = [createBar(100, 2), createBar(100, 2), createBar(110, 2)];
+
+    // The gap's true range runs from the previous close: 111 - 100
+    expect(atr(bars, 14)).toEqual([2, 2, 5]);
+    expect(atr([createBar(100, 3), createBar(100, 3), createBar(100, 3)], 2)).toEqual([3, 3, 3]);
+  });
+
+  it('should put Bollinger Bands two deviations from the average', () => {
+    const result = bollingerBands([2, 4, 4, 4, 5, 5, 7, 9], 8);
+    const last = result[7];
+
+    // Mean 5, population deviation 2
+    expect(last.middle).toBe(5);
+    expect(last.upper).toBe(9);
+    expect(last.lower).toBe(1);
+    expect(last.bandwidth).toBeCloseTo(160, 12);
+    expect(bollingerBands([3, 3, 3])[2]).toEqual({ upper: 3, middle: 3, lower: 3, bandwidth: 0 });
+  });
+
+  it('should read a steady climb as a strong uptrend', () => {
+    const climb = Array.from({ length: 60 }, (_, i) => createBar(100 + i));
+    const fall = Array.from({ length: 60 }, (_, i) => createBar(100 - i * 0.5));
+    const up = adx(climb)[59];
+    const down = adx(fall)[59];
+
+    expect(up.plusDI).toBeGreaterThan(up.minusDI);
+    expect(up.adx).toBeGreaterThan(50);
+    expect(down.minusDI).toBeGreaterThan(down.plusDI);
+    expect(adx(climb)[0]).toEqual({ adx: 0, plusDI: 0, minusDI: 0 });
+  });
+
+  it('should track the highest high and lowest low of the period', () => {
+    const result = donchianChannels([createBar(10), createBar(20), createBar(15), createBar(12)], 2);
+
+    expect(result[1]).toEqual({ upper: 21, middle: 15, lower: 9 });
+    expect(result[3]).toEqual({ upper: 16, middle: 13.5, lower: 11 });
+  });
+});
+
+// ============================================
+// VOLUME
+// ============================================
+
+describe('Volume', () => {
+  it('should add volume on up closes and subtract it on down closes', () => {
+    const bars = [createBar(10, 2, 100), createBar(11, 2, 200), createBar(10, 2, 50), createBar(10, 2, 70)];
+
+    expect(obv(bars)).toEqual([0, 200, 150, 150]);
+  });
+
+  it('should weight typical prices by volume', () => {
+    const bars = [createBar(10, 2, 100), createBar(20, 2, 300)];
+
+    expect(vwap(bars)).toEqual([10, (10 * 100 + 20 * 300) / 400]);
+    expect(vwap([createBar(10, 2, 0)])).toEqual([10]);
+  });
+});
+
+// ============================================
+// ALL INDICATORS
+// ============================================
+
+describe('Technical Indicators', () => {
+  it('should give every indicator the same values as its own series', () => {
+    const bars = RSI_CLOSES.map((close, i) => createBar(close, 0.5 + (i % 3) * 0.2, 1000 + i * 10));
+    const closes = bars.map(bar => bar.close);
+    const calculate = createTechnicalIndicators();
+    const result = bars.map(bar => calculate(bar));
+
+    expect(result.map(values => values.rsi)).toEqual(rsi(closes));
+    expect(result.map(values => values.atr)).toEqual(atr(bars));
+    expect(result.map(values => values.sma)).toEqual(sma(closes, 20));
+    expect(result.map(values => values.emaFast)).toEqual(ema(closes, 12));
+    expect(result.map(values => values.macd)).toEqual(macd(closes));
+    expect(result.map(values => values.bollinger)).toEqual(bollingerBands(closes));
+    expect(result.map(values => values.adx)).toEqual(adx(bars));
+    expect(result.map(values => values.stochastic)).toEqual(stochastic(bars));
+    expect(result.map(values => values.obv)).toEqual(obv(bars));
+    expect(result.map(values => values.vwap)).toEqual(vwap(bars));
+    expect(result.map(values => values.donchian)).toEqual(donchianChannels(bars));
+  });
+
+  it('should take other periods', () => {
+    const bars = RSI_CLOSES.map(close => createBar(close));
+    const calculate = createTechnicalIndicators({ rsiPeriod: 5, smaPeriod: 3 });
+    const last = bars.map(bar => calculate(bar))[bars.length - 1];
+
+    expect(last.rsi).toBe(rsi(RSI_CLOSES, 5)[bars.length - 1]);
+    expect(last.sma).toBe(sma(RSI_CLOSES, 3)[bars.length - 1]);
+  });
+});
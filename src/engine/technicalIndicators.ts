@@ -0,0 +1,441 @@
+/**
+ * Technical Indicators - Standard definitions, one bar at a time
+ *
+ * Each indicator is a factory: it returns a function that takes the next
+ * close (or bar) and returns the indicator at it, in constant time, so the
+ * market-data stream can update every indicator as bars arrive. The series
+ * helpers run a whole array through a fresh one.
+ *
+ * Warm-up: until a window is full it covers the bars so far, and the
+ * exponential and Wilder averages start from the mean of the values so far,
+ * which is the seed the standard definitions use once the period is reached.
+ * Every indicator has a value from the first bar, and from bar `period` on
+ * it is the textbook one.
+ */
+
+import type {
+  AdxValues,
+  BollingerBands,
+  MacdValues,
+  OHLCVCandle,
+  PriceBands,
+  StochasticValues,
+  TechnicalIndicators,
+} from '../types';
+
+export type IndicatorBar = Pick<OHLCVCandle, 'high' | 'low' | 'close' | 'volume'>;
+
+// Takes the next value, returns the average including it
+export type MovingAverage = (value: number) => number;
+
+export interface IndicatorSettings {
+  rsiPeriod: number;
+  atrPeriod: number;
+  smaPeriod: number;
+  emaFastPeriod: number;
+  emaSlowPeriod: number;
+  macdSignalPeriod: number;
+  bollingerPeriod: number;
+  bollingerDeviations: number;   // Band distance from the middle, in standard deviations
+  adxPeriod: number;
+  stochasticPeriod: number;
+  stochasticSmoothing: number;   // Bars in %D
+  donchianPeriod: number;
+}
+
+export const DEFAULT_INDICATOR_SETTINGS: IndicatorSettings = {
+  rsiPeriod: 14,
+  atrPeriod: 14,
+  smaPeriod: 20,
+  emaFastPeriod: 12,
+  emaSlowPeriod: 26,
+  macdSignalPeriod: 9,
+  bollingerPeriod: 20,
+  bollingerDeviations: 2,
+  adxPeriod: 14,
+  stochasticPeriod: 14,
+  stochasticSmoothing: 3,
+  donchianPeriod: 20,
+};
+
+// Before any bar
+export const NEUTRAL_TECHNICAL_INDICATORS: TechnicalIndicators = {
+  rsi: 50,
+  atr: 0,
+  sma: 0,
+  emaFast: 0,
+  emaSlow: 0,
+  macd: { macd: 0, signal: 0, histogram: 0 },
+  bollinger: { upper: 0, middle: 0, lower: 0, bandwidth: 0 },
+  adx: { adx: 0, plusDI: 0, minusDI: 0 },
+  stochastic: { k: 50, d: 50 },
+  obv: 0,
+  vwap: 0,
+  donchian: { upper: 0, middle: 0, lower: 0 },
+};
+
+// ============================================
+// HELPERS
+// ============================================
+
+// Add a value to a window of at most `period` values, dropping the oldest
+function pushWindow(window: number[], value: number, period: number): void {
+  window.push(value);
+  if (window.length > period) window.shift();
+}
+
+function trueRange(bar: IndicatorBar, prevClose: number | null): number {
+  if (prevClose === null) return bar.high - bar.low;
+  return Math.max(bar.high - bar.low, Math.abs(bar.high - prevClose), Math.abs(bar.low - prevClose));
+}
+
+/**
+ * Average that moves a fraction `alpha` of the way to each new value,
+ * starting from the mean of the first `period` values
+ */
+function createExponentialAverage(period: number, alpha: number): MovingAverage {
+  let count = 0;
+  let average = 0;
+  return (value) => {
+    if (count < period) {
+      count++;
+      average += (value - average) / count;
+    } else {
+      average += alpha * (value - average);
+    }
+    return average;
+  };
+}
+
+// ============================================
+// MOVING AVERAGES
+// ============================================
+
+export function createSma(period: number): MovingAverage {
+  const window: number[] = [];
+  let sum = 0;
+  return (value) => {
+    window.push(value);
+    sum += value;
+    if (window.length > period) sum -= window.shift()!;
+    return sum / window.length;
+  };
+}
+
+/**
+ * Exponential moving average: alpha = 2 / (period + 1)
+ */
+export function createEma(period: number): MovingAverage {
+  return createExponentialAverage(period, 2 / (period + 1));
+}
+
+/**
+ * Linearly weighted moving average: the newest value weighs `period`, the oldest 1
+ */
+export function createWma(period: number): MovingAverage {
+  const window: number[] = [];
+  let sum = 0;
+  let weighted = 0;
+  return (value) => {
+    if (window.length < period) {
+      weighted += (window.length + 1) * value;
+    } else {
+      // Every value moves down a weight; the oldest drops to 0
+      weighted += period * value - sum;
+      sum -= window.shift()!;
+    }
+    window.push(value);
+    sum += value;
+    return weighted / ((window.length * (window.length + 1)) / 2);
+  };
+}
+
+/**
+ * Wilder's smoothing (RMA): alpha = 1 / period
+ */
+export function createWilderAverage(period: number): MovingAverage {
+  return createExponentialAverage(period, 1 / period);
+}
+
+// ============================================
+// MOMENTUM
+// ============================================
+
+/**
+ * Wilder RSI of closes: Wilder averages of gains and losses, 50 when flat
+ */
+export function createRsi(period: number = DEFAULT_INDICATOR_SETTINGS.rsiPeriod): (close: number) => number {
+  const gains = createWilderAverage(period);
+  const losses = createWilderAverage(period);
+  let prevClose: number | null = null;
+
+  return (close) => {
+    if (prevClose === null) {
+      prevClose = close;
+      return 50;
+    }
+    const change = close - prevClose;
+    prevClose = close;
+
+    const avgGain = gains(Math.max(change, 0));
+    const avgLoss = losses(Math.max(-change, 0));
+    if (avgLoss === 0) return avgGain === 0 ? 50 : 100;
+    return 100 - 100 / (1 + avgGain / avgLoss);
+  };
+}
+
+export function createMacd(
+  fastPeriod: number = DEFAULT_INDICATOR_SETTINGS.emaFastPeriod,
+  slowPeriod: number = DEFAULT_INDICATOR_SETTINGS.emaSlowPeriod,
+  signalPeriod: number = DEFAULT_INDICATOR_SETTINGS.macdSignalPeriod
+): (close: number) => MacdValues {
+  const fast = createEma(fastPeriod);
+  const slow = createEma(slowPeriod);
+  const signal = createEma(signalPeriod);
+
+  return (close) => {
+    const macd = fast(close) - slow(close);
+    const signalValue = signal(macd);
+    return { macd, signal: signalValue, histogram: macd - signalValue };
+  };
+}
+
+/**
+ * Fast stochastic: %K is the close within the period's high-low range
+ * (50 when there is no range), %D its simple moving average
+ */
+export function createStochastic(
+  period: number = DEFAULT_INDICATOR_SETTINGS.stochasticPeriod,
+  smoothing: number = DEFAULT_INDICATOR_SETTINGS.stochasticSmoothing
+): (bar: IndicatorBar) => StochasticValues {
+  const highs: number[] = [];
+  const lows: number[] = [];
+  const average = createSma(smoothing);
+
+  return (bar) => {
+    pushWindow(highs, bar.high, period);
+    pushWindow(lows, bar.low, period);
+    const highest = Math.max(...highs);
+    const lowest = Math.min(...lows);
+    const k = highest === lowest ? 50 : ((bar.close - lowest) / (highest - lowest)) * 100;
+    return { k, d: average(k) };
+  };
+}
+
+// ============================================
+// VOLATILITY AND TREND
+// ============================================
+
+/**
+ * Wilder average true range. The first bar's true range is its high-low range.
+ */
+export function createAtr(period: number = DEFAULT_INDICATOR_SETTINGS.atrPeriod): (bar: IndicatorBar) => number {
+  const average = createWilderAverage(period);
+  let prevClose: number | null = null;
+
+  return (bar) => {
+    const range = trueRange(bar, prevClose);
+    prevClose = bar.close;
+    return average(range);
+  };
+}
+
+/**
+ * Bollinger Bands: simple moving average +/- standard deviations of the closes
+ * (population deviation, as Bollinger defines it)
+ */
+export function createBollingerBands(
+  period: number = DEFAULT_INDICATOR_SETTINGS.bollingerPeriod,
+  deviations: number = DEFAULT_INDICATOR_SETTINGS.bollingerDeviations
+): (close: number) => BollingerBands {
+  const window: number[] = [];
+
+  return (close) => {
+    pushWindow(window, close, period);
+    const middle = window.reduce((sum, v) => sum + v, 0) / window.length;
+    const variance = window.reduce((sum, v) => sum + (v - middle) ** 2, 0) / window.length;
+    const offset = deviations * Math.sqrt(variance);
+    return {
+      upper: middle + offset,
+      middle,
+      lower: middle - offset,
+      bandwidth: middle === 0 ? 0 : ((2 * offset) / middle) * 100,
+    };
+  };
+}
+
+/**
+ * Wilder's directional movement: +DI, -DI and the ADX (Wilder average of DX)
+ */
+export function createAdx(period: number = DEFAULT_INDICATOR_SETTINGS.adxPeriod): (bar: IndicatorBar) => AdxValues {
+  const ranges = createWilderAverage(period);
+  const plusMoves = createWilderAverage(period);
+  const minusMoves = createWilderAverage(period);
+  const adx = createWilderAverage(period);
+  let prev: IndicatorBar | null = null;
+
+  return (bar) => {
+    if (prev === null) {
+      prev = bar;
+      return { adx: 0, plusDI: 0, minusDI: 0 };
+    }
+    const up = bar.high - prev.high;
+    const down = prev.low - bar.low;
+    const range = ranges(trueRange(bar, prev.close));
+    const plusMove = plusMoves(up > down && up > 0 ? up : 0);
+    const minusMove = minusMoves(down > up && down > 0 ? down : 0);
+    prev = bar;
+
+    const plusDI = range === 0 ? 0 : (plusMove / range) * 100;
+    const minusDI = range === 0 ? 0 : (minusMove / range) * 100;
+    const total = plusDI + minusDI;
+    const dx = total === 0 ? 0 : (Math.abs(plusDI - minusDI) / total) * 100;
+    return { adx: adx(dx), plusDI, minusDI };
+  };
+}
+
+/**
+ * Donchian channels: highest high and lowest low of the period, and their midpoint
+ */
+export function createDonchianChannels(
+  period: number = DEFAULT_INDICATOR_SETTINGS.donchianPeriod
+): (bar: IndicatorBar) => PriceBands {
+  const highs: number[] = [];
+  const lows: number[] = [];
+
+  return (bar) => {
+    pushWindow(highs, bar.high, period);
+    pushWindow(lows, bar.low, period);
+    const upper = Math.max(...highs);
+    const lower = Math.min(...lows);
+    return { upper, middle: (upper + lower) / 2, lower };
+  };
+}
+
+// ============================================
+// VOLUME
+// ============================================
+
+/**
+ * On-balance volume: volume added on up closes, subtracted on down closes
+ */
+export function createObv(): (bar: IndicatorBar) => number {
+  let obv = 0;
+  let prevClose: number | null = null;
+
+  return (bar) => {
+    if (prevClose !== null) {
+      obv += bar.close > prevClose ? bar.volume : bar.close < prevClose ? -bar.volume : 0;
+    }
+    prevClose = bar.close;
+    return obv;
+  };
+}
+
+/**
+ * Volume-weighted average of the typical price (high + low + close) / 3 since
+ * the first bar. Until there is volume, the typical price itself.
+ */
+export function createVwap(): (bar: IndicatorBar) => number {
+  let value = 0;
+  let volume = 0;
+
+  return (bar) => {
+    const typical = (bar.high + bar.low + bar.close) / 3;
+    value += typical * bar.volume;
+    volume += bar.volume;
+    return volume === 0 ? typical : value / volume;
+  };
+}
+
+// ============================================
+// ALL INDICATORS
+// ============================================
+
+/**
+ * Every indicator, updated together bar by bar
+ */
+export function createTechnicalIndicators(
+  settings: Partial<IndicatorSettings> = {}
+): (bar: IndicatorBar) => TechnicalIndicators {
+  const s = { ...DEFAULT_INDICATOR_SETTINGS, ...settings };
+  const rsi = createRsi(s.rsiPeriod);
+  const atr = createAtr(s.atrPeriod);
+  const sma = createSma(s.smaPeriod);
+  const emaFast = createEma(s.emaFastPeriod);
+  const emaSlow = createEma(s.emaSlowPeriod);
+  const macd = createMacd(s.emaFastPeriod, s.emaSlowPeriod, s.macdSignalPeriod);
+  const bollinger = createBollingerBands(s.bollingerPeriod, s.bollingerDeviations);
+  const adx = createAdx(s.adxPeriod);
+  const stochastic = createStochastic(s.stochasticPeriod, s.stochasticSmoothing);
+  const obv = createObv();
+  const vwap = createVwap();
+  const donchian = createDonchianChannels(s.donchianPeriod);
+
+  return (bar) => ({
+    rsi: rsi(bar.close),
+    atr: atr(bar),
+    sma: sma(bar.close),
+    emaFast: emaFast(bar.close),
+    emaSlow: emaSlow(bar.close),
+    macd: macd(bar.close),
+    bollinger: bollinger(bar.close),
+    adx: adx(bar),
+    stochastic: stochastic(bar),
+    obv: obv(bar),
+    vwap: vwap(bar),
+    donchian: donchian(bar),
+  });
+}
+
+// ============================================
+// SERIES
+// ============================================
+
+export function sma(values: number[], period: number): number[] {
+  return values.map(createSma(period));
+}
+
+export function ema(values: number[], period: number): number[] {
+  return values.map(createEma(period));
+}
+
+export function wma(values: number[], period: number): number[] {
+  return values.map(createWma(period));
+}
+
+export function rsi(closes: number[], period?: number): number[] {
+  return closes.map(createRsi(period));
+}
+
+export function macd(closes: number[], fastPeriod?: number, slowPeriod?: number, signalPeriod?: number): MacdValues[] {
+  return closes.map(createMacd(fastPeriod, slowPeriod, signalPeriod));
+}
+
+export function stochastic(bars: IndicatorBar[], period?: number, smoothing?: number): StochasticValues[] {
+  return bars.map(createStochastic(period, smoothing));
+}
+
+export function atr(bars: IndicatorBar[], period?: number): number[] {
+  return bars.map(createAtr(period));
+}
+
+export function bollingerBands(closes: number[], period?: number, deviations?: number): BollingerBands[] {
+  return closes.map(createBollingerBands(period, deviations));
+}
+
+export function adx(bars: IndicatorBar[], period?: number): AdxValues[] {
+  return bars.map(createAdx(period));
+}
+
+export function donchianChannels(bars: IndicatorBar[], period?: number): PriceBands[] {
+  return bars.map(createDonchianChannels(period));
+}
+
+export function obv(bars: IndicatorBar[]): number[] {
+  return bars.map(createObv());
+}
+
+export function vwap(bars: IndicatorBar[]): number[] {
+  return bars.map(createVwap());
+}
@@ -0,0 +1,82 @@
+/**
+ * Trailing Stop - Shared ratchet logic
+ *
+ * A trailing stop follows the best price reached since it was set
+ * ("Shadow Trail" in CONCEPTS.md). It only ever moves in the position's
+ * favour: up for longs, down for shorts.
+ */
+
+import type { PositionDirection, TrailingStop, TrailingStopConfig } from '../types';
+
+/**
+ * Distance from the extreme price to the trail level, in price units
+ */
+export function getTrailDistance(config: TrailingStopConfig, extremePrice: number, atr: number): number {
+  return config.mode === 'percent'
+    ? extremePrice * (config.distance / 100)
+    : atr * config.distance;
+}
+
+/**
+ * Create a trailing stop for a position at the current price.
+ * ATR-based trails need a positive ATR to place the first level.
+ */
+export function createTrailingStop(
+  config: TrailingStopConfig,
+  direction: PositionDirection,
+  currentPrice: number,
+  atr: number = 0
+): TrailingStop {
+  const distance = getTrailDistance(config, currentPrice, atr);
+  const level = direction === 'long' ? currentPrice - distance : currentPrice + distance;
+
+  return {
+    ...config,
+    extremePrice: currentPrice,
+    level,
+  };
+}
+
+/**
+ * Ratchet a trailing stop with a new price.
+ * The extreme price tracks the best price seen; the level never loosens.
+ */
+export function updateTrailingStop(
+  trailingStop: TrailingStop,
+  direction: PositionDirection,
+  currentPrice: number,
+  atr: number = 0
+): TrailingStop {
+  // Without volatility data an ATR trail cannot be re-priced
+  if (trailingStop.mode === 'atr' && atr <= 0) return trailingStop;
+
+  const isLong = direction === 'long';
+  const extremePrice = isLong
+    ? Math.max(trailingStop.extremePrice, currentPrice)
+    : Math.min(trailingStop.extremePrice, currentPrice);
+
+  const distance = getTrailDistance(trailingStop, extremePrice, atr);
+  const candidate = isLong ? extremePrice - distance : extremePrice + distance;
+  const level = isLong
+    ? Math.max(trailingStop.level, candidate)
+    : Math.min(trailingStop.level, candidate);
+
+  return { ...trailingStop, extremePrice, level };
+}
+
+/**
+ * Price at which a trailing stop exits within a bar, or null if it was not hit.
+ * A bar that opens beyond the level exits at the open (gap risk).
+ */
+export function getTrailingStopExitPrice(
+  trailingStop: TrailingStop,
+  direction: PositionDirection,
+  bar: { open: number; high: number; low: number }
+): number | null {
+  if (direction === 'long') {
+    if (bar.open <= trailingStop.level) return bar.open;
+    return bar.low <= trailingStop.level ? trailingStop.level : null;
+  }
+  if (bar.open >= trailingStop.level) return bar.open;
+  return bar.high >= trailingStop.level ? trailingStop.level : null;
+}
@@ -5,8 +5,18 @@
  */
 
 import { useState, useCallback, useRef, useEffect } from 'react';
-import { BacktestEngine, type EngineConfig, type Order, type Fill, type OHLCV } from './BacktestEngine';
-import type { PortfolioState, Position, ClosedPosition, BacktestTick } from '../types';
+import {
+  BacktestEngine,
+  type EngineConfig,
+  type Order,
+  type Fill,
+  type OHLCV,
+  type BracketPrices,
+  type OrderOptions,
+  type OrderChanges,
+} from './BacktestEngine';
+import type { PortfolioState, Position, ClosedPosition, BacktestTick, TrailingStopConfig } from '../types';
+import type { PerformanceAnalytics, RelativeMetrics } from './analytics';
 
 export interface UseBacktestEngineReturn {
   // State
@@ -29,14 +39,29 @@ export interface UseBacktestEngineReturn {
   runToEnd: () => BacktestTick[];
   buyMarket: (size: number, leverage?: number) => Order | null;
   sellMarket: (size: number, leverage?: number) => Order | null;
-  buyLimit: (size: number, price: number, leverage?: number) => Order | null;
-  sellLimit: (size: number, price: number, leverage?: number) => Order | null;
+  buyLimit: (size: number, price: number, leverage?: number, options?: OrderOptions) => Order | null;
+  sellLimit: (size: number, price: number, leverage?: number, options?: OrderOptions) => Order | null;
+  buyStop: (size: number, stopPrice: number, leverage?: number, options?: OrderOptions) => Order | null;
+  sellStop: (size: number, stopPrice: number, leverage?: number, options?: OrderOptions) => Order | null;
+  buyStopLimit: (
+    size: number, stopPrice: number, limitPrice: number, leverage?: number, options?: OrderOptions
+  ) => Order | null;
+  sellStopLimit: (
+    size: number, stopPrice: number, limitPrice: number, leverage?: number, options?: OrderOptions
+  ) => Order | null;
+  buyBracket: (size: number, bracket: BracketPrices, leverage?: number, entryPrice?: number) => Order | null;
+  sellBracket: (size: number, bracket: BracketPrices, leverage?: number, entryPrice?: number) => Order | null;
+  attachBracket: (positionId: string, bracket: BracketPrices) => Order[];
+  setTrailingStop: (positionId: string, trail: TrailingStopConfig) => Order | null;
   closePosition: (positionId: string) => Order | null;
   closeAllPositions: () => void;
   cancelOrder: (orderId: string) => boolean;
+  modifyOrder: (orderId: string, changes: OrderChanges) => Order | null;
 
   // Getters
   getStatistics: () => ReturnType<BacktestEngine['getStatistics']>;
+  getAnalytics: () => PerformanceAnalytics;
+  getRelativeMetrics: () => RelativeMetrics;
 }
 
 export function useBacktestEngine(config?: Partial<EngineConfig>): UseBacktestEngineReturn {
@@ -81,7 +106,7 @@ export function useBacktestEngine(config?: Partial<EngineConfig>): UseBacktestEn
       onOrderFilled: () => syncState(),
       onPositionOpened: () => syncState(),
       onPositionClosed: () => syncState(),
-      onMarginCall: () => syncState(),
+      onMarginEvent: () => syncState(),
     });
   }, [syncState]);
 
@@ -130,14 +155,66 @@ export function useBacktestEngine(config?: Partial<EngineConfig>): UseBacktestEn
     return order;
   }, [syncState]);
 
-  const buyLimit = useCallback((size: number, price: number, leverage: number = 1) => {
-    const order = engineRef.current!.submitLimitOrder('buy', size, price, leverage);
+  const buyLimit = useCallback((size: number, price: number, leverage: number = 1, options?: OrderOptions) => {
+    const order = engineRef.current!.submitLimitOrder('buy', size, price, leverage, options);
     syncState();
     return order;
   }, [syncState]);
 
-  const sellLimit = useCallback((size: number, price: number, leverage: number = 1) => {
-    const order = engineRef.current!.submitLimitOrder('sell', size, price, leverage);
+  const sellLimit = useCallback((size: number, price: number, leverage: number = 1, options?: OrderOptions) => {
+    const order = engineRef.current!.submitLimitOrder('sell', size, price, leverage, options);
+    syncState();
+    return order;
+  }, [syncState]);
+
+  const buyStop = useCallback((size: number, stopPrice: number, leverage: number = 1, options?: OrderOptions) => {
+    const order = engineRef.current!.submitStopOrder('buy', size, stopPrice, leverage, options);
+    syncState();
+    return order;
+  }, [syncState]);
+
+  const sellStop = useCallback((size: number, stopPrice: number, leverage: number = 1, options?: OrderOptions) => {
+    const order = engineRef.current!.submitStopOrder('sell', size, stopPrice, leverage, options);
+    syncState();
+    return order;
+  }, [syncState]);
+
+  const buyStopLimit = useCallback((
+    size: number, stopPrice: number, limitPrice: number, leverage: number = 1, options?: OrderOptions
+  ) => {
+    const order = engineRef.current!.submitStopLimitOrder('buy', size, stopPrice, limitPrice, leverage, options);
+    syncState();
+    return order;
+  }, [syncState]);
+
+  const sellStopLimit = useCallback((
+    size: number, stopPrice: number, limitPrice: number, leverage: number = 1, options?: OrderOptions
+  ) => {
+    const order = engineRef.current!.submitStopLimitOrder('sell', size, stopPrice, limitPrice, leverage, options);
+    syncState();
+    return order;
+  }, [syncState]);
+
+  const buyBracket = useCallback((size: number, bracket: BracketPrices, leverage: number = 1, entryPrice?: number) => {
+    const order = engineRef.current!.submitBracketOrder('buy', size, bracket, leverage, entryPrice);
+    syncState();
+    return order;
+  }, [syncState]);
+
+  const sellBracket = useCallback((size: number, bracket: BracketPrices, leverage: number = 1, entryPrice?: number) => {
+    const order = engineRef.current!.submitBracketOrder('sell', size, bracket, leverage, entryPrice);
+    syncState();
+    return order;
+  }, [syncState]);
+
+  const attachBracket = useCallback((positionId: string, bracket: BracketPrices) => {
+    const orders = engineRef.current!.attachBracket(positionId, bracket);
+    syncState();
+    return orders;
+  }, [syncState]);
+
+  const setTrailingStop = useCallback((positionId: string, trail: TrailingStopConfig) => {
+    const order = engineRef.current!.submitTrailingStop(positionId, trail);
     syncState();
     return order;
   }, [syncState]);
@@ -159,10 +236,24 @@ export function useBacktestEngine(config?: Partial<EngineConfig>): UseBacktestEn
     return result;
   }, [syncState]);
 
+  const modifyOrder = useCallback((orderId: string, changes: OrderChanges) => {
+    const order = engineRef.current!.modifyOrder(orderId, changes);
+    syncState();
+    return order;
+  }, [syncState]);
+
   const getStatistics = useCallback(() => {
     return engineRef.current!.getStatistics();
   }, []);
 
+  const getAnalytics = useCallback(() => {
+    return engineRef.current!.getAnalytics();
+  }, []);
+
+  const getRelativeMetrics = useCallback(() => {
+    return engineRef.current!.getRelativeMetrics();
+  }, []);
+
   return {
     // State
     currentTick,
@@ -186,12 +277,23 @@ export function useBacktestEngine(config?: Partial<EngineConfig>): UseBacktestEn
     sellMarket,
     buyLimit,
     sellLimit,
+    buyStop,
+    sellStop,
+    buyStopLimit,
+    sellStopLimit,
+    buyBracket,
+    sellBracket,
+    attachBracket,
+    setTrailingStop,
     closePosition: closePositionAction,
     closeAllPositions: closeAllPositionsAction,
     cancelOrder,
+    modifyOrder,
 
     // Getters
     getStatistics,
+    getAnalytics,
+    getRelativeMetrics,
   };
 }
 
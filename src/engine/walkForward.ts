@@ -0,0 +1,194 @@
+/**
+ * Walk-Forward - Rolling re-optimization with out-of-sample stitching
+ *
+ * The data is cut into consecutive windows. Parameters are chosen on each
+ * train window and then traded, untouched, on the test window that follows
+ * it. Joining the test windows gives an equity curve made entirely of bars
+ * the parameters were never fitted on - what a trader re-tuning on history
+ * would actually have lived through, regime changes included.
+ *
+ * Walk-forward efficiency is the out-of-sample annualized return as a share
+ * of the in-sample one: near 1 the fitted edge carries forward, near 0 (or
+ * below) it was fitted to noise.
+ */
+
+import { BacktestEngine } from './BacktestEngine';
+import type { OHLCV } from './BacktestEngine';
+import { fitMarketRegimeModel } from './marketData';
+import { enumerateGrid, runEquityCurve, sampleParameters } from './optimizer';
+import type { OptimizerOptions, ParameterSet, ParameterSpace, SearchMethod, TradingRule } from './optimizer';
+import { calculatePerformance, TRADING_DAYS_PER_YEAR } from './performance';
+import type { PerformanceMetrics } from './performance';
+
+export interface WalkForwardOptions extends Omit<OptimizerOptions, 'inSampleRatio'> {
+  trainBars: number;
+  testBars: number;
+  anchored?: boolean;       // Train windows all start at the first bar (expanding) instead of rolling
+  search?: SearchMethod;
+  samples?: number;
+  random?: () => number;
+}
+
+export interface WalkForwardSplit {
+  trainStart: number;       // First train bar
+  testStart: number;        // First test bar (= end of the train window)
+  testEnd: number;          // One past the last test bar
+}
+
+export interface WalkForwardWindow extends WalkForwardSplit {
+  trainStartDate: string;
+  testStartDate: string;
+  testEndDate: string;      // Date of the last test bar
+  params: ParameterSet;     // Best set on the train window
+  inSample: PerformanceMetrics;
+  outOfSample: PerformanceMetrics;
+  efficiency: number;       // Out-of-sample CAGR / in-sample CAGR (0 if in-sample lost money)
+  testEquity: number[];     // Equity at the last train close, then at each test close
+}
+
+export interface WalkForwardReport {
+  objective: OptimizerOptions['objective'];
+  windows: WalkForwardWindow[];
+  equity: number[];         // Stitched out-of-sample equity, starting at the initial capital
+  dates: string[];          // Date of each equity point after the first
+  outOfSample: PerformanceMetrics;
+  efficiency: number;       // Stitched out-of-sample CAGR / mean in-sample CAGR
+  parameterChanges: number; // Windows whose parameters differ from the window before
+}
+
+/**
+ * Train/test windows over barCount bars. Each test window follows its train
+ * window; windows advance by testBars. The last test window may be shorter.
+ */
+export function createWalkForwardSplits(
+  barCount: number,
+  trainBars: number,
+  testBars: number,
+  anchored: boolean = false
+): WalkForwardSplit[] {
+  const splits: WalkForwardSplit[] = [];
+  if (trainBars < 2 || testBars < 1) return splits;
+
+  for (let testStart = trainBars; testStart < barCount; testStart += testBars) {
+    splits.push({
+      trainStart: anchored ? 0 : testStart - trainBars,
+      testStart,
+      testEnd: Math.min(barCount, testStart + testBars),
+    });
+  }
+  return splits;
+}
+
+/**
+ * Pick the best set on one train window and trade it on the test window.
+ * Each set runs over train + test bars, so the test period starts warmed up,
+ * with a regime model fitted on the train bars alone.
+ */
+export function evaluateWindow(
+  data: OHLCV[],
+  rule: TradingRule,
+  sets: ParameterSet[],
+  split: WalkForwardSplit,
+  options: Omit<OptimizerOptions, 'inSampleRatio'> = {}
+): WalkForwardWindow {
+  const objective = options.objective ?? 'sharpe';
+  const periodsPerYear = options.periodsPerYear ?? TRADING_DAYS_PER_YEAR;
+  const slice = data.slice(split.trainStart, split.testEnd);
+  const trainLength = split.testStart - split.trainStart;
+  const config = options.config?.regimeModel !== undefined
+    ? options.config
+    : { ...options.config, regimeModel: fitMarketRegimeModel(data.slice(split.trainStart, split.testStart)) };
+
+  let best: { params: ParameterSet; equity: number[]; inSample: PerformanceMetrics } | null = null;
+  for (const params of sets) {
+    const { equity } = runEquityCurve(slice, rule(params), config);
+    const inSample = calculatePerformance(equity.slice(0, trainLength + 1), periodsPerYear);
+    if (!best || inSample[objective] > best.inSample[objective]) {
+      best = { params, equity, inSample };
+    }
+  }
+  if (!best) {
+    throw new Error('No parameter sets to walk forward');
+  }
+
+  const outOfSample = calculatePerformance(best.equity.slice(trainLength), periodsPerYear);
+  return {
+    ...split,
+    trainStartDate: data[split.trainStart].date,
+    testStartDate: data[split.testStart].date,
+    testEndDate: data[split.testEnd - 1].date,
+    params: best.params,
+    inSample: best.inSample,
+    outOfSample,
+    efficiency: getEfficiency(outOfSample.cagr, best.inSample.cagr),
+    testEquity: best.equity.slice(trainLength),
+  };
+}
+
+/**
+ * Join evaluated windows into one out-of-sample curve and report on it
+ */
+export function summarizeWalkForward(
+  data: OHLCV[],
+  windows: WalkForwardWindow[],
+  options: Omit<OptimizerOptions, 'inSampleRatio'> = {}
+): WalkForwardReport {
+  const periodsPerYear = options.periodsPerYear ?? TRADING_DAYS_PER_YEAR;
+  const equity = [new BacktestEngine(options.config).getPortfolio().initialCapital];
+  const dates: string[] = [];
+
+  for (const window of windows) {
+    // Chain each test window's bar returns onto the curve so far
+    const scale = window.testEquity[0] > 0 ? equity[equity.length - 1] / window.testEquity[0] : 0;
+    for (let i = 1; i < window.testEquity.length; i++) {
+      dates.push(data[window.testStart + i - 1].date);
+      equity.push(window.testEquity[i] * scale);
+    }
+  }
+
+  const outOfSample = calculatePerformance(equity, periodsPerYear);
+  const meanInSampleCagr = windows.length > 0
+    ? windows.reduce((sum, w) => sum + w.inSample.cagr, 0) / windows.length
+    : 0;
+
+  return {
+    objective: options.objective ?? 'sharpe',
+    windows,
+    equity,
+    dates,
+    outOfSample,
+    efficiency: getEfficiency(outOfSample.cagr, meanInSampleCagr),
+    parameterChanges: windows.filter((w, i) => i > 0 && !sameParams(w.params, windows[i - 1].params)).length,
+  };
+}
+
+/**
+ * Walk a parameter space forward over the data on one thread
+ */
+export function walkForward(
+  data: OHLCV[],
+  rule: TradingRule,
+  space: ParameterSpace,
+  options: WalkForwardOptions
+): WalkForwardReport {
+  const sets = options.search === 'random'
+    ? sampleParameters(space, options.samples ?? 50, options.random)
+    : enumerateGrid(space);
+  const splits = createWalkForwardSplits(data.length, options.trainBars, options.testBars, options.anchored);
+
+  const windows = splits.map(split => evaluateWindow(data, rule, sets, split, options));
+  return summarizeWalkForward(data, windows, options);
+}
+
+/**
+ * Only defined against a profitable in-sample fit: a ratio of two losses
+ * would read as efficient. 0 otherwise.
+ */
+function getEfficiency(outOfSampleCagr: number, inSampleCagr: number): number {
+  return inSampleCagr > 0 ? outOfSampleCagr / inSampleCagr : 0;
+}
+
+function sameParams(a: ParameterSet, b: ParameterSet): boolean {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every(key => a[key] === b[key]);
+}
@@ -541,8 +541,8 @@ describe('Initial States', () => {
       expect(INITIAL_BACKTEST_STATE.maxLeverage).toBe(3);
     });
 
-    it('should trigger margin call at 20% equity', () => {
-      expect(INITIAL_BACKTEST_STATE.marginCallLevel).toBe(0.2);
+    it('should call margin below half of the initial margin, after 3 bars of warning', () => {
+      expect(INITIAL_BACKTEST_STATE.marginRules).toEqual({ maintenanceRatio: 0.5, graceBars: 3 });
     });
 
     it('should not be running initially', () => {
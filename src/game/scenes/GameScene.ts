@@ -1,6 +1,6 @@
 import Phaser from 'phaser';
 import { getScreenDimensions, globalGameState } from '../config';
-import type { RoadSegment, RoadConditions, MarketRegime, CarPhysics, ChartCandle, MarketIndicators, Position } from '../../types';
+import type { RoadSegment, RoadConditions, MarketRegime, CarPhysics, ChartCandle, MarketIndicators, Position, WeatherMix } from '../../types';
 import {
   drawSky,
   drawFog,
@@ -90,6 +90,9 @@ export class GameScene extends Phaser.Scene {
   private lightningTimer = 0;
   private showLightning = false;
 
+  // Weather on screen, easing toward the road conditions' mix
+  private weatherMix: WeatherMix = { clear: 1, cloudy: 0, rainy: 0, stormy: 0, foggy: 0 };
+
   // External state from React (single source of truth)
   private externalState = {
     // Terrain
@@ -105,6 +108,7 @@ export class GameScene extends Phaser.Scene {
       grip: 1,
       width: 1,
       weather: 'clear' as RoadConditions['weather'],
+      weatherMix: { clear: 1, cloudy: 0, rainy: 0, stormy: 0, foggy: 0 } as WeatherMix,
     },
 
     // Road segment
@@ -541,6 +545,7 @@ export class GameScene extends Phaser.Scene {
 
     // Update animation timers
     this.weatherTime += delta / 1000;
+    this.easeWeather(delta);
 
     // Handle input
     this.handleInput();
@@ -622,7 +627,7 @@ export class GameScene extends Phaser.Scene {
 
     // 1. Draw sky
     if (this.skyGraphics) {
-      drawSky(this.skyGraphics, width * 3, height, roadConditions.weather);
+      drawSky(this.skyGraphics, width * 3, height, roadConditions.weather, this.weatherMix);
     }
 
     // 2. Draw weather effects
@@ -659,32 +664,42 @@ export class GameScene extends Phaser.Scene {
     }
   }
 
+  /**
+   * Move the weather on screen toward the road conditions' mix, so regime
+   * changes blend in over about a second instead of switching at once
+   */
+  private easeWeather(delta: number) {
+    const target = this.externalState.roadConditions.weatherMix;
+    const step = 1 - Math.exp(-delta / 1000);
+    for (const weather of Object.keys(this.weatherMix) as (keyof WeatherMix)[]) {
+      this.weatherMix[weather] += (target[weather] - this.weatherMix[weather]) * step;
+    }
+  }
+
   private renderWeatherEffects(width: number, height: number) {
     if (!this.weatherGraphics) return;
 
     const { roadConditions } = this.externalState;
+    const { clear, rainy, stormy } = this.weatherMix;
 
     // Fog overlay (VIX → fog)
     drawFog(this.weatherGraphics, width, height, roadConditions.visibility);
 
     // Wind effect (VIX → wind intensity)
     // Low visibility or stormy weather = more wind
-    const windIntensity = Math.max(
-      1 - roadConditions.visibility,
-      roadConditions.weather === 'stormy' ? 0.8 : 0
-    );
+    const windIntensity = Math.max(1 - roadConditions.visibility, stormy * 0.8);
     drawWind(this.weatherGraphics, width, height, windIntensity, this.weatherTime);
 
-    // Rain
-    if (roadConditions.weather === 'rainy' || roadConditions.weather === 'stormy') {
-      const intensity = roadConditions.weather === 'stormy' ? 0.8 : 0.4;
-      drawRain(this.weatherGraphics, width, height, intensity, this.weatherTime);
+    // Rain, heavier the stormier
+    const rainIntensity = rainy * 0.4 + stormy * 0.8;
+    if (rainIntensity > 0.05) {
+      drawRain(this.weatherGraphics, width, height, rainIntensity, this.weatherTime);
     }
 
-    // Lightning (random during storms)
-    if (roadConditions.weather === 'stormy') {
+    // Lightning (random during storms, more often the likelier the storm)
+    if (stormy > 0.05) {
       this.lightningTimer += 1;
-      if (this.lightningTimer > 120 && Math.random() < 0.02) {
+      if (this.lightningTimer > 120 && Math.random() < 0.02 * stormy) {
         this.showLightning = true;
         this.lightningTimer = 0;
       }
@@ -697,15 +712,14 @@ export class GameScene extends Phaser.Scene {
       }
     }
 
-    // Clouds
-    if (roadConditions.weather !== 'clear') {
-      const cloudCount = roadConditions.weather === 'stormy' ? 8 : 4;
-      for (let i = 0; i < cloudCount; i++) {
-        const cloudX = (i * width / cloudCount + this.weatherTime * 10) % width;
-        const cloudY = 50 + Math.sin(i * 1.5) * 30;
-        const cloudWidth = 80 + (i % 3) * 30;
-        drawCloud(this.weatherGraphics, cloudX, cloudY, cloudWidth, roadConditions.weather);
-      }
+    // Clouds: up to 4 when overcast, 4 more in a storm
+    const cloudCount = Math.round((1 - clear) * 4 + stormy * 4);
+    const cloudWeather = stormy > 0.5 ? 'stormy' : 'cloudy';
+    for (let i = 0; i < cloudCount; i++) {
+      const cloudX = (i * width / cloudCount + this.weatherTime * 10) % width;
+      const cloudY = 50 + Math.sin(i * 1.5) * 30;
+      const cloudWidth = 80 + (i % 3) * 30;
+      drawCloud(this.weatherGraphics, cloudX, cloudY, cloudWidth, cloudWeather);
     }
   }
 
@@ -7,12 +7,13 @@
 
 import Phaser from 'phaser';
 import type { VectorStyle, GradientStop } from './styles';
-import type { RoadSegment, RoadConditions, MarketRegime, CarPhysics } from '../../types';
+import type { RoadSegment, RoadConditions, MarketRegime, CarPhysics, WeatherMix } from '../../types';
 import {
   getRoadStyle,
   getPotholeStyle,
   getBumpStyle,
   getSkyGradient,
+  getBlendedSkyGradient,
   getFogStyle,
   getRainDropStyle,
   ROAD_COLORS,
@@ -215,14 +216,16 @@ export function drawGround(
 
 /**
  * Draw sky gradient background
+ * With a weather mix, the sky blends the colors of every weather in it
  */
 export function drawSky(
   graphics: Phaser.GameObjects.Graphics,
   width: number,
   height: number,
-  weather: RoadConditions['weather']
+  weather: RoadConditions['weather'],
+  mix?: WeatherMix
 ): void {
-  const gradientStops = getSkyGradient(weather);
+  const gradientStops = mix ? getBlendedSkyGradient(mix) : getSkyGradient(weather);
 
   // Approximate gradient with horizontal bands
   const bandCount = 20;
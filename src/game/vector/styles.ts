@@ -6,7 +6,7 @@
  * This keeps the focus on financial concepts rather than flashy game art.
  */
 
-import type { MarketRegime, RoadConditions, CarPhysics } from '../../types';
+import type { MarketRegime, RoadConditions, CarPhysics, Weather, WeatherMix } from '../../types';
 
 // ============================================
 // COLOR PALETTE
@@ -229,6 +229,35 @@ export function getSkyGradient(weather: RoadConditions['weather']): GradientStop
   ];
 }
 
+/**
+ * Sky gradient with each weather's colors weighted by its share of the mix
+ */
+export function getBlendedSkyGradient(mix: WeatherMix): GradientStop[] {
+  const weathers = Object.keys(mix) as Weather[];
+  const blend = (color: (weather: Weather) => number) =>
+    mixColors(weathers.map(weather => [color(weather), mix[weather]]));
+  const sky = blend(weather => WEATHER_COLORS[weather].sky);
+  const horizon = blend(weather => WEATHER_COLORS[weather].horizon);
+
+  return [
+    { position: 0, color: sky, alpha: 1 },
+    { position: 0.7, color: horizon, alpha: 0.9 },
+    { position: 1, color: horizon, alpha: 0.7 },
+  ];
+}
+
+// Weighted average of colors, channel by channel
+function mixColors(weighted: [number, number][]): number {
+  const total = weighted.reduce((sum, [, weight]) => sum + weight, 0) || 1;
+  let r = 0, g = 0, b = 0;
+  for (const [color, weight] of weighted) {
+    r += ((color >> 16) & 0xff) * weight;
+    g += ((color >> 8) & 0xff) * weight;
+    b += (color & 0xff) * weight;
+  }
+  return (Math.round(r / total) << 16) | (Math.round(g / total) << 8) | Math.round(b / total);
+}
+
 export function getFogStyle(visibility: number): VectorStyle {
   // Less visibility = more opaque fog
   const fogAlpha = Math.max(0, 0.8 - visibility * 0.8);
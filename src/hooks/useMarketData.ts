@@ -1,7 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
-import type { ChartCandle, RawMarketData, MarketDataset, ProcessedCandle } from '../types';
-
-const MARKET_DATASETS = ['sp500', 'bitcoin', 'meme_stock', 'steady_growth', 'crash_2008', 'covid_2020'];
+import type { ChartCandle, DatasetEntry, RawMarketData, MarketDataset } from '../types';
+import { fetchDatasetsManifest, fetchMarketData, getDatasetEntries, getNextDatasetKey } from '../engine/datasetRegistry';
+import { toChartCandle, toMarketDataset } from '../engine/marketData';
 
 export function useMarketData(initialDataset: string = 'sp500') {
   const [currentDataset, setCurrentDataset] = useState(initialDataset);
@@ -9,83 +9,13 @@ export function useMarketData(initialDataset: string = 'sp500') {
   const [rawData, setRawData] = useState<MarketDataset | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [datasets, setDatasets] = useState<DatasetEntry[]>([]);
 
-  // Process raw market data
-  const processData = useCallback((raw: RawMarketData): MarketDataset => {
-    const data = raw.data;
-    const processed: ProcessedCandle[] = [];
-
-    for (let i = 0; i < data.length; i++) {
-      const candle = data[i];
-      const prevClose = i > 0 ? data[i - 1].close : candle.open;
-
-      const dailyReturn = ((candle.close - prevClose) / prevClose) * 100;
-      const intradayVolatility = ((candle.high - candle.low) / candle.open) * 100;
-      const trueRange = Math.max(
-        candle.high - candle.low,
-        i > 0 ? Math.abs(candle.high - prevClose) : 0,
-        i > 0 ? Math.abs(candle.low - prevClose) : 0
-      );
-
-      processed.push({
-        ...candle,
-        dailyReturn,
-        intradayVolatility,
-        trueRange,
-        rollingVolatility: intradayVolatility,
-        index: i,
-      });
-    }
-
-    // Calculate rolling volatility
-    const windowSize = 20;
-    for (let i = windowSize - 1; i < processed.length; i++) {
-      let sum = 0;
-      for (let j = i - windowSize + 1; j <= i; j++) {
-        sum += Math.pow(processed[j].dailyReturn, 2);
-      }
-      processed[i].rollingVolatility = Math.sqrt(sum / windowSize);
-    }
-
-    // Calculate stats
-    const returns = processed.map((d) => d.dailyReturn);
-    const volatilities = processed.map((d) => d.intradayVolatility);
-    const avg = (arr: number[]) => arr.reduce((a, b) => a + b, 0) / arr.length;
-    const stdDev = (arr: number[]) => {
-      const mean = avg(arr);
-      return Math.sqrt(avg(arr.map((v) => Math.pow(v - mean, 2))));
-    };
-
-    return {
-      symbol: raw.symbol,
-      name: raw.name,
-      description: raw.description,
-      startDate: data[0]?.date,
-      endDate: data[data.length - 1]?.date,
-      totalDays: data.length,
-      data: processed,
-      stats: {
-        avgReturn: avg(returns),
-        maxReturn: Math.max(...returns),
-        minReturn: Math.min(...returns),
-        stdReturn: stdDev(returns),
-        avgVolatility: avg(volatilities),
-        maxVolatility: Math.max(...volatilities),
-        totalReturn: data.length > 0 ? ((data[data.length - 1].close - data[0].open) / data[0].open) * 100 : 0,
-      },
-    };
-  }, []);
-
-  // Convert to chart format
-  const toChartFormat = useCallback((data: ProcessedCandle[]): ChartCandle[] => {
-    return data.map((candle) => ({
-      date: new Date(candle.date),
-      open: candle.open,
-      high: candle.high,
-      low: candle.low,
-      close: candle.close,
-      volume: candle.volume,
-    }));
+  // Load the dataset registry
+  useEffect(() => {
+    fetchDatasetsManifest()
+      .then(manifest => setDatasets(getDatasetEntries(manifest)))
+      .catch(err => console.error('Error loading dataset list:', err));
   }, []);
 
   // Load dataset
@@ -95,17 +25,10 @@ export function useMarketData(initialDataset: string = 'sp500') {
       setError(null);
 
       try {
-        const path = key.includes('crash') || key.includes('covid') ? `/market/scenarios/${key}.json` : `/market/${key}.json`;
-
-        const response = await fetch(path);
-        if (!response.ok) {
-          throw new Error(`Failed to load dataset: ${key}`);
-        }
-
-        const raw: RawMarketData = await response.json();
-        const processed = processData(raw);
+        const raw = await fetchMarketData(key);
+        const processed = toMarketDataset(raw);
         setRawData(processed);
-        setChartData(toChartFormat(processed.data));
+        setChartData(processed.data.map(candle => toChartCandle(candle)));
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load market data');
         console.error('Error loading market data:', err);
@@ -113,7 +36,18 @@ export function useMarketData(initialDataset: string = 'sp500') {
         setIsLoading(false);
       }
     },
-    [processData, toChartFormat]
+    []
+  );
+
+  // Use market data imported from a file (already parsed and validated)
+  const importData = useCallback(
+    (raw: RawMarketData) => {
+      const processed = toMarketDataset(raw);
+      setError(null);
+      setRawData(processed);
+      setChartData(processed.data.map(candle => toChartCandle(candle)));
+    },
+    []
   );
 
   // Load initial dataset
@@ -123,11 +57,10 @@ export function useMarketData(initialDataset: string = 'sp500') {
 
   // Cycle to next dataset
   const cycleDataset = useCallback(() => {
-    const currentIdx = MARKET_DATASETS.indexOf(currentDataset);
-    const nextIdx = (currentIdx + 1) % MARKET_DATASETS.length;
-    setCurrentDataset(MARKET_DATASETS[nextIdx]);
-    return MARKET_DATASETS[nextIdx];
-  }, [currentDataset]);
+    const nextKey = getNextDatasetKey(datasets, currentDataset);
+    setCurrentDataset(nextKey);
+    return nextKey;
+  }, [datasets, currentDataset]);
 
   return {
     currentDataset,
@@ -137,7 +70,9 @@ export function useMarketData(initialDataset: string = 'sp500') {
     isLoading,
     error,
     cycleDataset,
-    availableDatasets: MARKET_DATASETS,
+    importData,
+    datasets,
+    availableDatasets: datasets.map(entry => entry.key),
   };
 }
 
@@ -0,0 +1,93 @@
+/**
+ * Hedge Estimator
+ *
+ * Measures how the traded asset moves with the benchmark index over a rolling
+ * window of daily returns:
+ * - Beta: the asset's sensitivity to the index, which is also the hedge ratio
+ *   that minimizes the variance of a long asset / short index book
+ * - Correlation: how consistently the two move together (-1 to 1)
+ * - R²: hedge effectiveness, the share of the asset's variance a beta-sized
+ *   index short removes
+ */
+
+export interface HedgeEstimate {
+  beta: number;           // Minimum-variance hedge ratio
+  correlation: number;    // -1 to 1
+  rSquared: number;       // 0-1 hedge effectiveness
+  samples: number;        // Return pairs in the window
+}
+
+// Bars of history in the rolling window, and the fewest usable return pairs
+export const HEDGE_ESTIMATE_WINDOW = 60;
+export const MIN_ESTIMATE_SAMPLES = 10;
+
+/**
+ * Estimate beta, correlation and R² from paired return series.
+ * Null when there are too few pairs or the benchmark did not move.
+ */
+export function estimateHedge(assetReturns: number[], benchmarkReturns: number[]): HedgeEstimate | null {
+  const n = Math.min(assetReturns.length, benchmarkReturns.length);
+  if (n < MIN_ESTIMATE_SAMPLES) return null;
+
+  let assetMean = 0;
+  let benchmarkMean = 0;
+  for (let i = 0; i < n; i++) {
+    assetMean += assetReturns[i];
+    benchmarkMean += benchmarkReturns[i];
+  }
+  assetMean /= n;
+  benchmarkMean /= n;
+
+  let covariance = 0;
+  let assetVariance = 0;
+  let benchmarkVariance = 0;
+  for (let i = 0; i < n; i++) {
+    const a = assetReturns[i] - assetMean;
+    const b = benchmarkReturns[i] - benchmarkMean;
+    covariance += a * b;
+    assetVariance += a * a;
+    benchmarkVariance += b * b;
+  }
+
+  if (benchmarkVariance === 0) return null;
+
+  const beta = covariance / benchmarkVariance;
+  const correlation = assetVariance === 0 ? 0 : covariance / Math.sqrt(assetVariance * benchmarkVariance);
+  return { beta, correlation, rSquared: correlation * correlation, samples: n };
+}
+
+/**
+ * Estimate over the window of bars ending at endIndex.
+ * Bars where either return is missing (e.g. before the benchmark starts) are skipped.
+ */
+export function estimateRollingHedge(
+  assetReturns: (number | null)[],
+  benchmarkReturns: (number | null)[],
+  endIndex: number,
+  window: number = HEDGE_ESTIMATE_WINDOW
+): HedgeEstimate | null {
+  const asset: number[] = [];
+  const benchmark: number[] = [];
+
+  for (let i = Math.max(0, endIndex - window + 1); i <= endIndex; i++) {
+    const a = assetReturns[i];
+    const b = benchmarkReturns[i];
+    if (a === null || a === undefined || b === null || b === undefined) continue;
+    asset.push(a);
+    benchmark.push(b);
+  }
+
+  return estimateHedge(asset, benchmark);
+}
+
+/**
+ * Percent close-to-close returns (the ProcessedCandle.dailyReturn convention).
+ * The first bar, and any bar next to a missing price, has no return.
+ */
+export function getDailyReturns(prices: (number | null)[]): (number | null)[] {
+  return prices.map((price, i) => {
+    const prev = i > 0 ? prices[i - 1] : null;
+    if (price === null || prev === null || prev === 0) return null;
+    return ((price - prev) / prev) * 100;
+  });
+}
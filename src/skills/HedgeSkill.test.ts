@@ -23,6 +23,12 @@ import {
   type HedgeState,
   type SkillState,
 } from './types';
+import {
+  estimateHedge,
+  estimateRollingHedge,
+  getDailyReturns,
+  type HedgeEstimate,
+} from './HedgeEstimator';
 
 // ============================================
 // TEST FIXTURES
@@ -54,6 +60,69 @@ function createActiveHedge(overrides: Partial<HedgeState> = {}): HedgeState {
   };
 }
 
+function createEstimate(overrides: Partial<HedgeEstimate> = {}): HedgeEstimate {
+  return {
+    beta: 1.2,
+    correlation: 0.9,
+    rSquared: 0.81,
+    samples: 60,
+    ...overrides,
+  };
+}
+
+// Alternating benchmark returns (%), with the asset moving `beta` times as much
+function createReturnSeries(length: number, beta: number): { asset: number[]; benchmark: number[] } {
+  const benchmark = Array.from({ length }, (_, i) => (i % 2 === 0 ? 1 : -0.6) * (1 + (i % 3) / 10));
+  return { asset: benchmark.map(r => r * beta), benchmark };
+}
+
+// ============================================
+// HEDGE ESTIMATOR TESTS
+// ============================================
+
+describe('Hedge Estimator', () => {
+  it('should measure beta, correlation and R² of a perfectly tracking asset', () => {
+    const { asset, benchmark } = createReturnSeries(30, 1.5);
+    const estimate = estimateHedge(asset, benchmark)!;
+
+    expect(estimate.beta).toBeCloseTo(1.5);
+    expect(estimate.correlation).toBeCloseTo(1);
+    expect(estimate.rSquared).toBeCloseTo(1);
+    expect(estimate.samples).toBe(30);
+  });
+
+  it('should lower R² when the asset has its own noise', () => {
+    const { asset, benchmark } = createReturnSeries(30, 1);
+    const noisy = asset.map((r, i) => r + (i % 4 < 2 ? 0.8 : -0.8));
+    const estimate = estimateHedge(noisy, benchmark)!;
+
+    expect(estimate.rSquared).toBeGreaterThan(0);
+    expect(estimate.rSquared).toBeLessThan(0.9);
+  });
+
+  it('should need enough samples and a moving benchmark', () => {
+    const { asset, benchmark } = createReturnSeries(5, 1);
+    expect(estimateHedge(asset, benchmark)).toBeNull();
+    expect(estimateHedge(Array(20).fill(1), Array(20).fill(0.5))).toBeNull();
+  });
+
+  it('should only use the window ending at the given bar, skipping missing returns', () => {
+    const { asset, benchmark } = createReturnSeries(40, 2);
+    // Earlier history at a different beta falls outside the window
+    const history = [...asset.map(r => r / 2), ...asset];
+    const benchmarkHistory: (number | null)[] = [...benchmark, ...benchmark];
+    benchmarkHistory[50] = null;
+
+    const estimate = estimateRollingHedge(history, benchmarkHistory, 79, 30)!;
+    expect(estimate.beta).toBeCloseTo(2);
+    expect(estimate.samples).toBe(29);
+  });
+
+  it('should convert prices to percent daily returns', () => {
+    expect(getDailyReturns([100, 110, null, 99, 99])).toEqual([null, 10, null, null, 0]);
+  });
+});
+
 // ============================================
 // HEDGE ACTIVATION TESTS
 // ============================================
@@ -293,6 +362,101 @@ describe('Hedge Activation', () => {
 
       expect(result.newState.activeHedges![0].entryPrice).toBe(150);
     });
+
+    it('should open the hedge at the index price when one is given', () => {
+      const result = activateHedge({
+        hedgeType: 'basic',
+        currentPrice: 150,
+        positionValue: 5000,
+        portfolioValue: 10000,
+        currentTick: 10,
+        skillState: createTestSkillState(),
+        indexPrice: 4800,
+      });
+
+      expect(result.newState.activeHedges![0].entryPrice).toBe(4800);
+      expect(result.newPosition?.entryPrice).toBe(4800);
+    });
+
+    it('should scale hedge size by the asset beta', () => {
+      const result = activateHedge({
+        hedgeType: 'basic',
+        currentPrice: 100,
+        positionValue: 5000,
+        portfolioValue: 10000,
+        currentTick: 10,
+        skillState: createTestSkillState(),
+        assetBeta: 2,
+      });
+
+      // 5000 * 0.7 * 2 = 7000
+      expect(result.newState.activeHedges![0].hedgeSize).toBeCloseTo(7000);
+      expect(result.newState.activeHedges![0].beta).toBe(0.7);
+      expect(result.newState.activeHedges![0].assetBeta).toBe(2);
+    });
+
+    it('should fail when the asset does not move with the index', () => {
+      const result = activateHedge({
+        hedgeType: 'basic',
+        currentPrice: 100,
+        positionValue: 5000,
+        portfolioValue: 10000,
+        currentTick: 10,
+        skillState: createTestSkillState(),
+        assetBeta: -0.2,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.event.type).toBe('hedge_failed');
+      if (result.event.type === 'hedge_failed') {
+        expect(result.event.reason).toBe('uncorrelated');
+      }
+    });
+
+    it('should size dynamic hedges by the rolling beta', () => {
+      const result = activateHedge({
+        hedgeType: 'dynamic',
+        currentPrice: 100,
+        positionValue: 5000,
+        portfolioValue: 10000,
+        currentTick: 10,
+        skillState: createTestSkillState({ playerLevel: 15 }),
+        estimate: createEstimate({ beta: 1.2, rSquared: 0.64 }),
+      });
+
+      const hedge = result.newState.activeHedges![0];
+      expect(hedge.hedgeSize).toBeCloseTo(6000);
+      expect(hedge.beta).toBeCloseTo(1.2);
+      expect(hedge.coverage).toBeCloseTo(0.64);
+      expect(hedge.estimate?.rSquared).toBeCloseTo(0.64);
+    });
+
+    it('should fall back to the configured ratio without an estimate', () => {
+      const result = activateHedge({
+        hedgeType: 'dynamic',
+        currentPrice: 100,
+        positionValue: 5000,
+        portfolioValue: 10000,
+        currentTick: 10,
+        skillState: createTestSkillState({ playerLevel: 15 }),
+      });
+
+      expect(result.newState.activeHedges![0].hedgeSize).toBeCloseTo(5000 * HEDGE_CONFIGS.dynamic.beta);
+    });
+
+    it('should ignore the estimate for fixed hedges', () => {
+      const result = activateHedge({
+        hedgeType: 'basic',
+        currentPrice: 100,
+        positionValue: 5000,
+        portfolioValue: 10000,
+        currentTick: 10,
+        skillState: createTestSkillState(),
+        estimate: createEstimate({ beta: 2 }),
+      });
+
+      expect(result.newState.activeHedges![0].hedgeSize).toBeCloseTo(3500);
+    });
   });
 });
 
@@ -458,6 +622,59 @@ describe('Hedge Processing', () => {
       // Basic cooldown (5) - reduction (2) = 3, but min is 1
       expect(result.newState.hedgeCooldown).toBe(Math.max(1, HEDGE_CONFIGS.basic.cooldown - 2));
     });
+
+    it('should re-size active dynamic hedges to the rolling beta', () => {
+      const hedge = createActiveHedge({ type: 'dynamic', hedgeSize: 3750, costPaid: 22.5, remainingCandles: 5 });
+      const result = processHedges({
+        currentPrice: 100,
+        currentTick: 1,
+        skillState: createTestSkillState({ activeHedges: [hedge] }),
+        estimate: createEstimate({ beta: 1.2, rSquared: 0.7 }),
+        positionValue: 5000,
+      });
+
+      expect(result.hedgesToResize).toHaveLength(1);
+      const [resize] = result.hedgesToResize;
+      expect(resize.positionId).toBe(hedge.positionId);
+      expect(resize.hedgeSize).toBeCloseTo(6000);
+      expect(resize.change).toBeCloseTo(2250);
+      expect(resize.costPaid).toBeCloseTo(2250 * HEDGE_CONFIGS.dynamic.cost);
+
+      const updated = result.newState.activeHedges![0];
+      expect(updated.hedgeSize).toBeCloseTo(6000);
+      expect(updated.beta).toBeCloseTo(1.2);
+      expect(updated.coverage).toBeCloseTo(0.7);
+      expect(updated.costPaid).toBeCloseTo(22.5 + resize.costPaid);
+    });
+
+    it('should leave dynamic hedges alone for small changes or without an estimate', () => {
+      const hedge = createActiveHedge({ type: 'dynamic', hedgeSize: 6000 });
+      const skillState = createTestSkillState({ activeHedges: [hedge] });
+
+      const small = processHedges({
+        currentPrice: 100,
+        currentTick: 1,
+        skillState,
+        estimate: createEstimate({ beta: 1.22 }),
+        positionValue: 5000,
+      });
+      const unestimated = processHedges({ currentPrice: 100, currentTick: 1, skillState, positionValue: 5000 });
+
+      expect(small.hedgesToResize).toHaveLength(0);
+      expect(unestimated.hedgesToResize).toHaveLength(0);
+    });
+
+    it('should not re-size fixed hedges', () => {
+      const result = processHedges({
+        currentPrice: 100,
+        currentTick: 1,
+        skillState: createTestSkillState({ activeHedges: [createActiveHedge({ type: 'basic' })] }),
+        estimate: createEstimate({ beta: 2 }),
+        positionValue: 5000,
+      });
+
+      expect(result.hedgesToResize).toHaveLength(0);
+    });
   });
 });
 
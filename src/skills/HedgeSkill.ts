@@ -17,13 +17,16 @@ import type {
   HedgeFailedEvent,
 } from './types';
 import { HEDGE_CONFIGS, INITIAL_SKILL_STATE } from './types';
+import type { HedgeEstimate } from './HedgeEstimator';
+import { sharedIds } from '../engine/ids';
+import type { IdGenerator } from '../engine/ids';
 
 // ============================================
 // HEDGE POSITION ID GENERATION
 // ============================================
 
-function generateHedgePositionId(): string {
-  return `hedge_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+function generateHedgePositionId(ids: IdGenerator = sharedIds): string {
+  return ids.nextId('hedge');
 }
 
 // ============================================
@@ -37,17 +40,29 @@ export interface ActivateHedgeParams {
   portfolioValue: number;     // Total portfolio value
   currentTick: number;
   skillState: SkillState;
+  indexPrice?: number;        // Index price the hedge is opened at (defaults to currentPrice)
+  assetBeta?: number;         // Measured beta of the traded asset against the index
+  estimate?: HedgeEstimate;   // Rolling beta/correlation/R², sizes dynamic hedges
+  ids?: IdGenerator;          // Source of the hedge position ID (default: the shared generator)
+  now?: number;               // Time stamped on the skill message (default: the wall clock)
 }
 
 /**
  * Activate a hedge by opening a SHORT position on the index.
  *
- * The hedge size is calculated as: hedgeSize = positionValue * beta
+ * The hedge size is calculated as: hedgeSize = positionValue * beta * assetBeta
  *
  * For example, with beta = 0.7 and $10,000 in positions:
  * - Hedge size = $10,000 * 0.7 = $7,000 SHORT on index
  * - If market drops 10%, long positions lose $1,000
  * - But short hedge gains $700, net loss = $300 (70% protection)
+ *
+ * An asset with a measured beta of 1.5 moves 1.5x the index, so the same
+ * hedge shorts $10,500 of index. Without a measurement, assetBeta is 1.
+ *
+ * A dynamic hedge uses the rolling estimate's beta as its hedge ratio instead
+ * (the minimum-variance hedge), falling back to its configured ratio until
+ * there is enough history to estimate.
  */
 export function activateHedge(params: ActivateHedgeParams): HedgeResult {
   const {
@@ -57,9 +72,15 @@ export function activateHedge(params: ActivateHedgeParams): HedgeResult {
     portfolioValue,
     currentTick,
     skillState,
+    indexPrice = currentPrice,
+    assetBeta,
+    estimate,
+    ids,
+    now = Date.now(),
   } = params;
 
   const config = HEDGE_CONFIGS[hedgeType];
+  const dynamicEstimate = hedgeType === 'dynamic' ? estimate : undefined;
 
   // Check if hedge type is unlocked
   if (skillState.playerLevel < config.unlockLevel) {
@@ -113,8 +134,23 @@ export function activateHedge(params: ActivateHedgeParams): HedgeResult {
     };
   }
 
-  // Calculate hedge size based on position value and beta
-  const hedgeSize = Math.abs(positionValue) * config.beta;
+  // Shorting the index only offsets an asset that moves with it
+  const measuredBeta = dynamicEstimate?.beta ?? assetBeta;
+  if (measuredBeta !== undefined && measuredBeta <= 0) {
+    return {
+      success: false,
+      event: {
+        type: 'hedge_failed',
+        reason: 'uncorrelated',
+        message: `Asset does not move with the index (β=${measuredBeta.toFixed(2)})`,
+      },
+      newState: {},
+    };
+  }
+
+  // Calculate hedge size based on position value, hedge ratio and the asset's beta
+  const hedgeRatio = dynamicEstimate ? dynamicEstimate.beta : config.beta * (assetBeta ?? 1);
+  const hedgeSize = Math.abs(positionValue) * hedgeRatio;
   const hedgeSizeAsFraction = hedgeSize / portfolioValue;
 
   // Calculate transaction cost
@@ -135,22 +171,24 @@ export function activateHedge(params: ActivateHedgeParams): HedgeResult {
   }
 
   // Generate position ID for the short index position
-  const positionId = generateHedgePositionId();
+  const positionId = generateHedgePositionId(ids);
 
   // Create hedge state that tracks the position
   const newHedge: HedgeState = {
     isActive: true,
     type: hedgeType,
     positionId,
-    beta: config.beta,
+    beta: dynamicEstimate ? hedgeRatio : config.beta,
     hedgeSize,
-    entryPrice: currentPrice,
+    entryPrice: indexPrice,
+    assetBeta: dynamicEstimate?.beta ?? assetBeta,
+    estimate: dynamicEstimate,
     costPaid,
     remainingCandles: config.duration,
     activatedAt: currentTick,
     // Legacy fields
-    coverage: config.beta,
-    triggerPrice: currentPrice,
+    coverage: dynamicEstimate ? dynamicEstimate.rSquared : config.beta,
+    triggerPrice: indexPrice,
     payoutAccumulated: 0,
   };
 
@@ -162,11 +200,13 @@ export function activateHedge(params: ActivateHedgeParams): HedgeResult {
       direction: 'short',
       size: hedgeSizeAsFraction,
       sizeInDollars: hedgeSize,
-      entryPrice: currentPrice,
-      beta: config.beta,
+      entryPrice: indexPrice,
+      beta: newHedge.beta,
     },
     costPaid,
-    message: `${config.name} activated! SHORT $${hedgeSize.toFixed(0)} on index (β=${config.beta}) | Cost: $${costPaid.toFixed(0)} | Duration: ${config.duration} candles`,
+    message: dynamicEstimate
+      ? `${config.name} activated! SHORT $${hedgeSize.toFixed(0)} on index (β=${dynamicEstimate.beta.toFixed(2)}, R²=${dynamicEstimate.rSquared.toFixed(2)}) | Cost: $${costPaid.toFixed(0)} | Duration: ${config.duration} candles`
+      : `${config.name} activated! SHORT $${hedgeSize.toFixed(0)} on index (β=${config.beta}${assetBeta !== undefined ? `, asset β=${assetBeta.toFixed(2)}` : ''}) | Cost: $${costPaid.toFixed(0)} | Duration: ${config.duration} candles`,
   };
 
   return {
@@ -175,7 +215,7 @@ export function activateHedge(params: ActivateHedgeParams): HedgeResult {
     newState: {
       activeHedges: [...skillState.activeHedges, newHedge],
       lastSkillMessage: event.message,
-      lastSkillMessageTime: Date.now(),
+      lastSkillMessageTime: now,
     },
     // Position to be created by AppStateProvider
     newPosition: {
@@ -184,8 +224,8 @@ export function activateHedge(params: ActivateHedgeParams): HedgeResult {
       instrument: 'index',
       size: hedgeSizeAsFraction,
       sizeInDollars: hedgeSize,
-      entryPrice: currentPrice,
-      beta: config.beta,
+      entryPrice: indexPrice,
+      beta: newHedge.beta,
       isHedge: true,
     },
   };
@@ -201,20 +241,37 @@ export interface ProcessHedgeParams {
   skillState: SkillState;
   // Callback to get position P&L
   getPositionPnL?: (positionId: string) => number;
+  // Rolling estimate and current value of the hedged positions, for re-sizing dynamic hedges
+  estimate?: HedgeEstimate;
+  positionValue?: number;
+  now?: number;                 // Time stamped on the skill message (default: the wall clock)
+}
+
+export interface HedgeResize {
+  positionId: string;
+  hedgeSize: number;            // New hedge size in $
+  change: number;               // $ added (positive) or removed (negative)
+  costPaid: number;             // Transaction cost on the change
 }
 
 export interface ProcessHedgeResult {
   hedgesToClose: string[];      // Position IDs to close
+  hedgesToResize: HedgeResize[];  // Position IDs to re-size to a new $ size
   hedgesExpired: HedgeState[];
   events: HedgeExpiredEvent[];
   newState: Partial<SkillState>;
 }
 
+// Dynamic hedges are only re-sized when the target moves by more than this share
+export const DYNAMIC_RESIZE_THRESHOLD = 0.05;
+
 /**
  * Process hedges each tick.
  *
  * The hedge position P&L is handled automatically by the position system.
- * This function only manages the duration countdown and triggers auto-close.
+ * This function manages the duration countdown and triggers auto-close.
+ * Active dynamic hedges are re-sized to the current rolling beta; the caller
+ * applies the size changes to the hedge positions.
  */
 export function processHedges(params: ProcessHedgeParams): ProcessHedgeResult {
   const {
@@ -222,9 +279,13 @@ export function processHedges(params: ProcessHedgeParams): ProcessHedgeResult {
     currentTick,
     skillState,
     getPositionPnL,
+    estimate,
+    positionValue,
+    now = Date.now(),
   } = params;
 
   const hedgesToClose: string[] = [];
+  const hedgesToResize: HedgeResize[] = [];
   const hedgesExpired: HedgeState[] = [];
   const events: HedgeExpiredEvent[] = [];
   const updatedHedges: HedgeState[] = [];
@@ -257,6 +318,16 @@ export function processHedges(params: ProcessHedgeParams): ProcessHedgeResult {
           : `Hedge closed with loss: $${realizedPnL.toFixed(0)} | Cost: $${hedge.costPaid.toFixed(0)} | Total cost: $${(hedge.costPaid - realizedPnL).toFixed(0)}`,
       });
     } else {
+      const resize = getDynamicResize(updatedHedge, skillState, estimate, positionValue);
+      if (resize) {
+        hedgesToResize.push(resize);
+        updatedHedge.hedgeSize = resize.hedgeSize;
+        updatedHedge.beta = estimate!.beta;
+        updatedHedge.assetBeta = estimate!.beta;
+        updatedHedge.estimate = estimate;
+        updatedHedge.coverage = estimate!.rSquared;
+        updatedHedge.costPaid += resize.costPaid;
+      }
       updatedHedges.push(updatedHedge);
     }
   }
@@ -274,17 +345,44 @@ export function processHedges(params: ProcessHedgeParams): ProcessHedgeResult {
 
   return {
     hedgesToClose,
+    hedgesToResize,
     hedgesExpired,
     events,
     newState: {
       activeHedges: updatedHedges,
       hedgeCooldown: newCooldown,
       lastSkillMessage: events.length > 0 ? events[events.length - 1].message : skillState.lastSkillMessage,
-      lastSkillMessageTime: events.length > 0 ? Date.now() : skillState.lastSkillMessageTime,
+      lastSkillMessageTime: events.length > 0 ? now : skillState.lastSkillMessageTime,
     },
   };
 }
 
+/**
+ * Target size change for a dynamic hedge, or null when it should stay as is
+ */
+function getDynamicResize(
+  hedge: HedgeState,
+  skillState: SkillState,
+  estimate: HedgeEstimate | undefined,
+  positionValue: number | undefined
+): HedgeResize | null {
+  if (hedge.type !== 'dynamic' || !estimate || positionValue === undefined) return null;
+  // A non-positive beta means the index no longer offsets the asset; keep the hedge until it expires
+  if (estimate.beta <= 0) return null;
+
+  const hedgeSize = Math.abs(positionValue) * estimate.beta;
+  const change = hedgeSize - hedge.hedgeSize;
+  if (Math.abs(change) <= hedge.hedgeSize * DYNAMIC_RESIZE_THRESHOLD) return null;
+
+  const effectiveCost = Math.max(0.001, HEDGE_CONFIGS.dynamic.cost - skillState.hedgeCostReduction);
+  return {
+    positionId: hedge.positionId,
+    hedgeSize,
+    change,
+    costPaid: Math.abs(change) * effectiveCost,
+  };
+}
+
 // ============================================
 // UTILITY FUNCTIONS
 // ============================================
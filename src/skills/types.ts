@@ -5,6 +5,8 @@
  * Each skill has costs, timing, and visual feedback.
  */
 
+import type { HedgeEstimate } from './HedgeEstimator';
+
 // ============================================
 // HEDGE SKILL TYPES
 // ============================================
@@ -34,7 +36,9 @@ export interface HedgeState {
   positionId: string;         // ID of the short index position
   beta: number;               // Beta used for sizing
   hedgeSize: number;          // Size of the short position (in $)
-  entryPrice: number;         // Price when hedge position opened
+  entryPrice: number;         // Index price when hedge position opened
+  assetBeta?: number;         // Measured beta of the hedged asset against the index
+  estimate?: HedgeEstimate;   // Rolling estimate a dynamic hedge was last sized from
   costPaid: number;           // Transaction cost paid
   remainingCandles: number;   // Candles until auto-close
   activatedAt: number;        // Tick when activated
@@ -82,8 +86,8 @@ export const HEDGE_CONFIGS: Record<HedgeType, HedgeConfig> = {
   dynamic: {
     type: 'dynamic',
     name: 'Dynamic Hedge',
-    description: 'Short index at 75% - balanced protection',
-    beta: 0.75,          // 75% hedge ratio
+    description: 'Short index at the rolling beta - re-sized every candle',
+    beta: 0.75,          // Hedge ratio until there is enough history to estimate beta
     coverage: 0.75,
     cost: 0.006,         // 0.6% transaction cost
     duration: 7,
@@ -174,7 +178,7 @@ export interface HedgeExpiredEvent {
 
 export interface HedgeFailedEvent {
   type: 'hedge_failed';
-  reason: 'cooldown' | 'max_hedges' | 'no_position' | 'insufficient_funds' | 'locked';
+  reason: 'cooldown' | 'max_hedges' | 'no_position' | 'insufficient_funds' | 'locked' | 'uncorrelated';
   message: string;
 }
 
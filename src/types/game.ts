@@ -80,9 +80,16 @@ export interface RoadConditions {
   width: number;
 
   // Weather Condition (Market Regime)
-  weather: 'clear' | 'cloudy' | 'rainy' | 'stormy' | 'foggy';
+  weather: Weather;
+
+  // Share of each weather, from the regime probabilities
+  // The renderer blends these instead of switching weather at once
+  weatherMix: WeatherMix;
 }
 
+export type Weather = 'clear' | 'cloudy' | 'rainy' | 'stormy' | 'foggy';
+export type WeatherMix = Record<Weather, number>;
+
 // Candle Pattern for road shape generation
 export type CandlePattern =
   | 'bullish_engulfing'
@@ -121,6 +128,23 @@ export type PositionDirection = 'long' | 'short';
 // Instrument type - asset is the main traded instrument, index is for hedging
 export type InstrumentType = 'asset' | 'index';
 
+// Why a position was closed
+export type ExitReason = 'stop_loss' | 'take_profit' | 'trailing_stop' | 'manual' | 'margin_call';
+
+// Trailing stop distance: percent of price, or a multiple of ATR
+export type TrailingStopMode = 'percent' | 'atr';
+
+export interface TrailingStopConfig {
+  mode: TrailingStopMode;
+  distance: number;              // Percent (5 = 5%) or ATR multiple (2 = 2×ATR)
+}
+
+// Trailing stop attached to a position ("Shadow Trail" in CONCEPTS.md)
+export interface TrailingStop extends TrailingStopConfig {
+  extremePrice: number;          // Best price since the trail was set (high for longs, low for shorts)
+  level: number;                 // Current stop level - only moves in the position's favour
+}
+
 // Individual position in the portfolio
 export interface Position {
   id: string;                    // Unique identifier
@@ -134,12 +158,43 @@ export interface Position {
   unrealizedPnL: number;         // Current unrealized P&L in dollars
   unrealizedPnLPercent: number;  // Current unrealized P&L in percent
   leverage: number;              // Leverage applied to this position
+  symbol?: string;               // Ticker of the instrument held (unset = the loaded dataset)
 
   // Hedge-related fields
   instrument: InstrumentType;    // 'asset' for regular, 'index' for hedge positions
   isHedge: boolean;              // True if this is a hedge position
   beta?: number;                 // Beta used for hedge sizing (only for hedges)
   hedgesPositionId?: string;     // ID of the position this hedge protects (only for hedges)
+
+  // Exit management
+  trailingStop?: TrailingStop;   // Current trail level, for the chart and road renderer
+
+  fees?: number;                 // Entry commissions paid on the part still open
+  accruedCarry?: number;         // Margin interest and borrow fees paid while held ($)
+}
+
+// Margin requirements - initial margin is notional / leverage
+export interface MarginRules {
+  maintenanceRatio: number;      // Maintenance margin as a fraction of initial margin
+  graceBars: number;             // Bars allowed below maintenance before liquidation starts
+}
+
+// Stages of a margin call: warning first, then liquidation
+export type MarginEventType = 'margin_warning' | 'partial_liquidation' | 'full_liquidation';
+
+export interface MarginEvent {
+  type: MarginEventType;
+  tick: number;                  // Bar index of the event
+  equity: number;
+  maintenanceMargin: number;
+  barsRemaining: number;         // Grace bars left before liquidation (0 once liquidating)
+  liquidatedPositionIds: string[];
+}
+
+// Annual financing rates charged on held positions (0.08 = 8% a year)
+export interface CarryRates {
+  marginInterestRate: number;    // On the borrowed part of leveraged positions
+  shortBorrowRate: number;       // On the notional of short positions
 }
 
 // Portfolio state - tracks all positions and accumulated returns
@@ -157,6 +212,7 @@ export interface PortfolioState {
   totalExposure: number;         // Sum of all position sizes (0-1+)
   totalUnrealizedPnL: number;    // Sum of all unrealized P&L
   totalRealizedPnL: number;      // Sum of all realized P&L
+  totalCarry: number;            // Margin interest and borrow fees paid so far ($)
 
   // Performance tracking
   accumulatedReturn: number;     // Total return since start (percent)
@@ -168,8 +224,13 @@ export interface PortfolioState {
   peakEquity: number;            // Highest equity achieved
   recoveryNeeded: number;        // Percentage gain needed to recover from drawdown
 
+  // Margin
+  initialMargin: number;         // Collateral behind open positions (notional / leverage)
+  maintenanceMargin: number;     // Equity needed to avoid a margin call
+  marginCallBars: number;        // Consecutive bars below maintenance (0 = healthy)
+
   // Stress indicators (with loss aversion)
-  marginUsage: number;           // How much margin is being used
+  marginUsage: number;           // Maintenance margin / equity (1+ = below maintenance)
   stressLevel: number;           // 0-1 stress indicator (includes 2.25x loss aversion)
   rawStress: number;             // Raw stress before loss aversion applied
 
@@ -193,10 +254,14 @@ export interface ClosedPosition {
   realizedPnL: number;
   realizedPnLPercent: number;
   holdingPeriod: number;         // Number of bars held
+  symbol?: string;               // Ticker of the instrument held (unset = the loaded dataset)
 
   // Hedge-related fields
   instrument: InstrumentType;    // 'asset' for regular, 'index' for hedge positions
   isHedge: boolean;              // True if this was a hedge position
+
+  exitReason: ExitReason;        // What closed the position
+  fees: number;                  // Entry and exit commissions (already deducted from realizedPnL)
 }
 
 // Backtesting tick - represents one unit of time
@@ -205,6 +270,7 @@ export interface BacktestTick {
   timestamp: string;             // Current time
   price: number;                 // Current price
   portfolioValue: number;        // Portfolio value at this tick
+  benchmarkValue?: number;       // Buy-and-hold value of the benchmark at this tick (unset = not tracked)
   accumulatedReturn: number;     // Accumulated return at this tick
   roadHeight: number;            // Road height derived from accumulated return
 
@@ -224,6 +290,10 @@ export interface BacktestSummary {
   winRate: number;
   totalTrades: number;
   profitFactor: number;
+  benchmarkReturnPercent: number;
+  alpha: number;
+  beta: number;
+  informationRatio: number;
 }
 
 // Legacy single position state (for backwards compatibility)
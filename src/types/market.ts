@@ -45,15 +45,89 @@ export interface RawMarketData {
   data: OHLCVCandle[];
 }
 
+// ============================================
+// DATASET REGISTRY
+// ============================================
+
+export type DatasetDifficulty = 'easy' | 'medium' | 'hard' | 'extreme';
+export type DatasetCategory = 'index' | 'stock' | 'crypto' | 'scenario' | 'imported';
+
+export interface DatasetEntry {
+  key: string;
+  path: string;                 // Relative to the repository root (./assets/market/...), empty for imports
+  name: string;
+  symbol: string;
+  difficulty: DatasetDifficulty;
+  category: DatasetCategory;
+  description: string;
+  historicalEvent?: string;     // Scenarios: the event the data covers
+  dateRange?: string;           // Scenarios: e.g. '2008-09 to 2009-04'
+}
+
+// assets/market/datasets.json
+export interface DatasetsManifest {
+  version: string;
+  description: string;
+  lastUpdated: string;
+  dataSources: string[];
+  datasets: DatasetEntry[];
+  scenarios: DatasetEntry[];
+}
+
 export type MarketRegime = 'BULL' | 'BEAR' | 'CRASH' | 'CHOP' | 'RECOVERY';
 
-export interface MarketIndicators {
-  rsi: number;
-  atr: number;
-  volatility: number;
-  trend: number;
-  drawdown: number;
-  regime: MarketRegime;
+// Probability of each regime at a bar, summing to 1 (engine/regimeClassifier)
+export type RegimeProbabilities = Record<MarketRegime, number>;
+
+export interface MacdValues {
+  macd: number;                 // Fast EMA minus slow EMA
+  signal: number;               // EMA of the MACD line
+  histogram: number;            // MACD minus signal
+}
+
+export interface PriceBands {
+  upper: number;
+  middle: number;
+  lower: number;
+}
+
+export interface BollingerBands extends PriceBands {
+  bandwidth: number;            // Upper minus lower, % of the middle band
+}
+
+export interface AdxValues {
+  adx: number;                  // Trend strength, 0-100
+  plusDI: number;               // +DI, 0-100
+  minusDI: number;              // -DI, 0-100
+}
+
+export interface StochasticValues {
+  k: number;                    // %K: close within the period's range, 0-100
+  d: number;                    // %D: moving average of %K
+}
+
+// Standard technical indicators at a bar (engine/technicalIndicators)
+export interface TechnicalIndicators {
+  rsi: number;                  // Wilder RSI, 0-100
+  atr: number;                  // Wilder average true range, in price
+  sma: number;                  // Simple moving average of closes
+  emaFast: number;              // Exponential moving averages of closes
+  emaSlow: number;
+  macd: MacdValues;
+  bollinger: BollingerBands;
+  adx: AdxValues;
+  stochastic: StochasticValues;
+  obv: number;                  // On-balance volume
+  vwap: number;                 // Volume-weighted average price since the first bar
+  donchian: PriceBands;         // Highest high, lowest low and their midpoint
+}
+
+export interface MarketIndicators extends TechnicalIndicators {
+  volatility: number;           // Rolling volatility of daily returns, %
+  trend: number;                // % above or below the simple moving average
+  drawdown: number;             // % below the highest high so far
+  regime: MarketRegime;         // Most likely regime
+  regimeProbabilities: RegimeProbabilities;
 }
 
 // Chart data format for react-financial-charts
@@ -64,4 +138,5 @@ export interface ChartCandle {
   low: number;
   close: number;
   volume: number;
+  indicators?: MarketIndicators;   // At this bar, for indicator overlays
 }
@@ -13,6 +13,9 @@ import type {
   CarPhysics,
   RoadConditions,
   SkillState,
+  CarryRates,
+  MarginRules,
+  MarginEvent,
 } from './game';
 import { INITIAL_SKILL_STATE } from '../skills/types';
 
@@ -25,6 +28,7 @@ export interface CurrentMarketState {
   currentCandle: ProcessedCandle | null;
   currentPrice: number;
   currentReturn: number; // cumulative return from start (market return, not portfolio)
+  indexPrice: number | null; // benchmark index close aligned to this bar (null if not loaded)
 
   // Historical data for chart (up to current index)
   visibleCandles: ChartCandle[];
@@ -81,13 +85,15 @@ export interface BacktestEngineState {
 
   // Engine settings
   tickDuration: number;       // How long each tick represents (in days)
+  carryRates: CarryRates;     // Annual margin interest and short borrow rates
   maxLeverage: number;        // Maximum allowed leverage
-  marginCallLevel: number;    // Equity level that triggers margin call
+  marginRules: MarginRules;   // Maintenance requirement and grace period before liquidation
 
   // Flags
   isRunning: boolean;
   isPaused: boolean;
   isMarginCalled: boolean;
+  marginEvent: MarginEvent | null;  // Margin warning or liquidation on the latest tick
 }
 
 // ============================================
@@ -175,14 +181,26 @@ export const INITIAL_MARKET_STATE: CurrentMarketState = {
   currentCandle: null,
   currentPrice: 0,
   currentReturn: 0,
+  indexPrice: null,
   visibleCandles: [],
   indicators: {
     rsi: 50,
     atr: 0,
+    sma: 0,
+    emaFast: 0,
+    emaSlow: 0,
+    macd: { macd: 0, signal: 0, histogram: 0 },
+    bollinger: { upper: 0, middle: 0, lower: 0, bandwidth: 0 },
+    adx: { adx: 0, plusDI: 0, minusDI: 0 },
+    stochastic: { k: 50, d: 50 },
+    obv: 0,
+    vwap: 0,
+    donchian: { upper: 0, middle: 0, lower: 0 },
     volatility: 0,
     trend: 0,
     drawdown: 0,
     regime: 'CHOP',
+    regimeProbabilities: { BULL: 0, BEAR: 0, CRASH: 0, CHOP: 1, RECOVERY: 0 },
   },
   regime: 'CHOP',
   terrainSlope: 0,
@@ -219,6 +237,17 @@ export const INITIAL_ROAD_CONDITIONS: RoadConditions = {
   grip: 1.0,                // Full grip
   width: 1.0,               // Normal width
   weather: 'clear',         // Clear weather
+  weatherMix: { clear: 1, cloudy: 0, rainy: 0, stormy: 0, foggy: 0 },
+};
+
+export const DEFAULT_CARRY_RATES: CarryRates = {
+  marginInterestRate: 0.08, // 8% a year on borrowed money
+  shortBorrowRate: 0.03,    // 3% a year to borrow shares
+};
+
+export const DEFAULT_MARGIN_RULES: MarginRules = {
+  maintenanceRatio: 0.5,    // Keep at least half of the initial margin
+  graceBars: 3,             // 3 bars of warning before liquidation
 };
 
 export const INITIAL_PORTFOLIO_STATE: PortfolioState = {
@@ -230,12 +259,16 @@ export const INITIAL_PORTFOLIO_STATE: PortfolioState = {
   totalExposure: 0,
   totalUnrealizedPnL: 0,
   totalRealizedPnL: 0,
+  totalCarry: 0,
   accumulatedReturn: 0,
   accumulatedReturnDollar: 0,
   drawdown: 0,
   maxDrawdown: 0,
   peakEquity: 10000,
   recoveryNeeded: 0,        // No recovery needed
+  initialMargin: 0,
+  maintenanceMargin: 0,
+  marginCallBars: 0,
   marginUsage: 0,
   stressLevel: 0,
   rawStress: 0,
@@ -249,11 +282,13 @@ export const INITIAL_BACKTEST_STATE: BacktestEngineState = {
   portfolio: INITIAL_PORTFOLIO_STATE,
   tickHistory: [],
   tickDuration: 1,      // 1 day per tick
+  carryRates: DEFAULT_CARRY_RATES,
   maxLeverage: 3,       // Max 3x leverage
-  marginCallLevel: 0.2, // Margin call at 20% equity
+  marginRules: DEFAULT_MARGIN_RULES,
   isRunning: false,
   isPaused: true,
   isMarginCalled: false,
+  marginEvent: null,
 };
 
 export const INITIAL_PHYSICS_MODIFIERS: PhysicsModifiers = {